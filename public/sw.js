@@ -0,0 +1,52 @@
+// Service worker for Web Push. Shows notifications sent by the
+// send-push-notification edge function and opens the matching page when
+// one is clicked.
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener("push", (event) => {
+  if (!event.data) return;
+
+  let data;
+  try {
+    data = event.data.json();
+  } catch {
+    data = { title: "Berkeley Rides", body: event.data.text() };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || "Berkeley Rides", {
+      body: data.body,
+      icon: "/favicon.ico",
+      badge: "/favicon.ico",
+      tag: data.tag,
+      data: { url: data.url || "/notifications" },
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || "/notifications", self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windowClients) => {
+      // Reuse an open tab of the app if there is one
+      const client = windowClients.find((c) => new URL(c.url).origin === self.location.origin);
+      if (client) {
+        return client
+          .focus()
+          .then((focused) => focused.navigate(url))
+          // navigate() only works on tabs this worker controls
+          .catch(() => self.clients.openWindow(url));
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
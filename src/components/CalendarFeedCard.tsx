@@ -0,0 +1,235 @@
+import { useState, useEffect } from "react";
+import { supabase, SUPABASE_FUNCTIONS_URL } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "sonner";
+import { AlertTriangle, CalendarPlus, Copy, RefreshCw, Trash2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface CalendarFeedCardProps {
+  userId: string;
+}
+
+export const CalendarFeedCard = ({ userId }: CalendarFeedCardProps) => {
+  const [token, setToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [confirming, setConfirming] = useState<'reset' | 'revoke' | null>(null);
+  const [needsReconnect, setNeedsReconnect] = useState(false);
+  const [reconnecting, setReconnecting] = useState(false);
+
+  useEffect(() => {
+    fetchToken();
+    fetchGoogleConnection();
+  }, [userId]);
+
+  // The Google sign-in popup reports back from google-calendar-callback
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'CALENDAR_AUTH_SUCCESS') {
+        setReconnecting(false);
+        setNeedsReconnect(false);
+        toast.success("Google Calendar reconnected");
+      } else if (event.data?.type === 'CALENDAR_AUTH_ERROR') {
+        setReconnecting(false);
+        toast.error("Failed to reconnect Google Calendar");
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  const fetchToken = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('calendar_feed_tokens')
+        .select('token')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      setToken(data?.token ?? null);
+    } catch (error) {
+      toast.error("Failed to load calendar feed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Set by sync-google-calendar when the connection only allows reading, so
+  // joined rides can't be added until the member connects again
+  const fetchGoogleConnection = async () => {
+    const { data, error } = await supabase
+      .from('calendar_tokens')
+      .select('needs_reconnect')
+      .eq('user_id', userId)
+      .eq('provider', 'google')
+      .maybeSingle();
+
+    if (!error) setNeedsReconnect(data?.needs_reconnect ?? false);
+  };
+
+  const handleReconnect = async () => {
+    try {
+      setReconnecting(true);
+      const { data, error } = await supabase.functions.invoke('google-calendar-auth');
+      if (error) throw error;
+      window.open(data.authUrl, 'google-calendar-auth', 'width=500,height=600');
+    } catch (error) {
+      setReconnecting(false);
+      toast.error("Failed to reconnect Google Calendar");
+    }
+  };
+
+  const feedUrl = token ? `${SUPABASE_FUNCTIONS_URL}/calendar-feed?token=${token}` : null;
+  const webcalUrl = feedUrl?.replace(/^https?:\/\//, 'webcal://');
+
+  const handleReset = async () => {
+    setConfirming(null);
+    try {
+      setUpdating(true);
+      const { data, error } = await supabase.rpc('reset_calendar_feed_token');
+      if (error) throw error;
+      setToken(data);
+      toast.success(token ? "Calendar link reset" : "Calendar link created");
+    } catch (error) {
+      toast.error("Failed to create calendar link");
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    setConfirming(null);
+    try {
+      setUpdating(true);
+      const { error } = await supabase
+        .from('calendar_feed_tokens')
+        .delete()
+        .eq('user_id', userId);
+
+      if (error) throw error;
+      setToken(null);
+      toast.success("Calendar feed turned off");
+    } catch (error) {
+      toast.error("Failed to turn off calendar feed");
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast.success("Calendar link copied");
+    } catch (error) {
+      toast.error("Failed to copy link");
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Calendar Feed</CardTitle>
+        <CardDescription>
+          Subscribe from Google Calendar, Apple Calendar or Outlook to see every ride you've joined. Changes to a ride show up on the next refresh.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {needsReconnect && (
+          <div className="flex items-start gap-3 rounded-lg border border-destructive/50 p-3">
+            <AlertTriangle className="w-4 h-4 mt-0.5 text-destructive" />
+            <div className="flex-1 space-y-2">
+              <p className="text-sm">
+                Your Google Calendar connection can only read events, so rides you join aren't being added. Reconnect to let us add them.
+              </p>
+              <Button size="sm" variant="outline" onClick={handleReconnect} disabled={reconnecting}>
+                {reconnecting ? "Waiting for Google..." : "Reconnect Google Calendar"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : feedUrl ? (
+          <>
+            <div className="flex gap-2">
+              <Input value={feedUrl} readOnly aria-label="Calendar feed link" className="font-mono text-xs" />
+              <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy calendar link">
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Anyone with this link can see your rides. Reset it if you've shared it by mistake.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button asChild size="sm">
+                <a
+                  href={`https://calendar.google.com/calendar/render?cid=${encodeURIComponent(webcalUrl!)}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  <CalendarPlus className="w-4 h-4 mr-2" />
+                  Add to Google Calendar
+                </a>
+              </Button>
+              <Button asChild size="sm" variant="outline">
+                <a href={webcalUrl}>Open in Calendar App</a>
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setConfirming('reset')} disabled={updating}>
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Reset Link
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setConfirming('revoke')} disabled={updating} className="text-destructive">
+                <Trash2 className="w-4 h-4 mr-2" />
+                Revoke
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button onClick={handleReset} disabled={updating}>
+            <CalendarPlus className="w-4 h-4 mr-2" />
+            Create Calendar Link
+          </Button>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!confirming} onOpenChange={() => setConfirming(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirming === 'reset' ? 'Reset Calendar Link?' : 'Revoke Calendar Feed?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirming === 'reset'
+                ? 'Calendars subscribed to the current link will stop updating. You can subscribe again with the new link.'
+                : 'Calendars subscribed to this link will stop updating. You can create a new link at any time.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirming === 'reset' ? handleReset : handleRevoke}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {confirming === 'reset' ? 'Reset Link' : 'Revoke'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
@@ -1,5 +1,5 @@
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { UserPlus } from "lucide-react";
+import { UserPlus, Hourglass } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 interface Profile {
@@ -14,6 +14,9 @@ interface CapacityVisualizationProps {
   isDriver?: boolean;
   onSlotClick?: () => void;
   onMemberClick?: (userId: string) => void;
+  waitlistCount?: number;
+  /** 1-based position of the current user on the waitlist, if they're in line */
+  waitlistPosition?: number | null;
 }
 
 export const CapacityVisualization = ({
@@ -22,6 +25,8 @@ export const CapacityVisualization = ({
   isDriver = false,
   onSlotClick,
   onMemberClick,
+  waitlistCount = 0,
+  waitlistPosition = null,
 }: CapacityVisualizationProps) => {
   const emptySlots = Math.max(0, capacity - members.length);
   const displayMembers = members.slice(0, 6);
@@ -64,6 +69,18 @@ export const CapacityVisualization = ({
           <UserPlus className="h-5 w-5" />
         </button>
       ))}
+
+      {waitlistCount > 0 && (
+        <div className="flex items-center gap-1.5 text-xs text-muted-foreground basis-full mt-1">
+          <Hourglass className="h-3.5 w-3.5" />
+          <span>
+            {waitlistCount} on waitlist
+            {waitlistPosition && (
+              <span className="font-medium text-primary"> · You're #{waitlistPosition} in line</span>
+            )}
+          </span>
+        </div>
+      )}
     </div>
   );
 };
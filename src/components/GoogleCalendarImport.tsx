@@ -152,7 +152,8 @@ export const GoogleCalendarImport = ({ onEventsFetched }: GoogleCalendarImportPr
                 <h3 className="text-lg font-semibold">Import from Google Calendar</h3>
                 <p className="text-sm text-muted-foreground">
                     Connect your Google Calendar to automatically find events and rides.
-                    We'll fetch your events for the next 30 days.
+                    We'll fetch your events for the next 30 days, and add rides you join
+                    to your calendar.
                 </p>
             </div>
 
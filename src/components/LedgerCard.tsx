@@ -0,0 +1,283 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { ChevronDown, ChevronUp, ExternalLink, Scale } from "lucide-react";
+import { format } from "date-fns";
+import { formatAmount } from "@/lib/costSplit";
+import { LedgerBalance, SettleUpTransfer, buildLedger } from "@/lib/ledger";
+import { buildPaymentNote, buildPaymentOptions, normalizeVenmoUsername, venmoChargeLink } from "@/lib/paymentLinks";
+
+interface Counterparty {
+  id: string;
+  name: string;
+  photo: string | null;
+  venmo_username: string | null;
+  paypal_username: string | null;
+  zelle_handle: string | null;
+}
+
+// A suggested transfer the current user is part of, or an amount of 0 to
+// mark debts that already cancel out
+interface Settling {
+  counterpartyId: string;
+  amount: number;
+  iPay: boolean;
+}
+
+interface LedgerCardProps {
+  userId: string;
+}
+
+export const LedgerCard = ({ userId }: LedgerCardProps) => {
+  const [balances, setBalances] = useState<LedgerBalance[]>([]);
+  const [transfers, setTransfers] = useState<SettleUpTransfer[]>([]);
+  const [people, setPeople] = useState<Record<string, Counterparty>>({});
+  const [showDetails, setShowDetails] = useState(false);
+  const [settling, setSettling] = useState<Settling | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchLedger();
+
+    const channel = supabase
+      .channel(`ledger_${userId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'payment_confirmations'
+      }, () => fetchLedger())
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'uber_payments'
+      }, () => fetchLedger())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  const fetchLedger = async () => {
+    try {
+      const [{ data: entries, error }, { data: settleUps, error: settleUpsError }] = await Promise.all([
+        supabase.rpc('get_my_ledger_entries'),
+        supabase.rpc('get_my_settle_ups'),
+      ]);
+      if (error) throw error;
+      if (settleUpsError) throw settleUpsError;
+
+      const ledger = buildLedger(entries || [], userId);
+      const suggested = (settleUps || []).map(t => ({
+        fromUserId: t.from_user_id,
+        toUserId: t.to_user_id,
+        amount: t.amount,
+      }));
+      const ids = [...new Set([
+        ...ledger.map(b => b.counterpartyId),
+        ...suggested.map(t => (t.fromUserId === userId ? t.toUserId : t.fromUserId)),
+      ])];
+
+      if (ids.length > 0) {
+        const { data: profiles, error: profilesError } = await supabase
+          .from('profiles')
+          .select('id, name, photo, venmo_username, paypal_username, zelle_handle')
+          .in('id', ids);
+        if (profilesError) throw profilesError;
+        setPeople(Object.fromEntries(profiles?.map(p => [p.id, p]) || []));
+      }
+
+      setBalances(ledger);
+      setTransfers(suggested);
+    } catch (error) {
+      toast.error("Failed to load your ride balances");
+    }
+  };
+
+  const handleSettleUp = async () => {
+    if (!settling) return;
+
+    try {
+      setSubmitting(true);
+      const { error } = await supabase.rpc('settle_up', {
+        p_counterparty_id: settling.counterpartyId,
+        p_amount: settling.amount,
+      });
+      if (error) throw error;
+
+      toast.success(settling.amount === 0
+        ? "Marked your ride payments as even"
+        : `Settled up with ${people[settling.counterpartyId]?.name || 'member'}`);
+      setSettling(null);
+      fetchLedger();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to settle up");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (balances.length === 0 && transfers.length === 0) return null;
+
+  const nameOf = (id: string) => (id === userId ? 'You' : people[id]?.name || 'Member');
+  const rideCount = new Set(balances.flatMap(b => b.entries.map(e => e.ride_id))).size;
+  const note = buildPaymentNote(`settle-up for ${rideCount} ride${rideCount === 1 ? '' : 's'}`);
+
+  const renderTransfer = (transfer: SettleUpTransfer) => {
+    const iPay = transfer.fromUserId === userId;
+    const counterpartyId = iPay ? transfer.toUserId : transfer.fromUserId;
+    const person = people[counterpartyId];
+    const name = person?.name || 'Member';
+    const payOption = iPay && person
+      ? buildPaymentOptions(person, transfer.amount, note).find(option => option.href)
+      : undefined;
+    const venmo = !iPay ? normalizeVenmoUsername(person?.venmo_username) : null;
+
+    return (
+      <div key={counterpartyId} className="rounded-lg border p-3">
+        <div className="flex items-center gap-3">
+          <Avatar className="h-9 w-9">
+            <AvatarImage src={person?.photo || undefined} />
+            <AvatarFallback>{name.split(' ').map(n => n[0]).join('')}</AvatarFallback>
+          </Avatar>
+          <p className="flex-1 min-w-0 font-medium truncate">{name}</p>
+          {iPay
+            ? <p className="font-semibold text-destructive">you pay {formatAmount(transfer.amount)}</p>
+            : <p className="font-semibold text-green-600">pays you {formatAmount(transfer.amount)}</p>}
+        </div>
+
+        <div className="flex flex-wrap gap-2 mt-3">
+          {payOption?.href && (
+            <Button size="sm" asChild>
+              <a href={payOption.href} target="_blank" rel="noopener noreferrer">
+                Pay {formatAmount(transfer.amount)} via {payOption.label}
+                <ExternalLink className="ml-1 h-3 w-3" />
+              </a>
+            </Button>
+          )}
+          {venmo && (
+            <Button size="sm" asChild>
+              <a href={venmoChargeLink(venmo, transfer.amount, note)} target="_blank" rel="noopener noreferrer">
+                Request {formatAmount(transfer.amount)}
+                <ExternalLink className="ml-1 h-3 w-3" />
+              </a>
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setSettling({ counterpartyId, amount: transfer.amount, iPay })}
+          >
+            Mark Settled
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  const evenCounterparty = transfers.length === 0
+    ? balances[0]?.counterpartyId
+    : undefined;
+
+  return (
+    <>
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5 text-primary" />
+            Balances
+          </CardTitle>
+          <CardDescription>
+            What you and your ride companions still owe each other, netted across every ride you've shared, in as few payments as possible
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {transfers.map(renderTransfer)}
+
+          {evenCounterparty && (
+            <div className="flex items-center justify-between gap-2 rounded-lg border p-3">
+              <p className="text-sm text-muted-foreground">Your open ride payments all cancel out.</p>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setSettling({ counterpartyId: evenCounterparty, amount: 0, iPay: false })}
+              >
+                Mark Even
+              </Button>
+            </div>
+          )}
+
+          {balances.length > 0 && (
+            <div>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setShowDetails(!showDetails)}
+              >
+                Open payments
+                {showDetails
+                  ? <ChevronUp className="ml-1 h-3 w-3" />
+                  : <ChevronDown className="ml-1 h-3 w-3" />}
+              </Button>
+
+              {showDetails && (
+                <div className="mt-2 space-y-3 text-sm">
+                  {balances.map((balance) => (
+                    <div key={balance.counterpartyId} className="space-y-1">
+                      <p className="font-medium">{nameOf(balance.counterpartyId)}</p>
+                      {balance.entries.map((entry) => (
+                        <div key={`${entry.uber_payment_id}-${entry.debtor_id}`} className="flex justify-between gap-2">
+                          <span className="text-muted-foreground truncate">
+                            {entry.event_name} · {format(new Date(entry.event_date), 'MMM d')}
+                          </span>
+                          <span className={entry.creditor_id === userId ? 'text-green-600' : 'text-destructive'}>
+                            {entry.creditor_id === userId ? '+' : '−'}{formatAmount(entry.amount)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!settling} onOpenChange={(open) => !open && setSettling(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{settling?.amount === 0 ? 'Mark as Even?' : 'Mark as Settled?'}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {settling && (settling.amount === 0
+                ? 'Your open payments with your ride companions cancel out. '
+                : settling.iPay
+                  ? `Only do this once you've paid ${nameOf(settling.counterpartyId)} ${formatAmount(settling.amount)}. `
+                  : `Only do this once ${nameOf(settling.counterpartyId)} has paid you ${formatAmount(settling.amount)}. `)}
+              Once your balance is even, your open payments are confirmed and their reminders stop.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={submitting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleSettleUp} disabled={submitting}>
+              {submitting ? "Settling..." : settling?.amount === 0 ? "Mark Even" : "Mark Settled"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
@@ -0,0 +1,236 @@
+import { useState, useEffect, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronUp, Navigation } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { distanceInMeters, formatDistance } from "@/lib/geo";
+import { RideLocationContext, isLiveLocationOpen, liveLocationWindow } from "@/lib/rideLocation";
+import { RideLocationMap } from "@/components/RideLocationMap";
+
+// Positions are sent at most this often, unless the member has moved further
+// than MIN_MOVE_METERS since the last one
+const SEND_INTERVAL_MS = 15000;
+const MIN_MOVE_METERS = 15;
+// Only mention the window this far ahead of it opening
+const UPCOMING_NOTICE_MS = 60 * 60 * 1000;
+
+interface LiveLocation {
+  user_id: string;
+  latitude: number;
+  longitude: number;
+  updated_at: string;
+}
+
+interface LiveLocationPanelProps {
+  rideId: string;
+  currentUserId: string;
+  context: RideLocationContext;
+  memberNames: Map<string, string>;
+}
+
+export const LiveLocationPanel = ({ rideId, currentUserId, context, memberNames }: LiveLocationPanelProps) => {
+  const [now, setNow] = useState(() => new Date());
+  const [locations, setLocations] = useState<LiveLocation[]>([]);
+  const [sharing, setSharing] = useState(false);
+  const [expanded, setExpanded] = useState(true);
+  const watchIdRef = useRef<number | null>(null);
+  const lastSentRef = useRef<{ at: number; latitude: number; longitude: number } | null>(null);
+
+  const windowOpen = isLiveLocationOpen(context.departureTime, now);
+  const { opensAt, closesAt } = liveLocationWindow(context.departureTime);
+
+  // Opens and closes the window without a reload
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!windowOpen) return;
+
+    fetchLocations();
+
+    const channel = supabase
+      .channel(`ride-location-${rideId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'ride_live_locations',
+          filter: `ride_id=eq.${rideId}`,
+        },
+        () => fetchLocations()
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'ride_live_locations',
+          filter: `ride_id=eq.${rideId}`,
+        },
+        () => fetchLocations()
+      )
+      // Realtime can't filter deletes, so any ride's member stopping triggers a refetch
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'ride_live_locations' },
+        () => fetchLocations()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [rideId, windowOpen]);
+
+  // Sharing ends with the window, and when the chat is closed
+  useEffect(() => {
+    if (!windowOpen && sharing) stopSharing();
+  }, [windowOpen]);
+
+  useEffect(() => () => {
+    if (watchIdRef.current !== null) {
+      navigator.geolocation.clearWatch(watchIdRef.current);
+      supabase.from('ride_live_locations').delete().eq('ride_id', rideId).eq('user_id', currentUserId).then(() => {});
+    }
+  }, [rideId, currentUserId]);
+
+  const fetchLocations = async () => {
+    const { data } = await supabase
+      .from('ride_live_locations')
+      .select('user_id, latitude, longitude, updated_at')
+      .eq('ride_id', rideId);
+
+    setLocations(data || []);
+  };
+
+  const sendPosition = async (position: GeolocationPosition) => {
+    const { latitude, longitude, accuracy } = position.coords;
+    const last = lastSentRef.current;
+    if (
+      last &&
+      Date.now() - last.at < SEND_INTERVAL_MS &&
+      distanceInMeters(last, { latitude, longitude }) < MIN_MOVE_METERS
+    ) {
+      return;
+    }
+
+    lastSentRef.current = { at: Date.now(), latitude, longitude };
+    const { error } = await supabase
+      .from('ride_live_locations')
+      .upsert({
+        ride_id: rideId,
+        user_id: currentUserId,
+        latitude,
+        longitude,
+        accuracy_meters: accuracy,
+      }, { onConflict: 'ride_id,user_id' });
+
+    if (error) {
+      toast.error(error.message);
+      stopSharing();
+    }
+  };
+
+  const startSharing = () => {
+    if (!navigator.geolocation) {
+      toast.error("Location isn't available in this browser");
+      return;
+    }
+
+    lastSentRef.current = null;
+    watchIdRef.current = navigator.geolocation.watchPosition(
+      sendPosition,
+      () => {
+        toast.error("Couldn't get your location");
+        stopSharing();
+      },
+      { enableHighAccuracy: true, maximumAge: 10000 }
+    );
+    setSharing(true);
+  };
+
+  const stopSharing = async () => {
+    if (watchIdRef.current !== null) {
+      navigator.geolocation.clearWatch(watchIdRef.current);
+      watchIdRef.current = null;
+    }
+    setSharing(false);
+
+    await supabase
+      .from('ride_live_locations')
+      .delete()
+      .eq('ride_id', rideId)
+      .eq('user_id', currentUserId);
+    fetchLocations();
+  };
+
+  if (!windowOpen) {
+    const untilOpen = opensAt.getTime() - now.getTime();
+    if (untilOpen <= 0 || untilOpen > UPCOMING_NOTICE_MS) return null;
+
+    return (
+      <p className="px-6 py-2 border-b text-xs text-muted-foreground">
+        Live location sharing opens at {format(opensAt, 'h:mm a')}
+      </p>
+    );
+  }
+
+  const nameFor = (userId: string) =>
+    userId === currentUserId ? 'You' : memberNames.get(userId)?.split(' ')[0] || 'Member';
+
+  return (
+    <div className="border-b px-6 py-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <button
+          type="button"
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center gap-1 text-sm font-medium"
+        >
+          {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          Live locations
+          <span className="font-normal text-muted-foreground">({locations.length} sharing)</span>
+        </button>
+        <Button size="sm" variant={sharing ? 'outline' : 'default'} onClick={sharing ? stopSharing : startSharing}>
+          <Navigation className="h-4 w-4 mr-1" />
+          {sharing ? 'Stop sharing' : 'Share my location'}
+        </Button>
+      </div>
+
+      {expanded && (
+        <>
+          {(locations.length > 0 || context.meetingPoint) && (
+            <RideLocationMap
+              className="h-40 w-full"
+              meetingPoint={context.meetingPoint}
+              markers={locations.map(location => ({
+                id: location.user_id,
+                latitude: location.latitude,
+                longitude: location.longitude,
+                label: nameFor(location.user_id),
+                isSelf: location.user_id === currentUserId,
+              }))}
+            />
+          )}
+          {locations.length > 0 && (
+            <ul className="space-y-0.5 text-xs text-muted-foreground">
+              {locations.map(location => (
+                <li key={location.user_id}>
+                  <span className="font-medium text-foreground">{nameFor(location.user_id)}</span>
+                  {context.meetingPoint && ` · ${formatDistance(distanceInMeters(location, context.meetingPoint))} from ${context.meetingPoint.name}`}
+                  {` · ${formatDistanceToNow(new Date(location.updated_at), { addSuffix: true })}`}
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Only members of this ride can see shared locations. Sharing stops when you close the chat, and for everyone at {format(closesAt, 'h:mm a')}.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
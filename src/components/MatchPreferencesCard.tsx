@@ -0,0 +1,157 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Sparkles } from "lucide-react";
+import { toast } from "sonner";
+import { NEIGHBORHOODS } from "@/lib/geo";
+
+const ANY_MODE = "any";
+
+interface MatchPreferencesCardProps {
+  eventId: string;
+  eventDate: string;
+  currentUserId: string;
+  onMatched: () => void;
+}
+
+const calculateDefaultTime = (eventDate: string): string => {
+  const departureTime = new Date(new Date(eventDate).getTime() - 45 * 60 * 1000);
+  return departureTime.toTimeString().slice(0, 5);
+};
+
+export const MatchPreferencesCard = ({ eventId, eventDate, currentUserId, onMatched }: MatchPreferencesCardProps) => {
+  const [loading, setLoading] = useState(false);
+  const [interestId, setInterestId] = useState<string | null>(null);
+  const [preferences, setPreferences] = useState({
+    time: calculateDefaultTime(eventDate),
+    travelMode: ANY_MODE,
+    neighborhood: "",
+  });
+
+  useEffect(() => {
+    fetchPreferences();
+  }, [eventId, currentUserId]);
+
+  const fetchPreferences = async () => {
+    const { data } = await supabase
+      .from('event_interests')
+      .select('id, preferred_departure_time, travel_mode_preference, origin_neighborhood')
+      .eq('event_id', eventId)
+      .eq('user_id', currentUserId)
+      .maybeSingle();
+
+    if (!data) return;
+
+    setInterestId(data.id);
+    setPreferences({
+      time: data.preferred_departure_time
+        ? new Date(data.preferred_departure_time).toTimeString().slice(0, 5)
+        : calculateDefaultTime(eventDate),
+      travelMode: data.travel_mode_preference || ANY_MODE,
+      neighborhood: data.origin_neighborhood || "",
+    });
+  };
+
+  const handleFindGroup = async () => {
+    try {
+      setLoading(true);
+
+      const eventDay = new Date(eventDate).toISOString().split('T')[0];
+      const values = {
+        preferred_departure_time: new Date(`${eventDay}T${preferences.time}`).toISOString(),
+        travel_mode_preference: preferences.travelMode === ANY_MODE ? null : preferences.travelMode,
+        origin_neighborhood: preferences.neighborhood || null,
+      };
+
+      if (interestId) {
+        const { error } = await supabase
+          .from('event_interests')
+          .update(values)
+          .eq('id', interestId);
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('event_interests')
+          .insert({ event_id: eventId, user_id: currentUserId, ...values })
+          .select('id')
+          .single();
+        if (error) throw error;
+        setInterestId(data.id);
+      }
+
+      // Matching runs on a schedule and picks these preferences up next time
+      toast.success("Preferences saved! We'll suggest a group as soon as we find a match.");
+      onMatched();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save your preferences");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Sparkles className="w-4 h-4 text-primary" />
+          Find me a ride group
+        </CardTitle>
+        <CardDescription>
+          Tell us when and where you're leaving from and we'll propose a group with other attendees.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="match-time">Preferred Departure</Label>
+            <Input
+              id="match-time"
+              type="time"
+              value={preferences.time}
+              onChange={(e) => setPreferences({ ...preferences, time: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label>Travel Mode</Label>
+            <Select
+              value={preferences.travelMode}
+              onValueChange={(value) => setPreferences({ ...preferences, travelMode: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_MODE}>Either</SelectItem>
+                <SelectItem value="Rideshare (Uber/Lyft)">Rideshare (Uber/Lyft)</SelectItem>
+                <SelectItem value="Carpool (Student Driver)">Carpool (Student Driver)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Leaving From</Label>
+            <Select
+              value={preferences.neighborhood}
+              onValueChange={(value) => setPreferences({ ...preferences, neighborhood: value })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Neighborhood" />
+              </SelectTrigger>
+              <SelectContent>
+                {NEIGHBORHOODS.map((n) => (
+                  <SelectItem key={n} value={n}>{n}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <Button onClick={handleFindGroup} disabled={loading} className="w-full">
+          {loading ? "Saving..." : "Find Me a Group"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
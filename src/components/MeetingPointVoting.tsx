@@ -2,16 +2,48 @@ import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
-import { MapPin, Plus, X } from "lucide-react";
+import { Accessibility, ChevronDown, ChevronUp, Footprints, LocateFixed, MapPin, Plus, Trophy, X } from "lucide-react";
+import {
+  LatLng,
+  distanceInMeters,
+  formatDistance,
+  formatWalkingTime,
+  getNeighborhoodCoordinates,
+} from "@/lib/geo";
+
+interface MeetingPoint {
+  id: string;
+  name: string;
+  // Null for free-text options carried over from before the catalogue
+  latitude: number | null;
+  longitude: number | null;
+  accessibility_notes: string | null;
+}
+
+interface MemberOrigin {
+  userId: string;
+  name: string;
+  location: LatLng | null;
+}
 
-const DEFAULT_OPTIONS = [
-  "Haas Courtyard",
-  "Downtown Berkeley BART",
-  "Clark Kerr Campus"
-];
+interface TallyRound {
+  round: number;
+  counts: { meeting_point_id: string; name: string; votes: number }[];
+  eliminated: string | null;
+  winner: string | null;
+  tie_break: 'creator' | 'earliest_vote' | null;
+}
+
+interface Tally {
+  id: string;
+  winner_meeting_point_id: string | null;
+  previous_meeting_point_id: string | null;
+  ballot_count: number;
+  rounds: TallyRound[];
+  tie_break: 'creator' | 'earliest_vote' | null;
+}
 
 interface MeetingPointVotingProps {
   rideId: string;
@@ -20,189 +52,302 @@ interface MeetingPointVotingProps {
   onUpdate: () => void;
 }
 
+const mapsUrl = (point: MeetingPoint) =>
+  point.latitude !== null && point.longitude !== null
+    ? `https://www.google.com/maps?q=${point.latitude},${point.longitude}`
+    : `https://www.google.com/maps?q=${encodeURIComponent(point.name)}`;
+
+const TIE_BREAK_LABELS = {
+  creator: "the ride creator's ranking",
+  earliest_vote: "whichever got its first vote earliest",
+};
+
+const describeRound = (round: TallyRound) => {
+  const counts = round.counts.map(c => `${c.name} ${c.votes}`).join(' · ');
+  const nameOf = (id: string | null) => round.counts.find(c => c.meeting_point_id === id)?.name;
+  const outcome = round.winner
+    ? `${nameOf(round.winner)} wins`
+    : `${nameOf(round.eliminated)} eliminated`;
+  const tieBreak = round.tie_break ? ` (tie broken by ${TIE_BREAK_LABELS[round.tie_break]})` : '';
+  return `${counts} — ${outcome}${tieBreak}`;
+};
+
 export const MeetingPointVoting = ({
   rideId,
   currentMeetingPoint,
   onClose,
   onUpdate
 }: MeetingPointVotingProps) => {
-  const [options, setOptions] = useState<string[]>(DEFAULT_OPTIONS);
-  const [customOption, setCustomOption] = useState("");
-  const [votes, setVotes] = useState<Record<string, number>>({});
-  const [myVotes, setMyVotes] = useState<string[]>([]);
+  const [meetingPoints, setMeetingPoints] = useState<MeetingPoint[]>([]);
+  const [ranking, setRanking] = useState<string[]>([]);
+  const [savedRanking, setSavedRanking] = useState<string[]>([]);
+  const [tally, setTally] = useState<Tally | null>(null);
+  const [showRounds, setShowRounds] = useState(false);
+  const [members, setMembers] = useState<MemberOrigin[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [myLocation, setMyLocation] = useState<LatLng | null>(null);
   const [loading, setLoading] = useState(false);
 
   useEffect(() => {
-    fetchVotes();
+    fetchMeetingPoints();
+    fetchMembers();
+    fetchMyBallot();
+    fetchTally();
+
+    const channel = supabase
+      .channel(`meeting_point_voting_${rideId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'meeting_point_tallies', filter: `ride_id=eq.${rideId}` },
+        () => fetchTally()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
   }, [rideId]);
 
-  const fetchVotes = async () => {
+  const fetchMeetingPoints = async () => {
     try {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) return;
-
       const { data, error } = await supabase
-        .from('meeting_votes')
-        .select('*')
-        .eq('ride_id', rideId);
+        .from('meeting_points')
+        .select('id, name, latitude, longitude, accessibility_notes')
+        .eq('is_active', true)
+        .or(`ride_id.is.null,ride_id.eq.${rideId}`)
+        .order('name');
 
       if (error) throw error;
-
-      const voteCounts: Record<string, number> = {};
-      const userVotes: string[] = [];
-      const allOptions = new Set(DEFAULT_OPTIONS);
-
-      data?.forEach(vote => {
-        allOptions.add(vote.vote_option);
-        voteCounts[vote.vote_option] = (voteCounts[vote.vote_option] || 0) + 1;
-        if (vote.user_id === session.user.id) {
-          userVotes.push(vote.vote_option);
-        }
-      });
-
-      setOptions(Array.from(allOptions));
-      setVotes(voteCounts);
-      setMyVotes(userVotes);
+      setMeetingPoints(data || []);
     } catch (error) {
-      toast.error("Failed to load votes");
-    }
-  };
-
-  const handleAddCustomOption = () => {
-    if (!customOption.trim()) return;
-    if (options.includes(customOption.trim())) {
-      toast.error("This option already exists");
-      return;
+      toast.error("Failed to load meeting points");
     }
-    setOptions([...options, customOption.trim()]);
-    setCustomOption("");
   };
 
-  const handleToggleVote = async (option: string) => {
+  // Members' starting points come from the neighborhood they gave when
+  // saying they're going to the event
+  const fetchMembers = async () => {
     try {
-      setLoading(true);
       const { data: { session } } = await supabase.auth.getSession();
       if (!session) return;
+      setCurrentUserId(session.user.id);
 
-      if (myVotes.includes(option)) {
-        const { error } = await supabase
-          .from('meeting_votes')
-          .delete()
-          .eq('ride_id', rideId)
-          .eq('user_id', session.user.id)
-          .eq('vote_option', option);
-
-        if (error) throw error;
-      } else {
-        const { error } = await supabase
-          .from('meeting_votes')
-          .insert({
-            ride_id: rideId,
-            user_id: session.user.id,
-            vote_option: option
-          });
+      const { data: ride, error: rideError } = await supabase
+        .from('ride_groups')
+        .select('event_id')
+        .eq('id', rideId)
+        .single();
+
+      if (rideError) throw rideError;
+
+      const { data: rideMembers, error: membersError } = await supabase
+        .from('ride_members')
+        .select('user_id')
+        .eq('ride_id', rideId)
+        .eq('status', 'joined');
+
+      if (membersError) throw membersError;
 
-        if (error) throw error;
+      const memberIds = rideMembers?.map(m => m.user_id) || [];
+      if (memberIds.length === 0) {
+        setMembers([]);
+        return;
       }
 
-      await fetchVotes();
-      
-      // Auto-update meeting point to highest voted option
-      await autoUpdateMeetingPoint();
+      const [{ data: profiles }, { data: interests }] = await Promise.all([
+        supabase.from('public_profiles').select('id, name').in('id', memberIds),
+        supabase
+          .from('event_interests')
+          .select('user_id, origin_neighborhood')
+          .eq('event_id', ride.event_id)
+          .in('user_id', memberIds),
+      ]);
+
+      setMembers(memberIds.map(id => ({
+        userId: id,
+        name: profiles?.find(p => p.id === id)?.name || 'Member',
+        location: getNeighborhoodCoordinates(
+          interests?.find(i => i.user_id === id)?.origin_neighborhood
+        ),
+      })));
     } catch (error) {
-      toast.error("Failed to update vote");
-    } finally {
-      setLoading(false);
+      // Distances are a nice-to-have; voting still works without them
     }
   };
 
-  const autoUpdateMeetingPoint = async () => {
+  const fetchMyBallot = async () => {
     try {
-      // Fetch latest votes
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
       const { data, error } = await supabase
         .from('meeting_votes')
-        .select('vote_option')
-        .eq('ride_id', rideId);
+        .select('meeting_point_id')
+        .eq('ride_id', rideId)
+        .eq('user_id', session.user.id)
+        .order('rank');
 
       if (error) throw error;
 
-      // Calculate winner
-      const voteCounts: Record<string, number> = {};
-      data?.forEach(vote => {
-        voteCounts[vote.vote_option] = (voteCounts[vote.vote_option] || 0) + 1;
-      });
+      const ballot = data?.map(v => v.meeting_point_id) || [];
+      setRanking(ballot);
+      setSavedRanking(ballot);
+    } catch (error) {
+      toast.error("Failed to load your ranking");
+    }
+  };
 
-      const sortedOptions = Object.entries(voteCounts).sort((a, b) => b[1] - a[1]);
-      const winner = sortedOptions[0];
-
-      if (winner && winner[0] !== currentMeetingPoint) {
-        // Always update to ensure it reflects the highest votes
-        const { error: updateError } = await supabase
-          .from('ride_groups')
-          .update({ meeting_point: winner[0] })
-          .eq('id', rideId);
-
-        if (updateError) throw updateError;
-
-        // Send email notifications to all members
-        const { data: rideMembers } = await supabase
-          .from('ride_members')
-          .select('user_id')
-          .eq('ride_id', rideId);
-
-        if (rideMembers && rideMembers.length > 0) {
-          const memberIds = rideMembers.map(m => m.user_id);
-          const { data: memberEmails } = await supabase
-            .from('profiles')
-            .select('email')
-            .in('id', memberIds);
-
-          if (memberEmails && memberEmails.length > 0) {
-            await supabase.functions.invoke('send-ride-notification', {
-              body: {
-                type: 'meeting_point_changed',
-                rideId: rideId,
-                recipientEmails: memberEmails.map(m => m.email),
-                meetingPoint: winner[0],
-              }
-            });
-          }
-        }
-        
-        toast.success(`Meeting point updated to: ${winner[0]}`);
-        onUpdate();
-      }
+  const fetchTally = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('meeting_point_tallies')
+        .select('id, winner_meeting_point_id, previous_meeting_point_id, ballot_count, rounds, tie_break')
+        .eq('ride_id', rideId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      setTally(data as unknown as Tally | null);
     } catch (error) {
-      toast.error("Failed to update meeting point automatically");
+      // Result panel just stays empty
     }
   };
 
-  const handleConfirmWinner = async () => {
-    const winner = Object.entries(votes).sort((a, b) => b[1] - a[1])[0];
-    if (!winner) {
-      toast.error("No votes cast yet");
+  const handleUseMyLocation = () => {
+    if (!navigator.geolocation) {
+      toast.error("Location isn't available in this browser");
       return;
     }
+    navigator.geolocation.getCurrentPosition(
+      (position) => setMyLocation({
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+      }),
+      () => toast.error("Couldn't get your location")
+    );
+  };
 
+  const moveInRanking = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= ranking.length) return;
+    const next = [...ranking];
+    [next[index], next[target]] = [next[target], next[index]];
+    setRanking(next);
+  };
+
+  const handleSubmitRanking = async () => {
     try {
       setLoading(true);
-      const { error } = await supabase
-        .from('ride_groups')
-        .update({ meeting_point: winner[0] })
-        .eq('id', rideId);
+
+      // Tallied server-side by instant runoff; see tally_meeting_point_votes
+      const { data, error } = await supabase.rpc('submit_meeting_point_ballot', {
+        p_ride_id: rideId,
+        p_meeting_point_ids: ranking,
+      });
 
       if (error) throw error;
-      toast.success(`Meeting point set to: ${winner[0]}`);
-      onUpdate();
-      onClose();
+
+      setSavedRanking(ranking);
+      const result = data as unknown as Tally | null;
+      setTally(result);
+      toast.success(ranking.length > 0 ? "Ranking saved" : "Ranking withdrawn");
+
+      if (result?.winner_meeting_point_id && result.winner_meeting_point_id !== result.previous_meeting_point_id) {
+        const winner = meetingPoints.find(p => p.id === result.winner_meeting_point_id);
+        await notifyMeetingPointChanged(winner?.name);
+        toast.success(`Meeting point updated to: ${winner?.name}`);
+        onUpdate();
+      }
     } catch (error) {
-      toast.error("Failed to set meeting point");
+      toast.error(error instanceof Error ? error.message : "Failed to save ranking");
     } finally {
       setLoading(false);
     }
   };
 
-  const topVote = Object.entries(votes).sort((a, b) => b[1] - a[1])[0];
+  const notifyMeetingPointChanged = async (meetingPoint: string | undefined) => {
+    try {
+      // Send email notifications to all members
+      const { data: rideMembers } = await supabase
+        .from('ride_members')
+        .select('user_id')
+        .eq('ride_id', rideId);
+
+      if (rideMembers && rideMembers.length > 0) {
+        const memberIds = rideMembers.map(m => m.user_id);
+        const { data: memberEmails } = await supabase
+          .from('profiles')
+          .select('email')
+          .in('id', memberIds);
+
+        if (memberEmails && memberEmails.length > 0) {
+          await supabase.functions.invoke('send-ride-notification', {
+            body: {
+              type: 'meeting_point_changed',
+              rideId: rideId,
+              recipientEmails: memberEmails.map(m => m.email),
+              meetingPoint,
+            }
+          });
+        }
+      }
+    } catch (error) {
+      // Email failure shouldn't undo the vote
+    }
+  };
+
+  const originFor = (member: MemberOrigin) =>
+    member.userId === currentUserId && myLocation ? myLocation : member.location;
+
+  const membersWithOrigin = members.filter(m => originFor(m));
+  const membersWithoutOrigin = members.filter(m => !originFor(m));
+
+  const rankedPoints = ranking
+    .map(id => meetingPoints.find(p => p.id === id))
+    .filter((p): p is MeetingPoint => !!p);
+  const unrankedPoints = meetingPoints.filter(p => !ranking.includes(p.id));
+  const rankingChanged = ranking.join(',') !== savedRanking.join(',');
+  const winner = meetingPoints.find(p => p.id === tally?.winner_meeting_point_id);
+
+  const renderPointDetails = (point: MeetingPoint) => (
+    <>
+      {point.accessibility_notes && (
+        <p className="flex items-start gap-1.5 text-xs text-muted-foreground pl-7">
+          <Accessibility className="w-3 h-3 mt-0.5 shrink-0" />
+          {point.accessibility_notes}
+        </p>
+      )}
+
+      {membersWithOrigin.length > 0 && point.latitude !== null && point.longitude !== null && (
+        <div className="space-y-0.5 pl-7">
+          {membersWithOrigin.map((member) => {
+            const meters = distanceInMeters(originFor(member)!, point);
+            return (
+              <p key={member.userId} className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                <Footprints className="w-3 h-3 shrink-0" />
+                <span className="font-medium">
+                  {member.userId === currentUserId ? 'You' : member.name}
+                </span>
+                {formatDistance(meters)} · {formatWalkingTime(meters)}
+              </p>
+            );
+          })}
+        </div>
+      )}
+    </>
+  );
+
+  const renderPointLink = (point: MeetingPoint) => (
+    <a
+      href={mapsUrl(point)}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="text-sm hover:text-primary hover:underline transition-colors"
+    >
+      {point.name}
+    </a>
+  );
 
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
@@ -211,7 +356,7 @@ export const MeetingPointVoting = ({
           <div className="flex items-center justify-between">
             <CardTitle className="flex items-center gap-2">
               <MapPin className="w-5 h-5" />
-              Vote for Meeting Point
+              Rank Meeting Points
             </CardTitle>
             <Button variant="ghost" size="sm" onClick={onClose}>
               <X className="w-4 h-4" />
@@ -220,7 +365,7 @@ export const MeetingPointVoting = ({
           {currentMeetingPoint && (
             <p className="text-sm text-muted-foreground">
               Current:{' '}
-              <a 
+              <a
                 href={`https://www.google.com/maps?q=${encodeURIComponent(currentMeetingPoint)}`}
                 target="_blank"
                 rel="noopener noreferrer"
@@ -231,76 +376,144 @@ export const MeetingPointVoting = ({
             </p>
           )}
         </CardHeader>
-        
+
         <CardContent className="space-y-4">
-          <div className="space-y-2">
-            {options.map((option) => (
-              <div
-                key={option}
-                className="flex items-center justify-between p-3 border rounded-lg hover:bg-muted/50"
+          {tally && winner && (
+            <div className="p-3 bg-primary/5 rounded-lg space-y-2">
+              <p className="flex items-center gap-2 text-sm font-medium text-primary">
+                <Trophy className="w-4 h-4" />
+                {winner.name}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Chosen from {tally.ballot_count} {tally.ballot_count === 1 ? 'ranking' : 'rankings'} after{' '}
+                {tally.rounds.length} {tally.rounds.length === 1 ? 'round' : 'rounds'}
+                {tally.tie_break && `, tie broken by ${TIE_BREAK_LABELS[tally.tie_break]}`}.
+              </p>
+              <button
+                type="button"
+                className="text-xs text-primary hover:underline"
+                onClick={() => setShowRounds(!showRounds)}
               >
-                <div className="flex items-center gap-3 flex-1">
-                  <Checkbox
-                    checked={myVotes.includes(option)}
-                    onCheckedChange={() => handleToggleVote(option)}
-                    disabled={loading}
-                  />
-                  <a 
-                    href={`https://www.google.com/maps?q=${encodeURIComponent(option)}`}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-sm hover:text-primary hover:underline transition-colors"
-                  >
-                    {option}
-                  </a>
+                {showRounds ? 'Hide rounds' : 'Show rounds'}
+              </button>
+              {showRounds && (
+                <ol className="space-y-1 text-xs text-muted-foreground">
+                  {tally.rounds.map((round) => (
+                    <li key={round.round}>
+                      <span className="font-medium">Round {round.round}:</span> {describeRound(round)}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Your ranking</p>
+            {rankedPoints.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                Add meeting points below in the order you'd prefer them.
+              </p>
+            )}
+            {rankedPoints.map((point, index) => (
+              <div key={point.id} className="p-3 border rounded-lg space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-3 flex-1">
+                    <Badge className="w-5 h-5 p-0 justify-center">{index + 1}</Badge>
+                    {renderPointLink(point)}
+                  </div>
+                  <div className="flex items-center">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveInRanking(index, -1)}
+                      disabled={loading || index === 0}
+                    >
+                      <ChevronUp className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveInRanking(index, 1)}
+                      disabled={loading || index === rankedPoints.length - 1}
+                    >
+                      <ChevronDown className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setRanking(ranking.filter(id => id !== point.id))}
+                      disabled={loading}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
                 </div>
-                <Badge variant="outline">
-                  {votes[option] || 0} votes
-                </Badge>
+                {renderPointDetails(point)}
               </div>
             ))}
           </div>
 
-          <div className="flex gap-2">
-            <Input
-              placeholder="Add custom location"
-              value={customOption}
-              onChange={(e) => setCustomOption(e.target.value)}
-              onKeyPress={(e) => e.key === 'Enter' && handleAddCustomOption()}
-            />
-            <Button onClick={handleAddCustomOption} size="icon">
-              <Plus className="w-4 h-4" />
-            </Button>
-          </div>
-
-          {topVote && (
-            <div className="p-3 bg-primary/5 rounded-lg">
-              <p className="text-sm font-medium text-primary">
-                Leading:{' '}
-                <a 
-                  href={`https://www.google.com/maps?q=${encodeURIComponent(topVote[0])}`}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="hover:underline"
-                >
-                  {topVote[0]}
-                </a>
-                {' '}({topVote[1]} votes)
-              </p>
+          {unrankedPoints.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Other options</p>
+              {unrankedPoints.map((point) => (
+                <div key={point.id} className="p-3 border rounded-lg hover:bg-muted/50 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="pl-7">{renderPointLink(point)}</div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setRanking([...ranking, point.id])}
+                      disabled={loading}
+                    >
+                      <Plus className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  {renderPointDetails(point)}
+                </div>
+              ))}
             </div>
           )}
 
+          {meetingPoints.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center">
+              No meeting points are available right now.
+            </p>
+          )}
+
+          {membersWithoutOrigin.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Walking times aren't shown for{' '}
+              {membersWithoutOrigin
+                .map(m => (m.userId === currentUserId ? 'you' : m.name))
+                .join(', ')}{' '}
+              because no starting neighborhood was given for this event.
+            </p>
+          )}
+
+          {!myLocation && (
+            <Button variant="outline" size="sm" className="w-full" onClick={handleUseMyLocation}>
+              <LocateFixed className="w-4 h-4 mr-2" />
+              Use My Current Location
+            </Button>
+          )}
+
+          <p className="text-xs text-muted-foreground">
+            Rankings are counted by instant runoff: the option with the fewest first choices is dropped
+            until one has a majority. Ties go to the ride creator's ranking, then to whichever option
+            was voted for first.
+          </p>
+
           <Button
-            onClick={handleConfirmWinner}
-            disabled={loading || !topVote}
+            onClick={handleSubmitRanking}
+            disabled={loading || !rankingChanged}
             className="w-full"
           >
-            Confirm Meeting Point
+            {ranking.length === 0 && savedRanking.length > 0 ? 'Withdraw Ranking' : 'Submit Ranking'}
           </Button>
         </CardContent>
       </Card>
     </div>
   );
 };
-
-import { Badge } from "@/components/ui/badge";
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { AttendanceSurveyDialog } from "@/components/AttendanceSurveyDialog";
+import {
+  AppNotification,
+  NotificationAction,
+  runNotificationAction,
+} from "@/lib/notifications";
+
+interface NotificationActionsProps {
+  notification: AppNotification;
+  actions: NotificationAction[];
+  userId: string;
+  // Called once an action has gone through so the list can refresh
+  onDone: () => void;
+}
+
+export const NotificationActions = ({ notification, actions, userId, onDone }: NotificationActionsProps) => {
+  const [running, setRunning] = useState(false);
+  const [survey, setSurvey] = useState<{ rideId: string; eventName: string } | null>(null);
+
+  if (actions.length === 0) return null;
+
+  const handleAction = async (action: NotificationAction) => {
+    try {
+      setRunning(true);
+
+      if (action.kind === 'answer_survey') {
+        const { data: ride } = await supabase
+          .from('ride_groups')
+          .select('events(name)')
+          .eq('id', notification.ride_id!)
+          .single();
+        setSurvey({ rideId: notification.ride_id!, eventName: ride?.events?.name || 'your ride' });
+        return;
+      }
+
+      toast.success(await runNotificationAction(action.kind, notification, userId));
+      onDone();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Failed to ${action.label.toLowerCase()}`);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  // The survey dialog is portalled, but React still bubbles its clicks
+  // through here, so stop them before they open the notification
+  return (
+    <div className="flex flex-wrap gap-2 mt-2" onClick={(e) => e.stopPropagation()}>
+      {actions.map((action, i) => (
+        <Button
+          key={action.kind}
+          size="sm"
+          variant={i === 0 ? 'default' : 'outline'}
+          className="h-7 text-xs"
+          disabled={running}
+          onClick={() => handleAction(action)}
+        >
+          {action.label}
+        </Button>
+      ))}
+
+      {survey && (
+        <AttendanceSurveyDialog
+          open={!!survey}
+          onOpenChange={(open) => !open && setSurvey(null)}
+          rideId={survey.rideId}
+          eventName={survey.eventName}
+          onSubmitted={() => {
+            setSurvey(null);
+            onDone();
+          }}
+        />
+      )}
+    </div>
+  );
+};
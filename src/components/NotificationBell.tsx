@@ -12,25 +12,33 @@ import { supabase } from "@/integrations/supabase/client";
 import { useNavigate } from "react-router-dom";
 import { formatDistanceToNow } from "date-fns";
 import { toast } from "sonner";
+import { syncPushSubscription } from "@/lib/pushNotifications";
+import { NotificationActions } from "@/components/NotificationActions";
+import {
+  NotificationGroup,
+  fetchActionableIds,
+  groupNotifications,
+  notificationActions,
+  notificationPath,
+} from "@/lib/notifications";
 
-interface Notification {
-  id: string;
-  title: string;
-  message: string;
-  read: boolean;
-  created_at: string;
-  ride_id: string | null;
-  type: string;
-}
+// Enough rows that a busy chat still leaves room for other entries once grouped
+const FETCH_LIMIT = 50;
+const MAX_GROUPS = 10;
 
 export const NotificationBell = () => {
-  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [groups, setGroups] = useState<NotificationGroup[]>([]);
+  const [actionableIds, setActionableIds] = useState<Set<string>>(new Set());
+  const [userId, setUserId] = useState<string | null>(null);
   const [unreadCount, setUnreadCount] = useState(0);
   const [open, setOpen] = useState(false);
   const navigate = useNavigate();
 
   useEffect(() => {
     fetchNotifications();
+    // Best effort: a stale subscription is refreshed on the next visit, and
+    // push can be turned back on from notification settings
+    syncPushSubscription().catch(() => {});
 
     const channel = supabase
       .channel('notifications')
@@ -61,61 +69,34 @@ export const NotificationBell = () => {
       .select('*')
       .eq('user_id', session.user.id)
       .order('created_at', { ascending: false })
-      .limit(10);
+      .limit(FETCH_LIMIT);
 
     if (!error && data) {
-      setNotifications(data);
-      setUnreadCount(data.filter(n => !n.read).length);
+      const grouped = groupNotifications(data).slice(0, MAX_GROUPS);
+      setGroups(grouped);
+      setUnreadCount(grouped.filter(g => g.unreadIds.length > 0).length);
+      setUserId(session.user.id);
+      setActionableIds(await fetchActionableIds(session.user.id, grouped.map(g => g.latest)));
     }
   };
 
-  const handleNotificationClick = async (notification: Notification) => {
-    await supabase
-      .from('notifications')
-      .update({ read: true })
-      .eq('id', notification.id);
+  const handleGroupClick = async (group: NotificationGroup) => {
+    if (group.unreadIds.length > 0) {
+      await supabase
+        .from('notifications')
+        .update({ read: true })
+        .in('id', group.unreadIds);
+    }
 
     fetchNotifications();
 
-    // Handle routing based on notification type
-    switch (notification.type) {
-      case 'payment_amount_entered':
-      case 'payment_reminder':
-        // Navigate to My Rides page (pending payments section)
-        navigate('/my-rides');
-        break;
-      
-      case 'payment_confirmed':
-        // Just mark as read, show success toast
-        toast.success('Payment confirmed by a member');
-        break;
-      
-      case 'venmo_required':
-        // Open profile page to add Venmo
-        navigate('/profile');
-        toast.info('Please add your Venmo username to your profile');
-        break;
-      
-      case 'new_chat_message':
-        // Navigate to ride detail and open chat
-        if (notification.ride_id) {
-          navigate(`/rides/${notification.ride_id}?openChat=true`);
-        }
-        break;
-      
-      default:
-        // Default: navigate to event detail if ride_id exists
-        if (notification.ride_id) {
-          const { data: ride } = await supabase
-            .from('ride_groups')
-            .select('event_id')
-            .eq('id', notification.ride_id)
-            .single();
-
-          if (ride) {
-            navigate(`/events/${ride.event_id}`);
-          }
-        }
+    const path = notificationPath(group.latest);
+    if (path) navigate(path);
+
+    if (group.latest.type === 'payment_confirmed') {
+      toast.success('Payment confirmed by a member');
+    } else if (group.latest.type === 'venmo_required') {
+      toast.info('Please add your Venmo username to your profile');
     }
 
     setOpen(false);
@@ -178,36 +159,52 @@ export const NotificationBell = () => {
         </div>
         
         <ScrollArea className="h-[400px]">
-          {notifications.length === 0 ? (
+          {groups.length === 0 ? (
             <div className="p-8 text-center text-muted-foreground">
               No notifications yet
             </div>
           ) : (
             <div className="divide-y">
-              {notifications.map((notification) => (
-                <button
-                  key={notification.id}
-                  onClick={() => handleNotificationClick(notification)}
-                  className={`w-full p-4 text-left hover:bg-muted/50 transition-colors ${
-                    !notification.read ? 'bg-primary/5' : ''
-                  }`}
-                >
-                  <div className="flex items-start justify-between gap-2">
-                    <div className="flex-1 min-w-0">
-                      <p className="font-medium text-sm mb-1">{notification.title}</p>
-                      <p className="text-sm text-muted-foreground line-clamp-2">
-                        {notification.message}
-                      </p>
-                      <p className="text-xs text-muted-foreground mt-1">
-                        {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
-                      </p>
-                    </div>
-                    {!notification.read && (
-                      <div className="h-2 w-2 rounded-full bg-primary flex-shrink-0 mt-2" aria-label="Unread" role="img" />
+              {groups.map((group) => {
+                const unread = group.unreadIds.length > 0;
+                // The survey dialog would close along with the popover, so
+                // surveys are answered from My Rides instead
+                const actions = notificationActions(group.latest, actionableIds)
+                  .filter(action => action.kind !== 'answer_survey');
+                return (
+                  <div key={group.key} className={unread ? 'bg-primary/5' : ''}>
+                    <button
+                      onClick={() => handleGroupClick(group)}
+                      className="w-full p-4 text-left hover:bg-muted/50 transition-colors"
+                    >
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium text-sm mb-1">{group.title}</p>
+                          <p className="text-sm text-muted-foreground line-clamp-2">
+                            {group.message}
+                          </p>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {formatDistanceToNow(new Date(group.latest.created_at), { addSuffix: true })}
+                          </p>
+                        </div>
+                        {unread && (
+                          <div className="h-2 w-2 rounded-full bg-primary flex-shrink-0 mt-2" aria-label="Unread" role="img" />
+                        )}
+                      </div>
+                    </button>
+                    {userId && actions.length > 0 && (
+                      <div className="px-4 pb-3 -mt-2">
+                        <NotificationActions
+                          notification={group.latest}
+                          actions={actions}
+                          userId={userId}
+                          onDone={fetchNotifications}
+                        />
+                      </div>
                     )}
                   </div>
-                </button>
-              ))}
+                );
+              })}
             </div>
           )}
         </ScrollArea>
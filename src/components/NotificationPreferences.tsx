@@ -0,0 +1,267 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { disablePush, enablePush, isPushEnabled, isPushSupported } from "@/lib/pushNotifications";
+import {
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CHANNELS,
+  NotificationCategory,
+  NotificationChannel,
+  NotificationPreference,
+  QUIET_HOUR_OPTIONS,
+  formatQuietHour,
+  isCategoryEnabled,
+} from "@/lib/notificationPreferences";
+
+const QUIET_HOURS_OFF = "off";
+
+interface NotificationPreferencesProps {
+  userId: string;
+}
+
+export const NotificationPreferences = ({ userId }: NotificationPreferencesProps) => {
+  const [preferences, setPreferences] = useState<NotificationPreference[]>([]);
+  const [quietStart, setQuietStart] = useState(QUIET_HOURS_OFF);
+  const [quietEnd, setQuietEnd] = useState(QUIET_HOURS_OFF);
+  const [savedQuietHours, setSavedQuietHours] = useState({ start: QUIET_HOURS_OFF, end: QUIET_HOURS_OFF });
+  const [saving, setSaving] = useState(false);
+  const [chatDigest, setChatDigest] = useState(true);
+  const [pushEnabled, setPushEnabled] = useState(false);
+  const [pushUpdating, setPushUpdating] = useState(false);
+
+  useEffect(() => {
+    fetchPreferences();
+  }, [userId]);
+
+  useEffect(() => {
+    isPushEnabled().then(setPushEnabled).catch(() => setPushEnabled(false));
+  }, []);
+
+  const fetchPreferences = async () => {
+    try {
+      const [{ data: prefs, error: prefsError }, { data: profile, error: profileError }] = await Promise.all([
+        supabase
+          .from('notification_preferences')
+          .select('type, channel, enabled')
+          .eq('user_id', userId),
+        supabase
+          .from('profiles')
+          .select('quiet_hours_start, quiet_hours_end, chat_email_digest')
+          .eq('id', userId)
+          .single(),
+      ]);
+
+      if (prefsError) throw prefsError;
+      if (profileError) throw profileError;
+
+      setPreferences((prefs || []) as NotificationPreference[]);
+      const start = profile.quiet_hours_start || QUIET_HOURS_OFF;
+      const end = profile.quiet_hours_end || QUIET_HOURS_OFF;
+      setQuietStart(start);
+      setQuietEnd(end);
+      setSavedQuietHours({ start, end });
+      setChatDigest(profile.chat_email_digest);
+    } catch (error) {
+      toast.error("Failed to load notification settings");
+    }
+  };
+
+  const handleToggle = async (category: NotificationCategory, channel: NotificationChannel, enabled: boolean) => {
+    const rows = category.types.map(type => ({ user_id: userId, type, channel, enabled, updated_at: new Date().toISOString() }));
+    const previous = preferences;
+
+    // Flip the switch straight away and roll back if the save fails
+    setPreferences([
+      ...preferences.filter(p => p.channel !== channel || !category.types.includes(p.type)),
+      ...rows.map(({ type }) => ({ type, channel, enabled })),
+    ]);
+
+    try {
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert(rows, { onConflict: 'user_id,type,channel' });
+      if (error) throw error;
+    } catch (error) {
+      setPreferences(previous);
+      toast.error("Failed to update notification settings");
+    }
+  };
+
+  const handleChatEmailMode = async (value: string) => {
+    const digest = value === "digest";
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ chat_email_digest: digest })
+        .eq('id', userId);
+
+      if (error) throw error;
+      setChatDigest(digest);
+      toast.success(digest ? "You'll get one chat summary per ride" : "You'll get an email for every chat message");
+    } catch (error) {
+      toast.error("Failed to update chat emails");
+    }
+  };
+
+  const handleTogglePush = async () => {
+    try {
+      setPushUpdating(true);
+      if (pushEnabled) {
+        await disablePush();
+        setPushEnabled(false);
+        toast.success("Push notifications turned off on this device");
+      } else {
+        await enablePush();
+        setPushEnabled(true);
+        toast.success("Push notifications turned on for this device");
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update push notifications");
+    } finally {
+      setPushUpdating(false);
+    }
+  };
+
+  const handleSaveQuietHours = async () => {
+    const off = quietStart === QUIET_HOURS_OFF || quietEnd === QUIET_HOURS_OFF;
+    if (!off && quietStart === quietEnd) {
+      toast.error("Quiet hours need to start and end at different times");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { error } = await supabase
+        .from('profiles')
+        .update({
+          quiet_hours_start: off ? null : quietStart,
+          quiet_hours_end: off ? null : quietEnd,
+        })
+        .eq('id', userId);
+
+      if (error) throw error;
+
+      if (off) {
+        setQuietStart(QUIET_HOURS_OFF);
+        setQuietEnd(QUIET_HOURS_OFF);
+        setSavedQuietHours({ start: QUIET_HOURS_OFF, end: QUIET_HOURS_OFF });
+        toast.success("Quiet hours turned off");
+      } else {
+        setSavedQuietHours({ start: quietStart, end: quietEnd });
+        toast.success(`Quiet hours set from ${formatQuietHour(quietStart)} to ${formatQuietHour(quietEnd)}`);
+      }
+    } catch (error) {
+      toast.error("Failed to update quiet hours");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const quietHoursChanged = quietStart !== savedQuietHours.start || quietEnd !== savedQuietHours.end;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Notifications</CardTitle>
+        <CardDescription>Choose what you hear about and where</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <div className="grid grid-cols-[1fr_repeat(3,3.5rem)] gap-2 text-xs font-medium text-muted-foreground">
+            <span />
+            {NOTIFICATION_CHANNELS.map(channel => (
+              <span key={channel.value} className="text-center">{channel.label}</span>
+            ))}
+          </div>
+          {NOTIFICATION_CATEGORIES.map(category => (
+            <div key={category.key} className="grid grid-cols-[1fr_repeat(3,3.5rem)] items-center gap-2">
+              <div>
+                <p className="text-sm font-medium">{category.label}</p>
+                <p className="text-xs text-muted-foreground">{category.description}</p>
+              </div>
+              {NOTIFICATION_CHANNELS.map(channel => (
+                <div key={channel.value} className="flex justify-center">
+                  <Switch
+                    aria-label={`${category.label} ${channel.label}`}
+                    checked={isCategoryEnabled(preferences, category, channel.value)}
+                    onCheckedChange={(checked) => handleToggle(category, channel.value, checked)}
+                  />
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Chat Emails</Label>
+          <p className="text-xs text-muted-foreground">
+            Summaries only include messages you haven't already read in the app.
+          </p>
+          <Select value={chatDigest ? "digest" : "each"} onValueChange={handleChatEmailMode}>
+            <SelectTrigger className="w-72" aria-label="Chat emails">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="digest">One summary once the chat goes quiet</SelectItem>
+              <SelectItem value="each">An email for every message</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Push on This Device</Label>
+          <p className="text-xs text-muted-foreground">
+            {isPushSupported()
+              ? "Get the notifications you've turned on for push even when Berkeley Rides isn't open. On iPhone, add the site to your Home Screen first."
+              : "This browser doesn't support push notifications."}
+          </p>
+          {isPushSupported() && (
+            <Button variant="outline" onClick={handleTogglePush} disabled={pushUpdating}>
+              {pushEnabled ? "Turn Off Push" : "Turn On Push"}
+            </Button>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Quiet Hours (Pacific Time)</Label>
+          <p className="text-xs text-muted-foreground">
+            No emails or push notifications during these hours. You'll still see everything in the app, and payment reminders wait until the morning.
+          </p>
+          <div className="flex items-center gap-2">
+            <Select value={quietStart} onValueChange={setQuietStart}>
+              <SelectTrigger className="w-28" aria-label="Quiet hours start">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={QUIET_HOURS_OFF}>Off</SelectItem>
+                {QUIET_HOUR_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-sm text-muted-foreground">to</span>
+            <Select value={quietEnd} onValueChange={setQuietEnd}>
+              <SelectTrigger className="w-28" aria-label="Quiet hours end">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={QUIET_HOURS_OFF}>Off</SelectItem>
+                {QUIET_HOUR_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleSaveQuietHours} disabled={saving || !quietHoursChanged}>
+            Update Quiet Hours
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,11 +1,15 @@
 import { useState } from "react";
-import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
-import { DollarSign, ExternalLink, Loader2 } from "lucide-react";
+import { AlertTriangle, Copy, DollarSign, ExternalLink, Loader2 } from "lucide-react";
 import { format } from "date-fns";
+import { LINE_ITEMS, SHARE_WEIGHTS, formatAmount } from "@/lib/costSplit";
+import { buildPaymentNote, buildPaymentOptions } from "@/lib/paymentLinks";
+import { ReceiptViewerDialog } from "@/components/ReceiptViewerDialog";
+import { PaymentDisputeDialog } from "@/components/PaymentDisputeDialog";
+import { confirmPayment } from "@/lib/paymentConfirmations";
 
 interface PaymentConfirmationCardProps {
   payment: {
@@ -13,10 +17,19 @@ interface PaymentConfirmationCardProps {
     amount: number;
     payer_user_id: string;
     payer_venmo_username: string | null;
+    payer_paypal_username: string | null;
+    payer_zelle_handle: string | null;
     cost_type: 'rideshare' | 'gas';
     ride_id: string;
+    fare: number | null;
+    tip: number;
+    tolls: number;
+    parking: number;
+    has_receipt: boolean;
+    disputed: boolean;
   };
-  splitAmount: number;
+  amountOwed: number;
+  weight: number;
   rideInfo: {
     eventName: string;
     eventDate: string;
@@ -28,55 +41,21 @@ interface PaymentConfirmationCardProps {
 
 export const PaymentConfirmationCard = ({
   payment,
-  splitAmount,
+  amountOwed,
+  weight,
   rideInfo,
   currentUserId,
   onConfirmed,
 }: PaymentConfirmationCardProps) => {
   const [confirming, setConfirming] = useState(false);
+  const [receiptOpen, setReceiptOpen] = useState(false);
+  const [disputeOpen, setDisputeOpen] = useState(false);
 
   const handleConfirmPayment = async () => {
     try {
       setConfirming(true);
 
-      // Insert confirmation
-      const { error: confirmError } = await supabase
-        .from('payment_confirmations')
-        .insert({
-          uber_payment_id: payment.id,
-          user_id: currentUserId,
-        });
-
-      if (confirmError) throw confirmError;
-
-      // Update reminder status
-      const { error: reminderError } = await supabase
-        .from('payment_reminders')
-        .update({ payment_confirmed: true })
-        .eq('uber_payment_id', payment.id)
-        .eq('user_id', currentUserId);
-
-      if (reminderError) throw reminderError;
-
-      // Get current user name for notification
-      const { data: userData } = await supabase
-        .from('profiles')
-        .select('name')
-        .eq('id', currentUserId)
-        .single();
-
-      // Notify payer
-      await supabase.from('notifications').insert({
-        user_id: payment.payer_user_id,
-        ride_id: payment.ride_id,
-        type: 'payment_confirmed',
-        title: 'Payment Confirmed',
-        message: `${userData?.name || 'A member'} confirmed payment of $${splitAmount.toFixed(2)}`,
-        metadata: {
-          uber_payment_id: payment.id,
-          user_id: currentUserId,
-        }
-      });
+      await confirmPayment(payment, currentUserId, amountOwed);
 
       toast.success('Payment confirmed! Thank you.');
       onConfirmed();
@@ -87,9 +66,24 @@ export const PaymentConfirmationCard = ({
     }
   };
 
-  const venmoDeepLink = payment.payer_venmo_username
-    ? `https://venmo.com/${payment.payer_venmo_username}?txn=pay&amount=${splitAmount.toFixed(2)}&note=${encodeURIComponent(`Berkeley Rides - ${rideInfo.eventName}`)}`
-    : null;
+  const paymentOptions = buildPaymentOptions(
+    {
+      venmo_username: payment.payer_venmo_username,
+      paypal_username: payment.payer_paypal_username,
+      zelle_handle: payment.payer_zelle_handle,
+    },
+    amountOwed,
+    buildPaymentNote(rideInfo.eventName, rideInfo.eventDate)
+  );
+
+  const handleCopyHandle = async (handle: string) => {
+    try {
+      await navigator.clipboard.writeText(handle);
+      toast.success('Copied to clipboard');
+    } catch (error) {
+      toast.error('Failed to copy');
+    }
+  };
 
   return (
     <Card className="border-yellow-500/50 bg-yellow-50/5">
@@ -111,26 +105,64 @@ export const PaymentConfirmationCard = ({
       <CardContent>
         <div className="text-center mb-4 p-4 bg-primary/5 rounded-lg">
           <p className="text-sm text-muted-foreground">You owe</p>
-          <p className="text-4xl font-bold text-primary">${splitAmount.toFixed(2)}</p>
+          <p className="text-4xl font-bold text-primary">${amountOwed.toFixed(2)}</p>
           <p className="text-sm text-muted-foreground mt-1">to {rideInfo.payerName}</p>
         </div>
+
+        <div className="mb-4 space-y-1 text-sm text-muted-foreground">
+          {LINE_ITEMS.filter(({ key }) => (payment[key] ?? 0) > 0).map(({ key, label }) => (
+            <div key={key} className="flex justify-between">
+              <span>{label}</span>
+              <span>{formatAmount(payment[key])}</span>
+            </div>
+          ))}
+          <div className="flex justify-between font-medium text-foreground">
+            <span>Total</span>
+            <span>{formatAmount(payment.amount)}</span>
+          </div>
+          {payment.has_receipt && (
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setReceiptOpen(true)}>
+              View receipt
+            </Button>
+          )}
+          {weight !== 1 && (
+            <p className="text-xs">
+              Your share: {SHARE_WEIGHTS.find(w => w.value === weight)?.label.toLowerCase() ?? `${weight}× share`}
+            </p>
+          )}
+        </div>
         
-        {venmoDeepLink && (
-          <Button variant="default" className="w-full mb-2" asChild>
-            <a 
-              href={venmoDeepLink}
-              target="_blank"
-              rel="noopener noreferrer"
+        {paymentOptions.map((option) =>
+          option.href ? (
+            <Button
+              key={option.method}
+              variant={option === paymentOptions[0] ? "default" : "secondary"}
+              className="w-full mb-2"
+              asChild
             >
-              Pay ${splitAmount.toFixed(2)} via Venmo
-              <ExternalLink className="ml-2 h-4 w-4" />
-            </a>
-          </Button>
+              <a href={option.href} target="_blank" rel="noopener noreferrer">
+                Pay ${amountOwed.toFixed(2)} via {option.label}
+                <ExternalLink className="ml-2 h-4 w-4" />
+              </a>
+            </Button>
+          ) : (
+            <div
+              key={option.method}
+              className="flex items-center justify-between gap-2 mb-2 p-2 rounded-md border text-sm"
+            >
+              <span>
+                <span className="text-muted-foreground">{option.label}:</span> {option.handle}
+              </span>
+              <Button variant="ghost" size="sm" onClick={() => handleCopyHandle(option.handle)}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          )
         )}
         
         <Button 
           onClick={handleConfirmPayment} 
-          variant={venmoDeepLink ? "outline" : "default"}
+          variant={paymentOptions.length > 0 ? "outline" : "default"}
           className="w-full"
           disabled={confirming}
         >
@@ -144,12 +176,46 @@ export const PaymentConfirmationCard = ({
           )}
         </Button>
         
-        {!venmoDeepLink && (
+        {paymentOptions.length === 0 && (
           <p className="text-xs text-muted-foreground mt-2 text-center">
             Contact {rideInfo.payerName} for payment details
           </p>
         )}
+
+        {payment.disputed ? (
+          <p className="flex items-center justify-center gap-1 text-xs text-muted-foreground mt-3">
+            <AlertTriangle className="h-3 w-3" />
+            You disputed this payment. Reminders are paused until an admin reviews it.
+          </p>
+        ) : (
+          <Button
+            variant="link"
+            size="sm"
+            className="w-full mt-1 text-muted-foreground"
+            onClick={() => setDisputeOpen(true)}
+          >
+            Something wrong? Dispute this payment
+          </Button>
+        )}
       </CardContent>
+
+      <PaymentDisputeDialog
+        paymentId={payment.id}
+        amountOwed={amountOwed}
+        payerName={rideInfo.payerName}
+        open={disputeOpen}
+        onOpenChange={setDisputeOpen}
+        onDisputed={onConfirmed}
+      />
+
+      {payment.has_receipt && (
+        <ReceiptViewerDialog
+          paymentId={payment.id}
+          amount={payment.amount}
+          open={receiptOpen}
+          onOpenChange={setReceiptOpen}
+        />
+      )}
     </Card>
   );
 };
\ No newline at end of file
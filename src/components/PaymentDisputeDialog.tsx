@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { formatAmount } from "@/lib/costSplit";
+
+const DISPUTE_REASONS = [
+  { value: "not_in_ride", label: "I wasn't on this ride" },
+  { value: "wrong_amount", label: "The amount is wrong" },
+  { value: "other", label: "Something else" },
+];
+
+interface PaymentDisputeDialogProps {
+  paymentId: string;
+  amountOwed: number;
+  payerName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onDisputed: () => void;
+}
+
+export const PaymentDisputeDialog = ({
+  paymentId,
+  amountOwed,
+  payerName,
+  open,
+  onOpenChange,
+  onDisputed,
+}: PaymentDisputeDialogProps) => {
+  const [reason, setReason] = useState("not_in_ride");
+  const [details, setDetails] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    if (reason !== 'not_in_ride' && !details.trim()) {
+      toast.error("Please explain what's wrong");
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const { error } = await supabase.rpc('open_payment_dispute', {
+        p_uber_payment_id: paymentId,
+        p_reason: reason,
+        p_details: details.trim(),
+      });
+      if (error) throw error;
+
+      toast.success("Dispute sent. Reminders are paused until an admin reviews it.");
+      setDetails("");
+      onOpenChange(false);
+      onDisputed();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to dispute payment");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Dispute Payment</DialogTitle>
+          <DialogDescription>
+            {payerName} asked you for {formatAmount(amountOwed)}. We'll let them know, post your reason in the ride chat, and pause reminders while an admin takes a look.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={reason} onValueChange={setReason}>
+            {DISPUTE_REASONS.map((option) => (
+              <div key={option.value} className="flex items-center space-x-2">
+                <RadioGroupItem value={option.value} id={`dispute-${option.value}`} />
+                <Label htmlFor={`dispute-${option.value}`} className="cursor-pointer">{option.label}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div>
+            <Label htmlFor="dispute-details">
+              Details{reason === 'not_in_ride' ? ' (Optional)' : ''}
+            </Label>
+            <Textarea
+              id="dispute-details"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              placeholder={reason === 'wrong_amount' ? "e.g., I got dropped off halfway, so I should owe about half" : "Anything that helps sort this out"}
+              rows={3}
+              maxLength={500}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={submitting}>
+            {submitting ? "Sending..." : "Send Dispute"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
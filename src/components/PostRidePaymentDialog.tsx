@@ -14,6 +14,7 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { toast } from "sonner";
 import { Loader2, DollarSign, Users } from "lucide-react";
 import { VenmoUsernameDialog } from "./VenmoUsernameDialog";
+import { MemberShare, formatAmount, splitByWeight } from "@/lib/costSplit";
 
 interface Profile {
   id: string;
@@ -46,7 +47,7 @@ export const PostRidePaymentDialog = ({
   const [step, setStep] = useState<'venmo-check' | 'enter-amount' | 'show-split'>('venmo-check');
   const [venmoUsername, setVenmoUsername] = useState<string | null>(null);
   const [showVenmoDialog, setShowVenmoDialog] = useState(false);
-  const [splitAmount, setSplitAmount] = useState(0);
+  const [shares, setShares] = useState<MemberShare[]>([]);
 
   useEffect(() => {
     if (open) {
@@ -99,41 +100,27 @@ export const PostRidePaymentDialog = ({
     try {
       setSubmitting(true);
 
-      const split = parsedAmount / members.length;
-      setSplitAmount(split);
-
       const costType = travelMode.includes('Rideshare') ? 'rideshare' : 'gas';
-
-      // Insert payment record
-      const { data: paymentData, error: paymentError } = await supabase
-        .from('uber_payments')
-        .insert({
-          ride_id: rideId,
-          payer_user_id: currentUserId,
-          amount: parsedAmount,
-          payer_venmo_username: venmoUsername,
-          cost_type: costType,
-        })
-        .select()
-        .single();
+      const split = splitByWeight(parsedAmount, members.map(m => ({ user_id: m.id, weight: 1 })));
+
+      // Records the payment, everyone's share and reminders for the others
+      const { error: paymentError } = await supabase.rpc('record_uber_payment', {
+        p_ride_id: rideId,
+        p_cost_type: costType,
+        p_fare: parsedAmount,
+        p_tip: 0,
+        p_tolls: 0,
+        p_parking: 0,
+        p_shares: split.map(share => ({
+          user_id: share.user_id,
+          weight: share.weight,
+          amount_owed: share.amount_owed,
+        })),
+      });
 
       if (paymentError) throw paymentError;
 
-      // Create payment reminders for all other members
-      const otherMembers = members.filter(m => m.id !== currentUserId);
-      if (otherMembers.length > 0) {
-        const { error: remindersError } = await supabase
-          .from('payment_reminders')
-          .insert(
-            otherMembers.map(m => ({
-              uber_payment_id: paymentData.id,
-              user_id: m.id,
-            }))
-          );
-
-        if (remindersError) throw remindersError;
-      }
-
+      setShares(split);
       toast.success('Payment amount recorded!');
       setStep('show-split');
     } catch (error) {
@@ -211,8 +198,8 @@ export const PostRidePaymentDialog = ({
 
               <div className="space-y-4">
                 <div className="text-center p-6 bg-primary/5 rounded-lg">
-                  <p className="text-sm text-muted-foreground mb-2">Each person owes</p>
-                  <p className="text-4xl font-bold text-primary">${splitAmount.toFixed(2)}</p>
+                  <p className="text-sm text-muted-foreground mb-2">Total split evenly</p>
+                  <p className="text-4xl font-bold text-primary">{formatAmount(parseFloat(amount))}</p>
                 </div>
 
                 <div className="space-y-2">
@@ -228,7 +215,10 @@ export const PostRidePaymentDialog = ({
                               {member.name.split(' ').map(n => n[0]).join('')}
                             </AvatarFallback>
                           </Avatar>
-                          <span className="text-sm">{member.name}</span>
+                          <span className="text-sm flex-1">{member.name}</span>
+                          <span className="text-sm font-medium">
+                            {formatAmount(shares.find(share => share.user_id === member.id)?.amount_owed)}
+                          </span>
                         </div>
                       ))}
                   </div>
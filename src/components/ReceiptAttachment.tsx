@@ -0,0 +1,156 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { AlertTriangle, FileText, Image as ImageIcon, Paperclip, X } from "lucide-react";
+import { format } from "date-fns";
+import { formatAmount } from "@/lib/costSplit";
+import { ParsedReceipt, RECEIPT_TEXT_TYPES, isReceiptTextFile, parseReceipt } from "@/lib/receiptParser";
+
+export interface ReceiptDraft {
+  // Set for images; receipts we can read are kept as text instead
+  image: File | null;
+  parsed: ParsedReceipt | null;
+}
+
+const EMPTY_RECEIPT: ReceiptDraft = { image: null, parsed: null };
+
+interface ReceiptAttachmentProps {
+  value: ReceiptDraft;
+  onChange: (receipt: ReceiptDraft) => void;
+  // Called when a receipt is read so the dialog can prefill the amounts
+  onParsed: (parsed: ParsedReceipt) => void;
+  enteredTotal: number;
+}
+
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+export const ReceiptAttachment = ({ value, onChange, onParsed, enteredTotal }: ReceiptAttachmentProps) => {
+  const [pasted, setPasted] = useState("");
+  const [showPaste, setShowPaste] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const readReceipt = (raw: string) => {
+    const parsed = parseReceipt(raw);
+    if (parsed.total === null) {
+      toast.error("Couldn't find a total in that receipt. Enter the amounts by hand.");
+    } else {
+      onParsed(parsed);
+      toast.success(`Filled in the ${formatAmount(parsed.total)} total from your receipt`);
+    }
+    onChange({ image: null, parsed });
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    if (isReceiptTextFile(file)) {
+      try {
+        readReceipt(await file.text());
+      } catch (error) {
+        toast.error("Couldn't read that receipt. Paste its text instead.");
+      }
+      return;
+    }
+
+    if (!file.type.startsWith("image/")) {
+      toast.error("Attach a screenshot or the receipt email (.eml)");
+      return;
+    }
+    if (file.size > MAX_IMAGE_BYTES) {
+      toast.error("Image must be less than 10MB");
+      return;
+    }
+    onChange({ image: file, parsed: null });
+  };
+
+  const handlePaste = () => {
+    if (!pasted.trim()) return;
+    readReceipt(pasted);
+    setShowPaste(false);
+    setPasted("");
+  };
+
+  const parsed = value.parsed;
+  const mismatch =
+    parsed?.total != null && enteredTotal > 0 && Math.round(parsed.total * 100) !== Math.round(enteredTotal * 100);
+
+  return (
+    <div className="space-y-2">
+      <Label>Receipt (Optional)</Label>
+
+      {!value.image && !parsed && (
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => fileInput.current?.click()}>
+            <Paperclip className="w-4 h-4 mr-1" />
+            Attach
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={() => setShowPaste(!showPaste)}>
+            <FileText className="w-4 h-4 mr-1" />
+            Paste email
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept={["image/*", "message/rfc822", ...RECEIPT_TEXT_TYPES].join(",")}
+            onChange={handleFile}
+            className="hidden"
+          />
+        </div>
+      )}
+
+      {showPaste && !parsed && (
+        <div className="space-y-2">
+          <Textarea
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+            placeholder="Paste the text of your Uber or Lyft receipt email"
+            rows={5}
+          />
+          <Button type="button" size="sm" onClick={handlePaste} disabled={!pasted.trim()}>
+            Read Receipt
+          </Button>
+        </div>
+      )}
+
+      {(value.image || parsed) && (
+        <div className="flex items-start gap-2 rounded-md border p-2 text-sm">
+          {value.image ? <ImageIcon className="w-4 h-4 mt-0.5" /> : <FileText className="w-4 h-4 mt-0.5" />}
+          <div className="flex-1 min-w-0">
+            {value.image && <p className="truncate">{value.image.name}</p>}
+            {parsed && (
+              <>
+                <p>
+                  {parsed.provider === 'lyft' ? 'Lyft' : parsed.provider === 'uber' ? 'Uber' : 'Receipt'}
+                  {parsed.tripAt && ` · ${format(parsed.tripAt, 'MMM d, h:mm a')}`}
+                </p>
+                <p className="text-muted-foreground">
+                  Total {parsed.total != null ? formatAmount(parsed.total) : 'not found'}
+                  {parsed.tip != null && ` · tip ${formatAmount(parsed.tip)}`}
+                </p>
+              </>
+            )}
+            {mismatch && (
+              <p className="flex items-center gap-1 text-xs text-destructive mt-1">
+                <AlertTriangle className="w-3 h-3" />
+                Doesn't match the receipt total of {formatAmount(parsed.total)}
+              </p>
+            )}
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            aria-label="Remove receipt"
+            onClick={() => onChange(EMPTY_RECEIPT)}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { formatAmount } from "@/lib/costSplit";
+
+interface Receipt {
+  storage_path: string | null;
+  receipt_text: string | null;
+  provider: string | null;
+  parsed_total: number | null;
+  parsed_tip: number | null;
+  trip_at: string | null;
+  created_at: string;
+}
+
+interface ReceiptViewerDialogProps {
+  paymentId: string;
+  // What the payer entered, to compare against the receipt
+  amount: number | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const ReceiptViewerDialog = ({ paymentId, amount, open, onOpenChange }: ReceiptViewerDialogProps) => {
+  const [receipt, setReceipt] = useState<Receipt | null>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open) fetchReceipt();
+  }, [open, paymentId]);
+
+  const fetchReceipt = async () => {
+    try {
+      setLoading(true);
+      setImageUrl(null);
+      const { data, error } = await supabase
+        .from('uber_payment_receipts')
+        .select('storage_path, receipt_text, provider, parsed_total, parsed_tip, trip_at, created_at')
+        .eq('uber_payment_id', paymentId)
+        .maybeSingle();
+
+      if (error) throw error;
+      setReceipt(data);
+
+      if (data?.storage_path) {
+        // The bucket is private; signed URLs keep receipts to the ride
+        const { data: signed, error: signError } = await supabase.storage
+          .from('ride-receipts')
+          .createSignedUrl(data.storage_path, 60 * 60);
+        if (signError) throw signError;
+        setImageUrl(signed.signedUrl);
+      }
+    } catch (error) {
+      toast.error("Failed to load receipt");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const mismatch =
+    receipt?.parsed_total != null && amount != null &&
+    Math.round(receipt.parsed_total * 100) !== Math.round(amount * 100);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Receipt</DialogTitle>
+          <DialogDescription>
+            {receipt
+              ? `Attached ${format(new Date(receipt.created_at), 'MMM d, yyyy')} by the payer`
+              : 'The payer attached this receipt when recording the cost'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && <p className="text-sm text-muted-foreground text-center py-4">Loading receipt...</p>}
+
+        {!loading && !receipt && (
+          <p className="text-sm text-muted-foreground text-center py-4">No receipt was attached to this payment.</p>
+        )}
+
+        {!loading && receipt && (
+          <div className="space-y-3">
+            {(receipt.parsed_total != null || receipt.trip_at) && (
+              <div className="rounded-md bg-muted/50 p-3 text-sm space-y-1">
+                {receipt.provider && <p className="font-medium capitalize">{receipt.provider}</p>}
+                {receipt.trip_at && <p>Trip: {format(new Date(receipt.trip_at), 'MMM d, yyyy h:mm a')}</p>}
+                {receipt.parsed_total != null && <p>Total: {formatAmount(receipt.parsed_total)}</p>}
+                {receipt.parsed_tip != null && <p>Tip: {formatAmount(receipt.parsed_tip)}</p>}
+                {mismatch && (
+                  <p className="text-destructive">
+                    The payer recorded {formatAmount(amount)}, which doesn't match this receipt.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {imageUrl && (
+              <a href={imageUrl} target="_blank" rel="noopener noreferrer">
+                <img src={imageUrl} alt="Ride receipt" className="w-full rounded-md border" />
+              </a>
+            )}
+
+            {receipt.receipt_text && (
+              <pre className="max-h-72 overflow-y-auto whitespace-pre-wrap rounded-md border p-3 text-xs">
+                {receipt.receipt_text}
+              </pre>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
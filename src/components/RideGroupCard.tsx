@@ -5,7 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Clock, Users, MapPin, UserPlus, Trash2, MessageCircle, Share2, CheckCircle, Pencil } from "lucide-react";
+import { Clock, Users, MapPin, UserPlus, Trash2, MessageCircle, Share2, CheckCircle, Pencil, Hourglass } from "lucide-react";
 import { RideGroupChat } from "@/components/RideGroupChat";
 import { CapacityVisualization } from "@/components/CapacityVisualization";
 import { ShareRideDetails } from "@/components/ShareRideDetails";
@@ -36,7 +36,7 @@ interface RideGroup {
   meeting_point: string | null;
   capacity: number;
   min_capacity: number;
-  created_by: string;
+  created_by: string | null;
   event_id: string;
   ride_members: { user_id: string; role: string | null }[];
 }
@@ -48,6 +48,11 @@ interface Profile {
   program: string;
 }
 
+interface WaitlistEntry {
+  user_id: string;
+  created_at: string;
+}
+
 interface RideGroupCardProps {
   rideGroup: RideGroup;
   currentUserId: string | null;
@@ -77,6 +82,7 @@ export const RideGroupCard = ({ rideGroup, currentUserId, onUpdate, isAdmin, eve
   const [showCompleteDialog, setShowCompleteDialog] = useState(false);
   const [showAttendanceDialog, setShowAttendanceDialog] = useState(false);
   const [showEditDialog, setShowEditDialog] = useState(false);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
 
   const isMember = currentUserId && rideGroup.ride_members.some(m => m.user_id === currentUserId);
   const isDriver = currentUserId && rideGroup.ride_members.some(m => m.user_id === currentUserId && m.role === 'driver');
@@ -88,6 +94,8 @@ export const RideGroupCard = ({ rideGroup, currentUserId, onUpdate, isAdmin, eve
   );
   const isCarpool = rideGroup.travel_mode === 'Carpool (Student Driver)';
   const passengerCount = rideGroup.ride_members.filter(m => m.role !== 'driver').length;
+  const waitlistIndex = currentUserId ? waitlist.findIndex(w => w.user_id === currentUserId) : -1;
+  const waitlistPosition = waitlistIndex >= 0 ? waitlistIndex + 1 : null;
 
   useEffect(() => {
     fetchMembers();
@@ -103,14 +111,14 @@ export const RideGroupCard = ({ rideGroup, currentUserId, onUpdate, isAdmin, eve
     }
   }, [isMember]);
 
-  // Keep leader in sync with votes (realtime)
+  // Keep leader in sync with tallies (realtime)
   useEffect(() => {
     fetchLeader();
     const channel = supabase
-      .channel(`meeting_votes_${rideGroup.id}`)
+      .channel(`meeting_point_tallies_${rideGroup.id}`)
       .on(
         'postgres_changes',
-        { event: '*', schema: 'public', table: 'meeting_votes', filter: `ride_id=eq.${rideGroup.id}` },
+        { event: 'INSERT', schema: 'public', table: 'meeting_point_tallies', filter: `ride_id=eq.${rideGroup.id}` },
         () => fetchLeader()
       )
       .subscribe();
@@ -120,6 +128,41 @@ export const RideGroupCard = ({ rideGroup, currentUserId, onUpdate, isAdmin, eve
     };
   }, [rideGroup.id]);
 
+  // Keep waitlist positions in sync (realtime)
+  useEffect(() => {
+    fetchWaitlist();
+    const channel = supabase
+      .channel(`ride_waitlist_${rideGroup.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'ride_waitlist', filter: `ride_id=eq.${rideGroup.id}` },
+        () => {
+          fetchWaitlist();
+          onUpdate();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [rideGroup.id]);
+
+  const fetchWaitlist = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('ride_waitlist')
+        .select('user_id, created_at')
+        .eq('ride_id', rideGroup.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setWaitlist(data || []);
+    } catch (error) {
+      // Failed to load waitlist
+    }
+  };
+
   const fetchMembers = async () => {
     try {
       const memberIds = rideGroup.ride_members.map(m => m.user_id);
@@ -148,33 +191,18 @@ export const RideGroupCard = ({ rideGroup, currentUserId, onUpdate, isAdmin, eve
     }
   };
 
+  // The meeting point is tallied server-side whenever a ranking changes,
+  // so the stored value is always the current winner
   const fetchLeader = async () => {
     try {
       const { data, error } = await supabase
-        .from('meeting_votes')
-        .select('vote_option')
-        .eq('ride_id', rideGroup.id);
+        .from('ride_groups')
+        .select('meeting_point')
+        .eq('id', rideGroup.id)
+        .single();
       if (error) throw error;
 
-      const counts: Record<string, number> = {};
-      data?.forEach(v => {
-        counts[v.vote_option] = (counts[v.vote_option] || 0) + 1;
-      });
-
-      const entries = Object.entries(counts);
-      if (entries.length === 0) {
-        setLeaderMeetingPoint(null);
-        return;
-      }
-
-      const maxVotes = Math.max(...entries.map(([_, count]) => count));
-      const winners = entries
-        .filter(([_, count]) => count === maxVotes)
-        .map(([option]) => option)
-        .sort(); // Sort alphabetically for consistency
-
-      const result = winners.join(' OR ');
-      setLeaderMeetingPoint(result);
+      setLeaderMeetingPoint(data.meeting_point);
     } catch (e) {
       // Failed to fetch leader meeting point
     }
@@ -186,54 +214,13 @@ export const RideGroupCard = ({ rideGroup, currentUserId, onUpdate, isAdmin, eve
     try {
       setLoading(true);
 
-      // Get the event_id from the ride group to check for conflicts
-      const { data: rideData } = await supabase
-        .from('ride_groups')
-        .select('event_id')
-        .eq('id', rideGroup.id)
-        .single();
-
-      if (rideData) {
-        // Check if user is already in another ride for this event
-        const { data: existingMembership } = await supabase
-          .from('ride_members')
-          .select(`
-            ride_id,
-            ride_groups!inner(
-              id,
-              event_id,
-              travel_mode,
-              departure_time
-            )
-          `)
-          .eq('user_id', currentUserId)
-          .eq('status', 'joined')
-          .eq('ride_groups.event_id', rideData.event_id)
-          .neq('ride_id', rideGroup.id);
-
-        if (existingMembership && existingMembership.length > 0) {
-          const existingRide = existingMembership[0].ride_groups;
-          toast.error(
-            `You're already in a ride group for this event (departing at ${format(new Date(existingRide.departure_time), 'h:mm a')}). Please leave that group first.`,
-            { duration: 5000 }
-          );
-          setLoading(false);
-          return;
-        }
-      }
-
-      const role = isCarpool ? 'rider' : null;
-
-      const { error } = await supabase.from('ride_members').insert({
-        ride_id: rideGroup.id,
-        user_id: currentUserId,
-        status: 'joined',
-        role: role,
+      // Capacity, one-ride-per-event and in-app notifications are handled atomically server-side
+      const { data: membership, error } = await supabase.rpc('join_ride', {
+        p_ride_id: rideGroup.id,
       });
 
       if (error) throw error;
 
-      // Notify other members
       const memberIds = rideGroup.ride_members.map(m => m.user_id);
       const { data: profile } = await supabase
         .from('profiles')
@@ -241,16 +228,6 @@ export const RideGroupCard = ({ rideGroup, currentUserId, onUpdate, isAdmin, eve
         .eq('id', currentUserId)
         .single();
 
-      for (const memberId of memberIds) {
-        await supabase.from('notifications').insert({
-          user_id: memberId,
-          ride_id: rideGroup.id,
-          type: 'member_joined',
-          title: 'New member joined',
-          message: `${profile?.name || 'Someone'} joined your ride group`,
-        });
-      }
-
       // Send email notifications
       const { data: memberEmails } = await supabase
         .from('profiles')
@@ -270,20 +247,7 @@ export const RideGroupCard = ({ rideGroup, currentUserId, onUpdate, isAdmin, eve
         });
       }
 
-      // Check if group is ready (3/4 full)
-      if (rideGroup.ride_members.length + 1 >= 3 && rideGroup.capacity === 4) {
-        for (const memberId of [...memberIds, currentUserId]) {
-          await supabase.from('notifications').insert({
-            user_id: memberId,
-            ride_id: rideGroup.id,
-            type: 'group_ready',
-            title: 'Ride group almost full!',
-            message: `Your ride group is ${rideGroup.ride_members.length + 1}/4 full`,
-          });
-        }
-      }
-
-      const message = role === 'rider'
+      const message = membership?.role === 'rider'
         ? `Joined as rider in ${driver?.name}'s ride!`
         : "Joined ride group!";
       toast.success(message);
@@ -295,6 +259,51 @@ export const RideGroupCard = ({ rideGroup, currentUserId, onUpdate, isAdmin, eve
     }
   };
 
+  const handleJoinWaitlist = async () => {
+    if (!currentUserId) return;
+
+    try {
+      setLoading(true);
+
+      const { error } = await supabase.from('ride_waitlist').insert({
+        ride_id: rideGroup.id,
+        user_id: currentUserId,
+      });
+
+      if (error) throw error;
+
+      toast.success("Added to the waitlist. We'll let you know if a seat opens up.");
+      fetchWaitlist();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to join waitlist");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLeaveWaitlist = async () => {
+    if (!currentUserId) return;
+
+    try {
+      setLoading(true);
+
+      const { error } = await supabase
+        .from('ride_waitlist')
+        .delete()
+        .eq('ride_id', rideGroup.id)
+        .eq('user_id', currentUserId);
+
+      if (error) throw error;
+
+      toast.success("Left the waitlist");
+      fetchWaitlist();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to leave waitlist");
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleLeaveRide = async () => {
     if (!currentUserId) return;
 
@@ -343,13 +352,14 @@ export const RideGroupCard = ({ rideGroup, currentUserId, onUpdate, isAdmin, eve
         }
       }
 
-      const { error } = await supabase
-        .from('ride_members')
-        .delete()
-        .eq('ride_id', rideGroup.id)
-        .eq('user_id', currentUserId);
+      // Frees the seat; the database promotes and emails the next person on
+      // the waitlist, if any
+      const { error } = await supabase.rpc('leave_ride', {
+        p_ride_id: rideGroup.id,
+      });
 
       if (error) throw error;
+
       toast.success("Left ride group");
       setShowLeaveDialog(false);
       onUpdate();
@@ -383,15 +393,8 @@ export const RideGroupCard = ({ rideGroup, currentUserId, onUpdate, isAdmin, eve
         });
       }
 
-      // First, explicitly delete all members to ensure clean state
-      const { error: memberError } = await supabase
-        .from('ride_members')
-        .delete()
-        .eq('ride_id', rideGroup.id);
-
-      if (memberError) throw memberError;
-
-      // Then delete the ride group
+      // Members go with the ride. Removing them first would hand their seats
+      // to the waitlist just before the ride disappears.
       const { error } = await supabase
         .from('ride_groups')
         .delete()
@@ -520,6 +523,19 @@ export const RideGroupCard = ({ rideGroup, currentUserId, onUpdate, isAdmin, eve
               Join Ride
             </Button>
           )}
+          {!isMember && isFull && (
+            waitlistPosition ? (
+              <Button onClick={handleLeaveWaitlist} variant="outline" disabled={loading} className="flex-1">
+                <Hourglass className="w-4 h-4 mr-2" />
+                #{waitlistPosition} in line · Leave Waitlist
+              </Button>
+            ) : (
+              <Button onClick={handleJoinWaitlist} variant="secondary" disabled={loading} className="flex-1">
+                <Hourglass className="w-4 h-4 mr-2" />
+                Join Waitlist{waitlist.length > 0 ? ` (${waitlist.length} waiting)` : ''}
+              </Button>
+            )
+          )}
           {isMember && (
             <>
               {isDriver ? (
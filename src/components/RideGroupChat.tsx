@@ -1,22 +1,92 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useLayoutEffect, useRef } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Send } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { AlertTriangle, ArrowDown, ExternalLink, Loader2, MapPin, MoreHorizontal, Pencil, Reply, Send, SmilePlus, Trash2, X } from "lucide-react";
 import { format } from "date-fns";
+import { describeTimelineEvent } from "@/lib/rideTimeline";
+import { useRideChatPresence } from "@/hooks/useRideChatPresence";
+import { LatLng, distanceInMeters, formatDistance } from "@/lib/geo";
+import { RideLocationContext, fetchRideLocationContext, getCurrentPosition, mapsUrl } from "@/lib/rideLocation";
+import { RideLocationMap } from "@/components/RideLocationMap";
+import { LiveLocationPanel } from "@/components/LiveLocationPanel";
+
+const REACTION_EMOJIS = ["👍", "❤️", "😂", "😮", "🙏", "🚗"];
+
+const PAGE_SIZE = 50;
+// Opening at the unread divider or jumping to a quoted message loads
+// everything in between, up to this many messages
+const MAX_JUMP_LOAD = 500;
+const MESSAGE_COLUMNS = 'id, message, created_at, user_id, payment_dispute_id, edited_at, deleted_at, reply_to_id, system_event, metadata, pin_latitude, pin_longitude';
+
+interface Reaction {
+  emoji: string;
+  userIds: string[];
+}
+
+interface QuotedMessage {
+  id: string;
+  message: string;
+  user_id: string;
+  created_at: string;
+  deleted_at: string | null;
+}
 
 interface Message {
   id: string;
   message: string;
   created_at: string;
   user_id: string;
+  payment_dispute_id: string | null;
+  edited_at: string | null;
+  deleted_at: string | null;
+  reply_to_id: string | null;
+  // Set on timeline rows (joins, meeting point changes, ...), which have no text
+  system_event: string | null;
+  metadata: Record<string, unknown> | null;
+  // Location pins; cleared when the message is deleted
+  pin_latitude: number | null;
+  pin_longitude: number | null;
   profiles: {
     name: string;
     photo: string | null;
   } | null;
+  reactions: Reaction[];
+}
+
+type MessageRow = Omit<Message, 'profiles' | 'reactions'>;
+
+// Keyset cursors on (created_at, id), so messages sent in the same instant
+// aren't skipped or loaded twice between pages
+const olderThan = (row: MessageRow) =>
+  `created_at.lt."${row.created_at}",and(created_at.eq."${row.created_at}",id.lt.${row.id})`;
+const newerThan = (row: MessageRow) =>
+  `created_at.gt."${row.created_at}",and(created_at.eq."${row.created_at}",id.gt.${row.id})`;
+
+interface ChatMember {
+  name: string;
+  photo: string | null;
 }
 
 interface RideGroupChatProps {
@@ -31,21 +101,58 @@ export const RideGroupChat = ({ open, onOpenChange, rideId, rideName }: RideGrou
   const [newMessage, setNewMessage] = useState("");
   const [loading, setLoading] = useState(false);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [quoted, setQuoted] = useState<Map<string, QuotedMessage>>(new Map());
+  const [replyTo, setReplyTo] = useState<Message | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [names, setNames] = useState<Map<string, string>>(new Map());
+  const [members, setMembers] = useState<Map<string, ChatMember>>(new Map());
+  const [reads, setReads] = useState<Map<string, string>>(new Map());
+  const [hasOlder, setHasOlder] = useState(true);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [firstUnreadId, setFirstUnreadId] = useState<string | null>(null);
+  const [showJumpToLatest, setShowJumpToLatest] = useState(false);
+  const [locationContext, setLocationContext] = useState<RideLocationContext | null>(null);
+  const { onlineUserIds, typingUserIds, setTyping } = useRideChatPresence(rideId, currentUserId, open);
   const { toast } = useToast();
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // Realtime handlers and the scroll listener outlive renders, so they read
+  // the loaded messages and paging state through refs
+  const messagesRef = useRef<Message[]>([]);
+  const hasOlderRef = useRef(true);
+  const loadingOlderRef = useRef(false);
+  const loadedRef = useRef(false);
+  const atBottomRef = useRef(true);
+  // Applied after the next render: where to scroll (null id means the
+  // latest message), or the offset to keep when older messages are prepended
+  const pendingScrollRef = useRef<{ messageId: string | null; align: 'start' | 'center' | 'end' } | null>(null);
+  const prependRef = useRef<{ offset: number; totalSize: number } | null>(null);
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  };
+  messagesRef.current = messages;
+
+  const virtualizer = useVirtualizer({
+    count: messages.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => 80,
+    overscan: 8,
+    getItemKey: (index) => messages[index].id,
+  });
 
   useEffect(() => {
     if (open) {
-      fetchMessages();
-      markAsRead();
-      
-      supabase.auth.getSession().then(({ data: { session } }) => {
-        setCurrentUserId(session?.user?.id || null);
-      });
+      loadedRef.current = false;
+      hasOlderRef.current = true;
+      atBottomRef.current = true;
+      setMessages([]);
+      setQuoted(new Map());
+      setHasOlder(true);
+      setFirstUnreadId(null);
+      setShowJumpToLatest(false);
+      loadInitialMessages();
+      fetchMembers();
+      fetchReads();
+      fetchRideLocationContext(rideId).then(setLocationContext);
 
       const channel = supabase
         .channel(`ride-chat-${rideId}`)
@@ -57,11 +164,34 @@ export const RideGroupChat = ({ open, onOpenChange, rideId, rideName }: RideGrou
             table: 'ride_group_messages',
             filter: `ride_id=eq.${rideId}`,
           },
-          (payload) => {
-            fetchMessages();
-            scrollToBottom();
+          () => {
+            fetchNewerMessages();
+            // Seen in the app, so it stays out of the next email digest
+            markAsRead();
           }
         )
+        // Edits, deletions and reactions (which touch their message)
+        .on(
+          'postgres_changes',
+          {
+            event: 'UPDATE',
+            schema: 'public',
+            table: 'ride_group_messages',
+            filter: `ride_id=eq.${rideId}`,
+          },
+          (payload) => refreshMessage((payload.new as { id: string }).id)
+        )
+        // Other members catching up, for the "seen by" avatars
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'ride_message_reads',
+            filter: `ride_id=eq.${rideId}`,
+          },
+          () => fetchReads()
+        )
         .subscribe();
 
       return () => {
@@ -70,39 +200,247 @@ export const RideGroupChat = ({ open, onOpenChange, rideId, rideName }: RideGrou
     }
   }, [open, rideId]);
 
-  useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
 
-  const fetchMessages = async () => {
-    const { data, error } = await supabase
-      .from('ride_group_messages')
-      .select('id, message, created_at, user_id')
-      .eq('ride_id', rideId)
-      .order('created_at', { ascending: true })
-      .limit(100);
+    if (prependRef.current && el) {
+      // Keep the messages on screen where they were while older ones load above
+      el.scrollTop = prependRef.current.offset + virtualizer.getTotalSize() - prependRef.current.totalSize;
+      prependRef.current = null;
+    }
 
-    if (error) {
-      return;
+    if (pendingScrollRef.current && messages.length > 0) {
+      const { messageId, align } = pendingScrollRef.current;
+      const index = messageId ? messages.findIndex(m => m.id === messageId) : messages.length - 1;
+      pendingScrollRef.current = null;
+      if (index >= 0) virtualizer.scrollToIndex(index, { align });
     }
+  }, [messages, virtualizer]);
+
+  // Adds reactions, sender profiles and any quoted messages that aren't loaded
+  const hydrateMessages = async (rows: MessageRow[]): Promise<Message[]> => {
+    if (rows.length === 0) return [];
 
-    if (!data) return;
+    const known = new Set([...rows, ...messagesRef.current].map(m => m.id));
+    const missingQuoteIds = [...new Set(rows.map(m => m.reply_to_id).filter(id => id && !known.has(id)))] as string[];
+
+    const [{ data: reactions }, { data: olderQuotes }] = await Promise.all([
+      supabase
+        .from('ride_message_reactions')
+        .select('message_id, user_id, emoji')
+        .in('message_id', rows.map(m => m.id)),
+      missingQuoteIds.length > 0
+        ? supabase.from('ride_group_messages').select('id, message, user_id, created_at, deleted_at').in('id', missingQuoteIds)
+        : Promise.resolve({ data: [] as QuotedMessage[] }),
+    ]);
 
     // Fetch profile data for each unique user
-    const userIds = [...new Set(data.map(m => m.user_id))];
+    const userIds = [...new Set([...rows, ...(olderQuotes || [])].map(m => m.user_id))];
     const { data: profiles } = await supabase
       .from('profiles')
       .select('id, name, photo')
       .in('id', userIds);
 
     const profileMap = new Map(profiles?.map(p => [p.id, p]) || []);
-    
-    const messagesWithProfiles = data.map(msg => ({
+
+    const reactionsByMessage = new Map<string, Reaction[]>();
+    for (const reaction of reactions || []) {
+      const list = reactionsByMessage.get(reaction.message_id) || [];
+      const existing = list.find(r => r.emoji === reaction.emoji);
+      if (existing) {
+        existing.userIds.push(reaction.user_id);
+      } else {
+        list.push({ emoji: reaction.emoji, userIds: [reaction.user_id] });
+      }
+      reactionsByMessage.set(reaction.message_id, list);
+    }
+
+    setNames(prev => new Map([...prev, ...(profiles?.map(p => [p.id, p.name] as const) || [])]));
+    setQuoted(prev => new Map([...prev, ...[...rows, ...(olderQuotes || [])].map(m => [m.id, m as QuotedMessage] as const)]));
+
+    return rows.map(msg => ({
       ...msg,
       profiles: profileMap.get(msg.user_id) || null,
+      reactions: reactionsByMessage.get(msg.id) || [],
     }));
+  };
+
+  // Everything from `since` up to (not including) `before`, oldest first
+  const fetchMessagesBetween = async (since: string, before: MessageRow, inclusive: boolean) => {
+    const query = supabase
+      .from('ride_group_messages')
+      .select(MESSAGE_COLUMNS)
+      .eq('ride_id', rideId)
+      .or(olderThan(before));
+
+    const { data } = await (inclusive ? query.gte('created_at', since) : query.gt('created_at', since))
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(MAX_JUMP_LOAD);
 
-    setMessages(messagesWithProfiles as Message[]);
+    return ((data || []) as MessageRow[]).reverse();
+  };
+
+  // Opens at the first message that arrived since the last visit, or at the
+  // bottom if there's nothing new
+  const loadInitialMessages = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    const userId = session?.user?.id || null;
+    setCurrentUserId(userId);
+
+    // Read before markAsRead moves it to now
+    const { data: read } = userId
+      ? await supabase
+          .from('ride_message_reads')
+          .select('last_read_at')
+          .eq('ride_id', rideId)
+          .eq('user_id', userId)
+          .maybeSingle()
+      : { data: null };
+    markAsRead();
+
+    const { data, error } = await supabase
+      .from('ride_group_messages')
+      .select(MESSAGE_COLUMNS)
+      .eq('ride_id', rideId)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(PAGE_SIZE);
+
+    if (error || !data) return;
+
+    let rows = (data as MessageRow[]).reverse();
+    const lastReadAt = read?.last_read_at ? new Date(read.last_read_at) : null;
+
+    // The whole first page is unread, so load back to where they left off
+    if (lastReadAt && data.length === PAGE_SIZE && new Date(rows[0].created_at) > lastReadAt) {
+      rows = [...await fetchMessagesBetween(read!.last_read_at!, rows[0], false), ...rows];
+    }
+
+    const loaded = await hydrateMessages(rows);
+    const firstUnread = lastReadAt
+      ? loaded.find(m => m.user_id !== userId && new Date(m.created_at) > lastReadAt)
+      : undefined;
+
+    hasOlderRef.current = data.length === PAGE_SIZE;
+    setHasOlder(hasOlderRef.current);
+    setFirstUnreadId(firstUnread?.id || null);
+    pendingScrollRef.current = { messageId: firstUnread?.id || null, align: firstUnread ? 'start' : 'end' };
+    setMessages(loaded);
+    loadedRef.current = true;
+  };
+
+  const loadOlderMessages = async () => {
+    const oldest = messagesRef.current[0];
+    if (!oldest || !hasOlderRef.current || loadingOlderRef.current) return;
+
+    loadingOlderRef.current = true;
+    setLoadingOlder(true);
+
+    const { data, error } = await supabase
+      .from('ride_group_messages')
+      .select(MESSAGE_COLUMNS)
+      .eq('ride_id', rideId)
+      .or(olderThan(oldest))
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(PAGE_SIZE);
+
+    if (!error && data) {
+      const older = await hydrateMessages((data as MessageRow[]).reverse());
+      hasOlderRef.current = data.length === PAGE_SIZE;
+      setHasOlder(hasOlderRef.current);
+
+      const el = scrollRef.current;
+      if (el) prependRef.current = { offset: el.scrollTop, totalSize: virtualizer.getTotalSize() };
+      setMessages(prev => [...older.filter(m => !prev.some(p => p.id === m.id)), ...prev]);
+    }
+
+    loadingOlderRef.current = false;
+    setLoadingOlder(false);
+  };
+
+  const fetchNewerMessages = async () => {
+    if (!loadedRef.current) return;
+
+    const newest = messagesRef.current[messagesRef.current.length - 1];
+    const query = supabase
+      .from('ride_group_messages')
+      .select(MESSAGE_COLUMNS)
+      .eq('ride_id', rideId);
+
+    const { data, error } = await (newest ? query.or(newerThan(newest)) : query)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(PAGE_SIZE);
+
+    if (error || !data || data.length === 0) return;
+
+    const newer = await hydrateMessages(data as MessageRow[]);
+    const { data: { session } } = await supabase.auth.getSession();
+
+    // Follow the conversation unless they've scrolled up to read something
+    if (atBottomRef.current || newer.some(m => m.user_id === session?.user?.id)) {
+      pendingScrollRef.current = { messageId: null, align: 'end' };
+    }
+    setMessages(prev => [...prev, ...newer.filter(m => !prev.some(p => p.id === m.id))]);
+  };
+
+  const refreshMessage = async (messageId: string) => {
+    if (!messagesRef.current.some(m => m.id === messageId)) return;
+
+    const { data, error } = await supabase
+      .from('ride_group_messages')
+      .select(MESSAGE_COLUMNS)
+      .eq('id', messageId)
+      .maybeSingle();
+
+    if (error || !data) return;
+
+    const [message] = await hydrateMessages([data as MessageRow]);
+    setMessages(prev => prev.map(m => (m.id === messageId ? message : m)));
+  };
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (!el) return;
+
+    const distanceFromBottom = el.scrollHeight - el.scrollTop - el.clientHeight;
+    atBottomRef.current = distanceFromBottom < 80;
+    setShowJumpToLatest(distanceFromBottom > 400);
+
+    if (loadedRef.current && el.scrollTop < 300) {
+      loadOlderMessages();
+    }
+  };
+
+  const jumpToLatest = () => {
+    if (messages.length > 0) {
+      virtualizer.scrollToIndex(messages.length - 1, { align: 'end' });
+    }
+  };
+
+  const fetchMembers = async () => {
+    const { data } = await supabase
+      .from('ride_members')
+      .select('user_id, profiles(name, photo)')
+      .eq('ride_id', rideId)
+      .eq('status', 'joined');
+
+    setMembers(new Map(
+      (data || [])
+        .filter(m => m.profiles)
+        .map(m => [m.user_id, { name: m.profiles!.name, photo: m.profiles!.photo }])
+    ));
+  };
+
+  const fetchReads = async () => {
+    const { data } = await supabase
+      .from('ride_message_reads')
+      .select('user_id, last_read_at')
+      .eq('ride_id', rideId);
+
+    setReads(new Map((data || []).filter(r => r.last_read_at).map(r => [r.user_id, r.last_read_at!])));
   };
 
   const markAsRead = async () => {
@@ -115,46 +453,49 @@ export const RideGroupChat = ({ open, onOpenChange, rideId, rideName }: RideGrou
         user_id: session.user.id,
         ride_id: rideId,
         last_read_at: new Date().toISOString(),
-      });
+      }, { onConflict: 'user_id,ride_id' });
   };
 
-  const handleSend = async () => {
-    if (!newMessage.trim() || loading) return;
-
+  // Sends a message (with a location pin, if given) as a reply to whatever
+  // is being replied to. Resolves to whether it went through.
+  const sendMessage = async (messageText: string, pin?: LatLng) => {
     const { data: { session } } = await supabase.auth.getSession();
     if (!session) {
       toast({ title: "Please sign in to send messages", variant: "destructive" });
-      return;
+      return false;
     }
 
-    setLoading(true);
-    const messageText = newMessage.trim();
-    
     const { data: insertedMessage, error } = await supabase
       .from('ride_group_messages')
       .insert({
         ride_id: rideId,
         user_id: session.user.id,
         message: messageText,
+        reply_to_id: replyTo?.id ?? null,
+        pin_latitude: pin?.latitude ?? null,
+        pin_longitude: pin?.longitude ?? null,
       })
       .select()
       .single();
 
     if (error) {
       toast({ title: "Failed to send message", variant: "destructive" });
+      return false;
     } else {
-      setNewMessage("");
+      setReplyTo(null);
       
-      // Send email notifications to all members except sender
+      // Email members who want one per message; everyone else gets a
+      // digest from send-chat-digests once the chat goes quiet
       try {
         const { data: members } = await supabase
           .from('ride_members')
-          .select('user_id, profiles(email, name)')
+          .select('user_id, profiles(email, name, chat_email_digest)')
           .eq('ride_id', rideId)
           .neq('user_id', session.user.id);
 
         if (members && members.length > 0) {
           const recipientEmails = members
+            .filter(m => m.profiles && !m.profiles.chat_email_digest)
             .map(m => m.profiles?.email)
             .filter(Boolean) as string[];
 
@@ -165,7 +506,7 @@ export const RideGroupChat = ({ open, onOpenChange, rideId, rideName }: RideGrou
               .eq('id', session.user.id)
               .single();
 
-            const { data, error: invokeError } = await supabase.functions.invoke('send-ride-notification', {
+            const { error: invokeError } = await supabase.functions.invoke('send-ride-notification', {
               body: {
                 type: 'new_chat_message',
                 rideId: rideId,
@@ -176,20 +517,13 @@ export const RideGroupChat = ({ open, onOpenChange, rideId, rideName }: RideGrou
               }
             });
 
+            // Emails that fail to send are retried from the outbox
             if (invokeError) {
               toast({
                 title: "Message sent but notifications failed",
                 description: "Your message was sent but email notifications couldn't be delivered.",
                 variant: "destructive"
               });
-            } else if (data) {
-              if (data.failed > 0) {
-                toast({
-                  title: "Partial notification failure",
-                  description: `${data.sent} notifications sent, ${data.failed} failed.`,
-                  variant: "destructive"
-                });
-              }
             }
           }
         }
@@ -201,7 +535,38 @@ export const RideGroupChat = ({ open, onOpenChange, rideId, rideName }: RideGrou
         });
       }
     }
-    
+
+    return true;
+  };
+
+  const handleSend = async () => {
+    if (!newMessage.trim() || loading) return;
+
+    setLoading(true);
+    if (await sendMessage(newMessage.trim())) {
+      setNewMessage("");
+      setTyping(false);
+    }
+    setLoading(false);
+  };
+
+  // Anything typed in the box becomes the pin's caption
+  const handleSharePin = async () => {
+    if (loading) return;
+
+    setLoading(true);
+    try {
+      const { coords } = await getCurrentPosition();
+      if (await sendMessage(newMessage.trim() || "Shared a location", coords)) {
+        setNewMessage("");
+        setTyping(false);
+      }
+    } catch (error) {
+      toast({
+        title: error instanceof Error ? error.message : "Couldn't get your location",
+        variant: "destructive",
+      });
+    }
     setLoading(false);
   };
 
@@ -209,7 +574,355 @@ export const RideGroupChat = ({ open, onOpenChange, rideId, rideName }: RideGrou
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSend();
+    } else if (e.key === 'Escape' && replyTo) {
+      setReplyTo(null);
+    }
+  };
+
+  const startEditing = (msg: Message) => {
+    setEditingId(msg.id);
+    setEditText(msg.message);
+  };
+
+  const handleSaveEdit = async () => {
+    const text = editText.trim();
+    if (!editingId || !text) return;
+    const messageId = editingId;
+
+    const { error } = await supabase
+      .from('ride_group_messages')
+      .update({ message: text })
+      .eq('id', messageId);
+
+    if (error) {
+      toast({ title: "Failed to edit message", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    setEditingId(null);
+    setEditText("");
+    refreshMessage(messageId);
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSaveEdit();
+    } else if (e.key === 'Escape') {
+      setEditingId(null);
+    }
+  };
+
+  const handleDelete = async (messageId: string) => {
+    setDeleteId(null);
+
+    const { error } = await supabase
+      .from('ride_group_messages')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', messageId);
+
+    if (error) {
+      toast({ title: "Failed to delete message", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    if (replyTo?.id === messageId) setReplyTo(null);
+    refreshMessage(messageId);
+  };
+
+  const toggleReaction = async (msg: Message, emoji: string) => {
+    if (!currentUserId) return;
+
+    const mine = msg.reactions.find(r => r.emoji === emoji)?.userIds.includes(currentUserId);
+    const { error } = mine
+      ? await supabase
+          .from('ride_message_reactions')
+          .delete()
+          .eq('message_id', msg.id)
+          .eq('user_id', currentUserId)
+          .eq('emoji', emoji)
+      : await supabase
+          .from('ride_message_reactions')
+          .insert({ message_id: msg.id, user_id: currentUserId, emoji });
+
+    if (error) {
+      toast({ title: "Failed to update reaction", variant: "destructive" });
+      return;
     }
+
+    refreshMessage(msg.id);
+  };
+
+  // Quoted messages may be further back than what's loaded; load down to
+  // them first
+  const scrollToMessage = async (messageId: string) => {
+    const index = messages.findIndex(m => m.id === messageId);
+    if (index >= 0) {
+      virtualizer.scrollToIndex(index, { align: 'center' });
+      return;
+    }
+
+    const quote = quoted.get(messageId);
+    const oldest = messages[0];
+    if (!quote || !oldest) return;
+
+    const older = await hydrateMessages(await fetchMessagesBetween(quote.created_at, oldest, true));
+    if (!older.some(m => m.id === messageId)) {
+      toast({ title: "That message is too far back to show" });
+      return;
+    }
+
+    pendingScrollRef.current = { messageId, align: 'center' };
+    setMessages(prev => [...older.filter(m => !prev.some(p => p.id === m.id)), ...prev]);
+  };
+
+  const quotePreview = (quote: QuotedMessage | undefined) => {
+    if (!quote) return "Original message unavailable";
+    if (quote.deleted_at) return "This message was deleted";
+    return quote.message.length > 80 ? `${quote.message.substring(0, 80)}...` : quote.message;
+  };
+
+  const initials = (name: string | undefined) =>
+    name?.split(' ').map(n => n[0]).join('').toUpperCase() || 'U';
+
+  // Each member's avatar sits under the last message they've seen, so
+  // everything above it has been seen by them too
+  const seenBy = new Map<string, string[]>();
+  for (const [userId, lastReadAt] of reads) {
+    if (userId === currentUserId || !members.has(userId)) continue;
+    const lastSeen = [...messages].reverse().find(m => new Date(m.created_at) <= new Date(lastReadAt));
+    if (lastSeen) {
+      seenBy.set(lastSeen.id, [...(seenBy.get(lastSeen.id) || []), userId]);
+    }
+  }
+
+  const seenByAlign = { start: 'justify-start', center: 'justify-center', end: 'justify-end' };
+
+  const renderSeenBy = (messageId: string, align: keyof typeof seenByAlign) => {
+    const readers = seenBy.get(messageId);
+    if (!readers) return null;
+
+    const readerNames = readers.map(id => members.get(id)?.name || 'Unknown').join(', ');
+    return (
+      <div
+        className={`flex items-center gap-1 mt-1 ${seenByAlign[align]}`}
+        title={`Seen by ${readerNames}`}
+        aria-label={`Seen by ${readerNames}`}
+      >
+        {readers.map(id => (
+          <Avatar key={id} className="h-4 w-4">
+            <AvatarImage src={members.get(id)?.photo || undefined} />
+            <AvatarFallback className="text-[8px]">{initials(members.get(id)?.name)}</AvatarFallback>
+          </Avatar>
+        ))}
+      </div>
+    );
+  };
+
+  const othersOnline = onlineUserIds.filter(id => id !== currentUserId && members.has(id));
+  const typingNames = typingUserIds.filter(id => members.has(id)).map(id => members.get(id)!.name.split(' ')[0]);
+  const typingLabel =
+    typingNames.length === 0 ? null
+      : typingNames.length === 1 ? `${typingNames[0]} is typing...`
+      : typingNames.length === 2 ? `${typingNames[0]} and ${typingNames[1]} are typing...`
+      : 'Several people are typing...';
+
+  const renderMessage = (msg: Message) => {
+    if (msg.system_event) {
+      return (
+        <div className="flex flex-col items-center">
+          <p className="rounded-full bg-muted/60 px-3 py-1 text-center text-xs text-muted-foreground">
+            {describeTimelineEvent(msg.system_event, msg.metadata, msg.profiles?.name || 'Someone')}
+            <span className="ml-2 opacity-70">{format(new Date(msg.created_at), 'h:mm a')}</span>
+          </p>
+          {renderSeenBy(msg.id, 'center')}
+        </div>
+      );
+    }
+
+    const isCurrentUser = msg.user_id === currentUserId;
+    const deleted = !!msg.deleted_at;
+    const editing = editingId === msg.id;
+    const quote = msg.reply_to_id ? quoted.get(msg.reply_to_id) : undefined;
+    const pin = msg.pin_latitude !== null && msg.pin_longitude !== null
+      ? { latitude: msg.pin_latitude, longitude: msg.pin_longitude }
+      : null;
+    return (
+      <div className={`group flex gap-3 ${isCurrentUser ? 'flex-row-reverse' : 'flex-row'}`}>
+        <Avatar className="h-8 w-8 flex-shrink-0">
+          <AvatarImage src={msg.profiles?.photo || undefined} />
+          <AvatarFallback>
+            {initials(msg.profiles?.name)}
+          </AvatarFallback>
+        </Avatar>
+
+        <div className={`flex flex-col ${isCurrentUser ? 'items-end' : 'items-start'} max-w-[75%]`}>
+          <div className="flex items-center gap-2 mb-1">
+            <span className="text-sm font-medium">{msg.profiles?.name || 'Unknown'}</span>
+            <span className="text-xs text-muted-foreground">
+              {format(new Date(msg.created_at), 'h:mm a')}
+              {msg.edited_at && !deleted && ' (edited)'}
+            </span>
+            {!deleted && !editing && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100"
+                    aria-label="Message actions"
+                  >
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align={isCurrentUser ? 'end' : 'start'}>
+                  <DropdownMenuItem onClick={() => setReplyTo(msg)}>
+                    <Reply className="h-4 w-4 mr-2" />
+                    Reply
+                  </DropdownMenuItem>
+                  {isCurrentUser && !msg.payment_dispute_id && (
+                    <>
+                      <DropdownMenuItem onClick={() => startEditing(msg)}>
+                        <Pencil className="h-4 w-4 mr-2" />
+                        Edit
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => setDeleteId(msg.id)} className="text-destructive">
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Delete
+                      </DropdownMenuItem>
+                    </>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+          </div>
+
+          {editing ? (
+            <div className="w-64 space-y-2">
+              <Textarea
+                value={editText}
+                onChange={(e) => setEditText(e.target.value)}
+                onKeyDown={handleEditKeyDown}
+                className="resize-none text-sm"
+                rows={2}
+                maxLength={500}
+                autoFocus
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setEditingId(null)}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={handleSaveEdit} disabled={!editText.trim()}>
+                  Save
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div
+              className={`rounded-lg px-4 py-2 ${
+                deleted
+                  ? 'border border-dashed text-muted-foreground'
+                  : isCurrentUser
+                    ? 'bg-primary text-primary-foreground'
+                    : 'bg-muted'
+              }`}
+            >
+              {msg.reply_to_id && !deleted && (
+                <button
+                  type="button"
+                  onClick={() => scrollToMessage(msg.reply_to_id!)}
+                  className="block w-full text-left border-l-2 border-current pl-2 mb-1 text-xs opacity-80"
+                >
+                  <span className="font-medium">{(quote && names.get(quote.user_id)) || 'Unknown'}</span>
+                  <span className="block line-clamp-2">{quotePreview(quote)}</span>
+                </button>
+              )}
+              {msg.payment_dispute_id && (
+                <p className="flex items-center gap-1 text-xs font-medium mb-1 opacity-80">
+                  <AlertTriangle className="h-3 w-3" />
+                  Payment dispute
+                </p>
+              )}
+              {pin && !deleted && (
+                <div className="mb-1 space-y-1">
+                  <RideLocationMap
+                    className="h-32 w-56"
+                    interactive={false}
+                    meetingPoint={locationContext?.meetingPoint}
+                    markers={[{ id: msg.id, ...pin, label: msg.profiles?.name?.split(' ')[0] || 'Pin' }]}
+                  />
+                  <a
+                    href={mapsUrl(pin)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 text-xs underline opacity-80"
+                  >
+                    <ExternalLink className="h-3 w-3" />
+                    {locationContext?.meetingPoint
+                      ? `${formatDistance(distanceInMeters(pin, locationContext.meetingPoint))} from ${locationContext.meetingPoint.name}`
+                      : 'Open in Maps'}
+                  </a>
+                </div>
+              )}
+              {deleted ? (
+                <p className="text-sm italic">This message was deleted</p>
+              ) : (
+                <p className="text-sm whitespace-pre-wrap break-words">{msg.message}</p>
+              )}
+            </div>
+          )}
+
+          {!deleted && (
+            <div className={`flex flex-wrap items-center gap-1 mt-1 ${isCurrentUser ? 'justify-end' : 'justify-start'}`}>
+              {msg.reactions.map(reaction => {
+                const mine = !!currentUserId && reaction.userIds.includes(currentUserId);
+                return (
+                  <button
+                    key={reaction.emoji}
+                    type="button"
+                    onClick={() => toggleReaction(msg, reaction.emoji)}
+                    title={reaction.userIds.map(id => names.get(id) || 'Unknown').join(', ')}
+                    className={`rounded-full border px-2 py-0.5 text-xs ${mine ? 'border-primary bg-primary/10' : 'bg-background'}`}
+                  >
+                    {reaction.emoji} {reaction.userIds.length}
+                  </button>
+                );
+              })}
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100"
+                    aria-label="Add reaction"
+                  >
+                    <SmilePlus className="h-4 w-4" />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-1" align={isCurrentUser ? 'end' : 'start'}>
+                  <div className="flex gap-1">
+                    {REACTION_EMOJIS.map(emoji => (
+                      <Button
+                        key={emoji}
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-lg"
+                        onClick={() => toggleReaction(msg, emoji)}
+                        aria-label={`React with ${emoji}`}
+                      >
+                        {emoji}
+                      </Button>
+                    ))}
+                  </div>
+                </PopoverContent>
+              </Popover>
+            </div>
+          )}
+
+          {renderSeenBy(msg.id, isCurrentUser ? 'end' : 'start')}
+        </div>
+      </div>
+    );
   };
 
   return (
@@ -218,63 +931,129 @@ export const RideGroupChat = ({ open, onOpenChange, rideId, rideName }: RideGrou
         <SheetHeader className="p-6 pb-4 border-b">
           <SheetTitle>Ride Group Chat</SheetTitle>
           <p className="text-sm text-muted-foreground">{rideName}</p>
+          {othersOnline.length > 0 && (
+            <div className="flex items-center gap-2 pt-1">
+              <div className="flex -space-x-2">
+                {othersOnline.map(id => (
+                  <Avatar key={id} className="h-6 w-6 border-2 border-background" title={members.get(id)?.name}>
+                    <AvatarImage src={members.get(id)?.photo || undefined} />
+                    <AvatarFallback className="text-[10px]">{initials(members.get(id)?.name)}</AvatarFallback>
+                  </Avatar>
+                ))}
+              </div>
+              <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                <span className="h-2 w-2 rounded-full bg-green-500" />
+                {othersOnline.length} online
+              </span>
+            </div>
+          )}
         </SheetHeader>
 
-        <div className="flex-1 overflow-y-auto p-6 space-y-4">
-          {messages.length === 0 ? (
-            <div className="text-center text-muted-foreground py-8">
-              No messages yet. Start the conversation!
-            </div>
-          ) : (
-            messages.map((msg) => {
-              const isCurrentUser = msg.user_id === currentUserId;
-              return (
-                <div
-                  key={msg.id}
-                  className={`flex gap-3 ${isCurrentUser ? 'flex-row-reverse' : 'flex-row'}`}
-                >
-                  <Avatar className="h-8 w-8 flex-shrink-0">
-                    <AvatarImage src={msg.profiles?.photo || undefined} />
-                    <AvatarFallback>
-                      {msg.profiles?.name.split(' ').map(n => n[0]).join('').toUpperCase() || 'U'}
-                    </AvatarFallback>
-                  </Avatar>
-                  
-                  <div className={`flex flex-col ${isCurrentUser ? 'items-end' : 'items-start'} max-w-[75%]`}>
-                    <div className="flex items-center gap-2 mb-1">
-                      <span className="text-sm font-medium">{msg.profiles?.name || 'Unknown'}</span>
-                      <span className="text-xs text-muted-foreground">
-                        {format(new Date(msg.created_at), 'h:mm a')}
-                      </span>
-                    </div>
+        {locationContext && currentUserId && (
+          <LiveLocationPanel
+            rideId={rideId}
+            currentUserId={currentUserId}
+            context={locationContext}
+            memberNames={new Map([...members].map(([id, member]) => [id, member.name]))}
+          />
+        )}
+
+        <div className="relative flex-1 min-h-0">
+          <div ref={scrollRef} onScroll={handleScroll} className="h-full overflow-y-auto px-6 pt-6 pb-2">
+            {messages.length === 0 ? (
+              <div className="text-center text-muted-foreground py-8">
+                No messages yet. Start the conversation!
+              </div>
+            ) : (
+              <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+                {virtualizer.getVirtualItems().map((item) => {
+                  const msg = messages[item.index];
+                  return (
                     <div
-                      className={`rounded-lg px-4 py-2 ${
-                        isCurrentUser
-                          ? 'bg-primary text-primary-foreground'
-                          : 'bg-muted'
-                      }`}
+                      key={item.key}
+                      data-index={item.index}
+                      ref={virtualizer.measureElement}
+                      className="absolute left-0 top-0 w-full pb-4"
+                      style={{ transform: `translateY(${item.start}px)` }}
                     >
-                      <p className="text-sm whitespace-pre-wrap break-words">{msg.message}</p>
+                      {item.index === 0 && loadingOlder && (
+                        <div className="flex justify-center pb-4">
+                          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                        </div>
+                      )}
+                      {item.index === 0 && !hasOlder && (
+                        <p className="pb-4 text-center text-xs text-muted-foreground">Start of the conversation</p>
+                      )}
+                      {msg.id === firstUnreadId && (
+                        <div className="flex items-center gap-2 pb-4 text-xs font-medium text-primary">
+                          <div className="h-px flex-1 bg-primary/40" />
+                          Unread messages
+                          <div className="h-px flex-1 bg-primary/40" />
+                        </div>
+                      )}
+                      {renderMessage(msg)}
                     </div>
-                  </div>
-                </div>
-              );
-            })
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {showJumpToLatest && (
+            <Button
+              size="sm"
+              variant="secondary"
+              className="absolute bottom-3 left-1/2 -translate-x-1/2 rounded-full shadow-md"
+              onClick={jumpToLatest}
+            >
+              <ArrowDown className="h-4 w-4 mr-1" />
+              Jump to latest
+            </Button>
           )}
-          <div ref={messagesEndRef} />
         </div>
 
         <div className="p-4 border-t bg-background">
+          {replyTo && (
+            <div className="flex items-start justify-between gap-2 mb-2 rounded-md border-l-2 border-primary bg-muted px-3 py-2">
+              <div className="min-w-0 text-xs">
+                <p className="font-medium">Replying to {replyTo.profiles?.name || 'Unknown'}</p>
+                <p className="text-muted-foreground truncate">{replyTo.message}</p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 flex-shrink-0"
+                onClick={() => setReplyTo(null)}
+                aria-label="Cancel reply"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
           <div className="flex gap-2">
             <Textarea
               value={newMessage}
-              onChange={(e) => setNewMessage(e.target.value)}
+              onChange={(e) => {
+                setNewMessage(e.target.value);
+                setTyping(!!e.target.value.trim());
+              }}
               onKeyDown={handleKeyDown}
               placeholder="Type a message..."
               className="resize-none"
               rows={2}
               maxLength={500}
             />
+            <Button
+              onClick={handleSharePin}
+              disabled={loading}
+              size="icon"
+              variant="outline"
+              className="self-end"
+              aria-label="Share my location"
+              title="Share my location"
+            >
+              <MapPin className="h-4 w-4" />
+            </Button>
             <Button
               onClick={handleSend}
               disabled={!newMessage.trim() || loading}
@@ -284,10 +1063,31 @@ export const RideGroupChat = ({ open, onOpenChange, rideId, rideName }: RideGrou
               <Send className="h-4 w-4" />
             </Button>
           </div>
-          <p className="text-xs text-muted-foreground mt-2">
-            {newMessage.length}/500 characters
-          </p>
+          <div className="flex justify-between gap-2 text-xs text-muted-foreground mt-2">
+            <span className="italic truncate" aria-live="polite">{typingLabel}</span>
+            <span className="flex-shrink-0">{newMessage.length}/500 characters</span>
+          </div>
         </div>
+
+        <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete Message?</AlertDialogTitle>
+              <AlertDialogDescription>
+                The message will be replaced with "This message was deleted" for everyone in the chat.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => deleteId && handleDelete(deleteId)}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </SheetContent>
     </Sheet>
   );
@@ -0,0 +1,84 @@
+import { useEffect } from "react";
+import { CircleMarker, MapContainer, TileLayer, Tooltip, useMap } from "react-leaflet";
+import { latLngBounds } from "leaflet";
+import "leaflet/dist/leaflet.css";
+import { cn } from "@/lib/utils";
+import { LatLng } from "@/lib/geo";
+import { MeetingPointLocation } from "@/lib/rideLocation";
+
+// SVG markers can't read the theme's CSS variables
+const MEETING_POINT_COLOR = "#2563eb";
+const MEMBER_COLOR = "#16a34a";
+const SELF_COLOR = "#f59e0b";
+
+export interface MapMarker extends LatLng {
+  id: string;
+  label: string;
+  isSelf?: boolean;
+}
+
+interface RideLocationMapProps {
+  meetingPoint?: MeetingPointLocation | null;
+  markers: MapMarker[];
+  interactive?: boolean;
+  className?: string;
+}
+
+// Refits when someone starts or stops showing, not on every position update,
+// so panning around isn't undone every few seconds
+const FitToMarkers = ({ points, fitKey }: { points: LatLng[]; fitKey: string }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    if (points.length === 1) {
+      map.setView([points[0].latitude, points[0].longitude], 17);
+    } else if (points.length > 1) {
+      map.fitBounds(latLngBounds(points.map(p => [p.latitude, p.longitude])), { padding: [24, 24], maxZoom: 17 });
+    }
+  }, [map, fitKey]);
+
+  return null;
+};
+
+export const RideLocationMap = ({ meetingPoint, markers, interactive = true, className }: RideLocationMapProps) => {
+  const points: LatLng[] = [...(meetingPoint ? [meetingPoint] : []), ...markers];
+  if (points.length === 0) return null;
+
+  return (
+    <MapContainer
+      center={[points[0].latitude, points[0].longitude]}
+      zoom={16}
+      scrollWheelZoom={false}
+      dragging={interactive}
+      zoomControl={interactive}
+      doubleClickZoom={interactive}
+      touchZoom={interactive}
+      className={cn("z-0 rounded-md", className)}
+    >
+      <TileLayer
+        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+      />
+      {meetingPoint && (
+        <CircleMarker
+          center={[meetingPoint.latitude, meetingPoint.longitude]}
+          radius={9}
+          pathOptions={{ color: MEETING_POINT_COLOR, fillOpacity: 0.3 }}
+        >
+          <Tooltip direction="top" permanent>{meetingPoint.name}</Tooltip>
+        </CircleMarker>
+      )}
+      {markers.map(marker => (
+        <CircleMarker
+          key={marker.id}
+          center={[marker.latitude, marker.longitude]}
+          radius={6}
+          pathOptions={{ color: marker.isSelf ? SELF_COLOR : MEMBER_COLOR, fillOpacity: 0.9 }}
+        >
+          <Tooltip direction="bottom" permanent>{marker.label}</Tooltip>
+        </CircleMarker>
+      ))}
+      <FitToMarkers points={points} fitKey={markers.map(m => m.id).join(',')} />
+    </MapContainer>
+  );
+};
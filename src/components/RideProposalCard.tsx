@@ -0,0 +1,153 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Clock, MapPin, Sparkles } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+
+interface ProposedRideGroup {
+  id: string;
+  departure_time: string;
+  travel_mode: string;
+  meeting_point: string | null;
+  capacity: number;
+  min_capacity: number;
+  ride_members: { user_id: string; role: string | null; status: string | null }[];
+}
+
+interface Profile {
+  id: string;
+  name: string;
+  photo: string | null;
+}
+
+interface RideProposalCardProps {
+  rideGroup: ProposedRideGroup;
+  currentUserId: string;
+  onUpdate: () => void;
+}
+
+export const RideProposalCard = ({ rideGroup, currentUserId, onUpdate }: RideProposalCardProps) => {
+  const [members, setMembers] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const myMembership = rideGroup.ride_members.find(m => m.user_id === currentUserId);
+  const hasAccepted = myMembership?.status === 'joined';
+  const acceptedCount = rideGroup.ride_members.filter(m => m.status === 'joined').length;
+  const needed = Math.max(0, (rideGroup.min_capacity || 2) - acceptedCount);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [rideGroup.id]);
+
+  const fetchMembers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('public_profiles')
+        .select('id, name, photo')
+        .in('id', rideGroup.ride_members.map(m => m.user_id));
+
+      if (error) throw error;
+      setMembers(data || []);
+    } catch (error) {
+      // Failed to load members
+    }
+  };
+
+  const handleRespond = async (accept: boolean) => {
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase.rpc('respond_to_ride_proposal', {
+        p_ride_id: rideGroup.id,
+        p_accept: accept,
+      });
+
+      if (error) throw error;
+
+      if (!accept) {
+        toast.success("Declined. We'll keep looking for a better match.");
+      } else if (data?.status === 'active') {
+        toast.success("Your ride group is confirmed!");
+      } else {
+        toast.success("Accepted! Waiting for the others to respond.");
+      }
+      onUpdate();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to respond to proposal");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card className="border-primary/40 bg-primary/5">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="w-5 h-5" />
+            {format(new Date(rideGroup.departure_time), 'h:mm a')}
+          </CardTitle>
+          <Badge variant="outline" className="gap-1 w-fit">
+            <Sparkles className="w-3 h-3" />
+            Suggested group
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rideGroup.meeting_point && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <MapPin className="w-4 h-4" />
+            Everyone is leaving from {rideGroup.meeting_point}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {members.map((member) => {
+            const status = rideGroup.ride_members.find(m => m.user_id === member.id)?.status;
+            return (
+              <div key={member.id} className="flex items-center gap-3">
+                <Avatar className="w-8 h-8">
+                  <AvatarImage src={member.photo || undefined} />
+                  <AvatarFallback>{member.name.split(' ').map(n => n[0]).join('')}</AvatarFallback>
+                </Avatar>
+                <p className="text-sm font-medium flex-1">
+                  {member.id === currentUserId ? 'You' : member.name}
+                </p>
+                <Badge variant={status === 'joined' ? 'default' : 'secondary'}>
+                  {status === 'joined' ? 'Accepted' : 'Pending'}
+                </Badge>
+              </div>
+            );
+          })}
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          {needed > 0
+            ? `${needed} more ${needed === 1 ? 'person needs' : 'people need'} to accept before this group is confirmed.`
+            : 'This group has enough people to be confirmed.'}
+        </p>
+
+        <div className="flex gap-2">
+          {hasAccepted ? (
+            <Button onClick={() => handleRespond(false)} variant="outline" disabled={loading} className="flex-1">
+              Back Out
+            </Button>
+          ) : (
+            <>
+              <Button onClick={() => handleRespond(true)} disabled={loading} className="flex-1">
+                Accept
+              </Button>
+              <Button onClick={() => handleRespond(false)} variant="outline" disabled={loading} className="flex-1">
+                Decline
+              </Button>
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,217 @@
+import { useState, useEffect } from "react";
+import { supabase, SUPABASE_FUNCTIONS_URL } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { NotificationPreference, SMS_NOTIFICATION_TYPES, isEnabled } from "@/lib/notificationPreferences";
+
+interface SmsNotificationSettingsProps {
+  userId: string;
+}
+
+type VerifyPhoneBody =
+  | { action: "send"; phoneNumber: string }
+  | { action: "verify"; code: string }
+  | { action: "remove" };
+
+// Called with fetch rather than functions.invoke so the function's error
+// message (wrong code, wait before resending) reaches the toast
+const callVerifyPhone = async (body: VerifyPhoneBody): Promise<{ phoneNumber?: string }> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error("You must be logged in");
+
+  const res = await fetch(`${SUPABASE_FUNCTIONS_URL}/verify-phone`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${session.access_token}`,
+      'Content-Type': 'application/json',
+      'apikey': import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+    },
+    body: JSON.stringify(body),
+  });
+
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data?.error || `Request failed with status ${res.status}`);
+  }
+  return data;
+};
+
+export const SmsNotificationSettings = ({ userId }: SmsNotificationSettingsProps) => {
+  const [verifiedNumber, setVerifiedNumber] = useState<string | null>(null);
+  const [phoneInput, setPhoneInput] = useState("");
+  const [pendingNumber, setPendingNumber] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [preferences, setPreferences] = useState<NotificationPreference[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [userId]);
+
+  const fetchSettings = async () => {
+    try {
+      const [{ data: profile, error: profileError }, { data: prefs, error: prefsError }] = await Promise.all([
+        supabase
+          .from('profiles')
+          .select('phone_number, phone_verified_at')
+          .eq('id', userId)
+          .single(),
+        supabase
+          .from('notification_preferences')
+          .select('type, channel, enabled')
+          .eq('user_id', userId)
+          .eq('channel', 'sms'),
+      ]);
+
+      if (profileError) throw profileError;
+      if (prefsError) throw prefsError;
+
+      setVerifiedNumber(profile.phone_verified_at ? profile.phone_number : null);
+      setPreferences((prefs || []) as NotificationPreference[]);
+    } catch (error) {
+      toast.error("Failed to load text message settings");
+    }
+  };
+
+  const handleSendCode = async () => {
+    try {
+      setBusy(true);
+      const { phoneNumber } = await callVerifyPhone({ action: "send", phoneNumber: phoneInput });
+      setPendingNumber(phoneNumber || phoneInput);
+      setCode("");
+      toast.success(`Code sent to ${phoneNumber || phoneInput}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to send code");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    try {
+      setBusy(true);
+      const { phoneNumber } = await callVerifyPhone({ action: "verify", code });
+      setVerifiedNumber(phoneNumber || pendingNumber);
+      setPendingNumber(null);
+      setPhoneInput("");
+      setCode("");
+      toast.success("Phone number verified");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to verify code");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    try {
+      setBusy(true);
+      await callVerifyPhone({ action: "remove" });
+      setVerifiedNumber(null);
+      toast.success("Phone number removed");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to remove phone number");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const smsEnabled = SMS_NOTIFICATION_TYPES.every(type => isEnabled(preferences, type, "sms"));
+
+  const handleToggleSms = async (enabled: boolean) => {
+    const rows = SMS_NOTIFICATION_TYPES.map(type => ({ user_id: userId, type, channel: "sms", enabled, updated_at: new Date().toISOString() }));
+    const previous = preferences;
+
+    setPreferences(rows.map(({ type }) => ({ type, channel: "sms", enabled })));
+
+    try {
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert(rows, { onConflict: 'user_id,type,channel' });
+      if (error) throw error;
+    } catch (error) {
+      setPreferences(previous);
+      toast.error("Failed to update text message settings");
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Text Messages</CardTitle>
+        <CardDescription>
+          Get a text when your ride is about to leave, its meeting point moves or it's cancelled
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {verifiedNumber ? (
+          <>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="text-sm font-medium">{verifiedNumber}</p>
+                <p className="text-xs text-muted-foreground">Verified. Members of your rides can see this number.</p>
+              </div>
+              <Button variant="outline" size="sm" onClick={handleRemove} disabled={busy}>
+                Remove
+              </Button>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="sms-alerts" className="text-sm font-medium">Text me urgent ride updates</Label>
+              <Switch id="sms-alerts" checked={smsEnabled} onCheckedChange={handleToggleSms} />
+            </div>
+          </>
+        ) : pendingNumber ? (
+          <div className="space-y-2">
+            <Label htmlFor="sms-code">Enter the code sent to {pendingNumber}</Label>
+            <div className="flex gap-2">
+              <Input
+                id="sms-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value.replace(/\D/g, "").slice(0, 6))}
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+              />
+              <Button onClick={handleVerify} disabled={busy || code.length !== 6}>
+                {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : "Verify"}
+              </Button>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="link" size="sm" className="px-0" onClick={handleSendCode} disabled={busy}>
+                Resend code
+              </Button>
+              <Button variant="link" size="sm" className="px-0" onClick={() => setPendingNumber(null)} disabled={busy}>
+                Use a different number
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="sms-phone">Phone number</Label>
+            <div className="flex gap-2">
+              <Input
+                id="sms-phone"
+                type="tel"
+                value={phoneInput}
+                onChange={(e) => setPhoneInput(e.target.value)}
+                autoComplete="tel"
+                placeholder="(510) 555-0123"
+              />
+              <Button onClick={handleSendCode} disabled={busy || !phoneInput.trim()}>
+                {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : "Send Code"}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Optional. We'll text a code to confirm it's yours. Message and data rates may apply.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
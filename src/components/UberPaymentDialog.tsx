@@ -12,8 +12,21 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
 import { DollarSign, ExternalLink } from "lucide-react";
+import {
+  LINE_ITEMS,
+  LineItemKey,
+  MemberShare,
+  SHARE_WEIGHTS,
+  formatAmount,
+  lineItemsTotal,
+  splitByWeight,
+} from "@/lib/costSplit";
+import { buildPaymentNote, normalizeVenmoUsername, venmoChargeLink } from "@/lib/paymentLinks";
+import { ParsedReceipt } from "@/lib/receiptParser";
+import { ReceiptAttachment, ReceiptDraft } from "@/components/ReceiptAttachment";
 
 interface Profile {
   id: string;
@@ -38,9 +51,73 @@ export const UberPaymentDialog = ({
   currentUserId
 }: UberPaymentDialogProps) => {
   const [willingToPay, setWillingToPay] = useState(false);
-  const [amount, setAmount] = useState("");
+  const [lineItems, setLineItems] = useState<Record<LineItemKey, string>>({
+    fare: "",
+    tip: "",
+    tolls: "",
+    parking: "",
+  });
+  const [weights, setWeights] = useState<Record<string, number>>({});
+  const [shares, setShares] = useState<MemberShare[]>([]);
+  const [submitting, setSubmitting] = useState(false);
   const [step, setStep] = useState<'willing' | 'enter-amount' | 'show-split'>('willing');
   const [selectedPayer, setSelectedPayer] = useState<Profile | null>(null);
+  const [memberVenmo, setMemberVenmo] = useState<Record<string, string | null>>({});
+  const [paymentNote, setPaymentNote] = useState("");
+  const [receipt, setReceipt] = useState<ReceiptDraft>({ image: null, parsed: null });
+
+  const parsedItems = Object.fromEntries(
+    LINE_ITEMS.map(({ key }) => [key, parseFloat(lineItems[key]) || 0])
+  ) as Record<LineItemKey, number>;
+  const total = lineItemsTotal(parsedItems);
+  const previewShares = splitByWeight(
+    total,
+    members.map(m => ({ user_id: m.id, weight: weights[m.id] ?? 1 }))
+  );
+
+  // Receipt totals include the tip; the rest goes in as the fare
+  const handleReceiptParsed = (parsed: ParsedReceipt) => {
+    if (parsed.total === null) return;
+    const tipCents = Math.round((parsed.tip ?? 0) * 100);
+    setLineItems({
+      fare: ((Math.round(parsed.total * 100) - tipCents) / 100).toFixed(2),
+      tip: tipCents > 0 ? (tipCents / 100).toFixed(2) : "",
+      tolls: "",
+      parking: "",
+    });
+  };
+
+  const attachReceipt = async (paymentId: string) => {
+    if (!currentUserId || (!receipt.image && !receipt.parsed)) return;
+
+    try {
+      let storagePath: string | null = null;
+      if (receipt.image) {
+        const extension = receipt.image.name.split('.').pop()?.toLowerCase() || 'jpg';
+        storagePath = `${rideId}/${paymentId}.${extension}`;
+        const { error: uploadError } = await supabase.storage
+          .from('ride-receipts')
+          .upload(storagePath, receipt.image, { contentType: receipt.image.type });
+        if (uploadError) throw uploadError;
+      }
+
+      const { error } = await supabase.from('uber_payment_receipts').insert({
+        uber_payment_id: paymentId,
+        storage_path: storagePath,
+        content_type: receipt.image?.type ?? 'text/plain',
+        receipt_text: receipt.parsed?.text ?? null,
+        provider: receipt.parsed?.provider ?? null,
+        parsed_total: receipt.parsed?.total ?? null,
+        parsed_tip: receipt.parsed?.tip ?? null,
+        trip_at: receipt.parsed?.tripAt?.toISOString() ?? null,
+        uploaded_by: currentUserId,
+      });
+      if (error) throw error;
+    } catch (error) {
+      // The payment itself is saved; don't lose it over the attachment
+      toast.error("Payment saved, but the receipt couldn't be attached");
+    }
+  };
 
   const handleWillingSubmit = () => {
     const randomPayer = members[Math.floor(Math.random() * members.length)];
@@ -56,17 +133,26 @@ export const UberPaymentDialog = ({
   };
 
   const handleAmountSubmit = async () => {
-    const parsedAmount = parseFloat(amount);
-    if (!amount || isNaN(parsedAmount) || parsedAmount <= 0) {
+    if (!lineItems.fare) {
+      toast.error("Please enter the fare");
+      return;
+    }
+    for (const { key, label } of LINE_ITEMS) {
+      if (lineItems[key] && !/^\d+(\.\d{1,2})?$/.test(lineItems[key])) {
+        toast.error(`Please enter the ${label.toLowerCase()} with up to 2 decimal places`);
+        return;
+      }
+    }
+    if (total <= 0) {
       toast.error("Please enter a valid amount");
       return;
     }
-    if (parsedAmount > 10000) {
+    if (total > 10000) {
       toast.error("Amount cannot exceed $10,000");
       return;
     }
-    if (!/^\d+(\.\d{1,2})?$/.test(amount)) {
-      toast.error("Please enter an amount with up to 2 decimal places");
+    if (!previewShares.some(share => share.weight > 0)) {
+      toast.error("At least one person has to share the cost");
       return;
     }
 
@@ -76,50 +162,81 @@ export const UberPaymentDialog = ({
     }
 
     try {
-      const splitAmount = parseFloat(amount) / members.length;
+      setSubmitting(true);
 
-      const { error } = await supabase.from('uber_payments').insert({
-        ride_id: rideId,
-        payer_user_id: currentUserId,
-        amount: parseFloat(amount),
-        venmo_link: `https://venmo.com`,
+      const { data: payment, error } = await supabase.rpc('record_uber_payment', {
+        p_ride_id: rideId,
+        p_cost_type: 'rideshare',
+        p_fare: parsedItems.fare,
+        p_tip: parsedItems.tip,
+        p_tolls: parsedItems.tolls,
+        p_parking: parsedItems.parking,
+        p_shares: previewShares.map(share => ({
+          user_id: share.user_id,
+          weight: share.weight,
+          amount_owed: share.amount_owed,
+        })),
       });
 
       if (error) throw error;
 
-      // Send email notifications to other members
-      const otherMembers = members.filter(m => m.id !== currentUserId);
+      await attachReceipt(payment.id);
+      setShares(previewShares);
+
+      // Send email notifications to other members who owe something
+      const owing = previewShares.filter(share => share.user_id !== currentUserId && share.amount_owed > 0);
       const { data: profile } = await supabase
         .from('profiles')
         .select('name, email')
         .eq('id', currentUserId)
         .single();
 
-      const { data: memberEmails } = await supabase
-        .from('profiles')
-        .select('email')
-        .in('id', otherMembers.map(m => m.id));
+      const [{ data: memberEmails }, { data: ride }] = await Promise.all([
+        supabase
+          .from('profiles')
+          .select('id, email, venmo_username')
+          .in('id', owing.map(share => share.user_id)),
+        supabase
+          .from('ride_groups')
+          .select('events(name, date_time)')
+          .eq('id', rideId)
+          .single(),
+      ]);
+
+      setMemberVenmo(Object.fromEntries(memberEmails?.map(m => [m.id, normalizeVenmoUsername(m.venmo_username)]) || []));
+      setPaymentNote(buildPaymentNote(ride?.events?.name || 'Ride', ride?.events?.date_time));
+
+      // One email per distinct amount, since shares can differ
+      const recipientsByAmount = new Map<number, string[]>();
+      owing.forEach(share => {
+        const email = memberEmails?.find(m => m.id === share.user_id)?.email;
+        if (!email) return;
+        recipientsByAmount.set(share.amount_owed, [...(recipientsByAmount.get(share.amount_owed) || []), email]);
+      });
 
-      if (memberEmails && memberEmails.length > 0) {
+      for (const [splitAmount, recipientEmails] of recipientsByAmount) {
         await supabase.functions.invoke('send-ride-notification', {
           body: {
             type: 'payment_request',
             rideId: rideId,
-            recipientEmails: memberEmails.map(m => m.email),
+            recipientEmails,
             actorName: profile?.name || 'A member',
-            amount: parseFloat(amount),
-            splitAmount: parseFloat(splitAmount.toFixed(2)),
+            amount: total,
+            splitAmount,
+            paymentId: payment.id,
           }
         });
       }
 
       setStep('show-split');
     } catch (error) {
-      toast.error("Failed to record payment");
+      toast.error(error instanceof Error ? error.message : "Failed to record payment");
+    } finally {
+      setSubmitting(false);
     }
   };
 
-  const splitAmount = amount ? (parseFloat(amount) / members.length).toFixed(2) : "0.00";
+  const owedBy = (memberId: string) => shares.find(share => share.user_id === memberId)?.amount_owed ?? 0;
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -171,26 +288,75 @@ export const UberPaymentDialog = ({
             <Card className="bg-primary/5">
               <CardContent className="p-4">
                 <p className="text-sm">
-                  You've been selected as the payer! After your ride, enter the total Uber fare below.
+                  You've been selected as the payer! After your ride, attach your receipt or enter what you paid, and adjust shares for anyone who rode part of the way or didn't ride.
                 </p>
               </CardContent>
             </Card>
 
-            <div>
-              <Label htmlFor="amount">Total Uber Fare ($)</Label>
-              <Input
-                id="amount"
-                type="number"
-                step="0.01"
-                placeholder="25.00"
-                value={amount}
-                onChange={(e) => setAmount(e.target.value)}
-                className="mt-1"
-              />
+            <ReceiptAttachment
+              value={receipt}
+              onChange={setReceipt}
+              onParsed={handleReceiptParsed}
+              enteredTotal={total}
+            />
+
+            <div className="grid grid-cols-2 gap-3">
+              {LINE_ITEMS.map(({ key, label }) => (
+                <div key={key}>
+                  <Label htmlFor={`line-item-${key}`}>{label} ($)</Label>
+                  <Input
+                    id={`line-item-${key}`}
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder={key === 'fare' ? "25.00" : "0.00"}
+                    value={lineItems[key]}
+                    onChange={(e) => setLineItems({ ...lineItems, [key]: e.target.value })}
+                    className="mt-1"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Who's splitting it</p>
+              {members.map((member) => {
+                const share = previewShares.find(s => s.user_id === member.id);
+                return (
+                  <div key={member.id} className="flex items-center gap-3">
+                    <p className="text-sm flex-1 truncate">
+                      {member.id === currentUserId ? 'You' : member.name}
+                    </p>
+                    <Select
+                      value={String(weights[member.id] ?? 1)}
+                      onValueChange={(value) => setWeights({ ...weights, [member.id]: parseFloat(value) })}
+                    >
+                      <SelectTrigger className="w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SHARE_WEIGHTS.map((option) => (
+                          <SelectItem key={option.value} value={String(option.value)}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-sm font-medium w-16 text-right">
+                      {formatAmount(share?.amount_owed)}
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex items-center justify-between text-sm font-medium border-t pt-3">
+              <span>Total</span>
+              <span>{formatAmount(total)}</span>
             </div>
 
-            <Button onClick={handleAmountSubmit} className="w-full">
-              Calculate Split
+            <Button onClick={handleAmountSubmit} disabled={submitting} className="w-full">
+              {submitting ? "Saving..." : "Save Split"}
             </Button>
           </div>
         )}
@@ -198,31 +364,43 @@ export const UberPaymentDialog = ({
         {step === 'show-split' && (
           <div className="space-y-4">
             <Card className="bg-accent/10">
-              <CardContent className="p-4 text-center">
-                <p className="text-sm text-muted-foreground mb-1">Each person owes</p>
-                <p className="text-3xl font-bold text-primary">${splitAmount}</p>
+              <CardContent className="p-4 space-y-1">
+                {LINE_ITEMS.filter(({ key }) => parsedItems[key] > 0).map(({ key, label }) => (
+                  <div key={key} className="flex justify-between text-sm text-muted-foreground">
+                    <span>{label}</span>
+                    <span>{formatAmount(parsedItems[key])}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between font-bold text-primary pt-1">
+                  <span>Total</span>
+                  <span>{formatAmount(total)}</span>
+                </div>
               </CardContent>
             </Card>
 
             <div className="space-y-2">
               <p className="text-sm font-medium">Riders need to pay:</p>
-              {members.filter(m => m.id !== currentUserId).map((member) => (
+              {members.filter(m => m.id !== currentUserId && owedBy(m.id) > 0).map((member) => (
                 <Card key={member.id}>
                   <CardContent className="p-3 flex items-center justify-between">
                     <div>
                       <p className="font-medium">{member.name}</p>
                       <p className="text-sm text-muted-foreground">{member.program}</p>
                     </div>
-                    <Button size="sm" asChild>
-                      <a
-                        href={`https://venmo.com/`}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                      >
-                        Venmo ${splitAmount}
-                        <ExternalLink className="w-3 h-3 ml-1" />
-                      </a>
-                    </Button>
+                    {memberVenmo[member.id] ? (
+                      <Button size="sm" asChild>
+                        <a
+                          href={venmoChargeLink(memberVenmo[member.id], owedBy(member.id), paymentNote)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                        >
+                          Request {formatAmount(owedBy(member.id))}
+                          <ExternalLink className="w-3 h-3 ml-1" />
+                        </a>
+                      </Button>
+                    ) : (
+                      <p className="font-medium">{formatAmount(owedBy(member.id))}</p>
+                    )}
                   </CardContent>
                 </Card>
               ))}
@@ -231,7 +409,7 @@ export const UberPaymentDialog = ({
             <Card className="bg-muted/50">
               <CardContent className="p-3">
                 <p className="text-xs text-muted-foreground">
-                  Note: Venmo links are generic. Share your Venmo username with riders separately.
+                  Riders get an email with links to pay you back using the Venmo, PayPal or Zelle details on your profile.
                 </p>
               </CardContent>
             </Card>
@@ -79,7 +79,7 @@ export const AnalyticsSummary = () => {
         supabase.from('profiles').select('*', { count: 'exact', head: true }).or('is_invited_user.is.null,is_invited_user.eq.false'),
         supabase.from('profiles').select('*', { count: 'exact', head: true }).eq('is_invited_user', true),
         supabase.from('ride_members').select('user_id').gte('created_at', sevenDaysAgoISO),
-        supabase.from('ride_group_messages').select('user_id').gte('created_at', sevenDaysAgoISO),
+        supabase.from('ride_group_messages').select('user_id').is('system_event', null).gte('created_at', sevenDaysAgoISO),
         supabase.from('ride_groups').select('*', { count: 'exact', head: true }),
         supabase.from('ride_members').select('ride_id').eq('status', 'joined'),
         supabase.from('events').select('*', { count: 'exact', head: true }),
@@ -0,0 +1,239 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter,
+} from "@/components/ui/dialog";
+import { AlertTriangle } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { formatAmount } from "@/lib/costSplit";
+
+interface Dispute {
+  id: string;
+  uber_payment_id: string;
+  ride_id: string;
+  event_name: string;
+  event_date: string;
+  payer_name: string;
+  user_id: string;
+  user_name: string;
+  user_email: string;
+  reason: string;
+  details: string | null;
+  payment_amount: number;
+  amount_owed: number;
+  attendance: string;
+  vote_count: number | null;
+  total_voters: number | null;
+  created_at: string;
+}
+
+type DisputeAction = 'resolve' | 'adjust' | 'waive';
+
+const REASON_LABELS: Record<string, string> = {
+  not_in_ride: "Says they weren't on the ride",
+  wrong_amount: "Says the amount is wrong",
+  other: "Other",
+};
+
+const ACTION_LABELS: Record<DisputeAction, string> = {
+  resolve: "Keep Amount",
+  adjust: "Adjust Share",
+  waive: "Waive Share",
+};
+
+interface DisputeQueueProps {
+  // Called after a decision so the payments table can refresh
+  onResolved: () => void;
+}
+
+export const DisputeQueue = ({ onResolved }: DisputeQueueProps) => {
+  const [disputes, setDisputes] = useState<Dispute[]>([]);
+  const [selected, setSelected] = useState<{ dispute: Dispute; action: DisputeAction } | null>(null);
+  const [adjustedAmount, setAdjustedAmount] = useState("");
+  const [note, setNote] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchDisputes();
+  }, []);
+
+  const fetchDisputes = async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_payment_dispute_queue');
+      if (error) throw error;
+      setDisputes(data || []);
+    } catch (error) {
+      toast.error("Failed to load payment disputes");
+    }
+  };
+
+  const openAction = (dispute: Dispute, action: DisputeAction) => {
+    setSelected({ dispute, action });
+    setAdjustedAmount("");
+    setNote("");
+  };
+
+  const handleSubmit = async () => {
+    if (!selected) return;
+    const { dispute, action } = selected;
+
+    if (action === 'adjust') {
+      const amount = parseFloat(adjustedAmount);
+      if (!/^\d+(\.\d{1,2})?$/.test(adjustedAmount) || amount <= 0 || amount >= dispute.amount_owed) {
+        toast.error(`Enter an amount above $0 and below ${formatAmount(dispute.amount_owed)}`);
+        return;
+      }
+    }
+
+    try {
+      setSubmitting(true);
+      const { error } = await supabase.rpc('resolve_payment_dispute', {
+        p_dispute_id: dispute.id,
+        p_action: action,
+        p_adjusted_amount: action === 'adjust' ? parseFloat(adjustedAmount) : null,
+        p_note: note.trim(),
+      });
+      if (error) throw error;
+
+      toast.success(`Dispute closed for ${dispute.user_name}`);
+      setSelected(null);
+      fetchDisputes();
+      onResolved();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to resolve dispute");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (disputes.length === 0) return null;
+
+  return (
+    <>
+      <Card className="border-orange-500/50">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-orange-600" />
+            Open Disputes ({disputes.length})
+          </CardTitle>
+          <CardDescription>
+            Reminders are paused for these riders until the dispute is closed
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {disputes.map((dispute) => (
+            <div key={dispute.id} className="rounded-lg border p-3 space-y-2">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <p className="font-medium">
+                    {dispute.user_name} <span className="text-sm text-muted-foreground">{dispute.user_email}</span>
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {dispute.event_name} · {format(new Date(dispute.event_date), 'MMM d, yyyy')} · paid by {dispute.payer_name}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="font-semibold">{formatAmount(dispute.amount_owed)}</p>
+                  <p className="text-xs text-muted-foreground">of {formatAmount(dispute.payment_amount)}</p>
+                </div>
+              </div>
+
+              <div className="text-sm">
+                <p className="font-medium">{REASON_LABELS[dispute.reason] || dispute.reason}</p>
+                {dispute.details && <p className="text-muted-foreground whitespace-pre-wrap">{dispute.details}</p>}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2">
+                {dispute.attendance === 'confirmed' && (
+                  <Badge variant="default">
+                    Attendance confirmed ({dispute.vote_count}/{dispute.total_voters} votes)
+                  </Badge>
+                )}
+                {dispute.attendance === 'not_confirmed' && (
+                  <Badge variant="destructive">Not confirmed as present by the survey</Badge>
+                )}
+                {dispute.attendance === 'pending' && (
+                  <Badge variant="secondary">Attendance survey not finished</Badge>
+                )}
+                <span className="text-xs text-muted-foreground">
+                  Disputed {format(new Date(dispute.created_at), 'MMM d, h:mm a')}
+                </span>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(ACTION_LABELS) as DisputeAction[]).map((action) => (
+                  <Button
+                    key={action}
+                    size="sm"
+                    variant={action === 'resolve' ? 'outline' : 'secondary'}
+                    onClick={() => openAction(dispute, action)}
+                  >
+                    {ACTION_LABELS[action]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent>
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{ACTION_LABELS[selected.action]}</DialogTitle>
+                <DialogDescription>
+                  {selected.action === 'resolve' && `${selected.dispute.user_name} still owes ${formatAmount(selected.dispute.amount_owed)} and reminders resume.`}
+                  {selected.action === 'adjust' && `Lower ${selected.dispute.user_name}'s share. The difference moves to ${selected.dispute.payer_name}'s share.`}
+                  {selected.action === 'waive' && `${selected.dispute.user_name} won't owe anything for this ride. ${selected.dispute.payer_name} covers their ${formatAmount(selected.dispute.amount_owed)}.`}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                {selected.action === 'adjust' && (
+                  <div>
+                    <Label htmlFor="dispute-amount">New share ($)</Label>
+                    <Input
+                      id="dispute-amount"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={adjustedAmount}
+                      onChange={(e) => setAdjustedAmount(e.target.value)}
+                      placeholder={(selected.dispute.amount_owed / 2).toFixed(2)}
+                    />
+                  </div>
+                )}
+                <div>
+                  <Label htmlFor="dispute-note">Note to both riders (Optional)</Label>
+                  <Textarea
+                    id="dispute-note"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    rows={3}
+                    maxLength={500}
+                  />
+                </div>
+              </div>
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setSelected(null)} disabled={submitting}>Cancel</Button>
+                <Button onClick={handleSubmit} disabled={submitting}>
+                  {submitting ? "Saving..." : ACTION_LABELS[selected.action]}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
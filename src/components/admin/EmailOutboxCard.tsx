@@ -0,0 +1,156 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { RefreshCw, Trash2 } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+
+interface OutboxRow {
+  id: string;
+  recipient: string;
+  subject: string;
+  notification_type: string;
+  status: string;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  created_at: string;
+}
+
+export const EmailOutboxCard = () => {
+  const [rows, setRows] = useState<OutboxRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchFailed();
+  }, []);
+
+  // Dead emails plus ones that failed at least once and are waiting to retry
+  const fetchFailed = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('email_outbox')
+        .select('id, recipient, subject, notification_type, status, attempts, max_attempts, next_attempt_at, last_error, created_at')
+        .or('status.eq.dead,and(status.eq.pending,attempts.gt.0)')
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      setRows(data || []);
+    } catch (error) {
+      toast.error("Failed to load the email outbox");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRetry = async (row: OutboxRow) => {
+    try {
+      setBusyId(row.id);
+      const { error } = await supabase.rpc('retry_email_outbox', { p_id: row.id });
+      if (error) throw error;
+
+      await supabase.functions.invoke('process-email-outbox', { body: {} });
+      toast.success(`Retrying email to ${row.recipient}`);
+      fetchFailed();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to retry email");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDiscard = async (row: OutboxRow) => {
+    try {
+      setBusyId(row.id);
+      const { error } = await supabase.rpc('discard_email_outbox', { p_id: row.id });
+      if (error) throw error;
+
+      toast.success(`Discarded email to ${row.recipient}`);
+      setRows(rows.filter(r => r.id !== row.id));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to discard email");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const deadCount = rows.filter(r => r.status === 'dead').length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">
+          Failed Emails ({deadCount} dead, {rows.length - deadCount} retrying)
+        </CardTitle>
+        <CardDescription>
+          Failed sends retry automatically with increasing delays. After 5 attempts they stay here as dead until you retry or discard them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Recipient</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Attempts</TableHead>
+                <TableHead>Last Error</TableHead>
+                <TableHead>Queued</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.id}>
+                  <TableCell>{row.recipient}</TableCell>
+                  <TableCell>
+                    <p className="font-medium">{row.subject}</p>
+                    <p className="text-xs text-muted-foreground">{row.notification_type}</p>
+                  </TableCell>
+                  <TableCell>
+                    {row.status === 'dead' ? (
+                      <Badge variant="destructive">Dead</Badge>
+                    ) : (
+                      <Badge variant="secondary">
+                        Retry {formatDistanceToNow(new Date(row.next_attempt_at), { addSuffix: true })}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{row.attempts}/{row.max_attempts}</TableCell>
+                  <TableCell className="max-w-xs truncate text-xs text-muted-foreground" title={row.last_error || undefined}>
+                    {row.last_error || '-'}
+                  </TableCell>
+                  <TableCell>{format(new Date(row.created_at), 'MMM d, h:mm a')}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button size="sm" variant="outline" disabled={busyId === row.id} onClick={() => handleRetry(row)}>
+                        <RefreshCw className="w-3 h-3 mr-1" />
+                        Retry Now
+                      </Button>
+                      <Button size="sm" variant="ghost" disabled={busyId === row.id} onClick={() => handleDiscard(row)}>
+                        <Trash2 className="w-3 h-3 mr-1" />
+                        Discard
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {!loading && rows.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">No failed emails</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,216 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+
+interface EmailTemplate {
+  version: number;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface TemplatePreview {
+  types: { value: string; label: string }[];
+  type: string;
+  template: EmailTemplate;
+  defaultTemplate: EmailTemplate;
+  variables: string[];
+  rendered: EmailTemplate;
+}
+
+type Draft = Pick<EmailTemplate, "subject" | "html" | "text">;
+
+const toDraft = ({ subject, html, text }: EmailTemplate): Draft => ({ subject, html, text });
+
+export const EmailTemplatesCard = () => {
+  const [type, setType] = useState("member_joined");
+  const [preview, setPreview] = useState<TemplatePreview | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [publishing, setPublishing] = useState(false);
+
+  useEffect(() => {
+    loadTemplate(type);
+  }, [type]);
+
+  const render = async (templateType: string, draftToRender?: Draft) => {
+    const { data, error } = await supabase.functions.invoke("render-email-template", {
+      body: { type: templateType, draft: draftToRender },
+    });
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return data as TemplatePreview;
+  };
+
+  const loadTemplate = async (templateType: string) => {
+    try {
+      setLoading(true);
+      const data = await render(templateType);
+      setPreview(data);
+      setDraft(toDraft(data.template));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to load email template");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePreviewDraft = async () => {
+    if (!draft) return;
+    try {
+      setLoading(true);
+      setPreview(await render(type, draft));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to render email template");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePublish = async () => {
+    if (!draft || !preview) return;
+    try {
+      setPublishing(true);
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not signed in");
+
+      const version = preview.template.version + 1;
+      const { error } = await supabase.from("email_templates").insert({
+        type,
+        version,
+        subject: draft.subject,
+        html: draft.html,
+        text: draft.text,
+        created_by: user.id,
+      });
+
+      if (error) throw error;
+      toast.success(`Published version ${version}. New emails use it right away.`);
+      await loadTemplate(type);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to publish email template");
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const isDirty = !!draft && !!preview &&
+    (draft.subject !== preview.template.subject || draft.html !== preview.template.html || draft.text !== preview.template.text);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Email Templates</CardTitle>
+        <CardDescription>
+          Preview any email with sample ride data, and publish new wording without a deploy
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <Select value={type} onValueChange={setType}>
+            <SelectTrigger className="w-64" aria-label="Email template">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(preview?.types || [{ value: type, label: type }]).map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {preview && (
+            <Badge variant="secondary">
+              v{preview.template.version}{preview.template.version === 1 ? " (built-in)" : ""}
+            </Badge>
+          )}
+        </div>
+
+        {preview && draft && (
+          <Tabs defaultValue="preview">
+            <TabsList>
+              <TabsTrigger value="preview">Preview</TabsTrigger>
+              <TabsTrigger value="edit">Edit</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="preview" className="space-y-3">
+              <p className="text-sm">
+                <span className="text-muted-foreground">Subject: </span>
+                <span className="font-medium">{preview.rendered.subject}</span>
+              </p>
+              <iframe
+                title="Email HTML preview"
+                sandbox=""
+                srcDoc={preview.rendered.html}
+                className="h-[400px] w-full rounded-md border bg-white"
+              />
+              <div>
+                <Label>Plain text</Label>
+                <pre className="mt-1 max-h-64 overflow-auto whitespace-pre-wrap rounded-md border bg-muted p-3 text-xs">
+                  {preview.rendered.text}
+                </pre>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="edit" className="space-y-3">
+              <p className="text-xs text-muted-foreground">
+                Use {"{{name}}"} for a variable, {"{{#name}}…{{/name}}"} for text that only shows when it's set
+                and {"{{^name}}…{{/name}}"} for when it isn't. Available:{" "}
+                {preview.variables.map(variable => (
+                  <code key={variable} className="mr-1 rounded bg-muted px-1">{variable}</code>
+                ))}
+              </p>
+              <div className="space-y-1">
+                <Label htmlFor="email-template-subject">Subject</Label>
+                <Input
+                  id="email-template-subject"
+                  value={draft.subject}
+                  onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="email-template-html">HTML</Label>
+                <Textarea
+                  id="email-template-html"
+                  rows={12}
+                  className="font-mono text-xs"
+                  value={draft.html}
+                  onChange={(e) => setDraft({ ...draft, html: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="email-template-text">Plain text</Label>
+                <Textarea
+                  id="email-template-text"
+                  rows={8}
+                  className="font-mono text-xs"
+                  value={draft.text}
+                  onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+                />
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" onClick={handlePreviewDraft} disabled={loading}>
+                  Preview Changes
+                </Button>
+                <Button variant="outline" onClick={() => setDraft(toDraft(preview.defaultTemplate))}>
+                  Start From Built-in
+                </Button>
+                <Button onClick={handlePublish} disabled={publishing || !isDirty}>
+                  Publish as v{preview.template.version + 1}
+                </Button>
+              </div>
+            </TabsContent>
+          </Tabs>
+        )}
+
+        {!preview && loading && <p className="text-sm text-muted-foreground">Loading template...</p>}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,187 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+
+export interface MeetingPointRow {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  accessibility_notes: string | null;
+  is_active: boolean;
+}
+
+interface MeetingPointDialogProps {
+  meetingPoint: MeetingPointRow | null;
+  existingNames: string[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const normalizeName = (name: string) => name.trim().replace(/\s+/g, ' ');
+
+export const MeetingPointDialog = ({ meetingPoint, existingNames, open, onOpenChange, onSaved }: MeetingPointDialogProps) => {
+  const [form, setForm] = useState({
+    name: "",
+    latitude: "",
+    longitude: "",
+    accessibilityNotes: "",
+    isActive: true,
+  });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setForm({
+      name: meetingPoint?.name || "",
+      latitude: meetingPoint ? String(meetingPoint.latitude) : "",
+      longitude: meetingPoint ? String(meetingPoint.longitude) : "",
+      accessibilityNotes: meetingPoint?.accessibility_notes || "",
+      isActive: meetingPoint?.is_active ?? true,
+    });
+  }, [open, meetingPoint]);
+
+  const handleSave = async () => {
+    const name = normalizeName(form.name);
+    const latitude = parseFloat(form.latitude);
+    const longitude = parseFloat(form.longitude);
+
+    if (!name) {
+      toast.error("Name is required");
+      return;
+    }
+    if (isNaN(latitude) || latitude < -90 || latitude > 90) {
+      toast.error("Latitude must be between -90 and 90");
+      return;
+    }
+    if (isNaN(longitude) || longitude < -180 || longitude > 180) {
+      toast.error("Longitude must be between -180 and 180");
+      return;
+    }
+    if (existingNames.some(n => n.toLowerCase() === name.toLowerCase())) {
+      toast.error(`A meeting point named "${name}" already exists`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const values = {
+        name,
+        latitude,
+        longitude,
+        accessibility_notes: form.accessibilityNotes.trim() || null,
+        is_active: form.isActive,
+      };
+
+      if (meetingPoint) {
+        const { error } = await supabase
+          .from('meeting_points')
+          .update(values)
+          .eq('id', meetingPoint.id);
+        if (error) throw error;
+      } else {
+        const { data: { session } } = await supabase.auth.getSession();
+        const { error } = await supabase
+          .from('meeting_points')
+          .insert({ ...values, created_by: session?.user.id ?? null });
+        if (error) throw error;
+      }
+
+      toast.success(meetingPoint ? "Meeting point updated" : "Meeting point added");
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      // Unique index on the normalized name catches races with another admin
+      if (error && typeof error === 'object' && 'code' in error && error.code === '23505') {
+        toast.error(`A meeting point named "${name}" already exists`);
+      } else {
+        toast.error(error instanceof Error ? error.message : "Failed to save meeting point");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{meetingPoint ? "Edit Meeting Point" : "Add Meeting Point"}</DialogTitle>
+          <DialogDescription>
+            Riders choose from active meeting points when voting where their group should meet.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="meeting-point-name">Name</Label>
+            <Input
+              id="meeting-point-name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Haas Courtyard"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="meeting-point-lat">Latitude</Label>
+              <Input
+                id="meeting-point-lat"
+                type="number"
+                step="any"
+                value={form.latitude}
+                onChange={(e) => setForm({ ...form, latitude: e.target.value })}
+                placeholder="37.8716"
+              />
+            </div>
+            <div>
+              <Label htmlFor="meeting-point-lng">Longitude</Label>
+              <Input
+                id="meeting-point-lng"
+                type="number"
+                step="any"
+                value={form.longitude}
+                onChange={(e) => setForm({ ...form, longitude: e.target.value })}
+                placeholder="-122.2533"
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="meeting-point-notes">Accessibility Notes</Label>
+            <Textarea
+              id="meeting-point-notes"
+              value={form.accessibilityNotes}
+              onChange={(e) => setForm({ ...form, accessibilityNotes: e.target.value })}
+              placeholder="Step-free access, elevators, lighting at night..."
+              rows={3}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="meeting-point-active">Available for voting</Label>
+            <Switch
+              id="meeting-point-active"
+              checked={form.isActive}
+              onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
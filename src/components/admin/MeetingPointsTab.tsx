@@ -0,0 +1,145 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { MeetingPointDialog, MeetingPointRow } from "@/components/admin/MeetingPointDialog";
+import { Pencil, Plus } from "lucide-react";
+import { toast } from "sonner";
+
+export const MeetingPointsTab = () => {
+  const [meetingPoints, setMeetingPoints] = useState<MeetingPointRow[]>([]);
+  const [voteCounts, setVoteCounts] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<MeetingPointRow | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  useEffect(() => {
+    fetchMeetingPoints();
+  }, []);
+
+  const fetchMeetingPoints = async () => {
+    try {
+      const [{ data: points, error }, { data: votes }] = await Promise.all([
+        supabase
+          .from('meeting_points')
+          .select('id, name, latitude, longitude, accessibility_notes, is_active')
+          .is('ride_id', null)
+          .order('name'),
+        supabase.from('meeting_votes').select('meeting_point_id'),
+      ]);
+
+      if (error) throw error;
+
+      const counts: Record<string, number> = {};
+      votes?.forEach(v => {
+        counts[v.meeting_point_id] = (counts[v.meeting_point_id] || 0) + 1;
+      });
+
+      setMeetingPoints(points || []);
+      setVoteCounts(counts);
+    } catch (error) {
+      toast.error("Failed to load meeting points");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleActive = async (point: MeetingPointRow, isActive: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('meeting_points')
+        .update({ is_active: isActive })
+        .eq('id', point.id);
+
+      if (error) throw error;
+      setMeetingPoints(prev => prev.map(p => (p.id === point.id ? { ...p, is_active: isActive } : p)));
+      toast.success(`${point.name} ${isActive ? 'is available for voting' : 'hidden from voting'}`);
+    } catch (error) {
+      toast.error("Failed to update meeting point");
+    }
+  };
+
+  const openEditor = (point: MeetingPointRow | null) => {
+    setEditing(point);
+    setDialogOpen(true);
+  };
+
+  if (loading) return <div className="text-center py-8">Loading meeting points...</div>;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Meeting Points ({meetingPoints.length})</CardTitle>
+            <Button onClick={() => openEditor(null)}>
+              <Plus className="w-4 h-4 mr-2" />Add Meeting Point
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Coordinates</TableHead>
+                  <TableHead>Accessibility</TableHead>
+                  <TableHead className="text-right">Votes</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {meetingPoints.map((point) => (
+                  <TableRow key={point.id}>
+                    <TableCell className="font-medium">
+                      {point.name}
+                      {!point.is_active && <Badge variant="secondary" className="ml-2">Hidden</Badge>}
+                    </TableCell>
+                    <TableCell>
+                      <a
+                        href={`https://www.google.com/maps?q=${point.latitude},${point.longitude}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-sm hover:text-primary hover:underline"
+                      >
+                        {point.latitude.toFixed(5)}, {point.longitude.toFixed(5)}
+                      </a>
+                    </TableCell>
+                    <TableCell className="max-w-xs text-sm text-muted-foreground">
+                      {point.accessibility_notes || '—'}
+                    </TableCell>
+                    <TableCell className="text-right">{voteCounts[point.id] || 0}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={point.is_active}
+                        onCheckedChange={(checked) => handleToggleActive(point, checked)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" onClick={() => openEditor(point)}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <MeetingPointDialog
+        meetingPoint={editing}
+        existingNames={meetingPoints.filter(p => p.id !== editing?.id).map(p => p.name)}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSaved={fetchMeetingPoints}
+      />
+    </div>
+  );
+};
@@ -73,7 +73,7 @@ export const OverviewTab = () => {
         supabase.from('ride_groups').select('created_at, travel_mode').gte('created_at', twelveWeeksAgo.toISOString()),
         supabase.from('events').select('destination'),
         supabase.from('ride_invites').select('id, use_count'),
-        supabase.from('ride_group_messages').select('id').gte('created_at', subWeeks(new Date(), 1).toISOString()),
+        supabase.from('ride_group_messages').select('id').is('system_event', null).gte('created_at', subWeeks(new Date(), 1).toISOString()),
         supabase.from('notifications').select('id, title, message, type, created_at').order('created_at', { ascending: false }).limit(10),
       ]);
 
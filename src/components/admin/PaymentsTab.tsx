@@ -5,9 +5,21 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { Download, Search, DollarSign, Clock, CheckCircle, Receipt } from "lucide-react";
+import { Download, Search, DollarSign, Clock, CheckCircle, Receipt, AlertTriangle } from "lucide-react";
 import { format } from "date-fns";
 import { toast } from "sonner";
+import { LINE_ITEMS, formatAmount } from "@/lib/costSplit";
+import { ReceiptViewerDialog } from "@/components/ReceiptViewerDialog";
+import { DisputeQueue } from "@/components/admin/DisputeQueue";
+
+interface PaymentShare {
+  user_id: string;
+  name: string;
+  amount_owed: number;
+  weight: number;
+  confirmed: boolean;
+  is_payer: boolean;
+}
 
 interface PaymentRow {
   id: string;
@@ -16,8 +28,13 @@ interface PaymentRow {
   payer_email: string;
   amount: number | null;
   cost_type: string | null;
+  line_items: { label: string; amount: number }[];
+  shares: PaymentShare[];
+  outstanding: number;
   confirmed: boolean;
   confirmation_count: number;
+  has_receipt: boolean;
+  receipt_total: number | null;
   created_at: string;
 }
 
@@ -26,6 +43,7 @@ export const PaymentsTab = () => {
   const [filteredPayments, setFilteredPayments] = useState<PaymentRow[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
+  const [viewingReceipt, setViewingReceipt] = useState<PaymentRow | null>(null);
 
   useEffect(() => {
     fetchPayments();
@@ -46,31 +64,57 @@ export const PaymentsTab = () => {
 
   const fetchPayments = async () => {
     try {
-      const [{ data: paymentData }, { data: confirmations }] = await Promise.all([
+      const [{ data: paymentData }, { data: confirmations }, { data: shareData }] = await Promise.all([
         supabase.from('uber_payments').select(`
-          id, amount, cost_type, created_at,
+          id, amount, cost_type, created_at, payer_user_id, fare, tip, tolls, parking,
           profiles!inner(name, email),
-          ride_groups!inner(events!inner(name))
+          ride_groups!inner(events!inner(name)),
+          uber_payment_receipts(parsed_total)
         `).order('created_at', { ascending: false }),
-        supabase.from('payment_confirmations').select('uber_payment_id'),
+        supabase.from('payment_confirmations').select('uber_payment_id, user_id'),
+        supabase.from('uber_payment_shares').select('uber_payment_id, user_id, amount_owed, weight, profiles!inner(name)'),
       ]);
 
       const confirmCounts: Record<string, number> = {};
+      const confirmedKeys = new Set<string>();
       confirmations?.forEach(c => {
         confirmCounts[c.uber_payment_id] = (confirmCounts[c.uber_payment_id] || 0) + 1;
+        confirmedKeys.add(`${c.uber_payment_id}:${c.user_id}`);
       });
 
-      const rows: PaymentRow[] = (paymentData || []).map((p: any) => ({
-        id: p.id,
-        event_name: p.ride_groups?.events?.name || 'Unknown',
-        payer_name: p.profiles?.name || 'Unknown',
-        payer_email: p.profiles?.email || '',
-        amount: p.amount,
-        cost_type: p.cost_type,
-        confirmed: (confirmCounts[p.id] || 0) > 0,
-        confirmation_count: confirmCounts[p.id] || 0,
-        created_at: p.created_at,
-      }));
+      const rows: PaymentRow[] = (paymentData || []).map((p: any) => {
+        const shares: PaymentShare[] = (shareData || [])
+          .filter(sh => sh.uber_payment_id === p.id)
+          .map(sh => ({
+            user_id: sh.user_id,
+            name: sh.profiles?.name || 'Unknown',
+            amount_owed: sh.amount_owed,
+            weight: sh.weight,
+            confirmed: confirmedKeys.has(`${p.id}:${sh.user_id}`),
+            is_payer: sh.user_id === p.payer_user_id,
+          }));
+
+        return {
+          id: p.id,
+          event_name: p.ride_groups?.events?.name || 'Unknown',
+          payer_name: p.profiles?.name || 'Unknown',
+          payer_email: p.profiles?.email || '',
+          amount: p.amount,
+          cost_type: p.cost_type,
+          line_items: LINE_ITEMS
+            .filter(({ key }) => (p[key] ?? 0) > 0)
+            .map(({ key, label }) => ({ label, amount: p[key] })),
+          shares,
+          outstanding: shares
+            .filter(sh => !sh.is_payer && !sh.confirmed)
+            .reduce((sum, sh) => sum + sh.amount_owed, 0),
+          confirmed: (confirmCounts[p.id] || 0) > 0,
+          confirmation_count: confirmCounts[p.id] || 0,
+          has_receipt: !!p.uber_payment_receipts,
+          receipt_total: p.uber_payment_receipts?.parsed_total ?? null,
+          created_at: p.created_at,
+        };
+      });
 
       setPayments(rows);
       setFilteredPayments(rows);
@@ -87,12 +131,18 @@ export const PaymentsTab = () => {
   const confirmRate = payments.length > 0 ? Math.round((confirmedCount / payments.length) * 100) : 0;
   const pendingCount = payments.filter(p => !p.confirmed).length;
 
+  const receiptMismatch = (p: PaymentRow) =>
+    p.receipt_total !== null && p.amount !== null && Math.round(p.receipt_total * 100) !== Math.round(p.amount * 100);
+
   const exportToCSV = () => {
-    const headers = ['Event', 'Payer', 'Email', 'Amount', 'Type', 'Confirmed', 'Confirmations', 'Date'];
+    const headers = ['Event', 'Payer', 'Email', 'Amount', 'Outstanding', 'Split', 'Type', 'Receipt', 'Confirmed', 'Confirmations', 'Date'];
     const rows = filteredPayments.map(p => [
       p.event_name, p.payer_name, p.payer_email,
       p.amount ? `$${p.amount.toFixed(2)}` : 'N/A',
+      formatAmount(p.outstanding),
+      p.shares.map(sh => `${sh.name} ${formatAmount(sh.amount_owed)}`).join('; '),
       p.cost_type || 'N/A',
+      p.has_receipt ? (p.receipt_total !== null ? formatAmount(p.receipt_total) : 'Yes') : 'No',
       p.confirmed ? 'Yes' : 'No',
       p.confirmation_count,
       p.created_at ? format(new Date(p.created_at), 'MMM d, yyyy h:mm a') : '',
@@ -119,6 +169,8 @@ export const PaymentsTab = () => {
 
   return (
     <div className="space-y-6">
+      <DisputeQueue onResolved={fetchPayments} />
+
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         {statCards.map((s) => {
           const Icon = s.icon;
@@ -157,7 +209,10 @@ export const PaymentsTab = () => {
                   <TableHead>Event</TableHead>
                   <TableHead>Payer</TableHead>
                   <TableHead>Amount</TableHead>
+                  <TableHead>Split</TableHead>
+                  <TableHead>Outstanding</TableHead>
                   <TableHead>Type</TableHead>
+                  <TableHead>Receipt</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Date</TableHead>
                 </TableRow>
@@ -172,8 +227,47 @@ export const PaymentsTab = () => {
                         <p className="text-xs text-muted-foreground">{p.payer_email}</p>
                       </div>
                     </TableCell>
-                    <TableCell>{p.amount ? `$${p.amount.toFixed(2)}` : 'N/A'}</TableCell>
+                    <TableCell>
+                      <p>{p.amount ? `$${p.amount.toFixed(2)}` : 'N/A'}</p>
+                      {p.line_items.length > 1 && (
+                        <p className="text-xs text-muted-foreground">
+                          {p.line_items.map(li => `${li.label} ${formatAmount(li.amount)}`).join(' · ')}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="space-y-0.5">
+                        {p.shares.map(sh => (
+                          <p key={sh.user_id} className="text-xs whitespace-nowrap">
+                            <span className={sh.confirmed || sh.is_payer ? 'text-muted-foreground' : ''}>
+                              {sh.name}{sh.is_payer && ' (payer)'}
+                            </span>{' '}
+                            {formatAmount(sh.amount_owed)}
+                            {sh.weight !== 1 && <span className="text-muted-foreground"> ×{sh.weight}</span>}
+                            {sh.confirmed && <CheckCircle className="inline w-3 h-3 ml-1 text-emerald-600" />}
+                          </p>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>{formatAmount(p.outstanding)}</TableCell>
                     <TableCell>{p.cost_type || 'N/A'}</TableCell>
+                    <TableCell>
+                      {p.has_receipt ? (
+                        <div>
+                          <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setViewingReceipt(p)}>
+                            View
+                          </Button>
+                          {receiptMismatch(p) && (
+                            <p className="flex items-center gap-1 text-xs text-destructive whitespace-nowrap">
+                              <AlertTriangle className="w-3 h-3" />
+                              Receipt {formatAmount(p.receipt_total)}
+                            </p>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">None</span>
+                      )}
+                    </TableCell>
                     <TableCell>
                       <Badge variant={p.confirmed ? "default" : "secondary"}>
                         {p.confirmed ? `Confirmed (${p.confirmation_count})` : 'Pending'}
@@ -187,6 +281,15 @@ export const PaymentsTab = () => {
           </div>
         </CardContent>
       </Card>
+
+      {viewingReceipt && (
+        <ReceiptViewerDialog
+          paymentId={viewingReceipt.id}
+          amount={viewingReceipt.amount}
+          open={!!viewingReceipt}
+          onOpenChange={(open) => !open && setViewingReceipt(null)}
+        />
+      )}
     </div>
   );
 };
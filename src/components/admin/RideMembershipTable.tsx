@@ -82,7 +82,7 @@ export const RideMembershipTable = () => {
       const [{ data: rideGroups }, { data: members }, { data: messages }, { data: completions }] = await Promise.all([
         supabase.from('ride_groups').select('id, departure_time, travel_mode, capacity, events!inner(name, destination)').order('departure_time', { ascending: false }),
         supabase.from('ride_members').select('ride_id').eq('status', 'joined'),
-        supabase.from('ride_group_messages').select('ride_id'),
+        supabase.from('ride_group_messages').select('ride_id').is('system_event', null),
         supabase.from('ride_completions').select('ride_id'),
       ]);
 
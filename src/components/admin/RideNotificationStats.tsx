@@ -56,7 +56,8 @@ export const RideNotificationStats = () => {
       // Get message counts per ride
       const { data: messageCounts } = await supabase
         .from('ride_group_messages')
-        .select('ride_id');
+        .select('ride_id')
+        .is('system_event', null);
 
       // Get email notification logs per ride
       const { data: emailLogs } = await supabase
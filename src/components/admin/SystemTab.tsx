@@ -7,6 +7,8 @@ import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } f
 import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid } from "recharts";
 import { format, subDays, startOfDay } from "date-fns";
 import { RideNotificationStats } from "./RideNotificationStats";
+import { EmailTemplatesCard } from "./EmailTemplatesCard";
+import { EmailOutboxCard } from "./EmailOutboxCard";
 
 interface DailyEmail {
   date: string;
@@ -180,6 +182,10 @@ export const SystemTab = () => {
       {/* Existing notification stats table */}
       <RideNotificationStats />
 
+      <EmailOutboxCard />
+
+      <EmailTemplatesCard />
+
       {/* Invite tokens */}
       <Card>
         <CardHeader>
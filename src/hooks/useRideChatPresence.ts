@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+// How long after the last keystroke someone stops showing as typing
+const TYPING_TIMEOUT_MS = 3000;
+
+interface ChatPresence {
+  user_id: string;
+  typing: boolean;
+}
+
+// Who has the ride chat open right now and who is typing in it, shared over a
+// Realtime presence channel. Nothing is stored; closing the chat drops you
+// from the list.
+export const useRideChatPresence = (rideId: string, userId: string | null, enabled: boolean) => {
+  const [onlineUserIds, setOnlineUserIds] = useState<string[]>([]);
+  const [typingUserIds, setTypingUserIds] = useState<string[]>([]);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const typingRef = useRef(false);
+  const typingTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => {
+    if (!enabled || !userId) return;
+
+    const channel = supabase.channel(`ride-presence-${rideId}`, {
+      config: { presence: { key: userId } },
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        // A member with the chat open in two tabs shows up under one key twice
+        const entries = Object.values(channel.presenceState<ChatPresence>()).flat();
+        setOnlineUserIds([...new Set(entries.map(e => e.user_id))]);
+        setTypingUserIds([...new Set(entries.filter(e => e.typing && e.user_id !== userId).map(e => e.user_id))]);
+      })
+      .subscribe(async (status) => {
+        if (status === 'SUBSCRIBED') {
+          await channel.track({ user_id: userId, typing: false });
+        }
+      });
+
+    channelRef.current = channel;
+
+    return () => {
+      clearTimeout(typingTimeoutRef.current);
+      typingRef.current = false;
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+      setOnlineUserIds([]);
+      setTypingUserIds([]);
+    };
+  }, [rideId, userId, enabled]);
+
+  // Call on every keystroke; typing clears itself once the keystrokes stop
+  const setTyping = useCallback((typing: boolean) => {
+    const channel = channelRef.current;
+    if (!channel || !userId) return;
+
+    clearTimeout(typingTimeoutRef.current);
+    if (typing) {
+      typingTimeoutRef.current = setTimeout(() => setTyping(false), TYPING_TIMEOUT_MS);
+    }
+
+    if (typingRef.current === typing) return;
+    typingRef.current = typing;
+    channel.track({ user_id: userId, typing });
+  }, [userId]);
+
+  return { onlineUserIds, typingUserIds, setTyping };
+};
@@ -14,12 +14,39 @@ export type Database = {
   }
   public: {
     Tables: {
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          token: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feed_tokens_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       calendar_tokens: {
         Row: {
           access_token: string
           created_at: string | null
           expires_at: string
           id: string
+          needs_reconnect: boolean
           provider: string
           refresh_token: string | null
           updated_at: string | null
@@ -30,6 +57,7 @@ export type Database = {
           created_at?: string | null
           expires_at: string
           id?: string
+          needs_reconnect?: boolean
           provider?: string
           refresh_token?: string | null
           updated_at?: string | null
@@ -40,6 +68,7 @@ export type Database = {
           created_at?: string | null
           expires_at?: string
           id?: string
+          needs_reconnect?: boolean
           provider?: string
           refresh_token?: string | null
           updated_at?: string | null
@@ -62,6 +91,42 @@ export type Database = {
           },
         ]
       }
+      chat_digest_log: {
+        Row: {
+          last_message_at: string
+          ride_id: string
+          sent_at: string
+          user_id: string
+        }
+        Insert: {
+          last_message_at: string
+          ride_id: string
+          sent_at?: string
+          user_id: string
+        }
+        Update: {
+          last_message_at?: string
+          ride_id?: string
+          sent_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_digest_log_ride_id_fkey"
+            columns: ["ride_id"]
+            isOneToOne: false
+            referencedRelation: "ride_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_digest_log_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       email_notification_logs: {
         Row: {
           error_message: string | null
@@ -73,6 +138,7 @@ export type Database = {
           ride_id: string
           sent_at: string
           success: boolean
+          template_version: number | null
         }
         Insert: {
           error_message?: string | null
@@ -84,6 +150,7 @@ export type Database = {
           ride_id: string
           sent_at?: string
           success?: boolean
+          template_version?: number | null
         }
         Update: {
           error_message?: string | null
@@ -95,6 +162,7 @@ export type Database = {
           ride_id?: string
           sent_at?: string
           success?: boolean
+          template_version?: number | null
         }
         Relationships: [
           {
@@ -113,6 +181,121 @@ export type Database = {
           },
         ]
       }
+      email_outbox: {
+        Row: {
+          attempts: number
+          created_at: string
+          html: string
+          id: string
+          idempotency_key: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          message_id: string | null
+          next_attempt_at: string
+          notification_type: string
+          provider_message_id: string | null
+          recipient: string
+          ride_id: string | null
+          sent_at: string | null
+          status: string
+          subject: string
+          template_version: number | null
+          text: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          html: string
+          id?: string
+          idempotency_key: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          message_id?: string | null
+          next_attempt_at?: string
+          notification_type: string
+          provider_message_id?: string | null
+          recipient: string
+          ride_id?: string | null
+          sent_at?: string | null
+          status?: string
+          subject: string
+          template_version?: number | null
+          text: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          html?: string
+          id?: string
+          idempotency_key?: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          message_id?: string | null
+          next_attempt_at?: string
+          notification_type?: string
+          provider_message_id?: string | null
+          recipient?: string
+          ride_id?: string | null
+          sent_at?: string | null
+          status?: string
+          subject?: string
+          template_version?: number | null
+          text?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_outbox_ride_id_fkey"
+            columns: ["ride_id"]
+            isOneToOne: false
+            referencedRelation: "ride_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_templates: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          html: string
+          id: string
+          subject: string
+          text: string
+          type: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          html: string
+          id?: string
+          subject: string
+          text: string
+          type: string
+          version: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          html?: string
+          id?: string
+          subject?: string
+          text?: string
+          type?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_templates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       event_access: {
         Row: {
           event_id: string
@@ -171,18 +354,30 @@ export type Database = {
           created_at: string
           event_id: string
           id: string
+          last_proposal_declined_at: string | null
+          origin_neighborhood: string | null
+          preferred_departure_time: string | null
+          travel_mode_preference: string | null
           user_id: string
         }
         Insert: {
           created_at?: string
           event_id: string
           id?: string
+          last_proposal_declined_at?: string | null
+          origin_neighborhood?: string | null
+          preferred_departure_time?: string | null
+          travel_mode_preference?: string | null
           user_id: string
         }
         Update: {
           created_at?: string
           event_id?: string
           id?: string
+          last_proposal_declined_at?: string | null
+          origin_neighborhood?: string | null
+          preferred_departure_time?: string | null
+          travel_mode_preference?: string | null
           user_id?: string
         }
         Relationships: [
@@ -352,10 +547,187 @@ export type Database = {
           },
         ]
       }
+      google_calendar_events: {
+        Row: {
+          created_at: string
+          google_event_id: string
+          id: string
+          pending_delete: boolean
+          ride_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          google_event_id: string
+          id?: string
+          pending_delete?: boolean
+          ride_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          google_event_id?: string
+          id?: string
+          pending_delete?: boolean
+          ride_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "google_calendar_events_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "google_calendar_events_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "public_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      meeting_point_tallies: {
+        Row: {
+          ballot_count: number
+          created_at: string
+          created_by: string | null
+          id: string
+          previous_meeting_point_id: string | null
+          ride_id: string
+          rounds: Json
+          tie_break: string | null
+          winner_meeting_point_id: string | null
+        }
+        Insert: {
+          ballot_count: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          previous_meeting_point_id?: string | null
+          ride_id: string
+          rounds?: Json
+          tie_break?: string | null
+          winner_meeting_point_id?: string | null
+        }
+        Update: {
+          ballot_count?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          previous_meeting_point_id?: string | null
+          ride_id?: string
+          rounds?: Json
+          tie_break?: string | null
+          winner_meeting_point_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meeting_point_tallies_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meeting_point_tallies_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "public_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meeting_point_tallies_previous_meeting_point_id_fkey"
+            columns: ["previous_meeting_point_id"]
+            isOneToOne: false
+            referencedRelation: "meeting_points"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meeting_point_tallies_ride_id_fkey"
+            columns: ["ride_id"]
+            isOneToOne: false
+            referencedRelation: "ride_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meeting_point_tallies_winner_meeting_point_id_fkey"
+            columns: ["winner_meeting_point_id"]
+            isOneToOne: false
+            referencedRelation: "meeting_points"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      meeting_points: {
+        Row: {
+          accessibility_notes: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          latitude: number | null
+          longitude: number | null
+          name: string
+          ride_id: string | null
+        }
+        Insert: {
+          accessibility_notes?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          latitude?: number | null
+          longitude?: number | null
+          name: string
+          ride_id?: string | null
+        }
+        Update: {
+          accessibility_notes?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          latitude?: number | null
+          longitude?: number | null
+          name?: string
+          ride_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meeting_points_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meeting_points_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "public_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meeting_points_ride_id_fkey"
+            columns: ["ride_id"]
+            isOneToOne: false
+            referencedRelation: "ride_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       meeting_votes: {
         Row: {
           created_at: string | null
           id: string
+          meeting_point_id: string
+          rank: number
           ride_id: string
           user_id: string
           vote_option: string
@@ -363,6 +735,8 @@ export type Database = {
         Insert: {
           created_at?: string | null
           id?: string
+          meeting_point_id: string
+          rank?: number
           ride_id: string
           user_id: string
           vote_option: string
@@ -370,6 +744,8 @@ export type Database = {
         Update: {
           created_at?: string | null
           id?: string
+          meeting_point_id?: string
+          rank?: number
           ride_id?: string
           user_id?: string
           vote_option?: string
@@ -396,6 +772,45 @@ export type Database = {
             referencedRelation: "public_profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "meeting_votes_meeting_point_id_fkey"
+            columns: ["meeting_point_id"]
+            isOneToOne: false
+            referencedRelation: "meeting_points"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          channel: string
+          enabled: boolean
+          type: Database["public"]["Enums"]["notification_type"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          channel: string
+          enabled?: boolean
+          type: Database["public"]["Enums"]["notification_type"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          channel?: string
+          enabled?: boolean
+          type?: Database["public"]["Enums"]["notification_type"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
       notifications: {
@@ -404,6 +819,7 @@ export type Database = {
           id: string
           message: string
           metadata: Json | null
+          push_sent_at: string | null
           read: boolean | null
           ride_id: string | null
           title: string
@@ -415,6 +831,7 @@ export type Database = {
           id?: string
           message: string
           metadata?: Json | null
+          push_sent_at?: string | null
           read?: boolean | null
           ride_id?: string | null
           title: string
@@ -426,6 +843,7 @@ export type Database = {
           id?: string
           message?: string
           metadata?: Json | null
+          push_sent_at?: string | null
           read?: boolean | null
           ride_id?: string | null
           title?: string
@@ -447,6 +865,7 @@ export type Database = {
           confirmed_at: string | null
           created_at: string | null
           id: string
+          settle_up_id: string | null
           uber_payment_id: string
           user_id: string
         }
@@ -454,6 +873,7 @@ export type Database = {
           confirmed_at?: string | null
           created_at?: string | null
           id?: string
+          settle_up_id?: string | null
           uber_payment_id: string
           user_id: string
         }
@@ -461,6 +881,7 @@ export type Database = {
           confirmed_at?: string | null
           created_at?: string | null
           id?: string
+          settle_up_id?: string | null
           uber_payment_id?: string
           user_id?: string
         }
@@ -472,13 +893,85 @@ export type Database = {
             referencedRelation: "uber_payments"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "payment_confirmations_settle_up_id_fkey"
+            columns: ["settle_up_id"]
+            isOneToOne: false
+            referencedRelation: "settle_ups"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      payment_reminders: {
+      payment_disputes: {
         Row: {
-          created_at: string | null
+          created_at: string
+          details: string | null
+          id: string
+          original_amount: number
+          reason: string
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          uber_payment_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          original_amount: number
+          reason: string
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          uber_payment_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          original_amount?: number
+          reason?: string
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          uber_payment_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_disputes_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_disputes_uber_payment_id_fkey"
+            columns: ["uber_payment_id"]
+            isOneToOne: false
+            referencedRelation: "uber_payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_disputes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_reminders: {
+        Row: {
+          created_at: string | null
           id: string
           last_reminder_sent: string | null
+          paused: boolean
           payment_confirmed: boolean | null
           reminder_count: number | null
           uber_payment_id: string
@@ -488,6 +981,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           last_reminder_sent?: string | null
+          paused?: boolean
           payment_confirmed?: boolean | null
           reminder_count?: number | null
           uber_payment_id: string
@@ -497,6 +991,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           last_reminder_sent?: string | null
+          paused?: boolean
           payment_confirmed?: boolean | null
           reminder_count?: number | null
           uber_payment_id?: string
@@ -512,39 +1007,95 @@ export type Database = {
           },
         ]
       }
+      phone_verifications: {
+        Row: {
+          attempts: number
+          code_hash: string
+          created_at: string
+          expires_at: string
+          phone_number: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          code_hash: string
+          created_at?: string
+          expires_at: string
+          phone_number: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          code_hash?: string
+          created_at?: string
+          expires_at?: string
+          phone_number?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "phone_verifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
+          chat_email_digest: boolean
           created_at: string | null
           email: string
           id: string
           invited_via_ride_id: string | null
           is_invited_user: boolean | null
           name: string
+          paypal_username: string | null
+          phone_number: string | null
+          phone_verified_at: string | null
           photo: string | null
           program: string | null
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
           venmo_username: string | null
+          zelle_handle: string | null
         }
         Insert: {
+          chat_email_digest?: boolean
           created_at?: string | null
           email: string
           id: string
           invited_via_ride_id?: string | null
           is_invited_user?: boolean | null
           name: string
+          paypal_username?: string | null
+          phone_number?: string | null
+          phone_verified_at?: string | null
           photo?: string | null
           program?: string | null
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
           venmo_username?: string | null
+          zelle_handle?: string | null
         }
         Update: {
+          chat_email_digest?: boolean
           created_at?: string | null
           email?: string
           id?: string
           invited_via_ride_id?: string | null
           is_invited_user?: boolean | null
           name?: string
+          paypal_username?: string | null
+          phone_number?: string | null
+          phone_verified_at?: string | null
           photo?: string | null
           program?: string | null
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
           venmo_username?: string | null
+          zelle_handle?: string | null
         }
         Relationships: [
           {
@@ -556,6 +1107,50 @@ export type Database = {
           },
         ]
       }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          last_used_at: string | null
+          p256dh: string
+          user_agent: string | null
+          user_id: string
+          vapid_public_key: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          last_used_at?: string | null
+          p256dh: string
+          user_agent?: string | null
+          user_id: string
+          vapid_public_key: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          last_used_at?: string | null
+          p256dh?: string
+          user_agent?: string | null
+          user_id?: string
+          vapid_public_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "push_subscriptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ride_attendance_responses: {
         Row: {
           attended_user_ids: string[]
@@ -689,25 +1284,49 @@ export type Database = {
       ride_group_messages: {
         Row: {
           created_at: string | null
+          deleted_at: string | null
+          edited_at: string | null
           id: string
           message: string
+          metadata: Json
+          payment_dispute_id: string | null
+          pin_latitude: number | null
+          pin_longitude: number | null
+          reply_to_id: string | null
           ride_id: string
+          system_event: string | null
           updated_at: string | null
           user_id: string
         }
         Insert: {
           created_at?: string | null
+          deleted_at?: string | null
+          edited_at?: string | null
           id?: string
           message: string
+          metadata?: Json
+          payment_dispute_id?: string | null
+          pin_latitude?: number | null
+          pin_longitude?: number | null
+          reply_to_id?: string | null
           ride_id: string
+          system_event?: string | null
           updated_at?: string | null
           user_id: string
         }
         Update: {
           created_at?: string | null
+          deleted_at?: string | null
+          edited_at?: string | null
           id?: string
           message?: string
+          metadata?: Json
+          payment_dispute_id?: string | null
+          pin_latitude?: number | null
+          pin_longitude?: number | null
+          reply_to_id?: string | null
           ride_id?: string
+          system_event?: string | null
           updated_at?: string | null
           user_id?: string
         }
@@ -719,41 +1338,64 @@ export type Database = {
             referencedRelation: "ride_groups"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "ride_group_messages_payment_dispute_id_fkey"
+            columns: ["payment_dispute_id"]
+            isOneToOne: false
+            referencedRelation: "payment_disputes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ride_group_messages_reply_to_id_fkey"
+            columns: ["reply_to_id"]
+            isOneToOne: false
+            referencedRelation: "ride_group_messages"
+            referencedColumns: ["id"]
+          },
         ]
       }
       ride_groups: {
         Row: {
           capacity: number | null
           created_at: string | null
-          created_by: string
+          created_by: string | null
           departure_time: string
           event_id: string
           id: string
           meeting_point: string | null
+          meeting_point_id: string | null
           min_capacity: number | null
+          status: string
           travel_mode: string
+          updated_at: string
         }
         Insert: {
           capacity?: number | null
           created_at?: string | null
-          created_by: string
+          created_by: string | null
           departure_time: string
           event_id: string
           id?: string
           meeting_point?: string | null
+          meeting_point_id?: string | null
           min_capacity?: number | null
+          status?: string
           travel_mode: string
+          updated_at?: string
         }
         Update: {
           capacity?: number | null
           created_at?: string | null
-          created_by?: string
+          created_by?: string | null
           departure_time?: string
           event_id?: string
           id?: string
           meeting_point?: string | null
+          meeting_point_id?: string | null
           min_capacity?: number | null
+          status?: string
           travel_mode?: string
+          updated_at?: string
         }
         Relationships: [
           {
@@ -777,6 +1419,13 @@ export type Database = {
             referencedRelation: "events"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "ride_groups_meeting_point_id_fkey"
+            columns: ["meeting_point_id"]
+            isOneToOne: false
+            referencedRelation: "meeting_points"
+            referencedColumns: ["id"]
+          },
         ]
       }
       ride_invites: {
@@ -826,6 +1475,54 @@ export type Database = {
           },
         ]
       }
+      ride_live_locations: {
+        Row: {
+          accuracy_meters: number | null
+          expires_at: string
+          id: string
+          latitude: number
+          longitude: number
+          ride_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          accuracy_meters?: number | null
+          expires_at?: string
+          id?: string
+          latitude: number
+          longitude: number
+          ride_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          accuracy_meters?: number | null
+          expires_at?: string
+          id?: string
+          latitude?: number
+          longitude?: number
+          ride_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ride_live_locations_ride_id_fkey"
+            columns: ["ride_id"]
+            isOneToOne: false
+            referencedRelation: "ride_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ride_live_locations_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ride_members: {
         Row: {
           created_at: string | null
@@ -878,6 +1575,45 @@ export type Database = {
           },
         ]
       }
+      ride_message_reactions: {
+        Row: {
+          created_at: string
+          emoji: string
+          id: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          emoji: string
+          id?: string
+          message_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          emoji?: string
+          id?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ride_message_reactions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "ride_group_messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ride_message_reactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ride_message_reads: {
         Row: {
           id: string
@@ -907,35 +1643,286 @@ export type Database = {
           },
         ]
       }
+      ride_notification_log: {
+        Row: {
+          ride_id: string
+          sent_at: string
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Insert: {
+          ride_id: string
+          sent_at?: string
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Update: {
+          ride_id?: string
+          sent_at?: string
+          type?: Database["public"]["Enums"]["notification_type"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ride_notification_log_ride_id_fkey"
+            columns: ["ride_id"]
+            isOneToOne: false
+            referencedRelation: "ride_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ride_notification_log_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ride_waitlist: {
+        Row: {
+          created_at: string
+          id: string
+          ride_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          ride_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          ride_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ride_waitlist_ride_id_fkey"
+            columns: ["ride_id"]
+            isOneToOne: false
+            referencedRelation: "ride_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ride_waitlist_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      settle_ups: {
+        Row: {
+          amount: number
+          cleared_at: string | null
+          created_at: string
+          created_by: string
+          debt_count: number
+          from_user_id: string
+          id: string
+          to_user_id: string
+        }
+        Insert: {
+          amount: number
+          cleared_at?: string | null
+          created_at?: string
+          created_by: string
+          debt_count?: number
+          from_user_id: string
+          id?: string
+          to_user_id: string
+        }
+        Update: {
+          amount?: number
+          cleared_at?: string | null
+          created_at?: string
+          created_by?: string
+          debt_count?: number
+          from_user_id?: string
+          id?: string
+          to_user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "settle_ups_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "settle_ups_from_user_id_fkey"
+            columns: ["from_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "settle_ups_to_user_id_fkey"
+            columns: ["to_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      uber_payment_receipts: {
+        Row: {
+          content_type: string | null
+          created_at: string
+          id: string
+          parsed_tip: number | null
+          parsed_total: number | null
+          provider: string | null
+          receipt_text: string | null
+          storage_path: string | null
+          trip_at: string | null
+          uber_payment_id: string
+          uploaded_by: string
+        }
+        Insert: {
+          content_type?: string | null
+          created_at?: string
+          id?: string
+          parsed_tip?: number | null
+          parsed_total?: number | null
+          provider?: string | null
+          receipt_text?: string | null
+          storage_path?: string | null
+          trip_at?: string | null
+          uber_payment_id: string
+          uploaded_by: string
+        }
+        Update: {
+          content_type?: string | null
+          created_at?: string
+          id?: string
+          parsed_tip?: number | null
+          parsed_total?: number | null
+          provider?: string | null
+          receipt_text?: string | null
+          storage_path?: string | null
+          trip_at?: string | null
+          uber_payment_id?: string
+          uploaded_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "uber_payment_receipts_uber_payment_id_fkey"
+            columns: ["uber_payment_id"]
+            isOneToOne: true
+            referencedRelation: "uber_payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "uber_payment_receipts_uploaded_by_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      uber_payment_shares: {
+        Row: {
+          amount_owed: number
+          created_at: string
+          id: string
+          uber_payment_id: string
+          user_id: string
+          weight: number
+        }
+        Insert: {
+          amount_owed: number
+          created_at?: string
+          id?: string
+          uber_payment_id: string
+          user_id: string
+          weight?: number
+        }
+        Update: {
+          amount_owed?: number
+          created_at?: string
+          id?: string
+          uber_payment_id?: string
+          user_id?: string
+          weight?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "uber_payment_shares_uber_payment_id_fkey"
+            columns: ["uber_payment_id"]
+            isOneToOne: false
+            referencedRelation: "uber_payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "uber_payment_shares_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "uber_payment_shares_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "public_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       uber_payments: {
         Row: {
           amount: number | null
           cost_type: string | null
           created_at: string | null
+          fare: number | null
           id: string
+          parking: number
+          payer_paypal_username: string | null
           payer_user_id: string
           payer_venmo_username: string | null
+          payer_zelle_handle: string | null
           ride_id: string
+          tip: number
+          tolls: number
           venmo_link: string | null
         }
         Insert: {
           amount?: number | null
           cost_type?: string | null
           created_at?: string | null
+          fare?: number | null
           id?: string
+          parking?: number
+          payer_paypal_username?: string | null
           payer_user_id: string
           payer_venmo_username?: string | null
+          payer_zelle_handle?: string | null
           ride_id: string
+          tip?: number
+          tolls?: number
           venmo_link?: string | null
         }
         Update: {
           amount?: number | null
           cost_type?: string | null
           created_at?: string | null
+          fare?: number | null
           id?: string
+          parking?: number
+          payer_paypal_username?: string | null
           payer_user_id?: string
           payer_venmo_username?: string | null
+          payer_zelle_handle?: string | null
           ride_id?: string
+          tip?: number
+          tolls?: number
           venmo_link?: string | null
         }
         Relationships: [
@@ -1049,6 +2036,101 @@ export type Database = {
       }
     }
     Functions: {
+      claim_email_outbox: {
+        Args: { p_limit: number }
+        Returns: {
+          attempts: number
+          created_at: string
+          html: string
+          id: string
+          idempotency_key: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          message_id: string | null
+          next_attempt_at: string
+          notification_type: string
+          provider_message_id: string | null
+          recipient: string
+          ride_id: string | null
+          sent_at: string | null
+          status: string
+          subject: string
+          template_version: number | null
+          text: string
+        }[]
+      }
+      delete_expired_live_locations: {
+        Args: never
+        Returns: number
+      }
+      discard_email_outbox: {
+        Args: { p_id: string }
+        Returns: undefined
+      }
+      filter_notification_recipients: {
+        Args: {
+          p_channel: string
+          p_emails: string[]
+          p_type: Database["public"]["Enums"]["notification_type"]
+        }
+        Returns: string[]
+      }
+      get_my_ledger_entries: {
+        Args: never
+        Returns: {
+          amount: number
+          creditor_id: string
+          debtor_id: string
+          event_date: string
+          event_name: string
+          recorded_at: string
+          ride_id: string
+          uber_payment_id: string
+        }[]
+      }
+      get_my_settle_ups: {
+        Args: never
+        Returns: {
+          amount: number
+          from_user_id: string
+          to_user_id: string
+        }[]
+      }
+      get_payment_dispute_queue: {
+        Args: never
+        Returns: {
+          amount_owed: number
+          attendance: string
+          created_at: string
+          details: string
+          event_date: string
+          event_name: string
+          id: string
+          payer_name: string
+          payment_amount: number
+          reason: string
+          ride_id: string
+          total_voters: number
+          uber_payment_id: string
+          user_email: string
+          user_id: string
+          user_name: string
+          vote_count: number
+        }[]
+      }
+      get_pending_chat_digests: {
+        Args: { p_idle_minutes: number }
+        Returns: {
+          email: string
+          event_name: string
+          last_message_at: string
+          messages: Json
+          ride_id: string
+          unread_count: number
+          user_id: string
+        }[]
+      }
       get_user_ride_stats: {
         Args: { user_uuid: string }
         Returns: {
@@ -1064,6 +2146,142 @@ export type Database = {
         }
         Returns: boolean
       }
+      in_quiet_hours: {
+        Args: { p_user_id: string }
+        Returns: boolean
+      }
+      join_ride: {
+        Args: { p_ride_id: string }
+        Returns: {
+          created_at: string | null
+          id: string
+          ride_id: string
+          role: string | null
+          status: string | null
+          user_id: string
+          willing_to_pay: boolean | null
+        }
+      }
+      leave_ride: {
+        Args: { p_ride_id: string }
+        Returns: string
+      }
+      notify_ride_milestones: {
+        Args: { p_ride_id: string }
+        Returns: number
+      }
+      open_payment_dispute: {
+        Args: {
+          p_details: string
+          p_reason: string
+          p_uber_payment_id: string
+        }
+        Returns: {
+          created_at: string
+          details: string | null
+          id: string
+          original_amount: number
+          reason: string
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          uber_payment_id: string
+          user_id: string
+        }
+      }
+      record_uber_payment: {
+        Args: {
+          p_cost_type: string
+          p_fare: number
+          p_parking: number
+          p_ride_id: string
+          p_shares: Json
+          p_tip: number
+          p_tolls: number
+        }
+        Returns: {
+          amount: number | null
+          cost_type: string | null
+          created_at: string | null
+          fare: number | null
+          id: string
+          parking: number
+          payer_paypal_username: string | null
+          payer_user_id: string
+          payer_venmo_username: string | null
+          payer_zelle_handle: string | null
+          ride_id: string
+          tip: number
+          tolls: number
+          venmo_link: string | null
+        }
+      }
+      reset_calendar_feed_token: {
+        Args: never
+        Returns: string
+      }
+      resolve_payment_dispute: {
+        Args: {
+          p_action: string
+          p_adjusted_amount: number
+          p_dispute_id: string
+          p_note: string
+        }
+        Returns: {
+          created_at: string
+          details: string | null
+          id: string
+          original_amount: number
+          reason: string
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          uber_payment_id: string
+          user_id: string
+        }
+      }
+      respond_to_ride_proposal: {
+        Args: { p_accept: boolean; p_ride_id: string }
+        Returns: {
+          capacity: number | null
+          created_at: string | null
+          created_by: string
+          departure_time: string
+          event_id: string
+          id: string
+          meeting_point: string | null
+          meeting_point_id: string | null
+          min_capacity: number | null
+          status: string
+          travel_mode: string
+        }
+      }
+      retry_email_outbox: {
+        Args: { p_id: string }
+        Returns: undefined
+      }
+      save_push_subscription: {
+        Args: {
+          p_auth: string
+          p_endpoint: string
+          p_p256dh: string
+          p_user_agent: string
+          p_vapid_public_key: string
+        }
+        Returns: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          last_used_at: string | null
+          p256dh: string
+          user_agent: string | null
+          user_id: string
+          vapid_public_key: string
+        }
+      }
       search_events: {
         Args: { search_query: string }
         Returns: {
@@ -1077,6 +2295,55 @@ export type Database = {
           name: string
         }[]
       }
+      settle_up: {
+        Args: { p_amount: number; p_counterparty_id: string }
+        Returns: {
+          amount: number
+          cleared_at: string | null
+          created_at: string
+          created_by: string
+          debt_count: number
+          from_user_id: string
+          id: string
+          to_user_id: string
+        }
+      }
+      submit_meeting_point_ballot: {
+        Args: { p_meeting_point_ids: string[]; p_ride_id: string }
+        Returns: {
+          ballot_count: number
+          created_at: string
+          created_by: string | null
+          id: string
+          previous_meeting_point_id: string | null
+          ride_id: string
+          rounds: Json
+          tie_break: string | null
+          winner_meeting_point_id: string | null
+        }
+      }
+      tally_meeting_point_votes: {
+        Args: { p_ride_id: string }
+        Returns: {
+          ballot_count: number
+          created_at: string
+          created_by: string | null
+          id: string
+          previous_meeting_point_id: string | null
+          ride_id: string
+          rounds: Json
+          tie_break: string | null
+          winner_meeting_point_id: string | null
+        }
+      }
+      wants_notification: {
+        Args: {
+          p_channel: string
+          p_type: Database["public"]["Enums"]["notification_type"]
+          p_user_id: string
+        }
+        Returns: boolean
+      }
     }
     Enums: {
       app_role: "admin" | "moderator" | "user"
@@ -1095,6 +2362,14 @@ export type Database = {
       | "attendance_survey"
       | "attendance_survey_reminder"
       | "ride_invite"
+      | "waitlist_promoted"
+      | "ride_proposed"
+      | "settle_up"
+      | "payment_disputed"
+      | "payment_dispute_resolved"
+      | "ride_updated"
+      | "ride_deleted"
+      | "meeting_point_changed"
       survey_status: "pending" | "in_progress" | "completed" | "expired"
     }
     CompositeTypes: {
@@ -1239,6 +2514,14 @@ export const Constants = {
         "attendance_survey",
         "attendance_survey_reminder",
         "ride_invite",
+        "waitlist_promoted",
+        "ride_proposed",
+        "settle_up",
+        "payment_disputed",
+        "payment_dispute_resolved",
+        "ride_updated",
+        "ride_deleted",
+        "meeting_point_changed",
       ],
       survey_status: ["pending", "in_progress", "completed", "expired"],
     },
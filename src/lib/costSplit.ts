@@ -0,0 +1,63 @@
+export const LINE_ITEMS = [
+  { key: "fare", label: "Fare" },
+  { key: "tip", label: "Tip" },
+  { key: "tolls", label: "Tolls" },
+  { key: "parking", label: "Parking" },
+] as const;
+
+export type LineItemKey = typeof LINE_ITEMS[number]["key"];
+export type LineItems = Record<LineItemKey, number>;
+
+export interface MemberShare {
+  user_id: string;
+  weight: number;
+  amount_owed: number;
+}
+
+// Common share weights, e.g. for someone dropped off halfway
+export const SHARE_WEIGHTS = [
+  { value: 1, label: "Full share" },
+  { value: 0.75, label: "¾ share" },
+  { value: 0.5, label: "Half share" },
+  { value: 0.25, label: "¼ share" },
+  { value: 0, label: "Not splitting" },
+];
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+export const lineItemsTotal = (items: LineItems): number =>
+  LINE_ITEMS.reduce((sum, { key }) => sum + toCents(items[key] || 0), 0) / 100;
+
+// Splits a total by weight, in whole cents. Cents lost to rounding go to the
+// members with the largest remainders (ties by position), so the shares
+// always add up to the total exactly.
+export const splitByWeight = (
+  total: number,
+  weights: { user_id: string; weight: number }[]
+): MemberShare[] => {
+  const totalCents = toCents(total);
+  const totalWeight = weights.reduce((sum, w) => sum + w.weight, 0);
+  if (totalWeight <= 0) {
+    return weights.map(w => ({ ...w, amount_owed: 0 }));
+  }
+
+  const exact = weights.map(w => (totalCents * w.weight) / totalWeight);
+  const cents = exact.map(Math.floor);
+  let leftover = totalCents - cents.reduce((sum, c) => sum + c, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - cents[index] }))
+    .filter(({ index }) => weights[index].weight > 0)
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break;
+    cents[index] += 1;
+    leftover -= 1;
+  }
+
+  return weights.map((w, index) => ({ ...w, amount_owed: cents[index] / 100 }));
+};
+
+export const formatAmount = (amount: number | null | undefined): string =>
+  `$${(amount ?? 0).toFixed(2)}`;
@@ -0,0 +1,61 @@
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+// Neighborhoods attendees can say they're leaving from, with a rough centre
+// point for each so we can estimate how far they are from a meeting point.
+export const NEIGHBORHOOD_COORDINATES: Record<string, LatLng> = {
+  "Southside": { latitude: 37.8672, longitude: -122.2560 },
+  "Northside": { latitude: 37.8770, longitude: -122.2600 },
+  "Downtown Berkeley": { latitude: 37.8699, longitude: -122.2681 },
+  "North Berkeley": { latitude: 37.8805, longitude: -122.2690 },
+  "Elmwood": { latitude: 37.8580, longitude: -122.2520 },
+  "West Berkeley": { latitude: 37.8650, longitude: -122.2950 },
+  "Albany / El Cerrito": { latitude: 37.8920, longitude: -122.2950 },
+  "Oakland (Rockridge / Temescal)": { latitude: 37.8400, longitude: -122.2570 },
+  "Emeryville": { latitude: 37.8313, longitude: -122.2852 },
+  "San Francisco": { latitude: 37.7749, longitude: -122.4194 },
+};
+
+export const NEIGHBORHOODS = Object.keys(NEIGHBORHOOD_COORDINATES);
+
+const EARTH_RADIUS_METERS = 6371000;
+const METERS_PER_MILE = 1609.344;
+// Average walking pace, ~3 mph
+const WALKING_METERS_PER_MINUTE = 80;
+// Streets aren't straight lines; pad the crow-flies distance
+const WALKING_DETOUR_FACTOR = 1.3;
+// Beyond this, suggesting a walk isn't useful
+const MAX_WALKING_MINUTES = 60;
+
+export const distanceInMeters = (from: LatLng, to: LatLng): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+};
+
+export const walkingMinutes = (meters: number): number =>
+  Math.max(1, Math.round((meters * WALKING_DETOUR_FACTOR) / WALKING_METERS_PER_MINUTE));
+
+export const formatDistance = (meters: number): string => {
+  const miles = meters / METERS_PER_MILE;
+  return miles < 0.1 ? `${Math.round(meters * 3.28084)} ft` : `${miles.toFixed(1)} mi`;
+};
+
+export const formatWalkingTime = (meters: number): string => {
+  const minutes = walkingMinutes(meters);
+  return minutes > MAX_WALKING_MINUTES ? 'too far to walk' : `${minutes} min walk`;
+};
+
+export const getNeighborhoodCoordinates = (neighborhood: string | null | undefined): LatLng | null => {
+  if (!neighborhood) return null;
+  const key = Object.keys(NEIGHBORHOOD_COORDINATES).find(
+    n => n.toLowerCase() === neighborhood.trim().toLowerCase()
+  );
+  return key ? NEIGHBORHOOD_COORDINATES[key] : null;
+};
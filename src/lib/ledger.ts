@@ -0,0 +1,59 @@
+export interface LedgerEntry {
+  uber_payment_id: string;
+  ride_id: string;
+  event_name: string;
+  event_date: string;
+  debtor_id: string;
+  creditor_id: string;
+  amount: number;
+  recorded_at: string;
+}
+
+export interface LedgerBalance {
+  counterpartyId: string;
+  // Positive when the counterparty owes the current user
+  net: number;
+  owedToMe: number;
+  owedByMe: number;
+  entries: LedgerEntry[];
+}
+
+// A suggested transfer from get_my_settle_ups
+export interface SettleUpTransfer {
+  fromUserId: string;
+  toUserId: string;
+  amount: number;
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+// Nets the current user's open debts per person, for showing which rides a
+// balance came from. Settling goes through get_my_settle_ups, which can route
+// around people who only pass money along.
+export const buildLedger = (entries: LedgerEntry[], userId: string): LedgerBalance[] => {
+  const balances = new Map<string, LedgerBalance>();
+
+  for (const entry of entries) {
+    const owedToMe = entry.creditor_id === userId;
+    const counterpartyId = owedToMe ? entry.debtor_id : entry.creditor_id;
+    const balance = balances.get(counterpartyId) ?? {
+      counterpartyId,
+      net: 0,
+      owedToMe: 0,
+      owedByMe: 0,
+      entries: [],
+    };
+
+    const cents = toCents(entry.amount);
+    if (owedToMe) {
+      balance.owedToMe = (toCents(balance.owedToMe) + cents) / 100;
+    } else {
+      balance.owedByMe = (toCents(balance.owedByMe) + cents) / 100;
+    }
+    balance.net = (toCents(balance.owedToMe) - toCents(balance.owedByMe)) / 100;
+    balance.entries.push(entry);
+    balances.set(counterpartyId, balance);
+  }
+
+  return [...balances.values()].sort((a, b) => Math.abs(b.net) - Math.abs(a.net));
+};
@@ -0,0 +1,94 @@
+import { Database } from "@/integrations/supabase/types";
+
+export type NotificationType = Database["public"]["Enums"]["notification_type"];
+export type NotificationChannel = "in_app" | "email" | "push" | "sms";
+
+export interface NotificationPreference {
+  type: NotificationType;
+  channel: NotificationChannel;
+  enabled: boolean;
+}
+
+export const NOTIFICATION_CHANNELS: { value: NotificationChannel; label: string }[] = [
+  { value: "in_app", label: "In-app" },
+  { value: "email", label: "Email" },
+  { value: "push", label: "Push" },
+];
+
+// Only these go out by text, to members with a verified phone number. Keep
+// in step with SMS_NOTIFICATION_TYPES in supabase/functions/_shared/sms.ts.
+export const SMS_NOTIFICATION_TYPES: NotificationType[] = ["ride_starting_soon", "meeting_point_changed", "ride_deleted"];
+
+export interface NotificationCategory {
+  key: string;
+  label: string;
+  description: string;
+  types: NotificationType[];
+}
+
+// Preferences are stored per notification type; the settings screen groups
+// related types so people aren't faced with twenty switches
+export const NOTIFICATION_CATEGORIES: NotificationCategory[] = [
+  {
+    key: "ride_changes",
+    label: "Ride changes",
+    description: "Members joining or leaving, new times, meeting points and cancellations",
+    types: ["member_joined", "member_left", "ride_updated", "ride_deleted", "meeting_point_changed", "meeting_point_tie", "waitlist_promoted"],
+  },
+  {
+    key: "ride_alerts",
+    label: "Ride alerts",
+    description: "A reminder before departure and a heads-up when your group is ready or full",
+    types: ["ride_starting_soon", "group_ready", "group_full"],
+  },
+  {
+    key: "chat",
+    label: "Chat messages",
+    description: "New messages in your ride group chats",
+    types: ["new_message"],
+  },
+  {
+    key: "invites",
+    label: "Invites and matches",
+    description: "Ride invites and proposed ride groups",
+    types: ["ride_invite", "ride_proposed"],
+  },
+  {
+    key: "payments",
+    label: "Payments",
+    description: "Payment requests, reminders, confirmations and disputes",
+    types: ["payment_amount_entered", "payment_reminder", "payment_confirmed", "venmo_required", "settle_up", "payment_disputed", "payment_dispute_resolved"],
+  },
+  {
+    key: "attendance",
+    label: "Attendance surveys",
+    description: "Confirming who showed up after a ride",
+    types: ["attendance_survey", "attendance_survey_reminder"],
+  },
+];
+
+// A type with no stored row is on
+export const isEnabled = (
+  preferences: NotificationPreference[],
+  type: NotificationType,
+  channel: NotificationChannel
+) => preferences.find(p => p.type === type && p.channel === channel)?.enabled ?? true;
+
+export const isCategoryEnabled = (
+  preferences: NotificationPreference[],
+  category: NotificationCategory,
+  channel: NotificationChannel
+) => category.types.every(type => isEnabled(preferences, type, channel));
+
+// "22:00:00" -> "10 PM"
+export const formatQuietHour = (time: string) => {
+  const hour = parseInt(time.slice(0, 2), 10);
+  if (hour === 0) return "12 AM";
+  if (hour === 12) return "12 PM";
+  return hour < 12 ? `${hour} AM` : `${hour - 12} PM`;
+};
+
+export const QUIET_HOUR_OPTIONS = Array.from({ length: 24 }, (_, hour) => {
+  const value = `${String(hour).padStart(2, "0")}:00:00`;
+  return { value, label: formatQuietHour(value) };
+});
@@ -0,0 +1,243 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { confirmPayment } from "@/lib/paymentConfirmations";
+
+export interface AppNotification {
+  id: string;
+  title: string;
+  message: string;
+  type: string;
+  read: boolean | null;
+  created_at: string | null;
+  ride_id: string | null;
+  metadata: Json | null;
+}
+
+export interface NotificationGroup {
+  key: string;
+  // Newest first
+  notifications: AppNotification[];
+  latest: AppNotification;
+  unreadIds: string[];
+  title: string;
+  message: string;
+}
+
+export type NotificationActionKind =
+  | 'confirm_payment'
+  | 'accept_invite'
+  | 'accept_proposal'
+  | 'decline_proposal'
+  | 'answer_survey';
+
+export interface NotificationAction {
+  kind: NotificationActionKind;
+  label: string;
+}
+
+export const metadataValue = (notification: AppNotification, key: string): string | undefined => {
+  const metadata = notification.metadata;
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) return undefined;
+  const value = metadata[key];
+  return value === null || value === undefined ? undefined : String(value);
+};
+
+// Where a notification takes you when it's clicked. The edge functions keep
+// a copy in supabase/functions/_shared/notificationRoutes.ts for push
+// notifications; change both together.
+export const notificationPath = (notification: AppNotification): string | null => {
+  const rideId = notification.ride_id;
+
+  switch (notification.type) {
+    case 'payment_amount_entered':
+    case 'payment_reminder':
+    case 'settle_up':
+    case 'payment_dispute_resolved':
+    case 'attendance_survey':
+    case 'attendance_survey_reminder':
+      return '/my-rides';
+
+    case 'venmo_required':
+      return '/profile';
+
+    case 'payment_disputed':
+    case 'new_message':
+      return rideId ? `/rides/${rideId}?openChat=true` : null;
+
+    case 'payment_confirmed':
+      return null;
+
+    default: {
+      if (rideId) return `/rides/${rideId}`;
+      const eventId = metadataValue(notification, 'event_id');
+      return eventId ? `/events/${eventId}` : null;
+    }
+  }
+};
+
+interface GroupRule {
+  // Notifications with the same key collapse into one entry
+  key: (notification: AppNotification) => string | undefined;
+  // count is the unread notifications in the group, or all of them once read
+  title: (count: number, latest: AppNotification, unread: boolean) => string;
+}
+
+const GROUP_RULES: Record<string, GroupRule> = {
+  new_message: {
+    key: (n) => n.ride_id ?? undefined,
+    title: (count, _latest, unread) => `${count} ${unread ? 'new ' : ''}messages in your ride group`,
+  },
+  member_joined: {
+    key: (n) => n.ride_id ?? undefined,
+    title: (count) => `${count} people joined your ride group`,
+  },
+  payment_reminder: {
+    key: (n) => metadataValue(n, 'uber_payment_id'),
+    title: (count, latest) => `${latest.title} (${count} reminders)`,
+  },
+  attendance_survey_reminder: {
+    key: (n) => n.ride_id ?? undefined,
+    title: (count, latest) => `${latest.title} (${count} reminders)`,
+  },
+};
+
+// Collapses related notifications (every chat message in one ride, repeat
+// reminders for one payment) into a single entry, ordered by the newest
+// notification in each. Expects notifications newest first.
+export const groupNotifications = (notifications: AppNotification[]): NotificationGroup[] => {
+  const groups = new Map<string, AppNotification[]>();
+
+  for (const notification of notifications) {
+    const rule = GROUP_RULES[notification.type];
+    const ruleKey = rule?.key(notification);
+    const key = ruleKey ? `${notification.type}:${ruleKey}` : notification.id;
+    groups.set(key, [...(groups.get(key) ?? []), notification]);
+  }
+
+  return [...groups.entries()].map(([key, members]) => {
+    const latest = members[0];
+    const rule = GROUP_RULES[latest.type];
+    const unreadIds = members.filter(n => !n.read).map(n => n.id);
+    const count = unreadIds.length || members.length;
+    return {
+      key,
+      notifications: members,
+      latest,
+      unreadIds,
+      title: count > 1 && rule ? rule.title(count, latest, unreadIds.length > 0) : latest.title,
+      message: latest.message,
+    };
+  });
+};
+
+// Actions a notification offers, before checking whether they're still open
+const candidateActions = (notification: AppNotification): NotificationAction[] => {
+  switch (notification.type) {
+    case 'payment_amount_entered':
+    case 'payment_reminder':
+      return metadataValue(notification, 'uber_payment_id')
+        ? [{ kind: 'confirm_payment', label: 'Confirm Payment' }]
+        : [];
+
+    case 'ride_invite':
+      return notification.ride_id ? [{ kind: 'accept_invite', label: 'Accept Invite' }] : [];
+
+    case 'ride_proposed':
+      return notification.ride_id
+        ? [{ kind: 'accept_proposal', label: 'Accept' }, { kind: 'decline_proposal', label: 'Decline' }]
+        : [];
+
+    case 'attendance_survey':
+    case 'attendance_survey_reminder':
+      return notification.ride_id ? [{ kind: 'answer_survey', label: 'Answer Survey' }] : [];
+
+    default:
+      return [];
+  }
+};
+
+// Looks up which notifications still have something to do: payments not
+// yet confirmed, invites and proposals not yet answered, surveys still open
+// without this user's response. Returns their ids.
+export const fetchActionableIds = async (userId: string, notifications: AppNotification[]): Promise<Set<string>> => {
+  const withActions = notifications.filter(n => candidateActions(n).length > 0);
+  if (withActions.length === 0) return new Set();
+
+  const paymentIds = [...new Set(withActions.map(n => metadataValue(n, 'uber_payment_id')).filter(Boolean))] as string[];
+  const rideIds = [...new Set(withActions.map(n => n.ride_id).filter(Boolean))] as string[];
+
+  const [{ data: confirmations }, { data: memberships }, { data: surveys }, { data: responses }] = await Promise.all([
+    supabase.from('payment_confirmations').select('uber_payment_id').eq('user_id', userId).in('uber_payment_id', paymentIds),
+    supabase.from('ride_members').select('ride_id, status').eq('user_id', userId).in('ride_id', rideIds),
+    supabase.from('ride_attendance_surveys').select('ride_id, survey_status').in('ride_id', rideIds),
+    supabase.from('ride_attendance_responses').select('ride_id').eq('respondent_user_id', userId).in('ride_id', rideIds),
+  ]);
+
+  const confirmed = new Set(confirmations?.map(c => c.uber_payment_id));
+  const memberStatus = new Map(memberships?.map(m => [m.ride_id, m.status]));
+  const openSurveys = new Set(surveys?.filter(s => s.survey_status !== 'completed' && s.survey_status !== 'expired').map(s => s.ride_id));
+  const answered = new Set(responses?.map(r => r.ride_id));
+
+  return new Set(
+    withActions
+      .filter(n => {
+        switch (n.type) {
+          case 'payment_amount_entered':
+          case 'payment_reminder':
+            return !confirmed.has(metadataValue(n, 'uber_payment_id')!);
+          case 'ride_invite':
+            return memberStatus.get(n.ride_id!) === 'invited';
+          case 'ride_proposed':
+            return memberStatus.get(n.ride_id!) === 'proposed';
+          default:
+            return openSurveys.has(n.ride_id!) && !answered.has(n.ride_id!);
+        }
+      })
+      .map(n => n.id)
+  );
+};
+
+export const notificationActions = (notification: AppNotification, actionableIds: Set<string>): NotificationAction[] =>
+  actionableIds.has(notification.id) ? candidateActions(notification) : [];
+
+// Runs an action that doesn't need any more input from the user and returns
+// the message to show. Answering a survey opens a dialog instead.
+export const runNotificationAction = async (
+  kind: Exclude<NotificationActionKind, 'answer_survey'>,
+  notification: AppNotification,
+  userId: string
+): Promise<string> => {
+  switch (kind) {
+    case 'confirm_payment': {
+      const paymentId = metadataValue(notification, 'uber_payment_id')!;
+      const [{ data: payment, error: paymentError }, { data: share, error: shareError }] = await Promise.all([
+        supabase.from('uber_payments').select('id, payer_user_id, ride_id').eq('id', paymentId).single(),
+        supabase.from('uber_payment_shares').select('amount_owed').eq('uber_payment_id', paymentId).eq('user_id', userId).single(),
+      ]);
+      if (paymentError) throw paymentError;
+      if (shareError) throw shareError;
+
+      await confirmPayment(payment, userId, share.amount_owed);
+      return 'Payment confirmed! Thank you.';
+    }
+
+    case 'accept_invite': {
+      const { error } = await supabase.rpc('join_ride', { p_ride_id: notification.ride_id! });
+      if (error) throw error;
+      return "You've joined the ride group";
+    }
+
+    case 'accept_proposal':
+    case 'decline_proposal': {
+      const accept = kind === 'accept_proposal';
+      const { data, error } = await supabase.rpc('respond_to_ride_proposal', {
+        p_ride_id: notification.ride_id!,
+        p_accept: accept,
+      });
+      if (error) throw error;
+
+      if (!accept) return "Declined. We'll keep looking for a better match.";
+      return data?.status === 'active' ? "Your ride group is confirmed!" : "Accepted! Waiting for the others to respond.";
+    }
+  }
+};
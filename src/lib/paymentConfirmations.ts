@@ -0,0 +1,46 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface PaymentToConfirm {
+  id: string;
+  payer_user_id: string;
+  ride_id: string;
+}
+
+// Records that the current user paid their share, stops their reminders and
+// lets the payer know
+export const confirmPayment = async (payment: PaymentToConfirm, userId: string, amountOwed: number) => {
+  const { error: confirmError } = await supabase
+    .from('payment_confirmations')
+    .insert({
+      uber_payment_id: payment.id,
+      user_id: userId,
+    });
+
+  if (confirmError) throw confirmError;
+
+  const { error: reminderError } = await supabase
+    .from('payment_reminders')
+    .update({ payment_confirmed: true })
+    .eq('uber_payment_id', payment.id)
+    .eq('user_id', userId);
+
+  if (reminderError) throw reminderError;
+
+  const { data: userData } = await supabase
+    .from('profiles')
+    .select('name')
+    .eq('id', userId)
+    .single();
+
+  await supabase.from('notifications').insert({
+    user_id: payment.payer_user_id,
+    ride_id: payment.ride_id,
+    type: 'payment_confirmed',
+    title: 'Payment Confirmed',
+    message: `${userData?.name || 'A member'} confirmed payment of $${amountOwed.toFixed(2)}`,
+    metadata: {
+      uber_payment_id: payment.id,
+      user_id: userId,
+    }
+  });
+};
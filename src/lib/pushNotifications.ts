@@ -0,0 +1,97 @@
+import { supabase } from "@/integrations/supabase/client";
+
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+export const isPushSupported = () =>
+  !!VAPID_PUBLIC_KEY &&
+  "serviceWorker" in navigator &&
+  "PushManager" in window &&
+  "Notification" in window;
+
+// VAPID keys are base64url; PushManager wants the raw bytes
+const urlBase64ToUint8Array = (base64: string) => {
+  const padded = (base64 + "=".repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(padded), c => c.charCodeAt(0));
+};
+
+const registerServiceWorker = () => navigator.serviceWorker.register("/sw.js");
+
+const saveSubscription = async (subscription: PushSubscription) => {
+  const json = subscription.toJSON();
+  const { error } = await supabase.rpc("save_push_subscription", {
+    p_endpoint: subscription.endpoint,
+    p_p256dh: json.keys?.p256dh ?? "",
+    p_auth: json.keys?.auth ?? "",
+    p_vapid_public_key: VAPID_PUBLIC_KEY!,
+    p_user_agent: navigator.userAgent,
+  });
+  if (error) throw error;
+};
+
+const subscribe = async (registration: ServiceWorkerRegistration) => {
+  const subscription = await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY!),
+  });
+  await saveSubscription(subscription);
+  return subscription;
+};
+
+// Whether this browser is currently subscribed for the signed-in user
+export const isPushEnabled = async () => {
+  if (!isPushSupported() || Notification.permission !== "granted") return false;
+  const registration = await navigator.serviceWorker.getRegistration("/sw.js");
+  return !!(await registration?.pushManager.getSubscription());
+};
+
+export const enablePush = async () => {
+  if (!isPushSupported()) {
+    throw new Error("Push notifications aren't supported in this browser");
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") {
+    throw new Error("Allow notifications for this site in your browser settings to turn on push");
+  }
+
+  const registration = await registerServiceWorker();
+  const existing = await registration.pushManager.getSubscription();
+  if (existing) {
+    await saveSubscription(existing);
+    return;
+  }
+  await subscribe(registration);
+};
+
+export const disablePush = async () => {
+  const registration = await navigator.serviceWorker.getRegistration("/sw.js");
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return;
+
+  await supabase.from("push_subscriptions").delete().eq("endpoint", subscription.endpoint);
+  await subscription.unsubscribe();
+};
+
+const sameKey = (key: ArrayBuffer | null, expected: Uint8Array) => {
+  if (!key || key.byteLength !== expected.length) return false;
+  const bytes = new Uint8Array(key);
+  return bytes.every((byte, i) => byte === expected[i]);
+};
+
+// Run once signed in: points this device's subscription at the current
+// user, and re-subscribes if the VAPID keys were rotated since
+export const syncPushSubscription = async () => {
+  if (!isPushSupported() || Notification.permission !== "granted") return;
+
+  const registration = await registerServiceWorker();
+  const subscription = await registration.pushManager.getSubscription();
+  if (!subscription) return;
+
+  if (sameKey(subscription.options.applicationServerKey, urlBase64ToUint8Array(VAPID_PUBLIC_KEY!))) {
+    await saveSubscription(subscription);
+    return;
+  }
+
+  await subscription.unsubscribe();
+  await subscribe(registration);
+};
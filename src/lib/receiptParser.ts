@@ -0,0 +1,156 @@
+// Reads the total, tip and trip time out of Uber and Lyft receipt emails.
+// There's no OCR: it works on the email itself, either a saved .eml file or
+// text copied out of the email. Images are stored as-is for people to look at.
+
+export type ReceiptProvider = "uber" | "lyft";
+
+export interface ParsedReceipt {
+  provider: ReceiptProvider | null;
+  total: number | null;
+  tip: number | null;
+  tripAt: Date | null;
+  // The receipt as plain text, after decoding and stripping HTML
+  text: string;
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const decodeQuotedPrintable = (body: string): string => {
+  const bytes: number[] = [];
+  const unfolded = body.replace(/=\r?\n/g, "");
+  for (let i = 0; i < unfolded.length; i++) {
+    const hex = unfolded.slice(i + 1, i + 3);
+    if (unfolded[i] === "=" && /^[0-9A-F]{2}$/i.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(...new TextEncoder().encode(unfolded[i]));
+    }
+  }
+  return new TextDecoder().decode(new Uint8Array(bytes));
+};
+
+// A part that claims to be base64 but isn't (truncated or hand-edited
+// emails) is read as plain text instead
+const decodeBase64 = (body: string): string => {
+  try {
+    const binary = atob(body.replace(/\s+/g, ""));
+    return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+  } catch {
+    return body;
+  }
+};
+
+const htmlToText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  doc.querySelectorAll("style, script, head").forEach(node => node.remove());
+  // Keep table cells and lines apart so "Tip" and "$3.00" stay readable
+  doc.querySelectorAll("td, th, p, div, br, tr, li").forEach(node => node.append("\n"));
+  return doc.body.textContent || "";
+};
+
+const parseHeaders = (block: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  for (const line of block.replace(/\r?\n[ \t]+/g, " ").split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon > 0) headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+  }
+  return headers;
+};
+
+const splitHeaderBody = (raw: string): [Record<string, string>, string] => {
+  const match = raw.match(/\r?\n\r?\n/);
+  if (!match || match.index === undefined) return [{}, raw];
+  return [parseHeaders(raw.slice(0, match.index)), raw.slice(match.index + match[0].length)];
+};
+
+// Returns the readable text of a MIME entity, preferring text/plain parts
+// and falling back to HTML
+const mimeToText = (headers: Record<string, string>, body: string): string => {
+  const contentType = headers["content-type"] || "text/plain";
+  const boundary = contentType.match(/boundary="?([^";]+)"?/i)?.[1];
+
+  if (boundary && /multipart\//i.test(contentType)) {
+    const parts = body
+      .split(`--${boundary}`)
+      .slice(1)
+      .filter(part => !part.startsWith("--"))
+      .map(part => splitHeaderBody(part.replace(/^\r?\n/, "")));
+    const plain = parts.find(([h]) => /text\/plain/i.test(h["content-type"] || ""));
+    const html = parts.find(([h]) => /text\/html/i.test(h["content-type"] || ""));
+    const nested = parts.find(([h]) => /multipart\//i.test(h["content-type"] || ""));
+    const chosen = plain || html || nested;
+    return chosen ? mimeToText(chosen[0], chosen[1]) : "";
+  }
+
+  const encoding = (headers["content-transfer-encoding"] || "").toLowerCase();
+  let decoded = body;
+  if (encoding === "quoted-printable") decoded = decodeQuotedPrintable(body);
+  if (encoding === "base64") decoded = decodeBase64(body);
+
+  return /text\/html/i.test(contentType) ? htmlToText(decoded) : decoded;
+};
+
+const looksLikeEmail = (raw: string) => /^(?:[\w-]+:.*\r?\n)+/.test(raw) && /\n(?:from|subject|content-type):/i.test(`\n${raw}`);
+
+const parseAmount = (value: string) => parseFloat(value.replace(/,/g, ""));
+
+const findAmount = (text: string, pattern: RegExp): number | null => {
+  const match = text.match(pattern);
+  return match ? parseAmount(match[1]) : null;
+};
+
+const findTripTime = (text: string): Date | null => {
+  const match = text.match(
+    /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})(?:\D{1,12}?(\d{1,2}):(\d{2})\s*([ap])\.?m\.?)?/i
+  );
+  if (!match) return null;
+
+  const [, month, day, year, hour, minute, meridiem] = match;
+  let hours = hour ? parseInt(hour, 10) % 12 : 0;
+  if (meridiem?.toLowerCase() === "p") hours += 12;
+
+  const date = new Date(
+    parseInt(year, 10),
+    MONTHS.indexOf(month.slice(0, 3).toLowerCase()),
+    parseInt(day, 10),
+    hours,
+    minute ? parseInt(minute, 10) : 0
+  );
+  return isNaN(date.getTime()) ? null : date;
+};
+
+export const parseReceipt = (raw: string): ParsedReceipt => {
+  let text = raw;
+  let sentAt: Date | null = null;
+  let sender = "";
+
+  if (looksLikeEmail(raw)) {
+    const [headers, body] = splitHeaderBody(raw);
+    text = mimeToText(headers, body);
+    sentAt = headers.date ? new Date(headers.date) : null;
+    sender = headers.from || "";
+  } else if (/<(html|body|table|div)\b/i.test(raw)) {
+    text = htmlToText(raw);
+  }
+
+  text = text.replace(/\u00a0/g, " ").replace(/[ \t]+/g, " ").replace(/\n\s*\n+/g, "\n").trim();
+
+  const source = `${sender}\n${text}`;
+  const provider: ReceiptProvider | null = /\blyft\b/i.test(source) ? "lyft" : /\buber\b/i.test(source) ? "uber" : null;
+
+  // "Total", "Total charged" or "Amount charged", but not "Subtotal"
+  const total = findAmount(text, /\b(?:total(?: charged)?|amount charged)\b[^$\d\n]{0,20}\n?\s*\$\s?(\d[\d,]*\.\d{2})/i);
+  const tip = findAmount(text, /\btip\b[^$\d\n]{0,20}\n?\s*\$\s?(\d[\d,]*\.\d{2})/i);
+
+  const tripAt = findTripTime(text) ?? (sentAt && !isNaN(sentAt.getTime()) ? sentAt : null);
+
+  return { provider, total, tip, tripAt, text };
+};
+
+export const RECEIPT_TEXT_TYPES = [".eml", ".txt", ".html", ".htm"];
+
+export const isReceiptTextFile = (file: File) =>
+  RECEIPT_TEXT_TYPES.some(ext => file.name.toLowerCase().endsWith(ext)) ||
+  file.type === "message/rfc822" ||
+  file.type.startsWith("text/");
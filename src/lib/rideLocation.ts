@@ -0,0 +1,67 @@
+import { supabase } from "@/integrations/supabase/client";
+import { LatLng } from "@/lib/geo";
+
+// Must match stamp_ride_live_location, which enforces the same window
+const LIVE_LOCATION_LEAD_MINUTES = 15;
+const LIVE_LOCATION_GRACE_MINUTES = 15;
+
+export interface MeetingPointLocation extends LatLng {
+  name: string;
+}
+
+export interface RideLocationContext {
+  departureTime: string;
+  // Null for free-text meeting points and options carried over from before
+  // the catalogue, which have no coordinates
+  meetingPoint: MeetingPointLocation | null;
+}
+
+export const liveLocationWindow = (departureTime: string) => {
+  const departure = new Date(departureTime).getTime();
+  return {
+    opensAt: new Date(departure - LIVE_LOCATION_LEAD_MINUTES * 60 * 1000),
+    closesAt: new Date(departure + LIVE_LOCATION_GRACE_MINUTES * 60 * 1000),
+  };
+};
+
+export const isLiveLocationOpen = (departureTime: string, now: Date = new Date()) => {
+  const { opensAt, closesAt } = liveLocationWindow(departureTime);
+  return now >= opensAt && now <= closesAt;
+};
+
+export const fetchRideLocationContext = async (rideId: string): Promise<RideLocationContext | null> => {
+  const { data, error } = await supabase
+    .from('ride_groups')
+    .select('departure_time, meeting_points(name, latitude, longitude)')
+    .eq('id', rideId)
+    .maybeSingle();
+
+  if (error || !data) return null;
+
+  return {
+    departureTime: data.departure_time,
+    meetingPoint: data.meeting_points?.latitude != null && data.meeting_points.longitude != null
+      ? {
+          name: data.meeting_points.name,
+          latitude: data.meeting_points.latitude,
+          longitude: data.meeting_points.longitude,
+        }
+      : null,
+  };
+};
+
+export const mapsUrl = ({ latitude, longitude }: LatLng) =>
+  `https://www.google.com/maps/search/?api=1&query=${latitude},${longitude}`;
+
+export const getCurrentPosition = () =>
+  new Promise<GeolocationPosition>((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error("Location isn't available in this browser"));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      resolve,
+      () => reject(new Error("Couldn't get your location")),
+      { enableHighAccuracy: true, timeout: 15000 }
+    );
+  });
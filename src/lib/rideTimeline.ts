@@ -0,0 +1,46 @@
+import { format } from "date-fns";
+
+// The line shown in the chat for a timeline row the database posted, e.g.
+// "Sam joined the ride". name is the member the event is about, and
+// metadata holds whatever the event recorded about the change.
+export const describeTimelineEvent = (
+  event: string,
+  metadata: Record<string, unknown> | null,
+  name: string
+) => {
+  const details = metadata || {};
+
+  switch (event) {
+    case 'member_joined':
+      return `${name} joined the ride`;
+    case 'member_left':
+      return `${name} left the ride`;
+    case 'waitlist_promoted':
+      return `${name} joined from the waitlist`;
+    case 'meeting_point_changed':
+      return details.meeting_point
+        ? `Meeting point moved to ${details.meeting_point}`
+        : 'Meeting point changed';
+    case 'ride_updated': {
+      const changes: string[] = [];
+      if (typeof details.departure_time === 'string') {
+        changes.push(`departure to ${format(new Date(details.departure_time), 'EEE, MMM d \'at\' h:mm a')}`);
+      }
+      if ('meeting_point' in details) {
+        changes.push(details.meeting_point ? `meeting point to ${details.meeting_point}` : 'meeting point to undecided');
+      }
+      if (typeof details.capacity === 'number') {
+        changes.push(`seats to ${details.capacity}`);
+      }
+      return changes.length > 0
+        ? `${name} changed ${changes.join(', ')}`
+        : `${name} updated the ride details`;
+    }
+    case 'payment_request':
+      return typeof details.amount === 'number'
+        ? `${name} requested payment for a $${details.amount.toFixed(2)} ride`
+        : `${name} requested payment`;
+    default:
+      return `${name} updated the ride`;
+  }
+};
@@ -12,6 +12,7 @@ import { PaymentsTab } from "@/components/admin/PaymentsTab";
 import { FeedbackTab } from "@/components/admin/FeedbackTab";
 import { RatingsTab } from "@/components/admin/RatingsTab";
 import { SystemTab } from "@/components/admin/SystemTab";
+import { MeetingPointsTab } from "@/components/admin/MeetingPointsTab";
 import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Shield } from "lucide-react";
 
@@ -64,6 +65,7 @@ const Admin = () => {
               <TabsTrigger value="users">Users</TabsTrigger>
               <TabsTrigger value="events">Events</TabsTrigger>
               <TabsTrigger value="rides">Rides</TabsTrigger>
+              <TabsTrigger value="meeting-points">Meeting Points</TabsTrigger>
               <TabsTrigger value="payments">Payments</TabsTrigger>
               <TabsTrigger value="feedback">Feedback</TabsTrigger>
               <TabsTrigger value="ratings">Ratings</TabsTrigger>
@@ -87,6 +89,10 @@ const Admin = () => {
             <RideMembershipTable />
           </TabsContent>
 
+          <TabsContent value="meeting-points" className="mt-6">
+            <MeetingPointsTab />
+          </TabsContent>
+
           <TabsContent value="payments" className="mt-6">
             <PaymentsTab />
           </TabsContent>
@@ -77,6 +77,7 @@ const Auth = () => {
         .select('id')
         .eq('ride_id', invite.ride_id)
         .eq('user_id', userId)
+        .eq('status', 'joined')
         .maybeSingle();
 
       if (existingMember) {
@@ -84,10 +85,10 @@ const Auth = () => {
         return invite.ride_id;
       }
 
-      // Get ride details for capacity check and event access
+      // Get ride details for departure check and event access
       const { data: rideGroup } = await supabase
         .from('ride_groups')
-        .select('capacity, departure_time, event_id')
+        .select('departure_time, event_id')
         .eq('id', invite.ride_id)
         .single();
 
@@ -96,18 +97,6 @@ const Auth = () => {
         return null;
       }
 
-      // Check capacity
-      const { data: currentMembers } = await supabase
-        .from('ride_members')
-        .select('id')
-        .eq('ride_id', invite.ride_id);
-
-      const memberCount = currentMembers?.length || 0;
-      if (rideGroup?.capacity && memberCount >= rideGroup.capacity) {
-        toast.error("This ride is at full capacity");
-        return null;
-      }
-
       // Update profile flags for invited (non-Berkeley) users
       const isExternal = !profile.email?.toLowerCase().endsWith('@berkeley.edu');
       if (isExternal) {
@@ -120,19 +109,13 @@ const Auth = () => {
           .eq('id', userId);
       }
 
-      // Join the ride
-      const { error: joinError } = await supabase
-        .from('ride_members')
-        .insert({
-          ride_id: invite.ride_id,
-          user_id: userId,
-          status: 'joined',
-          role: null,
-          willing_to_pay: false
-        });
+      // Join the ride (capacity is enforced by join_ride)
+      const { error: joinError } = await supabase.rpc('join_ride', {
+        p_ride_id: invite.ride_id,
+      });
 
       if (joinError) {
-        toast.error("Failed to join ride");
+        toast.error(joinError.message || "Failed to join ride");
         return null;
       }
 
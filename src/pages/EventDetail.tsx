@@ -7,6 +7,8 @@ import { ArrowLeft, Plus, Users, MessageCircle, Check } from "lucide-react";
 import { toast } from "sonner";
 import { CreateRideDialog } from "@/components/CreateRideDialog";
 import { RideGroupCard } from "@/components/RideGroupCard";
+import { RideProposalCard } from "@/components/RideProposalCard";
+import { MatchPreferencesCard } from "@/components/MatchPreferencesCard";
 import { EditEventDialog } from "@/components/EditEventDialog";
 import { EventHero } from "@/components/EventHero";
 import { useUserRole } from "@/hooks/useUserRole";
@@ -42,9 +44,10 @@ interface RideGroup {
   meeting_point: string | null;
   capacity: number;
   min_capacity: number;
-  created_by: string;
+  created_by: string | null;
   event_id: string;
-  ride_members: { user_id: string; role: string | null }[];
+  status: string;
+  ride_members: { user_id: string; role: string | null; status: string | null }[];
 }
 
 interface Attendee {
@@ -59,6 +62,7 @@ const EventDetail = () => {
   const navigate = useNavigate();
   const [event, setEvent] = useState<Event | null>(null);
   const [rideGroups, setRideGroups] = useState<RideGroup[]>([]);
+  const [proposedGroups, setProposedGroups] = useState<RideGroup[]>([]);
   const [otherAttendees, setOtherAttendees] = useState<Attendee[]>([]);
   const [selectedAttendees, setSelectedAttendees] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
@@ -103,7 +107,7 @@ const EventDetail = () => {
           .from('ride_groups')
           .select(`
             *,
-            ride_members (user_id, role)
+            ride_members (user_id, role, status)
           `)
           .eq('event_id', eventId),
         supabase
@@ -116,11 +120,14 @@ const EventDetail = () => {
       if (ridesRes.error) throw ridesRes.error;
 
       setEvent(eventRes.data);
-      setRideGroups(ridesRes.data || []);
+      // Groups proposed by the matching engine are only shown to the people they were proposed to
+      const activeGroups = ridesRes.data?.filter(group => group.status !== 'proposed') || [];
+      setRideGroups(activeGroups);
+      setProposedGroups(ridesRes.data?.filter(group => group.status === 'proposed') || []);
 
       // Filter attendees who are NOT in any ride group
       const rideMemberIds = new Set<string>();
-      ridesRes.data?.forEach(group => {
+      activeGroups.forEach(group => {
         group.ride_members.forEach(m => rideMemberIds.add(m.user_id));
       });
 
@@ -221,6 +228,15 @@ const EventDetail = () => {
 
   const sortedWindows = sortTimeWindows(Object.keys(groupedRides));
 
+  const myProposals = proposedGroups.filter(group =>
+    group.ride_members.some(m => m.user_id === currentUserId)
+  );
+  const isInActiveGroup = rideGroups.some(group =>
+    group.ride_members.some(m => m.user_id === currentUserId && m.status === 'joined')
+  );
+  const canRequestMatch = currentUserId && !isInActiveGroup && myProposals.length === 0
+    && new Date(event.date_time) > new Date();
+
   return (
     <div className="min-h-screen bg-background pb-20 pt-6">
       <div className="container mx-auto px-4 py-6 max-w-4xl">
@@ -241,6 +257,29 @@ const EventDetail = () => {
           onDelete={() => setDeleteDialogOpen(true)}
         />
 
+        {myProposals.length > 0 && (
+          <div className="space-y-4 mb-8">
+            <h2 className="text-xl font-bold text-primary">Suggested for You</h2>
+            {myProposals.map((group) => (
+              <RideProposalCard
+                key={group.id}
+                rideGroup={group}
+                currentUserId={currentUserId!}
+                onUpdate={fetchEventData}
+              />
+            ))}
+          </div>
+        )}
+
+        {canRequestMatch && (
+          <MatchPreferencesCard
+            eventId={event.id}
+            eventDate={event.date_time}
+            currentUserId={currentUserId}
+            onMatched={fetchEventData}
+          />
+        )}
+
         <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
           <h2 className="text-2xl font-bold text-primary">Ride Groups</h2>
           <Button onClick={() => setCreateRideOpen(true)}>
@@ -87,7 +87,8 @@ const HaasEventDetail = () => {
         const { data: rides, error } = await supabase
           .from("ride_groups")
           .select(`*, ride_members (user_id, role)`)
-          .eq("event_id", shadowEvent.id);
+          .eq("event_id", shadowEvent.id)
+          .eq("status", "active");
 
         if (error) throw error;
         setRideGroups(rides || []);
@@ -5,10 +5,13 @@ import { Navigation } from "@/components/Navigation";
 import { RideCard } from "@/components/RideCard";
 import { AttendanceSurveyDialog } from "@/components/AttendanceSurveyDialog";
 import { PaymentConfirmationCard } from "@/components/PaymentConfirmationCard";
+import { LedgerCard } from "@/components/LedgerCard";
 import { toast } from "sonner";
-import { AlertCircle, DollarSign } from "lucide-react";
+import { AlertCircle, DollarSign, Hourglass } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { format } from "date-fns";
 
 interface Ride {
   id: string;
@@ -46,9 +49,18 @@ interface PendingPayment {
   amount: number;
   payer_user_id: string;
   payer_venmo_username: string | null;
+  payer_paypal_username: string | null;
+  payer_zelle_handle: string | null;
   cost_type: 'rideshare' | 'gas';
   ride_id: string;
-  splitAmount: number;
+  fare: number | null;
+  tip: number;
+  tolls: number;
+  parking: number;
+  has_receipt: boolean;
+  disputed: boolean;
+  amountOwed: number;
+  weight: number;
   rideInfo: {
     eventName: string;
     eventDate: string;
@@ -56,11 +68,21 @@ interface PendingPayment {
   };
 }
 
+interface WaitlistedRide {
+  id: string;
+  departure_time: string;
+  travel_mode: string;
+  eventName: string;
+  position: number;
+  waitlistSize: number;
+}
+
 const MyRides = () => {
   const navigate = useNavigate();
   const [rides, setRides] = useState<Ride[]>([]);
   const [pendingSurveys, setPendingSurveys] = useState<PendingSurvey[]>([]);
   const [pendingPayments, setPendingPayments] = useState<PendingPayment[]>([]);
+  const [waitlistedRides, setWaitlistedRides] = useState<WaitlistedRide[]>([]);
   const [loading, setLoading] = useState(true);
   const [surveyDialogOpen, setSurveyDialogOpen] = useState(false);
   const [selectedSurvey, setSelectedSurvey] = useState<PendingSurvey | null>(null);
@@ -89,6 +111,7 @@ const MyRides = () => {
       fetchMyRides(session.user.id);
       fetchPendingSurveys(session.user.id);
       fetchPendingPayments(session.user.id);
+      fetchWaitlistedRides(session.user.id);
     });
 
     const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
@@ -124,9 +147,26 @@ const MyRides = () => {
       })
       .subscribe();
 
+    const waitlistChannel = supabase
+      .channel('waitlist-updates')
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'ride_waitlist'
+      }, () => {
+        supabase.auth.getSession().then(({ data }) => {
+          if (data.session) {
+            fetchWaitlistedRides(data.session.user.id);
+            fetchMyRides(data.session.user.id);
+          }
+        });
+      })
+      .subscribe();
+
     return () => {
       subscription.unsubscribe();
       supabase.removeChannel(paymentsChannel);
+      supabase.removeChannel(waitlistChannel);
     };
   }, [navigate]);
 
@@ -191,6 +231,59 @@ const MyRides = () => {
     }
   };
 
+  const fetchWaitlistedRides = async (userId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('ride_waitlist')
+        .select(`
+          ride_id,
+          ride_groups!inner(
+            id,
+            departure_time,
+            travel_mode,
+            events!inner(name, date_time)
+          )
+        `)
+        .eq('user_id', userId)
+        .gte('ride_groups.departure_time', new Date().toISOString());
+
+      if (error) throw error;
+
+      const rideIds = data?.map(w => w.ride_id) || [];
+      if (rideIds.length === 0) {
+        setWaitlistedRides([]);
+        return;
+      }
+
+      // Position is derived from join order across everyone queued for the same ride
+      const { data: queue, error: queueError } = await supabase
+        .from('ride_waitlist')
+        .select('ride_id, user_id')
+        .in('ride_id', rideIds)
+        .order('created_at', { ascending: true });
+
+      if (queueError) throw queueError;
+
+      const waitlisted = data
+        .map(w => {
+          const line = queue?.filter(q => q.ride_id === w.ride_id) || [];
+          return {
+            id: w.ride_groups.id,
+            departure_time: w.ride_groups.departure_time,
+            travel_mode: w.ride_groups.travel_mode,
+            eventName: w.ride_groups.events.name,
+            position: line.findIndex(q => q.user_id === userId) + 1,
+            waitlistSize: line.length,
+          };
+        })
+        .sort((a, b) => new Date(a.departure_time).getTime() - new Date(b.departure_time).getTime());
+
+      setWaitlistedRides(waitlisted);
+    } catch (error) {
+      toast.error("Failed to load waitlisted rides");
+    }
+  };
+
   const fetchPendingPayments = async (userId: string) => {
     try {
       const { data, error } = await supabase
@@ -202,9 +295,12 @@ const MyRides = () => {
             events!inner(name, date_time)
           ),
           profiles!uber_payments_payer_user_id_fkey(name),
-          ride_members!inner(user_id)
+          uber_payment_shares!inner(user_id, amount_owed, weight),
+          uber_payment_receipts(id),
+          payment_disputes(user_id, status)
         `)
-        .eq('ride_members.user_id', userId)
+        .eq('uber_payment_shares.user_id', userId)
+        .gt('uber_payment_shares.amount_owed', 0)
         .neq('payer_user_id', userId);
       
       if (error) throw error;
@@ -222,9 +318,18 @@ const MyRides = () => {
         amount: p.amount,
         payer_user_id: p.payer_user_id,
         payer_venmo_username: p.payer_venmo_username,
+        payer_paypal_username: p.payer_paypal_username,
+        payer_zelle_handle: p.payer_zelle_handle,
         cost_type: p.cost_type as 'rideshare' | 'gas',
         ride_id: p.ride_id,
-        splitAmount: p.amount / p.ride_members.length,
+        fare: p.fare,
+        tip: p.tip,
+        tolls: p.tolls,
+        parking: p.parking,
+        has_receipt: !!p.uber_payment_receipts,
+        disputed: p.payment_disputes.some(d => d.user_id === userId && d.status === 'open'),
+        amountOwed: p.uber_payment_shares[0].amount_owed,
+        weight: p.uber_payment_shares[0].weight,
         rideInfo: {
           eventName: p.ride_groups.events.name,
           eventDate: p.ride_groups.events.date_time,
@@ -293,6 +398,8 @@ const MyRides = () => {
           <p className="text-muted-foreground mt-1">Your upcoming ride groups</p>
         </div>
 
+        {userId && <LedgerCard userId={userId} />}
+
         {/* Pending Payments Section */}
         {pendingPayments.length > 0 && (
           <div className="mb-6">
@@ -305,7 +412,8 @@ const MyRides = () => {
                 <PaymentConfirmationCard
                   key={payment.id}
                   payment={payment}
-                  splitAmount={payment.splitAmount}
+                  amountOwed={payment.amountOwed}
+                  weight={payment.weight}
                   rideInfo={payment.rideInfo}
                   currentUserId={userId}
                   onConfirmed={() => fetchPendingPayments(userId)}
@@ -350,6 +458,39 @@ const MyRides = () => {
           </div>
         )}
 
+        {/* Waitlisted Rides Section */}
+        {waitlistedRides.length > 0 && (
+          <div className="mb-6">
+            <h2 className="text-xl font-semibold mb-3 flex items-center gap-2">
+              <Hourglass className="h-5 w-5 text-muted-foreground" />
+              Waitlisted ({waitlistedRides.length})
+            </h2>
+            <div className="space-y-3">
+              {waitlistedRides.map((ride) => (
+                <Card
+                  key={ride.id}
+                  className="cursor-pointer transition-colors hover:border-accent"
+                  onClick={() => navigate(`/rides/${ride.id}`)}
+                >
+                  <CardContent className="p-4">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="font-medium">{ride.eventName}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {format(new Date(ride.departure_time), 'EEE, MMM d · h:mm a')} · {ride.travel_mode}
+                        </p>
+                      </div>
+                      <Badge variant="secondary">
+                        #{ride.position} of {ride.waitlistSize} in line
+                      </Badge>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </div>
+        )}
+
         {loading ? (
           <div className="space-y-4">
             {[1, 2].map((i) => (
@@ -8,20 +8,21 @@ import { Bell, Check, CheckCheck } from "lucide-react";
 import { toast } from "sonner";
 import { formatDistanceToNow } from "date-fns";
 import { Navigation } from "@/components/Navigation";
-
-interface Notification {
-  id: string;
-  title: string;
-  message: string;
-  type: string;
-  read: boolean;
-  created_at: string;
-  ride_id: string | null;
-}
+import { NotificationActions } from "@/components/NotificationActions";
+import {
+  AppNotification,
+  NotificationGroup,
+  fetchActionableIds,
+  groupNotifications,
+  notificationActions,
+  notificationPath,
+} from "@/lib/notifications";
 
 const Notifications = () => {
   const navigate = useNavigate();
-  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [actionableIds, setActionableIds] = useState<Set<string>>(new Set());
+  const [userId, setUserId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<'all' | 'unread'>('all');
 
@@ -78,6 +79,8 @@ const Notifications = () => {
 
       if (error) throw error;
       setNotifications(data || []);
+      setUserId(session.user.id);
+      setActionableIds(await fetchActionableIds(session.user.id, data || []));
     } catch (error) {
       toast.error("Failed to load notifications");
     } finally {
@@ -85,12 +88,12 @@ const Notifications = () => {
     }
   };
 
-  const markAsRead = async (notificationId: string) => {
+  const markAsRead = async (notificationIds: string[]) => {
     try {
       const { error } = await supabase
         .from('notifications')
         .update({ read: true })
-        .eq('id', notificationId);
+        .in('id', notificationIds);
 
       if (error) throw error;
       fetchNotifications();
@@ -118,35 +121,21 @@ const Notifications = () => {
     }
   };
 
-  const handleNotificationClick = async (notification: Notification) => {
-    if (!notification.read) {
-      await markAsRead(notification.id);
+  const handleGroupClick = async (group: NotificationGroup) => {
+    if (group.unreadIds.length > 0) {
+      await markAsRead(group.unreadIds);
     }
 
-    // Navigate based on notification type
-    if (notification.type === 'payment_amount_entered' || notification.type === 'venmo_required') {
-      navigate('/my-rides');
-    } else if (notification.type === 'new_chat_message' && notification.ride_id) {
-      navigate(`/rides/${notification.ride_id}?openChat=true`);
-    } else if (notification.ride_id) {
-      // First try to get the ride's event_id
-      const { data: rideData } = await supabase
-        .from('ride_groups')
-        .select('event_id')
-        .eq('id', notification.ride_id)
-        .single();
-
-      if (rideData?.event_id) {
-        navigate(`/rides/${notification.ride_id}`);
-      }
-    }
+    const path = notificationPath(group.latest);
+    if (path) navigate(path);
   };
 
-  const filteredNotifications = filter === 'unread' 
-    ? notifications.filter(n => !n.read)
-    : notifications;
+  const groups = groupNotifications(notifications);
+  const filteredGroups = filter === 'unread'
+    ? groups.filter(g => g.unreadIds.length > 0)
+    : groups;
 
-  const unreadCount = notifications.filter(n => !n.read).length;
+  const unreadCount = groups.filter(g => g.unreadIds.length > 0).length;
 
   if (loading) {
     return (
@@ -185,7 +174,7 @@ const Notifications = () => {
             size="sm"
             onClick={() => setFilter('all')}
           >
-            All ({notifications.length})
+            All ({groups.length})
           </Button>
           <Button
             variant={filter === 'unread' ? 'default' : 'outline'}
@@ -197,7 +186,7 @@ const Notifications = () => {
         </div>
 
         {/* Notifications List */}
-        {filteredNotifications.length === 0 ? (
+        {filteredGroups.length === 0 ? (
           <Card>
             <CardContent className="text-center py-12">
               <Bell className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
@@ -208,52 +197,64 @@ const Notifications = () => {
           </Card>
         ) : (
           <div className="space-y-2">
-            {filteredNotifications.map((notification) => (
-              <Card
-                key={notification.id}
-                className={`cursor-pointer transition-all hover:shadow-md ${
-                  !notification.read ? 'bg-primary/5 border-primary/20' : ''
-                }`}
-                onClick={() => handleNotificationClick(notification)}
-              >
-                <CardContent className="p-4">
-                  <div className="flex items-start gap-3">
-                    <div className={`mt-1 ${!notification.read ? 'text-primary' : 'text-muted-foreground'}`}>
-                      <Bell className="w-5 h-5" />
-                    </div>
-                    
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-start justify-between gap-2 mb-1">
-                        <p className={`font-semibold ${!notification.read ? 'text-primary' : ''}`}>
-                          {notification.title}
-                        </p>
-                        {!notification.read && (
-                          <Badge variant="default" className="shrink-0">
-                            New
-                          </Badge>
-                        )}
+            {filteredGroups.map((group) => {
+              const unread = group.unreadIds.length > 0;
+              return (
+                <Card
+                  key={group.key}
+                  className={`cursor-pointer transition-all hover:shadow-md ${
+                    unread ? 'bg-primary/5 border-primary/20' : ''
+                  }`}
+                  onClick={() => handleGroupClick(group)}
+                >
+                  <CardContent className="p-4">
+                    <div className="flex items-start gap-3">
+                      <div className={`mt-1 ${unread ? 'text-primary' : 'text-muted-foreground'}`}>
+                        <Bell className="w-5 h-5" />
                       </div>
-                      
-                      <p className="text-sm text-muted-foreground mb-2">
-                        {notification.message}
-                      </p>
-                      
-                      <div className="flex items-center gap-3 text-xs text-muted-foreground">
-                        <span>
-                          {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
-                        </span>
-                        {notification.read && (
-                          <div className="flex items-center gap-1">
-                            <Check className="w-3 h-3" />
-                            <span>Read</span>
-                          </div>
+
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-start justify-between gap-2 mb-1">
+                          <p className={`font-semibold ${unread ? 'text-primary' : ''}`}>
+                            {group.title}
+                          </p>
+                          {unread && (
+                            <Badge variant="default" className="shrink-0">
+                              {group.unreadIds.length > 1 ? `${group.unreadIds.length} new` : 'New'}
+                            </Badge>
+                          )}
+                        </div>
+
+                        <p className="text-sm text-muted-foreground mb-2">
+                          {group.message}
+                        </p>
+
+                        <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                          <span>
+                            {formatDistanceToNow(new Date(group.latest.created_at), { addSuffix: true })}
+                          </span>
+                          {!unread && (
+                            <div className="flex items-center gap-1">
+                              <Check className="w-3 h-3" />
+                              <span>Read</span>
+                            </div>
+                          )}
+                        </div>
+
+                        {userId && (
+                          <NotificationActions
+                            notification={group.latest}
+                            actions={notificationActions(group.latest, actionableIds)}
+                            userId={userId}
+                            onDone={() => group.unreadIds.length > 0 ? markAsRead(group.unreadIds) : fetchNotifications()}
+                          />
                         )}
                       </div>
                     </div>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
+                  </CardContent>
+                </Card>
+              );
+            })}
           </div>
         )}
       </div>
@@ -176,6 +176,7 @@ const Onboarding = () => {
         .select('id')
         .eq('ride_id', inviteDetails.ride_id)
         .eq('user_id', profile.id)
+        .eq('status', 'joined')
         .maybeSingle();
 
       if (existingMember) {
@@ -184,39 +185,18 @@ const Onboarding = () => {
         return true;
       }
 
-      // Step 4: Check capacity
-      const { data: currentMembers } = await supabase
-        .from('ride_members')
-        .select('id')
-        .eq('ride_id', inviteDetails.ride_id);
-
-      const memberCount = currentMembers?.length || 0;
-      const capacity = inviteDetails.ride_groups?.capacity;
-
-      if (capacity && memberCount >= capacity) {
-        toast.error("This ride is at full capacity");
-        setUploading(false);
-        return false;
-      }
-
-      // Step 5: Insert into ride_members (now passes RLS)
-      const { error: joinError } = await supabase
-        .from('ride_members')
-        .insert({
-          ride_id: inviteDetails.ride_id,
-          user_id: profile.id,
-          status: 'joined',
-          role: null,
-          willing_to_pay: false
-        });
+      // Step 4: Join via join_ride, which enforces capacity atomically
+      const { error: joinError } = await supabase.rpc('join_ride', {
+        p_ride_id: inviteDetails.ride_id,
+      });
 
       if (joinError) {
-        toast.error("Failed to join ride");
+        toast.error(joinError.message || "Failed to join ride");
         setUploading(false);
         return false;
       }
 
-      // Step 6: Grant event access
+      // Step 5: Grant event access
       if (inviteDetails.ride_groups?.event_id) {
         await supabase
           .from('event_access')
@@ -227,7 +207,7 @@ const Onboarding = () => {
           });
       }
 
-      // Step 7: Increment invite use count
+      // Step 6: Increment invite use count
       await supabase
         .from('ride_invites')
         .update({ use_count: inviteDetails.use_count + 1 })
@@ -10,6 +10,10 @@ import { toast } from "sonner";
 import { LogOut, User, Upload, X, Star } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { PhotoEditorDialog } from "@/components/PhotoEditorDialog";
+import { NotificationPreferences } from "@/components/NotificationPreferences";
+import { CalendarFeedCard } from "@/components/CalendarFeedCard";
+import { SmsNotificationSettings } from "@/components/SmsNotificationSettings";
+import { normalizePaypalUsername, normalizeZelleHandle } from "@/lib/paymentLinks";
 
 interface UserProfile {
   id: string;
@@ -18,6 +22,8 @@ interface UserProfile {
   photo: string | null;
   program: string | null;
   venmo_username: string | null;
+  paypal_username: string | null;
+  zelle_handle: string | null;
   is_invited_user: boolean | null;
 }
 
@@ -32,6 +38,8 @@ const Profile = () => {
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [program, setProgram] = useState("");
   const [venmoUsername, setVenmoUsername] = useState("");
+  const [paypalUsername, setPaypalUsername] = useState("");
+  const [zelleHandle, setZelleHandle] = useState("");
   const [uploading, setUploading] = useState(false);
   const [photoUrl, setPhotoUrl] = useState<string | null>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
@@ -74,6 +82,8 @@ const Profile = () => {
       setProfile(data);
       setProgram(data.program || "");
       setVenmoUsername(data.venmo_username || "");
+      setPaypalUsername(data.paypal_username || "");
+      setZelleHandle(data.zelle_handle || "");
       setPhotoUrl(data.photo || null);
 
       // Fetch ride stats
@@ -141,6 +151,60 @@ const Profile = () => {
     }
   };
 
+  const handleUpdatePaypal = async () => {
+    if (!profile) return;
+
+    const normalized = paypalUsername.trim() ? normalizePaypalUsername(paypalUsername) : null;
+    if (paypalUsername.trim() && !normalized) {
+      toast.error("Enter your PayPal.me username, e.g. paypal.me/yourname");
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { error } = await supabase
+        .from('profiles')
+        .update({ paypal_username: normalized })
+        .eq('id', profile.id);
+
+      if (error) throw error;
+      setPaypalUsername(normalized || "");
+      setProfile({ ...profile, paypal_username: normalized });
+      toast.success("PayPal username updated successfully");
+    } catch (error) {
+      toast.error("Failed to update PayPal username");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUpdateZelle = async () => {
+    if (!profile) return;
+
+    const normalized = zelleHandle.trim() ? normalizeZelleHandle(zelleHandle) : null;
+    if (zelleHandle.trim() && !normalized) {
+      toast.error("Enter the email or US phone number you use with Zelle");
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { error } = await supabase
+        .from('profiles')
+        .update({ zelle_handle: normalized })
+        .eq('id', profile.id);
+
+      if (error) throw error;
+      setZelleHandle(normalized || "");
+      setProfile({ ...profile, zelle_handle: normalized });
+      toast.success("Zelle details updated successfully");
+    } catch (error) {
+      toast.error("Failed to update Zelle details");
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handlePhotoUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -364,6 +428,43 @@ const Profile = () => {
                 Update Venmo
               </Button>
             </div>
+            <div>
+              <Label htmlFor="paypal">PayPal.me Username (Optional)</Label>
+              <Input
+                id="paypal"
+                value={paypalUsername}
+                onChange={(e) => setPaypalUsername(e.target.value)}
+                placeholder="e.g., paypal.me/yourname"
+                className="mt-1"
+              />
+              <Button
+                onClick={handleUpdatePaypal}
+                disabled={loading || paypalUsername === (profile.paypal_username || "")}
+                className="mt-2"
+              >
+                Update PayPal
+              </Button>
+            </div>
+            <div>
+              <Label htmlFor="zelle">Zelle Email or Phone (Optional)</Label>
+              <Input
+                id="zelle"
+                value={zelleHandle}
+                onChange={(e) => setZelleHandle(e.target.value)}
+                placeholder="e.g., you@berkeley.edu"
+                className="mt-1"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Shown to riders who owe you money so they can pay you through their bank
+              </p>
+              <Button
+                onClick={handleUpdateZelle}
+                disabled={loading || zelleHandle === (profile.zelle_handle || "")}
+                className="mt-2"
+              >
+                Update Zelle
+              </Button>
+            </div>
             {profile.is_invited_user && (
               <div className="bg-muted p-3 rounded-lg">
                 <p className="text-sm text-muted-foreground">
@@ -374,6 +475,12 @@ const Profile = () => {
           </CardContent>
         </Card>
 
+        <NotificationPreferences userId={profile.id} />
+
+        <SmsNotificationSettings userId={profile.id} />
+
+        <CalendarFeedCard userId={profile.id} />
+
         <Card className="mb-6">
           <CardHeader>
             <CardTitle>Ride Statistics</CardTitle>
@@ -5,7 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { ArrowLeft, Clock, Users, MapPin, MessageCircle, Share2, DollarSign, UserPlus, Trash2, Pencil } from "lucide-react";
+import { ArrowLeft, Clock, Users, MapPin, MessageCircle, Share2, DollarSign, UserPlus, Trash2, Pencil, Hourglass } from "lucide-react";
 import { toast } from "sonner";
 import { format } from "date-fns";
 import { RideGroupChat } from "@/components/RideGroupChat";
@@ -17,6 +17,7 @@ import { AttendanceSurveyDialog } from "@/components/AttendanceSurveyDialog";
 import { RatingBadge } from "@/components/RatingBadge";
 import { Navigation } from "@/components/Navigation";
 import { EditRideDialog } from "@/components/EditRideDialog";
+import { CapacityVisualization } from "@/components/CapacityVisualization";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -36,7 +37,7 @@ interface RideGroup {
   capacity: number;
   min_capacity: number;
   event_id: string;
-  created_by: string;
+  created_by: string | null;
 }
 
 interface Event {
@@ -55,6 +56,11 @@ interface Member {
   role: string | null;
 }
 
+interface WaitlistEntry {
+  user_id: string;
+  created_at: string;
+}
+
 const RideDetail = () => {
   const { rideId } = useParams();
   const navigate = useNavigate();
@@ -74,6 +80,7 @@ const RideDetail = () => {
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [leaderMeetingPoint, setLeaderMeetingPoint] = useState<string | null>(null);
   const [actionLoading, setActionLoading] = useState(false);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
 
   useEffect(() => {
     checkAuthAndFetch();
@@ -83,10 +90,10 @@ const RideDetail = () => {
     if (rideId) {
       fetchLeaderMeetingPoint();
       const channel = supabase
-        .channel(`meeting_votes_${rideId}`)
+        .channel(`meeting_point_tallies_${rideId}`)
         .on(
           'postgres_changes',
-          { event: '*', schema: 'public', table: 'meeting_votes', filter: `ride_id=eq.${rideId}` },
+          { event: 'INSERT', schema: 'public', table: 'meeting_point_tallies', filter: `ride_id=eq.${rideId}` },
           () => fetchLeaderMeetingPoint()
         )
         .subscribe();
@@ -97,6 +104,27 @@ const RideDetail = () => {
     }
   }, [rideId]);
 
+  useEffect(() => {
+    if (rideId) {
+      fetchWaitlist();
+      const channel = supabase
+        .channel(`ride_waitlist_${rideId}`)
+        .on(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: 'ride_waitlist', filter: `ride_id=eq.${rideId}` },
+          () => {
+            fetchWaitlist();
+            fetchRideData();
+          }
+        )
+        .subscribe();
+
+      return () => {
+        supabase.removeChannel(channel);
+      };
+    }
+  }, [rideId]);
+
   const checkAuthAndFetch = async () => {
     const { data: { session } } = await supabase.auth.getSession();
     if (!session) {
@@ -173,6 +201,23 @@ const RideDetail = () => {
     }
   };
 
+  const fetchWaitlist = async () => {
+    if (!rideId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('ride_waitlist')
+        .select('user_id, created_at')
+        .eq('ride_id', rideId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setWaitlist(data || []);
+    } catch (error) {
+      // Failed to load waitlist
+    }
+  };
+
   // Auto-open chat if openChat query parameter is present
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
@@ -183,35 +228,21 @@ const RideDetail = () => {
     }
   }, [members, currentUserId, rideId]);
 
+  // The meeting point is tallied server-side whenever a ranking changes,
+  // so the stored value is always the current winner
   const fetchLeaderMeetingPoint = async () => {
     if (!rideId) return;
 
     try {
       const { data, error } = await supabase
-        .from('meeting_votes')
-        .select('vote_option')
-        .eq('ride_id', rideId);
+        .from('ride_groups')
+        .select('meeting_point')
+        .eq('id', rideId)
+        .single();
 
       if (error) throw error;
 
-      const counts: Record<string, number> = {};
-      data?.forEach(v => {
-        counts[v.vote_option] = (counts[v.vote_option] || 0) + 1;
-      });
-
-      const entries = Object.entries(counts);
-      if (entries.length === 0) {
-        setLeaderMeetingPoint(null);
-        return;
-      }
-
-      const maxVotes = Math.max(...entries.map(([_, count]) => count));
-      const winners = entries
-        .filter(([_, count]) => count === maxVotes)
-        .map(([option]) => option)
-        .sort();
-
-      setLeaderMeetingPoint(winners.join(' OR '));
+      setLeaderMeetingPoint(data.meeting_point);
     } catch (error) {
       // Failed to fetch leader meeting point
     }
@@ -223,68 +254,79 @@ const RideDetail = () => {
     try {
       setActionLoading(true);
 
-      // Check if user is already in another ride for this event
-      const { data: existingMembership } = await supabase
-        .from('ride_members')
-        .select(`
-          ride_id,
-          ride_groups!inner(
-            id,
-            event_id,
-            travel_mode,
-            departure_time
-          )
-        `)
-        .eq('user_id', currentUserId)
-        .eq('status', 'joined')
-        .eq('ride_groups.event_id', ride.event_id)
-        .neq('ride_id', ride.id);
-
-      if (existingMembership && existingMembership.length > 0) {
-        const existingRide = existingMembership[0].ride_groups;
-        toast.error(
-          `You're already in a ride group for this event (departing at ${format(new Date(existingRide.departure_time), 'h:mm a')}). Please leave that group first.`,
-          { duration: 5000 }
-        );
-        setActionLoading(false);
-        return;
-      }
+      const { error } = await supabase.rpc('join_ride', {
+        p_ride_id: ride.id,
+      });
 
-      const isCarpool = ride.travel_mode === 'Carpool (Student Driver)';
-      const role = isCarpool ? 'rider' : null;
+      if (error) throw error;
 
-      const { error } = await supabase.from('ride_members').insert({
+      toast.success("Joined ride group!");
+      fetchRideData();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to join ride");
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleJoinWaitlist = async () => {
+    if (!currentUserId || !ride) return;
+
+    try {
+      setActionLoading(true);
+
+      const { error } = await supabase.from('ride_waitlist').insert({
         ride_id: ride.id,
         user_id: currentUserId,
-        status: 'joined',
-        role: role,
       });
 
       if (error) throw error;
 
-      toast.success("Joined ride group!");
-      fetchRideData();
+      toast.success("Added to the waitlist. We'll let you know if a seat opens up.");
+      fetchWaitlist();
     } catch (error) {
-      toast.error(error instanceof Error ? error.message : "Failed to join ride");
+      toast.error(error instanceof Error ? error.message : "Failed to join waitlist");
     } finally {
       setActionLoading(false);
     }
   };
 
-  const handleLeaveRide = async () => {
+  const handleLeaveWaitlist = async () => {
     if (!currentUserId || !ride) return;
 
     try {
       setActionLoading(true);
 
       const { error } = await supabase
-        .from('ride_members')
+        .from('ride_waitlist')
         .delete()
         .eq('ride_id', ride.id)
         .eq('user_id', currentUserId);
 
       if (error) throw error;
 
+      toast.success("Left the waitlist");
+      fetchWaitlist();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to leave waitlist");
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleLeaveRide = async () => {
+    if (!currentUserId || !ride) return;
+
+    try {
+      setActionLoading(true);
+
+      // The database emails whoever is promoted into the freed seat
+      const { error } = await supabase.rpc('leave_ride', {
+        p_ride_id: ride.id,
+      });
+
+      if (error) throw error;
+
       toast.success("Left ride group");
       setShowLeaveDialog(false);
       fetchRideData();
@@ -301,13 +343,7 @@ const RideDetail = () => {
     try {
       setActionLoading(true);
 
-      const { error: memberError } = await supabase
-        .from('ride_members')
-        .delete()
-        .eq('ride_id', ride.id);
-
-      if (memberError) throw memberError;
-
+      // Members are removed with the ride, without promoting the waitlist
       const { error } = await supabase
         .from('ride_groups')
         .delete()
@@ -354,6 +390,8 @@ const RideDetail = () => {
   const isCarpool = ride.travel_mode === 'Carpool (Student Driver)';
   const driver = members.find(m => m.role === 'driver');
   const passengerCount = members.filter(m => m.role !== 'driver').length;
+  const waitlistIndex = currentUserId ? waitlist.findIndex(w => w.user_id === currentUserId) : -1;
+  const waitlistPosition = waitlistIndex >= 0 ? waitlistIndex + 1 : null;
 
   return (
     <div className="min-h-screen bg-background pb-24">
@@ -413,6 +451,15 @@ const RideDetail = () => {
               </div>
             </div>
 
+            <CapacityVisualization
+              members={members}
+              capacity={ride.capacity}
+              isDriver={!!isDriver}
+              onMemberClick={(userId) => navigate(`/users/${userId}`)}
+              waitlistCount={waitlist.length}
+              waitlistPosition={waitlistPosition}
+            />
+
             {(leaderMeetingPoint || ride.meeting_point) && (
               <div className="flex items-start gap-3 p-3 bg-primary/5 rounded-lg">
                 <MapPin className="w-5 h-5 text-primary mt-0.5" />
@@ -499,6 +546,32 @@ const RideDetail = () => {
             </Button>
           )}
 
+          {!isMember && isFull && (
+            waitlistPosition ? (
+              <Button
+                onClick={handleLeaveWaitlist}
+                disabled={actionLoading}
+                variant="outline"
+                className="w-full"
+                size="lg"
+              >
+                <Hourglass className="w-4 h-4 mr-2" />
+                #{waitlistPosition} in line · Leave Waitlist
+              </Button>
+            ) : (
+              <Button
+                onClick={handleJoinWaitlist}
+                disabled={actionLoading}
+                variant="secondary"
+                className="w-full"
+                size="lg"
+              >
+                <Hourglass className="w-4 h-4 mr-2" />
+                Join Waitlist
+              </Button>
+            )
+          )}
+
           {isMember && (
             <>
               {isCreator && (
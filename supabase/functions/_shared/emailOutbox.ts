@@ -0,0 +1,62 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { RenderedEmail } from "./emailTemplates.ts";
+
+export interface OutboxEmail {
+  recipient: string;
+  notificationType: string;
+  rideId?: string | null;
+  messageId?: string | null;
+  // Identifies this email for this recipient; enqueueing the same key twice
+  // is a no-op
+  idempotencyKey: string;
+}
+
+const sha256 = async (value: string) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+// For callers without a natural key: identical content to the same recipient
+// within the same hour counts as a duplicate (a double click or a retried
+// request), while a repeat later on is sent again
+export const contentIdempotencyKey = async (type: string, rideId: string | null | undefined, email: RenderedEmail) =>
+  `${type}:${rideId ?? "none"}:${await sha256(`${email.subject}\n${email.html}`)}:${Math.floor(Date.now() / 3_600_000)}`;
+
+// Queues one rendered email per recipient and nudges the worker so it goes
+// out now rather than on the next scheduled run. Returns how many rows were
+// new; duplicates by idempotency key are skipped.
+export const enqueueEmails = async (
+  supabase: ReturnType<typeof createClient>,
+  email: RenderedEmail,
+  recipients: OutboxEmail[]
+): Promise<number> => {
+  if (recipients.length === 0) return 0;
+
+  const { data, error } = await supabase
+    .from("email_outbox")
+    .upsert(
+      recipients.map((r) => ({
+        idempotency_key: `${r.idempotencyKey}:${r.recipient.toLowerCase()}`,
+        recipient: r.recipient,
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+        template_version: email.version,
+        notification_type: r.notificationType,
+        ride_id: r.rideId ?? null,
+        message_id: r.messageId ?? null,
+      })),
+      { onConflict: "idempotency_key", ignoreDuplicates: true }
+    )
+    .select("id");
+
+  if (error) throw error;
+
+  const { error: workerError } = await supabase.functions.invoke("process-email-outbox", { body: {} });
+  if (workerError) {
+    // Still queued; the scheduled run will pick it up
+    console.error("Error starting process-email-outbox:", workerError);
+  }
+
+  return data?.length ?? 0;
+};
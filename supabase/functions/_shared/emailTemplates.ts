@@ -0,0 +1,475 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Transactional email templates. Every email type has typed variables and a
+// built-in template (version 1) here. Admins can publish newer wording from
+// the System tab; those versions live in the email_templates table and the
+// newest one wins, so changing copy doesn't need a deploy.
+//
+// Template syntax:
+//   {{name}}                    variable, HTML-escaped in the HTML variant
+//   {{{name}}}                  variable inserted as-is (pre-built HTML)
+//   {{#name}}...{{/name}}       only when name is set
+//   {{^name}}...{{/name}}       only when name is not set
+
+type Value = string | number | null | undefined;
+
+interface RideVariables {
+  eventName: string;
+  departure: string;
+  travelMode: string;
+}
+
+export interface EmailTemplateVariables {
+  member_joined: RideVariables & { actorName: string; meetingPoint?: string };
+  member_left: Omit<RideVariables, "travelMode"> & { actorName: string };
+  waitlist_promoted: RideVariables & { meetingPoint?: string; rideUrl: string };
+  payment_request: {
+    actorName: string;
+    eventName: string;
+    departure: string;
+    totalFare: string;
+    splitAmount: string;
+    paymentLinksHtml?: string;
+    paymentLinksText?: string;
+  };
+  payment_reminder: {
+    actorName: string;
+    eventName: string;
+    splitAmount: string;
+    paymentLinksHtml?: string;
+    paymentLinksText?: string;
+    myRidesUrl: string;
+  };
+  ride_deleted: { eventName: string; destination: string; departure: string };
+  meeting_point_changed: RideVariables & { meetingPoint: string };
+  ride_updated: RideVariables & { actorName: string; capacity?: number; meetingPoint?: string };
+  new_chat_message: { actorName: string; eventName: string; departure: string; messagePreview: string; chatUrl: string };
+  chat_digest: {
+    eventName: string;
+    departure: string;
+    messageCount: string;
+    hiddenCount?: string;
+    messagesHtml: string;
+    messagesText: string;
+    chatUrl: string;
+  };
+  attendance_survey: { eventName: string; deadline: string; myRidesUrl: string };
+  attendance_survey_reminder: { eventName: string; myRidesUrl: string };
+  ride_starting_soon: RideVariables & { meetingPoint: string; memberNames?: string; chatUrl: string };
+  ride_invite: {
+    inviterName: string;
+    eventName: string;
+    destination: string;
+    eventDate: string;
+    travelMode: string;
+    meetingPoint?: string;
+    registrationLink: string;
+    expiresIn: string;
+  };
+}
+
+export type EmailTemplateType = keyof EmailTemplateVariables;
+
+export interface EmailTemplate {
+  version: number;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface RenderedEmail {
+  version: number;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const button = (href: string, label: string, color = "#3b82f6") =>
+  `<p><a href="${href}" style="display: inline-block; padding: 10px 20px; background-color: ${color}; color: white; text-decoration: none; border-radius: 5px; margin: 10px 0;">${label}</a></p>`;
+
+export const EMAIL_TEMPLATE_LABELS: Record<EmailTemplateType, string> = {
+  member_joined: "Member joined",
+  member_left: "Member left",
+  waitlist_promoted: "Off the waitlist",
+  payment_request: "Payment request",
+  payment_reminder: "Payment reminder",
+  ride_deleted: "Ride cancelled",
+  meeting_point_changed: "Meeting point set",
+  ride_updated: "Ride updated",
+  new_chat_message: "Chat message",
+  chat_digest: "Chat digest",
+  attendance_survey: "Attendance survey",
+  attendance_survey_reminder: "Attendance survey reminder",
+  ride_starting_soon: "Ride starting soon",
+  ride_invite: "Ride invite",
+};
+
+export const DEFAULT_EMAIL_TEMPLATES: Record<EmailTemplateType, EmailTemplate> = {
+  member_joined: {
+    version: 1,
+    subject: "{{actorName}} joined your ride to {{eventName}}",
+    html: `<h2>New Member Joined!</h2>
+<p><strong>{{actorName}}</strong> has joined your ride group to <strong>{{eventName}}</strong>.</p>
+<p><strong>Departure:</strong> {{departure}}</p>
+<p><strong>Travel Mode:</strong> {{travelMode}}</p>
+{{#meetingPoint}}<p><strong>Meeting Point:</strong> {{meetingPoint}}</p>{{/meetingPoint}}
+<p>Check your ride group for updates and to coordinate with your group.</p>`,
+    text: `{{actorName}} has joined your ride group to {{eventName}}.
+
+Departure: {{departure}}
+Travel Mode: {{travelMode}}
+{{#meetingPoint}}Meeting Point: {{meetingPoint}}
+{{/meetingPoint}}
+Check your ride group for updates and to coordinate with your group.`,
+  },
+
+  member_left: {
+    version: 1,
+    subject: "{{actorName}} left your ride to {{eventName}}",
+    html: `<h2>Member Left Ride</h2>
+<p><strong>{{actorName}}</strong> has left your ride group to <strong>{{eventName}}</strong>.</p>
+<p><strong>Departure:</strong> {{departure}}</p>
+<p>You may need to adjust your plans or invite someone else to fill the spot.</p>`,
+    text: `{{actorName}} has left your ride group to {{eventName}}.
+
+Departure: {{departure}}
+
+You may need to adjust your plans or invite someone else to fill the spot.`,
+  },
+
+  waitlist_promoted: {
+    version: 1,
+    subject: "You're in! A seat opened up for {{eventName}}",
+    html: `<h2>You're Off the Waitlist!</h2>
+<p>A seat opened up in the ride group to <strong>{{eventName}}</strong> and you've been added automatically.</p>
+<p><strong>Departure:</strong> {{departure}}</p>
+<p><strong>Travel Mode:</strong> {{travelMode}}</p>
+{{#meetingPoint}}<p><strong>Meeting Point:</strong> {{meetingPoint}}</p>{{/meetingPoint}}
+${button("{{rideUrl}}", "View Ride")}
+<p>If you no longer need this ride, please leave the group so the next person in line can take your seat.</p>`,
+    text: `A seat opened up in the ride group to {{eventName}} and you've been added automatically.
+
+Departure: {{departure}}
+Travel Mode: {{travelMode}}
+{{#meetingPoint}}Meeting Point: {{meetingPoint}}
+{{/meetingPoint}}
+View the ride: {{rideUrl}}
+
+If you no longer need this ride, please leave the group so the next person in line can take your seat.`,
+  },
+
+  payment_request: {
+    version: 1,
+    subject: "Payment request: ${{splitAmount}} for ride to {{eventName}}",
+    html: `<h2>Payment Request</h2>
+<p><strong>{{actorName}}</strong> paid for your Uber ride to <strong>{{eventName}}</strong>.</p>
+<p><strong>Total Fare:</strong> \${{totalFare}}</p>
+<p><strong>Your Share:</strong> \${{splitAmount}}</p>
+{{{paymentLinksHtml}}}{{^paymentLinksHtml}}<p>Please send your payment via Venmo to settle up.</p>{{/paymentLinksHtml}}
+<p><strong>Departure was:</strong> {{departure}}</p>`,
+    text: `{{actorName}} paid for your Uber ride to {{eventName}}.
+
+Total Fare: \${{totalFare}}
+Your Share: \${{splitAmount}}
+
+{{{paymentLinksText}}}{{^paymentLinksText}}Please send your payment via Venmo to settle up.{{/paymentLinksText}}
+
+Departure was: {{departure}}`,
+  },
+
+  payment_reminder: {
+    version: 1,
+    subject: "Reminder: you owe ${{splitAmount}} for your ride to {{eventName}}",
+    html: `<h2>Payment Reminder</h2>
+<p>You still owe <strong>{{actorName}}</strong> <strong>\${{splitAmount}}</strong> for your ride to <strong>{{eventName}}</strong>.</p>
+{{{paymentLinksHtml}}}{{^paymentLinksHtml}}<p>Contact {{actorName}} for payment details.</p>{{/paymentLinksHtml}}
+<p><a href="{{myRidesUrl}}">Mark it as paid</a> once you've sent the money to stop these reminders.</p>`,
+    text: `You still owe {{actorName}} \${{splitAmount}} for your ride to {{eventName}}.
+
+{{{paymentLinksText}}}{{^paymentLinksText}}Contact {{actorName}} for payment details.{{/paymentLinksText}}
+
+Mark it as paid once you've sent the money to stop these reminders: {{myRidesUrl}}`,
+  },
+
+  ride_deleted: {
+    version: 1,
+    subject: "Ride to {{eventName}} has been cancelled",
+    html: `<h2>Ride Cancelled</h2>
+<p>The ride group to <strong>{{eventName}}</strong> ({{destination}}) has been cancelled.</p>
+<p><strong>Original Departure:</strong> {{departure}}</p>
+<p>You may need to find alternative transportation or join another ride group.</p>`,
+    text: `The ride group to {{eventName}} ({{destination}}) has been cancelled.
+
+Original Departure: {{departure}}
+
+You may need to find alternative transportation or join another ride group.`,
+  },
+
+  meeting_point_changed: {
+    version: 1,
+    subject: "Meeting point set for ride to {{eventName}}",
+    html: `<h2>Meeting Point Confirmed</h2>
+<p>The meeting point for your ride to <strong>{{eventName}}</strong> has been set.</p>
+<p><strong>Meeting Point:</strong> {{meetingPoint}}</p>
+<p><strong>Departure:</strong> {{departure}}</p>
+<p><strong>Travel Mode:</strong> {{travelMode}}</p>
+<p>Make sure to arrive on time!</p>`,
+    text: `The meeting point for your ride to {{eventName}} has been set.
+
+Meeting Point: {{meetingPoint}}
+Departure: {{departure}}
+Travel Mode: {{travelMode}}
+
+Make sure to arrive on time!`,
+  },
+
+  ride_updated: {
+    version: 1,
+    subject: "Ride to {{eventName}} has been updated",
+    html: `<h2>Ride Details Updated</h2>
+<p><strong>{{actorName}}</strong> has updated the details for your ride to <strong>{{eventName}}</strong>.</p>
+<p><strong>Updated Departure:</strong> {{departure}}</p>
+{{#capacity}}<p><strong>Updated Capacity:</strong> {{capacity}} people</p>{{/capacity}}
+{{#meetingPoint}}<p><strong>Updated Meeting Point:</strong> {{meetingPoint}}</p>{{/meetingPoint}}
+<p><strong>Travel Mode:</strong> {{travelMode}}</p>
+<p>Please check the ride details to ensure you're aware of the changes.</p>`,
+    text: `{{actorName}} has updated the details for your ride to {{eventName}}.
+
+Updated Departure: {{departure}}
+{{#capacity}}Updated Capacity: {{capacity}} people
+{{/capacity}}{{#meetingPoint}}Updated Meeting Point: {{meetingPoint}}
+{{/meetingPoint}}Travel Mode: {{travelMode}}
+
+Please check the ride details to ensure you're aware of the changes.`,
+  },
+
+  new_chat_message: {
+    version: 1,
+    subject: "New message in your ride to {{eventName}}",
+    html: `<h2>New Chat Message</h2>
+<p><strong>{{actorName}}</strong> sent a message in your ride group to <strong>{{eventName}}</strong>.</p>
+<p><em>"{{messagePreview}}"</em></p>
+<p><strong>Departure:</strong> {{departure}}</p>
+${button("{{chatUrl}}", "View Chat")}
+<p>Log in to view the full conversation and respond.</p>`,
+    text: `{{actorName}} sent a message in your ride group to {{eventName}}:
+
+"{{messagePreview}}"
+
+Departure: {{departure}}
+
+View the chat: {{chatUrl}}`,
+  },
+
+  chat_digest: {
+    version: 1,
+    subject: "{{messageCount}} in your ride to {{eventName}}",
+    html: `<h2>New Chat Messages</h2>
+<p>Here's what you missed in your ride group to <strong>{{eventName}}</strong>.</p>
+{{#hiddenCount}}<p><em>{{hiddenCount}} not shown</em></p>{{/hiddenCount}}
+{{{messagesHtml}}}
+<p><strong>Departure:</strong> {{departure}}</p>
+${button("{{chatUrl}}", "Reply in Chat")}
+<p>You're getting one summary per ride instead of an email per message. You can change this on your profile.</p>`,
+    text: `Here's what you missed in your ride group to {{eventName}}.
+{{#hiddenCount}}
+({{hiddenCount}} not shown)
+{{/hiddenCount}}
+{{{messagesText}}}
+
+Departure: {{departure}}
+Reply in the chat: {{chatUrl}}
+
+You're getting one summary per ride instead of an email per message. You can change this on your profile.`,
+  },
+
+  attendance_survey: {
+    version: 1,
+    subject: "🚗 Rate your ride companions for {{eventName}}",
+    html: `<h2>Your Ride Has Ended!</h2>
+<p>Please confirm who showed up for your ride to <strong>{{eventName}}</strong>.</p>
+<p><strong>Why this matters:</strong> Your response helps build trust in our community and ensures accurate ride completion records.</p>
+<p><strong>Deadline:</strong> {{deadline}} (48 hours)</p>
+${button("{{myRidesUrl}}", "Confirm Attendance")}
+<p>This will only take a moment – just check off who was there!</p>`,
+    text: `Please confirm who showed up for your ride to {{eventName}}.
+
+Your response helps build trust in our community and ensures accurate ride completion records.
+
+Deadline: {{deadline}} (48 hours)
+
+Confirm attendance: {{myRidesUrl}}`,
+  },
+
+  attendance_survey_reminder: {
+    version: 1,
+    subject: "⏰ Reminder: Rate your ride companions for {{eventName}}",
+    html: `<h2>Reminder: Attendance Confirmation Needed</h2>
+<p>You haven't confirmed who showed up for your ride to <strong>{{eventName}}</strong> yet.</p>
+<p><strong>Your response is important!</strong> It helps maintain trust and accountability in our ride-sharing community.</p>
+<p>Please take a moment to confirm attendance before the deadline.</p>
+${button("{{myRidesUrl}}", "Confirm Now", "#ef4444")}
+<p><em>If enough members don't respond, we won't be able to credit ride completions.</em></p>`,
+    text: `You haven't confirmed who showed up for your ride to {{eventName}} yet.
+
+Please take a moment to confirm attendance before the deadline: {{myRidesUrl}}
+
+If enough members don't respond, we won't be able to credit ride completions.`,
+  },
+
+  ride_starting_soon: {
+    version: 1,
+    subject: "Your ride to {{eventName}} leaves soon",
+    html: `<h2>Your Ride Leaves Soon</h2>
+<p>Your ride group to <strong>{{eventName}}</strong> is about to head out.</p>
+<p><strong>Departure:</strong> {{departure}}</p>
+<p><strong>Meeting Point:</strong> {{meetingPoint}}</p>
+<p><strong>Travel Mode:</strong> {{travelMode}}</p>
+{{#memberNames}}<p><strong>Riding with:</strong> {{memberNames}}</p>{{/memberNames}}
+${button("{{chatUrl}}", "Open Ride Chat")}
+<p>Running late or can't make it? Let your group know in the chat.</p>`,
+    text: `Your ride group to {{eventName}} is about to head out.
+
+Departure: {{departure}}
+Meeting Point: {{meetingPoint}}
+Travel Mode: {{travelMode}}
+{{#memberNames}}Riding with: {{memberNames}}
+{{/memberNames}}
+Running late or can't make it? Let your group know in the chat: {{chatUrl}}`,
+  },
+
+  ride_invite: {
+    version: 1,
+    subject: "{{inviterName}} invited you to ride to {{eventName}}",
+    html: `<div style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: #8B5CF6; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0;">
+    <h1>🚗 You're Invited to Join a Ride!</h1>
+  </div>
+  <div style="background: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px;">
+    <p>Hi there,</p>
+    <p><strong>{{inviterName}}</strong> invited you to share a ride to <strong>{{eventName}}</strong> with Berkeley Rides.</p>
+    <p><strong>Where:</strong> {{destination}}<br>
+    <strong>When:</strong> {{eventDate}}<br>
+    <strong>Getting there:</strong> {{travelMode}}{{#meetingPoint}}<br>
+    <strong>Meeting Point:</strong> {{meetingPoint}}{{/meetingPoint}}</p>
+    <p>Create a free account to join the ride group and coordinate with everyone. This invite expires in {{expiresIn}}.</p>
+    <div style="text-align: center; margin-top: 30px;">
+      <a href="{{registrationLink}}" style="display: inline-block; padding: 12px 24px; background: #8B5CF6; color: white; text-decoration: none; border-radius: 6px; margin: 20px 0;">Create Account &amp; Join Ride</a>
+    </div>
+  </div>
+  <p style="text-align: center; color: #666; font-size: 12px; margin-top: 20px;">Berkeley Rides - Connecting students for safe, affordable travel</p>
+</div>`,
+    text: `Hi there,
+
+{{inviterName}} invited you to share a ride to {{eventName}} with Berkeley Rides.
+
+Where: {{destination}}
+When: {{eventDate}}
+Getting there: {{travelMode}}
+{{#meetingPoint}}Meeting Point: {{meetingPoint}}
+{{/meetingPoint}}
+Create a free account to join the ride group and coordinate with everyone. This invite expires in {{expiresIn}}.
+
+{{registrationLink}}
+
+Berkeley Rides - Connecting students for safe, affordable travel`,
+  },
+};
+
+// Filled-in variables for previewing each template in the admin System tab
+export const SAMPLE_EMAIL_VARIABLES: { [K in EmailTemplateType]: EmailTemplateVariables[K] } = {
+  member_joined: { actorName: "Alex Chen", eventName: "Outside Lands", departure: "Sat, Aug 8, 11:30 AM", travelMode: "Uber", meetingPoint: "Sather Gate" },
+  member_left: { actorName: "Alex Chen", eventName: "Outside Lands", departure: "Sat, Aug 8, 11:30 AM" },
+  waitlist_promoted: { eventName: "Outside Lands", departure: "Sat, Aug 8, 11:30 AM", travelMode: "Uber", meetingPoint: "Sather Gate", rideUrl: "https://berkeleyrides.com/rides/sample" },
+  payment_request: {
+    actorName: "Alex Chen",
+    eventName: "Outside Lands",
+    departure: "Sat, Aug 8, 11:30 AM",
+    totalFare: "48.00",
+    splitAmount: "12.00",
+    paymentLinksHtml: button("https://venmo.com/?txn=pay&recipients=alexchen&amount=12.00", "Pay $12.00 with Venmo"),
+    paymentLinksText: "Pay $12.00 with Venmo: https://venmo.com/?txn=pay&recipients=alexchen&amount=12.00",
+  },
+  payment_reminder: {
+    actorName: "Alex Chen",
+    eventName: "Outside Lands",
+    splitAmount: "12.00",
+    paymentLinksHtml: button("https://venmo.com/?txn=pay&recipients=alexchen&amount=12.00", "Pay $12.00 with Venmo"),
+    paymentLinksText: "Pay $12.00 with Venmo: https://venmo.com/?txn=pay&recipients=alexchen&amount=12.00",
+    myRidesUrl: "https://berkeleyrides.com/my-rides",
+  },
+  ride_deleted: { eventName: "Outside Lands", destination: "Golden Gate Park", departure: "Sat, Aug 8, 11:30 AM" },
+  meeting_point_changed: { eventName: "Outside Lands", meetingPoint: "Sather Gate", departure: "Sat, Aug 8, 11:30 AM", travelMode: "Uber" },
+  ride_updated: { actorName: "Alex Chen", eventName: "Outside Lands", departure: "Sat, Aug 8, 12:00 PM", travelMode: "Uber", capacity: 4, meetingPoint: "Sather Gate" },
+  new_chat_message: { actorName: "Alex Chen", eventName: "Outside Lands", departure: "Sat, Aug 8, 11:30 AM", messagePreview: "Running 5 minutes late, save me a spot!", chatUrl: "https://berkeleyrides.com/rides/sample?openChat=true" },
+  chat_digest: {
+    eventName: "Outside Lands",
+    departure: "Sat, Aug 8, 11:30 AM",
+    messageCount: "3 new messages",
+    messagesHtml: "<p><strong>Alex Chen</strong><br>Who's bringing the blanket?</p><p><strong>Sam Patel</strong><br>I've got it</p><p><strong>Alex Chen</strong><br>Perfect, see you at Sather Gate</p>",
+    messagesText: "Alex Chen: Who's bringing the blanket?\nSam Patel: I've got it\nAlex Chen: Perfect, see you at Sather Gate",
+    chatUrl: "https://berkeleyrides.com/rides/sample?openChat=true",
+  },
+  attendance_survey: { eventName: "Outside Lands", deadline: "Mon, Aug 10, 11:30 PM", myRidesUrl: "https://berkeleyrides.com/my-rides" },
+  attendance_survey_reminder: { eventName: "Outside Lands", myRidesUrl: "https://berkeleyrides.com/my-rides" },
+  ride_starting_soon: { eventName: "Outside Lands", departure: "Sat, Aug 8, 11:30 AM", meetingPoint: "Sather Gate", travelMode: "Uber", memberNames: "Alex Chen, Sam Patel, Jordan Lee", chatUrl: "https://berkeleyrides.com/rides/sample?openChat=true" },
+  ride_invite: {
+    inviterName: "Alex Chen",
+    eventName: "Outside Lands",
+    destination: "Golden Gate Park, San Francisco",
+    eventDate: "Saturday, August 8, 2026 at 12:00 PM",
+    travelMode: "Uber",
+    meetingPoint: "Sather Gate",
+    registrationLink: "https://berkeleyrides.com/auth?invite=sample",
+    expiresIn: "3 days",
+  },
+};
+
+export const isEmailTemplateType = (type: string): type is EmailTemplateType =>
+  Object.prototype.hasOwnProperty.call(DEFAULT_EMAIL_TEMPLATES, type);
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const isSet = (value: Value) => value !== null && value !== undefined && value !== "" && value !== 0;
+
+const renderString = (source: string, variables: Record<string, Value>, escape: (value: string) => string): string =>
+  source
+    .replace(/{{([#^])(\w+)}}([\s\S]*?){{\/\2}}/g, (_, kind: string, name: string, inner: string) =>
+      (kind === "#") === isSet(variables[name]) ? renderString(inner, variables, escape) : ""
+    )
+    .replace(/{{{(\w+)}}}/g, (_, name: string) => String(variables[name] ?? ""))
+    .replace(/{{(\w+)}}/g, (_, name: string) => escape(String(variables[name] ?? "")));
+
+export const renderEmail = <K extends EmailTemplateType>(
+  template: EmailTemplate,
+  variables: EmailTemplateVariables[K]
+): RenderedEmail => {
+  const values = variables as unknown as Record<string, Value>;
+  return {
+    version: template.version,
+    subject: renderString(template.subject, values, (value) => value),
+    html: renderString(template.html, values, escapeHtml),
+    text: renderString(template.text, values, (value) => value).replace(/\n{3,}/g, "\n\n").trim(),
+  };
+};
+
+// The newest published version of a template, or the built-in one
+export const loadEmailTemplate = async (
+  supabase: ReturnType<typeof createClient>,
+  type: EmailTemplateType
+): Promise<EmailTemplate> => {
+  const { data, error } = await supabase
+    .from("email_templates")
+    .select("version, subject, html, text")
+    .eq("type", type)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error loading email template ${type}, using the built-in one:`, error);
+  }
+
+  return (data as EmailTemplate | null) || DEFAULT_EMAIL_TEMPLATES[type];
+};
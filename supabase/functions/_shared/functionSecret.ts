@@ -0,0 +1,18 @@
+// Scheduled jobs and database webhooks call some functions without a user
+// session. They send the INTERNAL_FUNCTION_SECRET function secret in this
+// header instead (database triggers read it from the vault under the same
+// name, lowercased).
+export const FUNCTION_SECRET_HEADER = "x-function-secret";
+
+// Compares in constant time so the secret can't be guessed byte by byte
+export const hasFunctionSecret = (req: Request): boolean => {
+  const expected = Deno.env.get("INTERNAL_FUNCTION_SECRET");
+  const given = req.headers.get(FUNCTION_SECRET_HEADER);
+  if (!expected || !given || given.length !== expected.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ given.charCodeAt(i);
+  }
+  return diff === 0;
+};
@@ -0,0 +1,70 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export const GOOGLE_CALENDAR_API = "https://www.googleapis.com/calendar/v3/calendars/primary";
+
+// Returns a usable access token for the user's connected Google Calendar,
+// refreshing and storing a new one if it has expired, or null if they never
+// connected one. Throws if Google refuses the refresh, which usually means
+// the user revoked access and needs to reconnect.
+export const getGoogleAccessToken = async (
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+): Promise<string | null> => {
+  const { data: tokenData, error: tokenError } = await supabase
+    .from("calendar_tokens")
+    .select("access_token, refresh_token, expires_at")
+    .eq("user_id", userId)
+    .eq("provider", "google")
+    .maybeSingle();
+
+  if (tokenError) throw tokenError;
+  if (!tokenData) return null;
+
+  if (new Date(tokenData.expires_at) >= new Date()) {
+    return tokenData.access_token;
+  }
+
+  console.log("Token expired, refreshing...");
+
+  const refreshResponse = await fetch("https://oauth2.googleapis.com/token", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      client_id: Deno.env.get("GOOGLE_OAUTH_CLIENT_ID"),
+      client_secret: Deno.env.get("GOOGLE_OAUTH_CLIENT_SECRET"),
+      refresh_token: tokenData.refresh_token,
+      grant_type: "refresh_token",
+    }),
+  });
+
+  if (!refreshResponse.ok) {
+    const errorData = await refreshResponse.json();
+    console.error("Token refresh error:", errorData);
+    throw new Error("Failed to refresh access token. Please reconnect your calendar.");
+  }
+
+  const refreshData = await refreshResponse.json();
+  const newExpiresAt = new Date(Date.now() + refreshData.expires_in * 1000);
+
+  await supabase
+    .from("calendar_tokens")
+    .update({
+      access_token: refreshData.access_token,
+      expires_at: newExpiresAt.toISOString(),
+    })
+    .eq("user_id", userId)
+    .eq("provider", "google");
+
+  console.log("Token refreshed successfully");
+  return refreshData.access_token;
+};
+
+// Connections made before rides were written back only have the read-only
+// scope, and Google refuses writes from them with a 403 naming the scope
+export const isInsufficientScope = (status: number, body: string) =>
+  status === 403 && /insufficient authentication scopes|ACCESS_TOKEN_SCOPE_INSUFFICIENT/i.test(body);
+
+// Google accepts client-chosen event ids made of 0-9 and a-v, so each ride
+// gets a stable id and a retried sync updates the event instead of adding a
+// second one
+export const googleEventIdForRide = (rideId: string) => `ride${rideId.replace(/-/g, "")}`;
@@ -0,0 +1,38 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type NotificationChannel = "in_app" | "email" | "push" | "sms";
+
+// Email types sent by send-ride-notification that are stored under a
+// different notification_type in the app
+const EMAIL_TYPE_ALIASES: Record<string, string> = {
+  new_chat_message: "new_message",
+  chat_digest: "new_message",
+  payment_request: "payment_amount_entered",
+};
+
+export const preferenceType = (type: string) => EMAIL_TYPE_ALIASES[type] || type;
+
+// Drops recipients who turned this notification off for the channel or are
+// in their quiet hours. If the check itself fails everyone is kept, so a
+// database hiccup never swallows notifications.
+export const filterRecipients = async (
+  supabase: ReturnType<typeof createClient>,
+  emails: string[],
+  type: string,
+  channel: NotificationChannel = "email"
+): Promise<string[]> => {
+  if (emails.length === 0) return emails;
+
+  const { data, error } = await supabase.rpc("filter_notification_recipients", {
+    p_emails: emails,
+    p_type: preferenceType(type),
+    p_channel: channel,
+  });
+
+  if (error) {
+    console.error(`Error checking notification preferences for ${type}:`, error);
+    return emails;
+  }
+
+  return data as string[];
+};
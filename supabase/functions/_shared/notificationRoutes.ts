@@ -0,0 +1,33 @@
+// Where a notification takes you when it's clicked. Copy of notificationPath
+// in src/lib/notifications.ts so a push notification opens the same page as
+// the bell; change both together. Notifications without a page of their own
+// open the notifications list.
+export const notificationPath = (
+  type: string,
+  rideId: string | null,
+  eventId: string | null
+): string => {
+  switch (type) {
+    case "payment_amount_entered":
+    case "payment_reminder":
+    case "settle_up":
+    case "payment_dispute_resolved":
+    case "attendance_survey":
+    case "attendance_survey_reminder":
+      return "/my-rides";
+
+    case "venmo_required":
+      return "/profile";
+
+    case "payment_disputed":
+    case "new_message":
+      return rideId ? `/rides/${rideId}?openChat=true` : "/notifications";
+
+    case "payment_confirmed":
+      return "/notifications";
+
+    default:
+      if (rideId) return `/rides/${rideId}`;
+      return eventId ? `/events/${eventId}` : "/notifications";
+  }
+};
@@ -0,0 +1,109 @@
+// Copy of src/lib/paymentLinks.ts for the edge functions, which can't import
+// from the app. Change both together.
+
+export type PaymentMethod = "venmo" | "paypal" | "zelle";
+
+export interface PaymentHandles {
+  venmo_username: string | null;
+  paypal_username: string | null;
+  zelle_handle: string | null;
+}
+
+export interface PaymentOption {
+  method: PaymentMethod;
+  label: string;
+  handle: string;
+  // Zelle lives inside each bank's app, so there is nothing to link to
+  href: string | null;
+}
+
+const VENMO_USERNAME_PATTERN = /^[a-zA-Z0-9_-]{1,30}$/;
+const PAYPAL_USERNAME_PATTERN = /^[a-zA-Z0-9]{1,20}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const normalizeVenmoUsername = (value: string | null | undefined): string | null => {
+  const username = (value || "").trim().replace(/^@/, "");
+  return VENMO_USERNAME_PATTERN.test(username) ? username : null;
+};
+
+// Accepts a bare username or a pasted paypal.me link
+export const normalizePaypalUsername = (value: string | null | undefined): string | null => {
+  const username = (value || "")
+    .trim()
+    .replace(/^(https?:\/\/)?(www\.)?paypal\.me\//i, "")
+    .replace(/^@/, "")
+    .split("/")[0];
+  return PAYPAL_USERNAME_PATTERN.test(username) ? username : null;
+};
+
+// Zelle handles are the email or US phone number enrolled with the bank
+export const normalizeZelleHandle = (value: string | null | undefined): string | null => {
+  const handle = (value || "").trim();
+  if (EMAIL_PATTERN.test(handle)) return handle.toLowerCase();
+
+  const digits = handle.replace(/\D/g, "").replace(/^1(?=\d{10}$)/, "");
+  if (digits.length !== 10) return null;
+  return `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6)}`;
+};
+
+// Rides are in the Bay Area; pin the zone so the date in an email sent from
+// the server matches the one the rider sees in the app.
+export const buildPaymentNote = (eventName: string, rideDate?: string | null): string => {
+  const date = rideDate
+    ? new Date(rideDate).toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        timeZone: "America/Los_Angeles",
+      })
+    : null;
+  return `Berkeley Rides: ${eventName}${date ? ` (${date})` : ""}`;
+};
+
+const venmoLink = (txn: "pay" | "charge", username: string, amount: number, note: string) => {
+  const params = new URLSearchParams({
+    txn,
+    audience: "private",
+    recipients: username,
+    amount: amount.toFixed(2),
+    note,
+  });
+  return `https://venmo.com/?${params.toString()}`;
+};
+
+// Opens Venmo with a payment to `username` filled in
+export const venmoPayLink = (username: string, amount: number, note: string): string =>
+  venmoLink("pay", username, amount, note);
+
+// Opens Venmo with a request for money from `username` filled in
+export const venmoChargeLink = (username: string, amount: number, note: string): string =>
+  venmoLink("charge", username, amount, note);
+
+// PayPal.me has no note field, only the amount
+export const paypalMeLink = (username: string, amount: number): string =>
+  `https://paypal.me/${encodeURIComponent(username)}/${amount.toFixed(2)}USD`;
+
+// Every way the payee can be paid, in order of preference
+export const buildPaymentOptions = (
+  handles: PaymentHandles,
+  amount: number,
+  note: string
+): PaymentOption[] => {
+  const options: PaymentOption[] = [];
+
+  const venmo = normalizeVenmoUsername(handles.venmo_username);
+  if (venmo) {
+    options.push({ method: "venmo", label: "Venmo", handle: `@${venmo}`, href: venmoPayLink(venmo, amount, note) });
+  }
+
+  const paypal = normalizePaypalUsername(handles.paypal_username);
+  if (paypal) {
+    options.push({ method: "paypal", label: "PayPal", handle: `paypal.me/${paypal}`, href: paypalMeLink(paypal, amount) });
+  }
+
+  const zelle = normalizeZelleHandle(handles.zelle_handle);
+  if (zelle) {
+    options.push({ method: "zelle", label: "Zelle", handle: zelle, href: null });
+  }
+
+  return options;
+};
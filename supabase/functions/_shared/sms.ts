@@ -0,0 +1,149 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Email is too slow for day-of changes, so these also go out by text to
+// members with a verified phone number. Everything else stays email, push
+// and in-app only.
+export const SMS_NOTIFICATION_TYPES = ["ride_starting_soon", "meeting_point_changed", "ride_deleted"] as const;
+
+export type SmsNotificationType = typeof SMS_NOTIFICATION_TYPES[number];
+
+export const isSmsNotificationType = (type: string): type is SmsNotificationType =>
+  (SMS_NOTIFICATION_TYPES as readonly string[]).includes(type);
+
+export interface SmsProvider {
+  name: string;
+  // Resolves with the provider's message id, throws if it was rejected
+  send: (to: string, body: string) => Promise<string>;
+}
+
+const createTwilioProvider = (accountSid: string, authToken: string, from: string): SmsProvider => ({
+  name: "twilio",
+  send: async (to, body) => {
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({ To: to, From: from, Body: body }),
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(`Twilio error ${result.code ?? response.status}: ${result.message ?? "unknown error"}`);
+    }
+    return result.sid;
+  },
+});
+
+// "+15105550123" -> "+1******0123", for logs
+const maskPhoneNumber = (phone: string) =>
+  phone.length > 6 ? `${phone.slice(0, 2)}${"*".repeat(phone.length - 6)}${phone.slice(-4)}` : "****";
+
+// Logs that a message would have gone out instead of sending it. Bodies can
+// hold verification codes, so only their length is logged.
+const createLogProvider = (): SmsProvider => ({
+  name: "log",
+  send: async (to, body) => {
+    console.log(`[sms:log] To ${maskPhoneNumber(to)}: ${body.length} characters`);
+    return `log-${crypto.randomUUID()}`;
+  },
+});
+
+// SMS_PROVIDER picks the implementation. Twilio needs TWILIO_ACCOUNT_SID,
+// TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER; without SMS_PROVIDER=twilio
+// nothing is actually sent.
+export const getSmsProvider = (): SmsProvider => {
+  if (Deno.env.get("SMS_PROVIDER") === "twilio") {
+    const accountSid = Deno.env.get("TWILIO_ACCOUNT_SID");
+    const authToken = Deno.env.get("TWILIO_AUTH_TOKEN");
+    const from = Deno.env.get("TWILIO_FROM_NUMBER");
+    if (!accountSid || !authToken || !from) {
+      throw new Error("Twilio is selected but TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN or TWILIO_FROM_NUMBER is missing");
+    }
+    return createTwilioProvider(accountSid, authToken, from);
+  }
+  return createLogProvider();
+};
+
+// "(510) 555-0123" -> "+15105550123". Ten-digit numbers are taken as US
+// numbers; anything else needs its country code. Returns null if it can't
+// be a phone number.
+export const normalizePhoneNumber = (input: string): string | null => {
+  const digits = input.replace(/[^\d+]/g, "");
+  if (/^\d{10}$/.test(digits)) return `+1${digits}`;
+  if (/^1\d{10}$/.test(digits)) return `+${digits}`;
+  if (/^\+[1-9]\d{7,14}$/.test(digits)) return digits;
+  return null;
+};
+
+interface SmsDetails {
+  eventName: string;
+  departure?: string;
+  meetingPoint?: string;
+  rideUrl: string;
+}
+
+const smsBody = (type: SmsNotificationType, { eventName, departure, meetingPoint, rideUrl }: SmsDetails) => {
+  switch (type) {
+    case "ride_starting_soon":
+      return `Berkeley Rides: Your ride to ${eventName} leaves${departure ? ` at ${departure}` : " soon"} from ${meetingPoint || "the meeting point"}. ${rideUrl}`;
+    case "meeting_point_changed":
+      return `Berkeley Rides: The meeting point for your ride to ${eventName} is now ${meetingPoint || "being decided"}. ${rideUrl}`;
+    case "ride_deleted":
+      return `Berkeley Rides: Your ride to ${eventName} was cancelled by the organizer.`;
+  }
+};
+
+// Texts the recipients of an urgent notification who have a verified phone
+// number and haven't turned SMS off for this type (or are in quiet hours).
+// Recipients are matched by email, like the rest of send-ride-notification.
+// Failures are logged per recipient; returns how many texts went out.
+export const sendSmsNotifications = async (
+  supabase: ReturnType<typeof createClient>,
+  type: SmsNotificationType,
+  recipientEmails: string[],
+  details: SmsDetails,
+): Promise<number> => {
+  if (recipientEmails.length === 0) return 0;
+
+  const { data: profiles, error } = await supabase
+    .from("profiles")
+    .select("id, email, phone_number")
+    .in("email", recipientEmails)
+    .not("phone_verified_at", "is", null);
+
+  if (error) {
+    console.error(`Error looking up phone numbers for ${type}:`, error);
+    return 0;
+  }
+  if (!profiles || profiles.length === 0) return 0;
+
+  const provider = getSmsProvider();
+  const body = smsBody(type, details);
+  let sent = 0;
+
+  for (const profile of profiles as { id: string; email: string; phone_number: string }[]) {
+    const { data: wantsSms, error: prefError } = await supabase.rpc("wants_notification", {
+      p_user_id: profile.id,
+      p_type: type,
+      p_channel: "sms",
+    });
+
+    if (prefError) {
+      console.error(`Error checking SMS preference for user ${profile.id}:`, prefError);
+    } else if (!wantsSms) {
+      continue;
+    }
+
+    try {
+      const messageId = await provider.send(profile.phone_number, body);
+      console.log(`Sent ${type} SMS to user ${profile.id} via ${provider.name} (${messageId})`);
+      sent++;
+    } catch (sendError) {
+      console.error(`Error sending ${type} SMS to user ${profile.id}:`, sendError);
+    }
+  }
+
+  return sent;
+};
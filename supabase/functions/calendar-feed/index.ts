@@ -0,0 +1,190 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Rides older than this drop out of the feed
+const HISTORY_DAYS = 90;
+
+// Rides don't record an arrival time, so each one blocks out this long
+const RIDE_DURATION_MINUTES = 60;
+
+interface FeedRide {
+  id: string;
+  departure_time: string;
+  meeting_point: string | null;
+  travel_mode: string;
+  updated_at: string;
+  events: {
+    name: string;
+    destination: string;
+    city: string;
+  };
+}
+
+// RFC 5545 text values escape backslashes, commas, semicolons and newlines
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const formatDateTime = (date: Date) =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Lines longer than 75 octets are folded onto continuation lines that start
+// with a space
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+const buildEvent = (ride: FeedRide, memberNames: string[], frontendUrl: string, now: Date) => {
+  const start = new Date(ride.departure_time);
+  const end = new Date(start.getTime() + RIDE_DURATION_MINUTES * 60 * 1000);
+  const updated = new Date(ride.updated_at);
+  const rideUrl = `${frontendUrl}/rides/${ride.id}`;
+
+  const description = [
+    `Destination: ${ride.events.destination}, ${ride.events.city}`,
+    `Travel mode: ${ride.travel_mode}`,
+    `Meeting point: ${ride.meeting_point || 'Not decided yet'}`,
+    `Members: ${memberNames.length > 0 ? memberNames.join(', ') : 'Just you so far'}`,
+    '',
+    rideUrl,
+  ].join('\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:ride-${ride.id}@berkeley-rideshare-hub`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    `DTSTART:${formatDateTime(start)}`,
+    `DTEND:${formatDateTime(end)}`,
+    `LAST-MODIFIED:${formatDateTime(updated)}`,
+    // Calendars only replace an event they've already imported when its
+    // sequence goes up, so derive it from the last change
+    `SEQUENCE:${Math.floor(updated.getTime() / 1000)}`,
+    `SUMMARY:${escapeText(`Ride to ${ride.events.name}`)}`,
+    `LOCATION:${escapeText(ride.meeting_point || `${ride.events.destination}, ${ride.events.city}`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `URL:${rideUrl}`,
+    'END:VEVENT',
+  ];
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get('token');
+    if (!token) {
+      return new Response('Missing token', { status: 400, headers: corsHeaders });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: feed, error: feedError } = await supabase
+      .from('calendar_feed_tokens')
+      .select('user_id')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (feedError) throw feedError;
+
+    // Revoked and reset links look the same as links that never existed
+    if (!feed) {
+      return new Response('Calendar feed not found', { status: 404, headers: corsHeaders });
+    }
+
+    const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data: memberships, error: ridesError } = await supabase
+      .from('ride_members')
+      .select(`
+        ride_groups!inner(
+          id,
+          departure_time,
+          meeting_point,
+          travel_mode,
+          updated_at,
+          events!inner(name, destination, city)
+        )
+      `)
+      .eq('user_id', feed.user_id)
+      .eq('status', 'joined')
+      .gte('ride_groups.departure_time', since);
+
+    if (ridesError) throw ridesError;
+
+    const rides = (memberships || []).map(m => m.ride_groups as unknown as FeedRide);
+    const rideIds = rides.map(r => r.id);
+
+    const membersByRide = new Map<string, string[]>();
+    if (rideIds.length > 0) {
+      const { data: members, error: membersError } = await supabase
+        .from('ride_members')
+        .select('ride_id, profiles!inner(name)')
+        .in('ride_id', rideIds)
+        .eq('status', 'joined');
+
+      if (membersError) throw membersError;
+
+      for (const member of members || []) {
+        const name = (member.profiles as unknown as { name: string }).name;
+        membersByRide.set(member.ride_id, [...(membersByRide.get(member.ride_id) || []), name]);
+      }
+    }
+
+    const frontendUrl = (Deno.env.get('FRONTEND_URL') || 'https://rizftvjircbgfsamrvdf.lovable.app').replace(/\/$/, '');
+    const now = new Date();
+
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Berkeley Rideshare Hub//Rides//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:Berkeley Rideshare',
+      // Ask subscribers to check back hourly; Google Calendar sets its own pace
+      'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+      'X-PUBLISHED-TTL:PT1H',
+      ...rides.flatMap(ride => buildEvent(ride, membersByRide.get(ride.id) || [], frontendUrl, now)),
+      'END:VCALENDAR',
+    ];
+
+    console.log(`Served calendar feed with ${rides.length} rides`);
+
+    return new Response(lines.map(foldLine).join('\r\n') + '\r\n', {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="rides.ics"',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error in calendar-feed function:', error);
+    return new Response('Failed to build calendar feed', { status: 500, headers: corsHeaders });
+  }
+});
@@ -44,7 +44,8 @@ serve(async (req) => {
     authUrl.searchParams.set('client_id', clientId);
     authUrl.searchParams.set('redirect_uri', redirectUri);
     authUrl.searchParams.set('response_type', 'code');
-    authUrl.searchParams.set('scope', 'https://www.googleapis.com/auth/calendar.readonly');
+    // calendar.events covers reading upcoming events and adding joined rides
+    authUrl.searchParams.set('scope', 'https://www.googleapis.com/auth/calendar.events');
     authUrl.searchParams.set('access_type', 'offline'); // Get refresh token
     authUrl.searchParams.set('prompt', 'consent'); // Force consent to get refresh token
     authUrl.searchParams.set('state', userId); // Pass user ID in state
@@ -88,6 +88,7 @@ serve(async (req) => {
         access_token: tokens.access_token,
         refresh_token: tokens.refresh_token,
         expires_at: expiresAt.toISOString(),
+        needs_reconnect: false,
       }, {
         onConflict: 'user_id,provider'
       });
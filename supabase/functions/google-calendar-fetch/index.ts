@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.76.1';
+import { GOOGLE_CALENDAR_API, getGoogleAccessToken } from '../_shared/googleCalendar.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,8 +15,6 @@ serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL');
     const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
-    const clientId = Deno.env.get('GOOGLE_OAUTH_CLIENT_ID');
-    const clientSecret = Deno.env.get('GOOGLE_OAUTH_CLIENT_SECRET');
 
     // Get user from authorization header
     const authHeader = req.headers.get('authorization');
@@ -31,64 +30,17 @@ serve(async (req) => {
 
     console.log('Fetching calendar for user:', user.id);
 
-    // Get stored tokens
-    const { data: tokenData, error: tokenError } = await supabase
-      .from('calendar_tokens')
-      .select('*')
-      .eq('user_id', user.id)
-      .eq('provider', 'google')
-      .single();
+    const accessToken = await getGoogleAccessToken(supabase, user.id);
 
-    if (tokenError || !tokenData) {
+    if (!accessToken) {
       throw new Error('Calendar not connected. Please authorize Google Calendar access first.');
     }
 
-    let accessToken = tokenData.access_token;
-
-    // Check if token is expired and refresh if needed
-    const expiresAt = new Date(tokenData.expires_at);
-    if (expiresAt < new Date()) {
-      console.log('Token expired, refreshing...');
-      
-      const refreshResponse = await fetch('https://oauth2.googleapis.com/token', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          client_id: clientId,
-          client_secret: clientSecret,
-          refresh_token: tokenData.refresh_token,
-          grant_type: 'refresh_token',
-        }),
-      });
-
-      if (!refreshResponse.ok) {
-        const errorData = await refreshResponse.json();
-        console.error('Token refresh error:', errorData);
-        throw new Error('Failed to refresh access token. Please reconnect your calendar.');
-      }
-
-      const refreshData = await refreshResponse.json();
-      accessToken = refreshData.access_token;
-      
-      // Update token in database
-      const newExpiresAt = new Date(Date.now() + refreshData.expires_in * 1000);
-      await supabase
-        .from('calendar_tokens')
-        .update({
-          access_token: accessToken,
-          expires_at: newExpiresAt.toISOString(),
-        })
-        .eq('user_id', user.id)
-        .eq('provider', 'google');
-
-      console.log('Token refreshed successfully');
-    }
-
     // Fetch calendar events from Google
     const now = new Date();
     const twoWeeksFromNow = new Date(now.getTime() + 14 * 24 * 60 * 60 * 1000);
 
-    const calendarUrl = new URL('https://www.googleapis.com/calendar/v3/calendars/primary/events');
+    const calendarUrl = new URL(`${GOOGLE_CALENDAR_API}/events`);
     calendarUrl.searchParams.set('timeMin', now.toISOString());
     calendarUrl.searchParams.set('timeMax', twoWeeksFromNow.toISOString());
     calendarUrl.searchParams.set('singleEvents', 'true');
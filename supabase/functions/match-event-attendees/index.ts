@@ -0,0 +1,336 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { hasFunctionSecret } from '../_shared/functionSecret.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-function-secret',
+};
+
+const RIDESHARE_MODE = 'Rideshare (Uber/Lyft)';
+const CARPOOL_MODE = 'Carpool (Student Driver)';
+
+// Attendees whose preferred departures fall within this window can share a ride
+const DEPARTURE_WINDOW_MINUTES = 30;
+// Used when an attendee hasn't picked a departure time
+const DEFAULT_LEAD_MINUTES = 45;
+const DEFAULT_CAPACITY = 4;
+const DEFAULT_MIN_CAPACITY = 2;
+// Don't re-propose to someone who just declined
+const DECLINE_COOLDOWN_HOURS = 24;
+// When called without an eventId (e.g. from a cron job), match events this far ahead
+const LOOKAHEAD_DAYS = 14;
+
+interface Candidate {
+  userId: string;
+  departure: number;
+  travelMode: string | null;
+  neighborhood: string | null;
+  joinedAt: number;
+}
+
+interface ProposedGroup {
+  members: Candidate[];
+  departure: number;
+  neighborhood: string | null;
+}
+
+const normalizeNeighborhood = (value: string | null) =>
+  value ? value.trim().toLowerCase() : null;
+
+// Split a list into as few groups as possible, keeping sizes even so we
+// never produce e.g. 4 + 1 when 3 + 2 would satisfy min_capacity.
+const chunkBalanced = <T>(items: T[], capacity: number): T[][] => {
+  if (items.length === 0) return [];
+  const groupCount = Math.ceil(items.length / capacity);
+  const baseSize = Math.floor(items.length / groupCount);
+  let remainder = items.length % groupCount;
+  const chunks: T[][] = [];
+  let index = 0;
+  for (let i = 0; i < groupCount; i++) {
+    const size = baseSize + (remainder > 0 ? 1 : 0);
+    if (remainder > 0) remainder--;
+    chunks.push(items.slice(index, index + size));
+    index += size;
+  }
+  return chunks;
+};
+
+// Sweep attendees in departure order, starting a new window whenever the
+// next person wants to leave too long after the window's first member.
+const clusterByDeparture = (candidates: Candidate[]): Candidate[][] => {
+  const sorted = [...candidates].sort((a, b) => a.departure - b.departure || a.joinedAt - b.joinedAt);
+  const windows: Candidate[][] = [];
+  for (const candidate of sorted) {
+    const current = windows[windows.length - 1];
+    if (current && candidate.departure - current[0].departure <= DEPARTURE_WINDOW_MINUTES * 60 * 1000) {
+      current.push(candidate);
+    } else {
+      windows.push([candidate]);
+    }
+  }
+  return windows;
+};
+
+// Within a departure window, fill groups with people from the same
+// neighborhood first, then pool the leftovers across neighborhoods.
+const clusterWindow = (window: Candidate[], capacity: number, minCapacity: number): ProposedGroup[] => {
+  const byNeighborhood = new Map<string, Candidate[]>();
+  const unknown: Candidate[] = [];
+  for (const candidate of window) {
+    const key = normalizeNeighborhood(candidate.neighborhood);
+    if (!key) {
+      unknown.push(candidate);
+      continue;
+    }
+    if (!byNeighborhood.has(key)) byNeighborhood.set(key, []);
+    byNeighborhood.get(key)!.push(candidate);
+  }
+
+  const groups: Candidate[][] = [];
+  const leftovers: Candidate[] = [...unknown];
+  for (const members of byNeighborhood.values()) {
+    if (members.length < minCapacity) {
+      leftovers.push(...members);
+      continue;
+    }
+    groups.push(...chunkBalanced(members, capacity));
+  }
+
+  leftovers.sort((a, b) => a.departure - b.departure);
+  for (const chunk of chunkBalanced(leftovers, capacity)) {
+    if (chunk.length >= minCapacity) {
+      groups.push(chunk);
+      continue;
+    }
+    // Top up an existing group that still has room rather than leave people out
+    for (const candidate of chunk) {
+      const withRoom = groups.find(g => g.length < capacity);
+      if (withRoom) withRoom.push(candidate);
+    }
+  }
+
+  return groups.map(members => {
+    const neighborhoods = new Set(members.map(m => normalizeNeighborhood(m.neighborhood)));
+    return {
+      members,
+      // Leave when the earliest member wants to, so nobody is late
+      departure: Math.min(...members.map(m => m.departure)),
+      neighborhood: neighborhoods.size === 1 ? members[0].neighborhood : null,
+    };
+  });
+};
+
+const clusterAttendees = (
+  candidates: Candidate[],
+  capacity = DEFAULT_CAPACITY,
+  minCapacity = DEFAULT_MIN_CAPACITY,
+): ProposedGroup[] =>
+  clusterByDeparture(candidates).flatMap(window => clusterWindow(window, capacity, minCapacity));
+
+const matchEvent = async (supabase: ReturnType<typeof createClient>, eventId: string) => {
+  const { data: event, error: eventError } = await supabase
+    .from('events')
+    .select('id, name, date_time')
+    .eq('id', eventId)
+    .single();
+
+  if (eventError || !event) {
+    throw new Error(`Event ${eventId} not found`);
+  }
+
+  const eventStart = new Date(event.date_time).getTime();
+  if (eventStart < Date.now()) {
+    console.log(`Event ${eventId} has already started, skipping`);
+    return { eventId, proposed: 0, matched: 0 };
+  }
+
+  const [interestsRes, accessRes, membersRes] = await Promise.all([
+    supabase
+      .from('event_interests')
+      .select('user_id, created_at, preferred_departure_time, travel_mode_preference, origin_neighborhood, last_proposal_declined_at')
+      .eq('event_id', eventId),
+    supabase
+      .from('event_access')
+      .select('user_id, granted_at')
+      .eq('event_id', eventId),
+    supabase
+      .from('ride_members')
+      .select('user_id, status, ride_groups!inner(event_id)')
+      .eq('ride_groups.event_id', eventId)
+      .in('status', ['joined', 'proposed', 'invited']),
+  ]);
+
+  if (interestsRes.error) throw interestsRes.error;
+  if (accessRes.error) throw accessRes.error;
+  if (membersRes.error) throw membersRes.error;
+
+  const alreadyGrouped = new Set<string>(membersRes.data?.map((m: { user_id: string }) => m.user_id) || []);
+  const cooldownCutoff = Date.now() - DECLINE_COOLDOWN_HOURS * 60 * 60 * 1000;
+  const defaultDeparture = eventStart - DEFAULT_LEAD_MINUTES * 60 * 1000;
+
+  const candidates = new Map<string, Candidate>();
+
+  for (const interest of interestsRes.data || []) {
+    if (alreadyGrouped.has(interest.user_id)) continue;
+    if (interest.last_proposal_declined_at && new Date(interest.last_proposal_declined_at).getTime() > cooldownCutoff) {
+      continue;
+    }
+    candidates.set(interest.user_id, {
+      userId: interest.user_id,
+      departure: interest.preferred_departure_time
+        ? new Date(interest.preferred_departure_time).getTime()
+        : defaultDeparture,
+      travelMode: interest.travel_mode_preference,
+      neighborhood: interest.origin_neighborhood,
+      joinedAt: new Date(interest.created_at).getTime(),
+    });
+  }
+
+  // People with event access but no stated preferences get the defaults
+  for (const access of accessRes.data || []) {
+    if (alreadyGrouped.has(access.user_id) || candidates.has(access.user_id)) continue;
+    candidates.set(access.user_id, {
+      userId: access.user_id,
+      departure: defaultDeparture,
+      travelMode: null,
+      neighborhood: null,
+      joinedAt: access.granted_at ? new Date(access.granted_at).getTime() : Date.now(),
+    });
+  }
+
+  // Carpools need a student driver, which we can't infer, so carpool-only
+  // attendees are left to create or join carpools themselves.
+  const carpoolOnly = [...candidates.values()].filter(c => c.travelMode === CARPOOL_MODE);
+  const rideshareCandidates = [...candidates.values()].filter(c => c.travelMode !== CARPOOL_MODE);
+
+  console.log(
+    `Event ${eventId}: ${rideshareCandidates.length} rideshare candidates, ${carpoolOnly.length} carpool-only skipped`
+  );
+
+  const groups = clusterAttendees(rideshareCandidates);
+  let matched = 0;
+
+  for (const group of groups) {
+    const { data: rideGroup, error: rideError } = await supabase
+      .from('ride_groups')
+      .insert({
+        event_id: eventId,
+        departure_time: new Date(group.departure).toISOString(),
+        travel_mode: RIDESHARE_MODE,
+        meeting_point: group.neighborhood,
+        capacity: DEFAULT_CAPACITY,
+        min_capacity: DEFAULT_MIN_CAPACITY,
+        // Matched groups stay unowned; nobody gets organizer rights over them
+        created_by: null,
+        status: 'proposed',
+      })
+      .select()
+      .single();
+
+    if (rideError || !rideGroup) {
+      console.error('Failed to create proposed ride group:', rideError);
+      continue;
+    }
+
+    const { error: membersError } = await supabase
+      .from('ride_members')
+      .insert(group.members.map(m => ({
+        ride_id: rideGroup.id,
+        user_id: m.userId,
+        status: 'proposed',
+        role: null,
+      })));
+
+    if (membersError) {
+      console.error('Failed to add proposed members:', membersError);
+      await supabase.from('ride_groups').delete().eq('id', rideGroup.id);
+      continue;
+    }
+
+    const departureLabel = new Date(group.departure).toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+      timeZone: 'America/Los_Angeles',
+    });
+
+    await supabase.from('notifications').insert(group.members.map(m => ({
+      user_id: m.userId,
+      ride_id: rideGroup.id,
+      type: 'ride_proposed',
+      title: 'We found you a ride group',
+      message: `${group.members.length} people heading to ${event.name} around ${departureLabel}. Accept or decline your spot.`,
+      metadata: { event_id: eventId, member_count: group.members.length },
+    })));
+
+    matched += group.members.length;
+  }
+
+  console.log(`Event ${eventId}: proposed ${groups.length} groups covering ${matched} attendees`);
+  return { eventId, proposed: groups.length, matched };
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Matching creates rides and memberships for everyone it touches, so only
+    // the scheduled job (with the function secret) or an admin may run it
+    if (!hasFunctionSecret(req)) {
+      const jwt = req.headers.get('authorization')?.replace('Bearer ', '') ?? '';
+      const { data: { user } } = await supabase.auth.getUser(jwt);
+      const { data: isAdmin } = user
+        ? await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' })
+        : { data: false };
+
+      if (!isAdmin) {
+        return new Response(
+          JSON.stringify({ error: 'Admins only' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const { eventId } = body as { eventId?: string };
+
+    let eventIds: string[];
+    if (eventId) {
+      eventIds = [eventId];
+    } else {
+      const now = new Date();
+      const horizon = new Date(now.getTime() + LOOKAHEAD_DAYS * 24 * 60 * 60 * 1000);
+      const { data: events, error } = await supabase
+        .from('events')
+        .select('id')
+        .gte('date_time', now.toISOString())
+        .lte('date_time', horizon.toISOString());
+
+      if (error) throw error;
+      eventIds = events?.map(e => e.id) || [];
+    }
+
+    console.log(`Matching attendees for ${eventIds.length} event(s)`);
+
+    const results = [];
+    for (const id of eventIds) {
+      results.push(await matchEvent(supabase, id));
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, results }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in match-event-attendees:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
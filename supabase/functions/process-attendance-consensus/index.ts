@@ -172,9 +172,15 @@ Deno.serve(async (req) => {
         .map(c => c.user_id)
         .filter(id => id !== existingPayment.payer_user_id);
       
-      // Calculate split amount
-      const totalMembers = completions.length;
-      const splitAmount = existingPayment.amount / totalMembers;
+      // Use the shares stored when the payment was recorded
+      const { data: shares } = await supabase
+        .from('uber_payment_shares')
+        .select('user_id, amount_owed')
+        .eq('uber_payment_id', existingPayment.id);
+
+      const owedBy = new Map<string, number>(
+        (shares || []).map((s: { user_id: string; amount_owed: number }) => [s.user_id, Number(s.amount_owed)])
+      );
       
       // Get payer name
       const { data: payerProfile } = await supabase
@@ -184,19 +190,21 @@ Deno.serve(async (req) => {
         .single();
       
       // Send notifications to all confirmed attendees
-      const notifications = attendeeIds.map(userId => ({
-        user_id: userId,
-        ride_id: survey.ride_id,
-        type: 'payment_amount_entered',
-        title: 'Payment Request',
-        message: `${payerProfile?.name || 'A member'} paid $${existingPayment.amount.toFixed(2)}. Your share is $${splitAmount.toFixed(2)}. Please pay via Venmo.`,
-        metadata: {
-          uber_payment_id: existingPayment.id,
-          amount: existingPayment.amount,
-          split_amount: splitAmount,
-          venmo_username: existingPayment.payer_venmo_username,
-        }
-      }));
+      const notifications = attendeeIds
+        .filter(userId => (owedBy.get(userId) || 0) > 0)
+        .map(userId => ({
+          user_id: userId,
+          ride_id: survey.ride_id,
+          type: 'payment_amount_entered',
+          title: 'Payment Request',
+          message: `${payerProfile?.name || 'A member'} paid $${existingPayment.amount.toFixed(2)}. Your share is $${owedBy.get(userId)!.toFixed(2)}. Please pay via Venmo.`,
+          metadata: {
+            uber_payment_id: existingPayment.id,
+            amount: existingPayment.amount,
+            split_amount: owedBy.get(userId),
+            venmo_username: existingPayment.payer_venmo_username,
+          }
+        }));
 
       if (notifications.length > 0) {
         const { error: notifError } = await supabase
@@ -206,7 +214,7 @@ Deno.serve(async (req) => {
         if (notifError) {
           console.error('Error sending payment notifications:', notifError);
         } else {
-          console.log(`Sent payment notifications to ${attendeeIds.length} members`);
+          console.log(`Sent payment notifications to ${notifications.length} members`);
         }
       }
     }
@@ -0,0 +1,178 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { hasFunctionSecret } from '../_shared/functionSecret.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-function-secret',
+};
+
+// Resend allows 2 requests per second
+const BATCH_SIZE = 2;
+const BATCH_DELAY_MS = 1100;
+
+// Emails claimed per run; the rest wait for the next run
+const CLAIM_LIMIT = 50;
+
+// Retry after 1, 2, 4, 8... minutes, never waiting more than an hour
+const BASE_BACKOFF_MS = 60 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+interface OutboxRow {
+  id: string;
+  idempotency_key: string;
+  recipient: string;
+  subject: string;
+  html: string;
+  text: string;
+  notification_type: string;
+  ride_id: string | null;
+  message_id: string | null;
+  template_version: number | null;
+  attempts: number;
+  max_attempts: number;
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Exponential backoff with up to 20% jitter so a batch that failed together
+// doesn't retry together
+const nextAttemptAt = (attempts: number) => {
+  const backoff = Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+  return new Date(Date.now() + backoff * (1 + Math.random() * 0.2)).toISOString();
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Only the scheduled job may drain the outbox
+  if (!hasFunctionSecret(req)) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const resendApiKey = Deno.env.get('RESEND_API_KEY');
+    if (!resendApiKey) {
+      throw new Error('RESEND_API_KEY is not configured');
+    }
+
+    const { data, error: claimError } = await supabase.rpc('claim_email_outbox', { p_limit: CLAIM_LIMIT });
+    if (claimError) {
+      console.error('Error claiming outbox emails:', claimError);
+      throw claimError;
+    }
+
+    const rows = (data || []) as OutboxRow[];
+    console.log(`Claimed ${rows.length} outbox emails`);
+
+    let sent = 0;
+    let retrying = 0;
+    let dead = 0;
+
+    const sendOne = async (row: OutboxRow) => {
+      let errorMessage: string | null = null;
+      let providerId: string | null = null;
+
+      try {
+        // Resend drops a repeat of the same key, so an email whose send went
+        // through but wasn't recorded as sent isn't delivered twice on retry
+        const response = await fetch('https://api.resend.com/emails', {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${resendApiKey}`,
+            'Content-Type': 'application/json',
+            'Idempotency-Key': row.idempotency_key,
+          },
+          body: JSON.stringify({
+            from: 'Berkeley Rides <notifications@berkeleyrides.com>',
+            to: [row.recipient],
+            subject: row.subject,
+            html: row.html,
+            text: row.text,
+          }),
+        });
+        const result = await response.json().catch(() => null);
+        if (response.ok) {
+          providerId = result?.id ?? null;
+        } else {
+          errorMessage = result?.message || `Resend returned ${response.status}`;
+        }
+      } catch (error) {
+        errorMessage = error instanceof Error ? error.message : String(error);
+      }
+
+      if (!errorMessage) {
+        sent++;
+        await supabase
+          .from('email_outbox')
+          .update({ status: 'sent', sent_at: new Date().toISOString(), provider_message_id: providerId, last_error: null, locked_at: null })
+          .eq('id', row.id);
+      } else if (row.attempts < row.max_attempts) {
+        retrying++;
+        console.error(`Attempt ${row.attempts}/${row.max_attempts} to ${row.recipient} failed:`, errorMessage);
+        await supabase
+          .from('email_outbox')
+          .update({ status: 'pending', next_attempt_at: nextAttemptAt(row.attempts), last_error: errorMessage, locked_at: null })
+          .eq('id', row.id);
+        return;
+      } else {
+        dead++;
+        console.error(`Giving up on email ${row.id} to ${row.recipient}:`, errorMessage);
+        await supabase
+          .from('email_outbox')
+          .update({ status: 'dead', last_error: errorMessage, locked_at: null })
+          .eq('id', row.id);
+      }
+
+      // Only final outcomes are logged, so delivery stats aren't skewed by
+      // failures that went through on a retry
+      if (row.ride_id) {
+        const { error: logError } = await supabase
+          .from('email_notification_logs')
+          .insert({
+            ride_id: row.ride_id,
+            message_id: row.message_id,
+            recipient_emails: [row.recipient],
+            notification_type: row.notification_type,
+            success: !errorMessage,
+            failed_recipients: errorMessage ? [row.recipient] : null,
+            error_message: errorMessage,
+            template_version: row.template_version,
+          });
+        if (logError) {
+          console.error('Failed to log email notification:', logError);
+        }
+      }
+    };
+
+    for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+      await Promise.all(rows.slice(i, i + BATCH_SIZE).map(sendOne));
+      if (i + BATCH_SIZE < rows.length) {
+        await delay(BATCH_DELAY_MS);
+      }
+    }
+
+    console.log(`Outbox run complete: ${sent} sent, ${retrying} will retry, ${dead} dead`);
+
+    return new Response(
+      JSON.stringify({ success: true, claimed: rows.length, sent, retrying, dead }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error in process-email-outbox:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,87 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  EMAIL_TEMPLATE_LABELS,
+  EmailTemplate,
+  SAMPLE_EMAIL_VARIABLES,
+  isEmailTemplateType,
+  loadEmailTemplate,
+  renderEmail,
+} from '../_shared/emailTemplates.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface RenderRequest {
+  type?: string;
+  // Unsaved edits to preview instead of the live template
+  draft?: Pick<EmailTemplate, 'subject' | 'html' | 'text'>;
+}
+
+// Admin-only: renders an email template with sample ride/event data so the
+// System tab can preview wording before and after it is published
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      throw new Error('Missing authorization header');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' });
+    if (!isAdmin) {
+      return new Response(
+        JSON.stringify({ error: 'Admins only' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { type = 'member_joined', draft }: RenderRequest = await req.json().catch(() => ({}));
+    if (!isEmailTemplateType(type)) {
+      throw new Error(`Unknown email template: ${type}`);
+    }
+
+    // Read through the admin's own client; RLS lets admins see every version
+    const live = await loadEmailTemplate(supabase, type);
+    const template = draft ? { ...draft, version: live.version + 1 } : live;
+    const variables = SAMPLE_EMAIL_VARIABLES[type];
+
+    return new Response(
+      JSON.stringify({
+        types: Object.entries(EMAIL_TEMPLATE_LABELS).map(([value, label]) => ({ value, label })),
+        type,
+        template: live,
+        defaultTemplate: DEFAULT_EMAIL_TEMPLATES[type],
+        variables: Object.keys(variables),
+        rendered: renderEmail(template, variables),
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error in render-email-template:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,4 +1,5 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { filterRecipients } from '../_shared/notificationPreferences.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -132,9 +133,11 @@ Deno.serve(async (req) => {
         .eq('status', 'joined');
 
       if (memberEmails && memberEmails.length > 0) {
-        const emails = memberEmails
-          .map(m => (m.profiles as any)?.email)
-          .filter(Boolean);
+        const emails = await filterRecipients(
+          supabase,
+          memberEmails.map(m => (m.profiles as any)?.email).filter(Boolean),
+          'attendance_survey'
+        );
 
         const { error: emailError } = await supabase.functions.invoke('send-ride-notification', {
           body: {
@@ -201,9 +204,11 @@ Deno.serve(async (req) => {
           await supabase.from('notifications').insert(reminders);
 
           // Send reminder emails
-          const emails = nonResponders
-            .map(m => (m.profiles as any)?.email)
-            .filter(Boolean);
+          const emails = await filterRecipients(
+            supabase,
+            nonResponders.map(m => (m.profiles as any)?.email).filter(Boolean),
+            'attendance_survey_reminder'
+          );
 
           if (emails.length > 0) {
             await supabase.functions.invoke('send-ride-notification', {
@@ -0,0 +1,122 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { hasFunctionSecret } from '../_shared/functionSecret.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-function-secret',
+};
+
+// A chat has to be quiet this long before its digest goes out, so a burst of
+// messages ends up in one email. Set CHAT_DIGEST_IDLE_MINUTES to change it.
+const DEFAULT_IDLE_MINUTES = 15;
+
+// The email shows the latest messages and a count of the rest
+const MAX_MESSAGES_PER_DIGEST = 20;
+
+interface DigestMessage {
+  sender: string;
+  message: string;
+  created_at: string;
+}
+
+interface PendingDigest {
+  ride_id: string;
+  user_id: string;
+  email: string;
+  event_name: string;
+  unread_count: number;
+  last_message_at: string;
+  messages: DigestMessage[];
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Only the scheduled job may send digests
+  if (!hasFunctionSecret(req)) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const idleMinutes = parseInt(Deno.env.get('CHAT_DIGEST_IDLE_MINUTES') || '', 10) || DEFAULT_IDLE_MINUTES;
+
+    console.log(`Starting chat digest check (idle window ${idleMinutes} minutes)...`);
+
+    const { data, error: digestError } = await supabase
+      .rpc('get_pending_chat_digests', { p_idle_minutes: idleMinutes });
+
+    if (digestError) {
+      console.error('Error fetching pending digests:', digestError);
+      throw digestError;
+    }
+
+    const digests = (data || []) as PendingDigest[];
+    console.log(`Found ${digests.length} pending chat digests`);
+
+    let digestsSent = 0;
+
+    for (const digest of digests) {
+      const { error: emailError } = await supabase.functions.invoke('send-ride-notification', {
+        body: {
+          type: 'chat_digest',
+          rideId: digest.ride_id,
+          recipientEmails: [digest.email],
+          eventName: digest.event_name,
+          unreadCount: digest.unread_count,
+          digestMessages: digest.messages.slice(-MAX_MESSAGES_PER_DIGEST),
+          idempotencyKey: `chat_digest:${digest.ride_id}:${digest.user_id}:${digest.last_message_at}`,
+        }
+      });
+
+      if (emailError) {
+        // Left unlogged so the next run tries again
+        console.error(`Error sending digest to user ${digest.user_id} for ride ${digest.ride_id}:`, emailError);
+        continue;
+      }
+
+      const { error: logError } = await supabase
+        .from('chat_digest_log')
+        .upsert({
+          ride_id: digest.ride_id,
+          user_id: digest.user_id,
+          last_message_at: digest.last_message_at,
+          sent_at: new Date().toISOString(),
+        }, { onConflict: 'ride_id,user_id' });
+
+      if (logError) {
+        console.error(`Error recording digest for user ${digest.user_id}:`, logError);
+        continue;
+      }
+
+      digestsSent++;
+    }
+
+    console.log(`Chat digests completed. Sent ${digestsSent} digests.`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        digests_sent: digestsSent,
+        total_pending: digests.length,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error in send-chat-digests:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,4 +1,5 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { filterRecipients } from '../_shared/notificationPreferences.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -27,15 +28,18 @@ Deno.serve(async (req) => {
           amount,
           payer_user_id,
           payer_venmo_username,
+          payer_paypal_username,
+          payer_zelle_handle,
           ride_id,
           created_at,
           ride_groups!inner(
             events!inner(name, date_time)
           ),
-          ride_members!inner(user_id)
+          uber_payment_shares(user_id, amount_owed)
         )
       `)
       .eq('payment_confirmed', false)
+      .eq('paused', false) // Disputed payments wait for an admin
       .lt('reminder_count', 28); // Stop after 4 weeks (28 reminders)
 
     if (remindersError) {
@@ -55,10 +59,23 @@ Deno.serve(async (req) => {
 
       if (hoursSince >= 24) {
         const payment = reminder.uber_payments;
+
+        // Hold the reminder until the user's quiet hours are over
+        const { data: quiet } = await supabase.rpc('in_quiet_hours', { p_user_id: reminder.user_id });
+        if (quiet) {
+          console.log(`User ${reminder.user_id} is in quiet hours, deferring reminder`);
+          continue;
+        }
         
-        // Calculate split amount
-        const totalMembers = payment.ride_members.length;
-        const splitAmount = payment.amount / totalMembers;
+        // Use the share stored when the payment was recorded
+        const share = payment.uber_payment_shares.find(
+          (s: { user_id: string }) => s.user_id === reminder.user_id
+        );
+        if (!share || share.amount_owed <= 0) {
+          console.log(`No amount owed by user ${reminder.user_id} for payment ${payment.id}, skipping`);
+          continue;
+        }
+        const splitAmount = Number(share.amount_owed);
 
         // Get payer name
         const { data: payerProfile } = await supabase
@@ -81,6 +98,8 @@ Deno.serve(async (req) => {
               reminder_count: reminder.reminder_count + 1,
               split_amount: splitAmount,
               venmo_username: payment.payer_venmo_username,
+              paypal_username: payment.payer_paypal_username,
+              zelle_handle: payment.payer_zelle_handle,
             }
           });
 
@@ -89,6 +108,34 @@ Deno.serve(async (req) => {
           continue;
         }
 
+        // Email the reminder with links to pay the payer back
+        const { data: recipient } = await supabase
+          .from('profiles')
+          .select('email')
+          .eq('id', reminder.user_id)
+          .single();
+
+        const [email] = await filterRecipients(supabase, recipient?.email ? [recipient.email] : [], 'payment_reminder');
+
+        if (email) {
+          const { error: emailError } = await supabase.functions.invoke('send-ride-notification', {
+            body: {
+              type: 'payment_reminder',
+              rideId: payment.ride_id,
+              recipientEmails: [email],
+              actorName: payerProfile?.name || 'a member',
+              eventName: payment.ride_groups.events.name,
+              splitAmount,
+              paymentId: payment.id,
+              idempotencyKey: `payment_reminder:${reminder.id}:${reminder.reminder_count + 1}`,
+            }
+          });
+
+          if (emailError) {
+            console.error(`Error emailing reminder to user ${reminder.user_id}:`, emailError);
+          }
+        }
+
         // Update reminder record
         const { error: updateError } = await supabase
           .from('payment_reminders')
@@ -0,0 +1,200 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import webpush from 'npm:web-push@3.6.7';
+import { notificationPath } from '../_shared/notificationRoutes.ts';
+import { hasFunctionSecret } from '../_shared/functionSecret.ts';
+
+// Called by the push_new_notification database trigger for every new
+// notifications row, and pushes it to each device the user subscribed.
+//
+// VAPID keys live in the VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY secrets, with
+// the same public key in the app's VITE_VAPID_PUBLIC_KEY. Generate a pair
+// with `npx web-push generate-vapid-keys`. After rotating them, devices
+// re-subscribe the next time the app is opened; until then their old
+// subscriptions are rejected and removed here.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-function-secret',
+};
+
+interface PushSubscriptionRow {
+  id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!hasFunctionSecret(req)) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const vapidPublicKey = Deno.env.get('VAPID_PUBLIC_KEY');
+    const vapidPrivateKey = Deno.env.get('VAPID_PRIVATE_KEY');
+
+    if (!vapidPublicKey || !vapidPrivateKey) {
+      throw new Error('VAPID keys are not configured');
+    }
+
+    webpush.setVapidDetails(
+      Deno.env.get('VAPID_SUBJECT') || 'mailto:notifications@berkeleyrides.com',
+      vapidPublicKey,
+      vapidPrivateKey
+    );
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const payload = await req.json();
+    const notificationId = payload.record?.id;
+    if (!notificationId) {
+      return new Response(
+        JSON.stringify({ error: 'Missing notification record' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Re-read the row rather than trusting the payload
+    const { data: notification, error: notificationError } = await supabase
+      .from('notifications')
+      .select('id, user_id, ride_id, type, title, message, metadata')
+      .eq('id', notificationId)
+      .is('push_sent_at', null)
+      .maybeSingle();
+
+    if (notificationError) throw notificationError;
+
+    if (!notification) {
+      console.log(`Notification ${notificationId} already pushed or gone, skipping`);
+      return new Response(
+        JSON.stringify({ success: true, sent: 0 }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: wantsPush, error: prefError } = await supabase.rpc('wants_notification', {
+      p_user_id: notification.user_id,
+      p_type: notification.type,
+      p_channel: 'push',
+    });
+
+    if (prefError) {
+      console.error(`Error checking push preference for user ${notification.user_id}:`, prefError);
+    } else if (!wantsPush) {
+      console.log(`User ${notification.user_id} muted ${notification.type} pushes or is in quiet hours`);
+      return new Response(
+        JSON.stringify({ success: true, sent: 0 }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Claim the row only now it's really going out, so a retried request
+    // doesn't push the same notification twice
+    const { data: claimed, error: claimError } = await supabase
+      .from('notifications')
+      .update({ push_sent_at: new Date().toISOString() })
+      .eq('id', notification.id)
+      .is('push_sent_at', null)
+      .select('id')
+      .maybeSingle();
+
+    if (claimError) throw claimError;
+
+    if (!claimed) {
+      console.log(`Notification ${notificationId} already pushed, skipping`);
+      return new Response(
+        JSON.stringify({ success: true, sent: 0 }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: subscriptions, error: subsError } = await supabase
+      .from('push_subscriptions')
+      .select('id, endpoint, p256dh, auth')
+      .eq('user_id', notification.user_id);
+
+    if (subsError) throw subsError;
+
+    if (!subscriptions || subscriptions.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, sent: 0 }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const eventId = (notification.metadata as { event_id?: string } | null)?.event_id ?? null;
+
+    const body = JSON.stringify({
+      title: notification.title,
+      body: notification.message,
+      url: notificationPath(notification.type, notification.ride_id, eventId),
+      tag: notification.id,
+    });
+
+    const results = await Promise.allSettled(
+      (subscriptions as PushSubscriptionRow[]).map(subscription =>
+        webpush.sendNotification(
+          { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+          body,
+          { TTL: 60 * 60 * 12 }
+        )
+      )
+    );
+
+    const expiredIds: string[] = [];
+    const deliveredIds: string[] = [];
+
+    results.forEach((result, index) => {
+      const subscription = subscriptions[index];
+      if (result.status === 'fulfilled') {
+        deliveredIds.push(subscription.id);
+        return;
+      }
+
+      // 404/410: the browser dropped the subscription. 403: it was made
+      // with VAPID keys we no longer use.
+      const statusCode = (result.reason as { statusCode?: number })?.statusCode;
+      if (statusCode === 404 || statusCode === 410 || statusCode === 403) {
+        expiredIds.push(subscription.id);
+      } else {
+        console.error(`Error pushing to subscription ${subscription.id}:`, result.reason);
+      }
+    });
+
+    if (expiredIds.length > 0) {
+      await supabase.from('push_subscriptions').delete().in('id', expiredIds);
+      console.log(`Removed ${expiredIds.length} expired push subscriptions`);
+    }
+
+    if (deliveredIds.length > 0) {
+      await supabase
+        .from('push_subscriptions')
+        .update({ last_used_at: new Date().toISOString() })
+        .in('id', deliveredIds);
+    }
+
+    console.log(`Pushed notification ${notification.id} to ${deliveredIds.length}/${subscriptions.length} devices`);
+
+    return new Response(
+      JSON.stringify({ success: true, sent: deliveredIds.length, expired: expiredIds.length }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error in send-push-notification:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { loadEmailTemplate, renderEmail } from '../_shared/emailTemplates.ts';
+import { enqueueEmails } from '../_shared/emailOutbox.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -199,121 +201,27 @@ const handler = async (req: Request): Promise<Response> => {
       minute: '2-digit'
     });
 
-    // Use Lovable AI to generate personalized email content
-    const aiPrompt = `Generate a friendly, professional invitation email for a ride-sharing service called "Berkeley Rides". 
-    
-Details:
-- Inviter: ${inviterName}
-- Event: ${event.name}
-- Destination: ${event.destination}, ${event.city}
-- Date: ${eventDate}
-- Travel Mode: ${rideDetails.travel_mode}
-${rideDetails.meeting_point ? `- Meeting Point: ${rideDetails.meeting_point}` : ''}
-
-The email should:
-1. Be warm and welcoming
-2. Clearly explain the ride details
-3. Mention that they need to create an account to join
-4. Include a note that the link expires in 3 days
-5. Be formatted in plain text (no HTML)
-
-Keep it concise and friendly.`;
-
-    const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${Deno.env.get('LOVABLE_API_KEY')}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          { role: 'system', content: 'You are a helpful assistant that writes friendly invitation emails.' },
-          { role: 'user', content: aiPrompt }
-        ],
-      }),
-    });
-
-    if (!aiResponse.ok) {
-      console.error('AI generation failed:', await aiResponse.text());
-      throw new Error('Failed to generate email content');
-    }
-
-    const aiData = await aiResponse.json();
-    const emailBody = aiData.choices[0].message.content;
-
-    // Send email using Supabase's built-in email functionality
-    const emailHtml = `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <style>
-          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-          .header { background: #8B5CF6; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
-          .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; white-space: pre-wrap; }
-          .button { 
-            display: inline-block; 
-            padding: 12px 24px; 
-            background: #8B5CF6; 
-            color: white !important; 
-            text-decoration: none; 
-            border-radius: 6px;
-            margin: 20px 0;
-          }
-          .footer { text-align: center; color: #666; font-size: 12px; margin-top: 20px; }
-        </style>
-      </head>
-      <body>
-        <div class="container">
-          <div class="header">
-            <h1>🚗 You're Invited to Join a Ride!</h1>
-          </div>
-          <div class="content">
-            ${emailBody}
-            
-            <div style="text-align: center; margin-top: 30px;">
-              <a href="${registrationLink}" class="button">Create Account & Join Ride</a>
-            </div>
-          </div>
-          <div class="footer">
-            <p>Berkeley Rides - Connecting students for safe, affordable travel</p>
-          </div>
-        </div>
-      </body>
-      </html>
-    `;
-
-    // Use Supabase Auth admin to send the email
-    const { error: emailError } = await supabaseAdmin.auth.admin.inviteUserByEmail(recipientEmail, {
-      data: {
-        invite_token: inviteToken,
-        ride_id: rideId,
-        inviter_name: inviterName
-      },
-      redirectTo: registrationLink
+    const template = await loadEmailTemplate(supabaseAdmin, 'ride_invite');
+    const email = renderEmail<'ride_invite'>(template, {
+      inviterName,
+      eventName: event.name,
+      destination: [event.destination, event.city].filter(Boolean).join(', '),
+      eventDate,
+      travelMode: rideDetails.travel_mode,
+      meetingPoint: rideDetails.meeting_point,
+      registrationLink,
+      expiresIn: '3 days',
     });
 
-    if (emailError) {
-      console.error('Email sending failed:', emailError);
-      
-      // Fallback: Create a magic link instead
-      const { data: linkData, error: linkError } = await supabaseAdmin.auth.admin.generateLink({
-        type: 'magiclink',
-        email: recipientEmail,
-        options: {
-          redirectTo: registrationLink
-        }
-      });
-
-      if (linkError) {
-        throw new Error('Failed to send invitation email');
-      }
-      
-      console.log('Used magic link fallback');
-    }
+    // Each invite has its own token, so it doubles as the idempotency key
+    await enqueueEmails(supabaseAdmin, email, [{
+      recipient: recipientEmail,
+      notificationType: 'ride_invite',
+      rideId,
+      idempotencyKey: `ride_invite:${inviteToken}`,
+    }]);
 
-    console.log('Invitation email sent successfully');
+    console.log('Invitation email queued');
 
     return new Response(
       JSON.stringify({ 
@@ -1,26 +1,25 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.76.1";
-import { Resend } from "https://esm.sh/resend@4.0.0";
-
-const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+import { buildPaymentNote, buildPaymentOptions } from "../_shared/paymentLinks.ts";
+import { filterRecipients } from "../_shared/notificationPreferences.ts";
+import {
+  EmailTemplateType,
+  EmailTemplateVariables,
+  loadEmailTemplate,
+  renderEmail,
+} from "../_shared/emailTemplates.ts";
+import { contentIdempotencyKey, enqueueEmails } from "../_shared/emailOutbox.ts";
+import { isSmsNotificationType, sendSmsNotifications } from "../_shared/sms.ts";
+import { hasFunctionSecret } from "../_shared/functionSecret.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type",
+    "authorization, x-client-info, apikey, content-type, x-function-secret",
 };
 
 interface NotificationRequest {
-  type: 
-    | "member_joined"
-    | "member_left"
-    | "payment_request"
-    | "ride_deleted"
-    | "ride_updated"
-    | "meeting_point_changed"
-    | "new_chat_message"
-    | "attendance_survey"
-    | "attendance_survey_reminder";
+  type: Exclude<EmailTemplateType, "ride_invite">;
   rideId: string;
   recipientEmails: string[];
   actorName?: string;
@@ -32,8 +31,148 @@ interface NotificationRequest {
   departureTime?: string;
   capacity?: number;
   surveyDeadline?: string;
+  paymentId?: string;
+  memberNames?: string[];
+  unreadCount?: number;
+  digestMessages?: DigestMessage[];
+  messageId?: string;
+  // Set when the same content may legitimately be sent again, e.g. one
+  // per payment reminder
+  idempotencyKey?: string;
+}
+
+interface DigestMessage {
+  sender: string;
+  message: string;
+  created_at: string;
 }
 
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+// Pay buttons (and their plain-text equivalent) for whatever handles the
+// payer had when the payment was recorded
+const buildPaymentLinks = async (
+  supabase: ReturnType<typeof createClient>,
+  paymentId: string | undefined,
+  amountOwed: number | undefined,
+  eventName: string,
+  rideDate: string | null
+): Promise<{ html: string; text: string }> => {
+  if (!paymentId || !amountOwed) return { html: "", text: "" };
+
+  const { data: payment } = await supabase
+    .from("uber_payments")
+    .select("payer_venmo_username, payer_paypal_username, payer_zelle_handle")
+    .eq("id", paymentId)
+    .single();
+
+  if (!payment) return { html: "", text: "" };
+
+  const options = buildPaymentOptions(
+    {
+      venmo_username: payment.payer_venmo_username,
+      paypal_username: payment.payer_paypal_username,
+      zelle_handle: payment.payer_zelle_handle,
+    },
+    amountOwed,
+    buildPaymentNote(eventName, rideDate)
+  );
+
+  const label = `Pay $${amountOwed.toFixed(2)} with`;
+  return {
+    html: options
+      .map((option) =>
+        option.href
+          ? `<p><a href="${option.href}" style="display: inline-block; padding: 10px 20px; background-color: #3b82f6; color: white; text-decoration: none; border-radius: 5px; margin: 4px 0;">${label} ${option.label}</a></p>`
+          : `<p><strong>${option.label}:</strong> ${option.handle}</p>`
+      )
+      .join(""),
+    text: options
+      .map((option) => (option.href ? `${label} ${option.label}: ${option.href}` : `${option.label}: ${option.handle}`))
+      .join("\n"),
+  };
+};
+
+// Promotion emails only reach members promoted in the last few minutes, so a
+// member can't resend one to the rest of the ride
+const PROMOTION_NOTICE_MINUTES = 5;
+
+const canNotifyRide = async (
+  supabase: ReturnType<typeof createClient>,
+  rideId: string,
+  userId: string
+): Promise<boolean> => {
+  const { data: ride } = await supabase
+    .from("ride_groups")
+    .select("created_by")
+    .eq("id", rideId)
+    .maybeSingle();
+
+  if (!ride) return false;
+  if (ride.created_by === userId) return true;
+
+  const { data: membership } = await supabase
+    .from("ride_members")
+    .select("id")
+    .eq("ride_id", rideId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  return !!membership;
+};
+
+// Narrows the requested emails to the ride's joined members, so a caller
+// can't email or text anyone outside it
+const rideRecipientEmails = async (
+  supabase: ReturnType<typeof createClient>,
+  rideId: string,
+  type: NotificationRequest["type"],
+  requested: string[]
+): Promise<string[]> => {
+  const { data: members, error } = await supabase
+    .from("ride_members")
+    .select("user_id")
+    .eq("ride_id", rideId)
+    .eq("status", "joined");
+
+  if (error) throw error;
+
+  let userIds = (members || []).map((m) => m.user_id);
+  if (type === "waitlist_promoted" && userIds.length > 0) {
+    const { data: promotions, error: promotionError } = await supabase
+      .from("notifications")
+      .select("user_id")
+      .eq("ride_id", rideId)
+      .eq("type", "waitlist_promoted")
+      .in("user_id", userIds)
+      .gt("created_at", new Date(Date.now() - PROMOTION_NOTICE_MINUTES * 60 * 1000).toISOString());
+
+    if (promotionError) throw promotionError;
+    userIds = (promotions || []).map((p) => p.user_id);
+  }
+  if (userIds.length === 0) return [];
+
+  const { data: profiles, error: profileError } = await supabase
+    .from("profiles")
+    .select("email")
+    .in("id", userIds);
+
+  if (profileError) throw profileError;
+
+  const memberEmails = new Set((profiles || []).map((p) => p.email?.toLowerCase()));
+  return [...new Set(requested)].filter((email) => memberEmails.has(email?.toLowerCase()));
+};
+
 const handler = async (req: Request): Promise<Response> => {
   console.log("=== send-ride-notification invoked ===");
   
@@ -44,22 +183,17 @@ const handler = async (req: Request): Promise<Response> => {
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const resendKey = Deno.env.get("RESEND_API_KEY");
     
     console.log("Environment check:", {
       hasSupabaseUrl: !!supabaseUrl,
       hasSupabaseKey: !!supabaseKey,
-      hasResendKey: !!resendKey,
     });
 
-    if (!resendKey) {
-      throw new Error("RESEND_API_KEY is not configured");
-    }
-
     const supabase = createClient(supabaseUrl, supabaseKey);
 
     const authHeader = req.headers.get("authorization");
-    if (!authHeader) {
+    const isInternal = hasFunctionSecret(req);
+    if (!authHeader && !isInternal) {
       console.error("Missing authorization header");
       throw new Error("No authorization header");
     }
@@ -75,7 +209,7 @@ const handler = async (req: Request): Promise<Response> => {
     const {
       type,
       rideId,
-      recipientEmails,
+      recipientEmails: callerEmails,
       actorName,
       eventName,
       meetingPoint,
@@ -85,254 +219,201 @@ const handler = async (req: Request): Promise<Response> => {
       departureTime,
       capacity,
       surveyDeadline,
+      paymentId,
+      memberNames,
+      unreadCount,
+      digestMessages,
+      messageId,
+      idempotencyKey,
     }: NotificationRequest = requestBody;
 
-    if (!recipientEmails || recipientEmails.length === 0) {
-      console.log("No recipients provided, skipping email sending");
-      return new Response(
-        JSON.stringify({ success: true, sent: 0, failed: 0, message: "No recipients" }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    // Scheduled jobs call this with the service role key and database
+    // triggers with the function secret; anyone else has to be in the ride
+    // or have organized it
+    const jwt = authHeader?.replace(/^Bearer\s+/i, "").trim() ?? "";
+    if (!isInternal && jwt !== supabaseKey) {
+      const { data: { user } } = await supabase.auth.getUser(jwt);
+      if (!user || !(await canNotifyRide(supabase, rideId, user.id))) {
+        return new Response(JSON.stringify({ error: "You are not a member of this ride" }), {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
     }
 
-    console.log(`Processing ${type} notification for ride ${rideId}`);
-    console.log(`Recipients: ${recipientEmails.join(", ")}`);
+    const requestedEmails = await rideRecipientEmails(supabase, rideId, type, callerEmails || []);
 
     // Fetch ride details
     const { data: ride } = await supabase
       .from("ride_groups")
-      .select("departure_time, travel_mode, events(name, destination)")
+      .select("departure_time, travel_mode, events(name, destination, date_time)")
       .eq("id", rideId)
       .single();
 
-    const event = ride?.events?.[0] as { name: string; destination: string } | undefined;
+    // A to-one embed, so events is the row itself rather than an array
+    const event = ride?.events as unknown as { name: string; destination: string; date_time: string } | null;
     const finalEventName = eventName || event?.name || "your event";
     const destination = event?.destination || "";
 
     // Format departure time
-    const departureDate = ride?.departure_time
-      ? new Date(ride.departure_time).toLocaleString("en-US", {
-          weekday: "short",
-          month: "short",
-          day: "numeric",
-          hour: "numeric",
-          minute: "2-digit",
-        })
-      : "";
-
-    // Build email content based on notification type
-    let subject = "";
-    let html = "";
-
-    switch (type) {
-      case "member_joined":
-        subject = `${actorName} joined your ride to ${finalEventName}`;
-        html = `
-          <h2>New Member Joined!</h2>
-          <p><strong>${actorName}</strong> has joined your ride group to <strong>${finalEventName}</strong>.</p>
-          <p><strong>Departure:</strong> ${departureDate}</p>
-          <p><strong>Travel Mode:</strong> ${ride?.travel_mode}</p>
-          ${meetingPoint ? `<p><strong>Meeting Point:</strong> ${meetingPoint}</p>` : ""}
-          <p>Check your ride group for updates and to coordinate with your group.</p>
-        `;
-        break;
-
-      case "member_left":
-        subject = `${actorName} left your ride to ${finalEventName}`;
-        html = `
-          <h2>Member Left Ride</h2>
-          <p><strong>${actorName}</strong> has left your ride group to <strong>${finalEventName}</strong>.</p>
-          <p><strong>Departure:</strong> ${departureDate}</p>
-          <p>You may need to adjust your plans or invite someone else to fill the spot.</p>
-        `;
-        break;
-
-      case "payment_request":
-        subject = `Payment request: $${splitAmount} for ride to ${finalEventName}`;
-        html = `
-          <h2>Payment Request</h2>
-          <p><strong>${actorName}</strong> paid for your Uber ride to <strong>${finalEventName}</strong>.</p>
-          <p><strong>Total Fare:</strong> $${amount}</p>
-          <p><strong>Your Share:</strong> $${splitAmount}</p>
-          <p>Please send your payment via Venmo to settle up.</p>
-          <p><strong>Departure was:</strong> ${departureDate}</p>
-        `;
-        break;
-
-      case "ride_deleted":
-        subject = `Ride to ${finalEventName} has been cancelled`;
-        html = `
-          <h2>Ride Cancelled</h2>
-          <p>The ride group to <strong>${finalEventName}</strong> (${destination}) has been cancelled.</p>
-          <p><strong>Original Departure:</strong> ${departureDate}</p>
-          <p>You may need to find alternative transportation or join another ride group.</p>
-        `;
-        break;
-
-      case "meeting_point_changed":
-        subject = `Meeting point set for ride to ${finalEventName}`;
-        html = `
-          <h2>Meeting Point Confirmed</h2>
-          <p>The meeting point for your ride to <strong>${finalEventName}</strong> has been set.</p>
-          <p><strong>Meeting Point:</strong> ${meetingPoint}</p>
-          <p><strong>Departure:</strong> ${departureDate}</p>
-          <p><strong>Travel Mode:</strong> ${ride?.travel_mode}</p>
-          <p>Make sure to arrive on time!</p>
-        `;
-        break;
-
-      case "ride_updated":
-        const updatedDepartureDate = departureTime
-          ? new Date(departureTime).toLocaleString("en-US", {
-              weekday: "short",
-              month: "short",
-              day: "numeric",
-              hour: "numeric",
-              minute: "2-digit",
-            })
-          : departureDate;
-        subject = `Ride to ${finalEventName} has been updated`;
-        html = `
-          <h2>Ride Details Updated</h2>
-          <p><strong>${actorName}</strong> has updated the details for your ride to <strong>${finalEventName}</strong>.</p>
-          <p><strong>Updated Departure:</strong> ${updatedDepartureDate}</p>
-          ${capacity ? `<p><strong>Updated Capacity:</strong> ${capacity} people</p>` : ""}
-          ${meetingPoint ? `<p><strong>Updated Meeting Point:</strong> ${meetingPoint}</p>` : ""}
-          <p><strong>Travel Mode:</strong> ${ride?.travel_mode}</p>
-          <p>Please check the ride details to ensure you're aware of the changes.</p>
-        `;
-        break;
-
-      case "new_chat_message":
-        subject = `New message in your ride to ${finalEventName}`;
-        html = `
-          <h2>New Chat Message</h2>
-          <p><strong>${actorName}</strong> sent a message in your ride group to <strong>${finalEventName}</strong>.</p>
-          <p><em>"${messagePreview}"</em></p>
-          <p><strong>Departure:</strong> ${departureDate}</p>
-          <p><a href="${Deno.env.get("FRONTEND_URL")}/rides/${rideId}?openChat=true" style="display: inline-block; padding: 10px 20px; background-color: #3b82f6; color: white; text-decoration: none; border-radius: 5px; margin: 10px 0;">View Chat</a></p>
-          <p>Log in to view the full conversation and respond.</p>
-        `;
-        break;
-
-      case "attendance_survey":
-        const deadlineDate = surveyDeadline
-          ? new Date(surveyDeadline).toLocaleString("en-US", {
-              weekday: "short",
-              month: "short",
-              day: "numeric",
-              hour: "numeric",
-              minute: "2-digit",
-            })
-          : "";
-        subject = `🚗 Rate your ride companions for ${finalEventName}`;
-        html = `
-          <h2>Your Ride Has Ended!</h2>
-          <p>Please confirm who showed up for your ride to <strong>${finalEventName}</strong>.</p>
-          <p><strong>Why this matters:</strong> Your response helps build trust in our community and ensures accurate ride completion records.</p>
-          <p><strong>Deadline:</strong> ${deadlineDate} (48 hours)</p>
-          <p><a href="${Deno.env.get("FRONTEND_URL")}/my-rides" style="display: inline-block; padding: 10px 20px; background-color: #3b82f6; color: white; text-decoration: none; border-radius: 5px; margin: 10px 0;">Confirm Attendance</a></p>
-          <p>This will only take a moment – just check off who was there!</p>
-        `;
-        break;
-
-      case "attendance_survey_reminder":
-        subject = `⏰ Reminder: Rate your ride companions for ${finalEventName}`;
-        html = `
-          <h2>Reminder: Attendance Confirmation Needed</h2>
-          <p>You haven't confirmed who showed up for your ride to <strong>${finalEventName}</strong> yet.</p>
-          <p><strong>Your response is important!</strong> It helps maintain trust and accountability in our ride-sharing community.</p>
-          <p>Please take a moment to confirm attendance before the deadline.</p>
-          <p><a href="${Deno.env.get("FRONTEND_URL")}/my-rides" style="display: inline-block; padding: 10px 20px; background-color: #ef4444; color: white; text-decoration: none; border-radius: 5px; margin: 10px 0;">Confirm Now</a></p>
-          <p><em>If enough members don't respond, we won't be able to credit ride completions.</em></p>
-        `;
-        break;
+    const departureDate = ride?.departure_time ? formatDate(ride.departure_time) : "";
+
+    const rideUrl = `${Deno.env.get("FRONTEND_URL")}/rides/${rideId}`;
+    const chatUrl = `${rideUrl}?openChat=true`;
+    const myRidesUrl = `${Deno.env.get("FRONTEND_URL")}/my-rides`;
+    const travelMode = ride?.travel_mode || "";
+
+    // Urgent changes also go out by text. SMS has its own preferences, so
+    // this uses the recipients before the email filter below.
+    if (isSmsNotificationType(type)) {
+      const smsDeparture = departureTime || ride?.departure_time;
+      const texted = await sendSmsNotifications(supabase, type, requestedEmails, {
+        eventName: finalEventName,
+        departure: smsDeparture
+          ? new Date(smsDeparture).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit", timeZone: "America/Los_Angeles" })
+          : undefined,
+        meetingPoint,
+        rideUrl,
+      });
+      console.log(`Sent ${texted} SMS notifications`);
     }
 
-    // Helper function to add delay between batches
-    const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-    // Send emails in batches to respect Resend rate limits (2 per second)
-    const BATCH_SIZE = 2;
-    const DELAY_MS = 1100; // Slightly over 1 second to be safe
-
-    console.log(`Sending emails with subject: "${subject}"`);
-
-    const results: PromiseSettledResult<any>[] = [];
-
-    for (let i = 0; i < recipientEmails.length; i += BATCH_SIZE) {
-      const batch = recipientEmails.slice(i, i + BATCH_SIZE);
-      
-      console.log(`Processing batch ${Math.floor(i / BATCH_SIZE) + 1}: ${batch.join(", ")}`);
-      
-      const batchPromises = batch.map(async (email) => {
-        console.log(`Attempting to send email to: ${email}`);
-        return await resend.emails.send({
-          from: "Berkeley Rides <notifications@berkeleyrides.com>",
-          to: [email],
-          subject: subject,
-          html: html,
-        });
-      });
-      
-      const batchResults = await Promise.allSettled(batchPromises);
-      results.push(...batchResults);
-      
-      // Add delay between batches (but not after the last batch)
-      if (i + BATCH_SIZE < recipientEmails.length) {
-        console.log(`Waiting ${DELAY_MS}ms before next batch...`);
-        await delay(DELAY_MS);
-      }
+    // Respect each recipient's email preferences and quiet hours
+    const recipientEmails = await filterRecipients(supabase, requestedEmails, type);
+    if (recipientEmails.length < requestedEmails.length) {
+      console.log(`Skipping ${requestedEmails.length - recipientEmails.length} recipients who opted out or are in quiet hours`);
     }
-    
-    const successCount = results.filter((r) => r.status === "fulfilled").length;
-    const failureCount = results.filter((r) => r.status === "rejected").length;
-    
-    // Collect failed recipients
-    const failedRecipients: string[] = [];
-    let errorMessage = "";
-    
-    // Log detailed results
-    results.forEach((result, index) => {
-      if (result.status === "rejected") {
-        console.error(`Failed to send to ${recipientEmails[index]}:`, result.reason);
-        failedRecipients.push(recipientEmails[index]);
-        errorMessage = result.reason?.message || String(result.reason);
-      } else {
-        console.log(`Successfully sent to ${recipientEmails[index]}`);
-      }
-    });
 
-    console.log(`=== Email send complete: ${successCount} succeeded, ${failureCount} failed ===`);
-
-    // Log to database
-    try {
-      const { error: logError } = await supabase
-        .from('email_notification_logs')
-        .insert({
-          ride_id: rideId,
-          message_id: requestBody.messageId || null,
-          recipient_emails: recipientEmails,
-          notification_type: type,
-          success: failureCount === 0,
-          failed_recipients: failedRecipients.length > 0 ? failedRecipients : null,
-          error_message: errorMessage || null,
-        });
-      
-      if (logError) {
-        console.error("Failed to log email notification:", logError);
-      } else {
-        console.log("Email notification logged to database");
-      }
-    } catch (logErr) {
-      console.error("Error logging notification to database:", logErr);
+    if (recipientEmails.length === 0) {
+      console.log("No recipients to email, skipping email sending");
+      return new Response(
+        JSON.stringify({ success: true, queued: 0, message: "No recipients" }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
+    console.log(`Processing ${type} notification for ride ${rideId}`);
+    console.log(`Recipients: ${recipientEmails.join(", ")}`);
+
+    // Variables for this notification's email template
+    const buildVariables = async (): Promise<EmailTemplateVariables[typeof type]> => {
+      switch (type) {
+        case "member_joined":
+          return { actorName, eventName: finalEventName, departure: departureDate, travelMode, meetingPoint };
+
+        case "waitlist_promoted":
+          return { eventName: finalEventName, departure: departureDate, travelMode, meetingPoint, rideUrl };
+
+        case "ride_starting_soon":
+          return {
+            eventName: finalEventName,
+            departure: departureDate,
+            meetingPoint: meetingPoint || "Not set yet. Check the ride chat.",
+            travelMode,
+            memberNames: memberNames?.join(", "),
+            chatUrl,
+          };
+
+        case "member_left":
+          return { actorName, eventName: finalEventName, departure: departureDate };
+
+        case "payment_request": {
+          const links = await buildPaymentLinks(supabase, paymentId, splitAmount, finalEventName, event?.date_time ?? null);
+          return {
+            actorName,
+            eventName: finalEventName,
+            departure: departureDate,
+            totalFare: String(amount),
+            splitAmount: String(splitAmount),
+            paymentLinksHtml: links.html,
+            paymentLinksText: links.text,
+          };
+        }
+
+        case "payment_reminder": {
+          const links = await buildPaymentLinks(supabase, paymentId, splitAmount, finalEventName, event?.date_time ?? null);
+          return {
+            actorName,
+            eventName: finalEventName,
+            splitAmount: splitAmount?.toFixed(2) ?? "",
+            paymentLinksHtml: links.html,
+            paymentLinksText: links.text,
+            myRidesUrl,
+          };
+        }
+
+        case "ride_deleted":
+          return { eventName: finalEventName, destination, departure: departureDate };
+
+        case "meeting_point_changed":
+          return { eventName: finalEventName, meetingPoint, departure: departureDate, travelMode };
+
+        case "ride_updated":
+          return {
+            actorName,
+            eventName: finalEventName,
+            departure: departureTime ? formatDate(departureTime) : departureDate,
+            capacity,
+            meetingPoint,
+            travelMode,
+          };
+
+        case "new_chat_message":
+          return { actorName, eventName: finalEventName, departure: departureDate, messagePreview, chatUrl };
+
+        case "chat_digest": {
+          const shown = digestMessages || [];
+          const hidden = (unreadCount || shown.length) - shown.length;
+          const sentAt = (m: DigestMessage) =>
+            new Date(m.created_at).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit", timeZone: "America/Los_Angeles" });
+          return {
+            eventName: finalEventName,
+            departure: departureDate,
+            messageCount: `${unreadCount} new message${unreadCount === 1 ? "" : "s"}`,
+            hiddenCount: hidden > 0 ? `${hidden} earlier message${hidden === 1 ? "" : "s"}` : undefined,
+            messagesHtml: shown
+              .map(
+                (m) => `<p><strong>${escapeHtml(m.sender)}</strong> <span style="color: #6b7280; font-size: 12px;">${sentAt(m)}</span><br>${escapeHtml(m.message)}</p>`
+              )
+              .join(""),
+            messagesText: shown.map((m) => `${m.sender} (${sentAt(m)}): ${m.message}`).join("\n"),
+            chatUrl,
+          };
+        }
+
+        case "attendance_survey":
+          return { eventName: finalEventName, deadline: surveyDeadline ? formatDate(surveyDeadline) : "", myRidesUrl };
+
+        case "attendance_survey_reminder":
+          return { eventName: finalEventName, myRidesUrl };
+      }
+    };
+
+    const template = await loadEmailTemplate(supabase, type);
+    const email = renderEmail(template, await buildVariables());
+
+    // One outbox row per recipient; process-email-outbox sends them and
+    // retries any that fail
+    const baseKey = idempotencyKey
+      || (messageId ? `${type}:${messageId}` : await contentIdempotencyKey(type, rideId, email));
+    const queued = await enqueueEmails(
+      supabase,
+      email,
+      recipientEmails.map((recipient) => ({
+        recipient,
+        notificationType: type,
+        rideId,
+        messageId,
+        idempotencyKey: baseKey,
+      }))
+    );
+
+    console.log(`=== Queued ${queued} of ${recipientEmails.length} emails with subject "${email.subject}" (template v${email.version}) ===`);
+
     return new Response(
       JSON.stringify({
         success: true,
-        sent: successCount,
-        failed: failureCount,
+        queued,
       }),
       {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
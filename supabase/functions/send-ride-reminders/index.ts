@@ -0,0 +1,181 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { hasFunctionSecret } from '../_shared/functionSecret.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-function-secret',
+};
+
+// How long before departure riders get the "starting soon" reminder.
+// Runs on a schedule, so anything departing within the window is picked up
+// on the first run after it opens.
+const REMINDER_LEAD_MINUTES = 120;
+
+interface RideMember {
+  user_id: string;
+  status: string;
+  profiles: { name: string; email: string } | null;
+}
+
+const formatDeparture = (departureTime: string) =>
+  new Date(departureTime).toLocaleString('en-US', {
+    weekday: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: 'America/Los_Angeles',
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Only the scheduled job may send reminders
+  if (!hasFunctionSecret(req)) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    console.log('Starting ride reminders check...');
+
+    // Step 1: group_ready / group_full for every upcoming ride.
+    // Repeats and muted members are dropped by the database.
+    const { data: milestonesSent, error: milestoneError } = await supabase
+      .rpc('notify_ride_milestones', { p_ride_id: null });
+
+    if (milestoneError) {
+      console.error('Error sending ride milestones:', milestoneError);
+    } else {
+      console.log(`Sent ${milestonesSent} group ready/full notifications`);
+    }
+
+    // Step 2: "starting soon" reminders for rides leaving within the window
+    const now = new Date();
+    const windowEnd = new Date(now.getTime() + REMINDER_LEAD_MINUTES * 60 * 1000);
+
+    const { data: rides, error: ridesError } = await supabase
+      .from('ride_groups')
+      .select(`
+        id,
+        departure_time,
+        meeting_point,
+        travel_mode,
+        events!inner(name),
+        ride_members(user_id, status, profiles(name, email))
+      `)
+      .eq('status', 'active')
+      .gt('departure_time', now.toISOString())
+      .lte('departure_time', windowEnd.toISOString());
+
+    if (ridesError) {
+      console.error('Error fetching upcoming rides:', ridesError);
+      throw ridesError;
+    }
+
+    console.log(`Found ${rides?.length || 0} rides departing in the next ${REMINDER_LEAD_MINUTES} minutes`);
+
+    let remindersSent = 0;
+
+    for (const ride of rides || []) {
+      const eventInfo = ride.events as unknown as { name: string };
+      const members = ((ride.ride_members || []) as unknown as RideMember[]).filter(m => m.status === 'joined');
+      if (members.length === 0) continue;
+
+      const memberNames = members.map(m => m.profiles?.name).filter(Boolean);
+      const departure = formatDeparture(ride.departure_time);
+      const meetingPoint = ride.meeting_point || 'the meeting point (not set yet)';
+
+      // Members reminded on an earlier run are already in the log
+      const { data: alreadySent } = await supabase
+        .from('ride_notification_log')
+        .select('user_id')
+        .eq('ride_id', ride.id)
+        .eq('type', 'ride_starting_soon');
+
+      const sentIds = new Set((alreadySent || []).map(l => l.user_id));
+      const toRemind = members.filter(m => !sentIds.has(m.user_id));
+      if (toRemind.length === 0) continue;
+
+      // Members who muted in-app reminders are dropped by the database
+      const { error: notifError } = await supabase
+        .from('notifications')
+        .insert(toRemind.map(member => ({
+          user_id: member.user_id,
+          ride_id: ride.id,
+          type: 'ride_starting_soon',
+          title: 'Your ride leaves soon',
+          message: `Your ride to ${eventInfo.name} leaves at ${departure} from ${meetingPoint}. Riding with ${memberNames.join(', ')}.`,
+          metadata: {
+            departure_time: ride.departure_time,
+            meeting_point: ride.meeting_point,
+            member_names: memberNames,
+          }
+        })));
+
+      if (notifError) {
+        console.error(`Error creating reminders for ride ${ride.id}:`, notifError);
+        continue;
+      }
+
+      remindersSent += toRemind.length;
+
+      // send-ride-notification checks email and SMS preferences separately
+      const emails = toRemind.map(m => m.profiles?.email).filter(Boolean);
+
+      if (emails.length > 0) {
+        const { error: emailError } = await supabase.functions.invoke('send-ride-notification', {
+          body: {
+            type: 'ride_starting_soon',
+            rideId: ride.id,
+            recipientEmails: emails,
+            eventName: eventInfo.name,
+            meetingPoint: ride.meeting_point,
+            memberNames,
+          }
+        });
+
+        if (emailError) {
+          console.error(`Error emailing reminders for ride ${ride.id}:`, emailError);
+        }
+      }
+
+      console.log(`Sent starting-soon reminders to ${toRemind.length} members of ride ${ride.id}`);
+    }
+
+    // Step 3: live locations left behind by members who closed the app
+    // without stopping sharing
+    const { data: locationsPurged, error: purgeError } = await supabase
+      .rpc('delete_expired_live_locations');
+
+    if (purgeError) {
+      console.error('Error deleting expired live locations:', purgeError);
+    } else {
+      console.log(`Deleted ${locationsPurged} expired live locations`);
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        milestones_sent: milestonesSent || 0,
+        reminders_sent: remindersSent,
+        live_locations_deleted: locationsPurged || 0,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error in send-ride-reminders:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,290 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { GOOGLE_CALENDAR_API, getGoogleAccessToken, googleEventIdForRide, isInsufficientScope } from '../_shared/googleCalendar.ts';
+import { hasFunctionSecret } from '../_shared/functionSecret.ts';
+
+// Called by the sync_google_calendar_* database triggers. Members who have
+// connected Google Calendar get an event for every ride they've joined,
+// updated when the ride's time or meeting point changes and deleted when
+// they leave or the ride is removed. Members who haven't connected one are
+// skipped. The request only names the changed row; what to write or delete
+// always comes from the database.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-function-secret',
+};
+
+// Rides don't record an arrival time, so each event blocks out this long
+const RIDE_DURATION_MINUTES = 60;
+// Removals handled per request; the rest wait for the next one
+const DELETE_BATCH_SIZE = 50;
+
+interface SyncRequest {
+  type: 'INSERT' | 'UPDATE' | 'DELETE';
+  table: string;
+  id: string;
+}
+
+interface RideDetails {
+  id: string;
+  departure_time: string;
+  meeting_point: string | null;
+  travel_mode: string;
+  events: {
+    name: string;
+    destination: string;
+    city: string;
+  };
+}
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+const loadRide = async (supabase: SupabaseClient, rideId: string): Promise<RideDetails | null> => {
+  const { data, error } = await supabase
+    .from('ride_groups')
+    .select('id, departure_time, meeting_point, travel_mode, events!inner(name, destination, city)')
+    .eq('id', rideId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as unknown as RideDetails | null;
+};
+
+// Flags the connection so the member is asked to connect again, instead of
+// failing every sync for them
+const markNeedsReconnect = async (supabase: SupabaseClient, userId: string) => {
+  const { error } = await supabase
+    .from('calendar_tokens')
+    .update({ needs_reconnect: true })
+    .eq('user_id', userId)
+    .eq('provider', 'google');
+  if (error) throw error;
+};
+
+// Creates or updates the member's event for this ride and returns its id,
+// or null if their connection can't write events
+const upsertRideEvent = async (accessToken: string, ride: RideDetails) => {
+  const eventId = googleEventIdForRide(ride.id);
+  const frontendUrl = (Deno.env.get('FRONTEND_URL') || 'https://rizftvjircbgfsamrvdf.lovable.app').replace(/\/$/, '');
+  const rideUrl = `${frontendUrl}/rides/${ride.id}`;
+  const start = new Date(ride.departure_time);
+  const end = new Date(start.getTime() + RIDE_DURATION_MINUTES * 60 * 1000);
+
+  const event = {
+    summary: `Ride to ${ride.events.name}`,
+    location: ride.meeting_point || `${ride.events.destination}, ${ride.events.city}`,
+    description: [
+      `Destination: ${ride.events.destination}, ${ride.events.city}`,
+      `Travel mode: ${ride.travel_mode}`,
+      `Meeting point: ${ride.meeting_point || 'Not decided yet'}`,
+      '',
+      rideUrl,
+    ].join('\n'),
+    start: { dateTime: start.toISOString() },
+    end: { dateTime: end.toISOString() },
+    source: { title: 'Berkeley Rideshare Hub', url: rideUrl },
+    status: 'confirmed',
+  };
+
+  const headers = {
+    'Authorization': `Bearer ${accessToken}`,
+    'Content-Type': 'application/json',
+  };
+
+  // Patch first: Google keeps deleted events as cancelled, so this also
+  // brings back the event for someone who left and rejoined
+  let response = await fetch(`${GOOGLE_CALENDAR_API}/events/${eventId}`, {
+    method: 'PATCH',
+    headers,
+    body: JSON.stringify(event),
+  });
+
+  if (response.status === 404) {
+    response = await fetch(`${GOOGLE_CALENDAR_API}/events`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ id: eventId, ...event }),
+    });
+  }
+
+  if (!response.ok) {
+    const body = await response.text();
+    if (isInsufficientScope(response.status, body)) return null;
+    throw new Error(`Google Calendar returned ${response.status}: ${body}`);
+  }
+
+  return eventId;
+};
+
+// Returns false if the member's connection can't delete events
+const deleteRideEvent = async (accessToken: string, eventId: string) => {
+  const response = await fetch(`${GOOGLE_CALENDAR_API}/events/${eventId}`, {
+    method: 'DELETE',
+    headers: { 'Authorization': `Bearer ${accessToken}` },
+  });
+
+  // Already gone if the member deleted it themselves
+  if (!response.ok && response.status !== 404 && response.status !== 410) {
+    const body = await response.text();
+    if (isInsufficientScope(response.status, body)) return false;
+    throw new Error(`Google Calendar returned ${response.status}: ${body}`);
+  }
+  return true;
+};
+
+const syncMembership = async (supabase: SupabaseClient, membershipId: string) => {
+  const { data: membership, error } = await supabase
+    .from('ride_members')
+    .select('user_id, ride_id, status')
+    .eq('id', membershipId)
+    .maybeSingle();
+
+  if (error) throw error;
+  // Leaving is handled from the rows the trigger marked for removal
+  if (membership?.status !== 'joined') return 0;
+
+  const accessToken = await getGoogleAccessToken(supabase, membership.user_id);
+  if (!accessToken) return 0;
+
+  const ride = await loadRide(supabase, membership.ride_id);
+  if (!ride) return 0;
+
+  const eventId = await upsertRideEvent(accessToken, ride);
+  if (!eventId) {
+    await markNeedsReconnect(supabase, membership.user_id);
+    return 0;
+  }
+
+  // Rejoining before an earlier removal ran keeps the event
+  const { error: recordError } = await supabase
+    .from('google_calendar_events')
+    .upsert({
+      user_id: membership.user_id,
+      ride_id: membership.ride_id,
+      google_event_id: eventId,
+      pending_delete: false,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'user_id,ride_id' });
+  if (recordError) throw recordError;
+  return 1;
+};
+
+const syncRide = async (supabase: SupabaseClient, rideId: string) => {
+  const ride = await loadRide(supabase, rideId);
+  if (!ride) return 0;
+
+  const { data: events, error } = await supabase
+    .from('google_calendar_events')
+    .select('user_id')
+    .eq('ride_id', rideId)
+    .eq('pending_delete', false);
+
+  if (error) throw error;
+
+  let synced = 0;
+  for (const event of events || []) {
+    // One member's revoked access shouldn't stop everyone else's update
+    try {
+      const accessToken = await getGoogleAccessToken(supabase, event.user_id);
+      if (!accessToken) continue;
+      if (await upsertRideEvent(accessToken, ride)) {
+        synced++;
+      } else {
+        await markNeedsReconnect(supabase, event.user_id);
+      }
+    } catch (memberError) {
+      console.error(`Failed to update calendar event for user ${event.user_id}:`, memberError);
+    }
+  }
+  return synced;
+};
+
+// Deletes the events of memberships that have ended, as recorded by the
+// triggers when the membership row changed
+const removeEndedEvents = async (supabase: SupabaseClient) => {
+  const { data: events, error } = await supabase
+    .from('google_calendar_events')
+    .select('id, user_id, google_event_id')
+    .eq('pending_delete', true)
+    .order('updated_at')
+    .limit(DELETE_BATCH_SIZE);
+
+  if (error) throw error;
+
+  let removed = 0;
+  for (const event of events || []) {
+    try {
+      // Nothing left to remove from if they've disconnected Google Calendar
+      const accessToken = await getGoogleAccessToken(supabase, event.user_id);
+      if (accessToken && !(await deleteRideEvent(accessToken, event.google_event_id))) {
+        await markNeedsReconnect(supabase, event.user_id);
+        // Kept until they reconnect, behind the removals that can go ahead
+        await supabase
+          .from('google_calendar_events')
+          .update({ updated_at: new Date().toISOString() })
+          .eq('id', event.id);
+        continue;
+      }
+
+      // Still marked unless they rejoined in the meantime
+      const { error: deleteError } = await supabase
+        .from('google_calendar_events')
+        .delete()
+        .eq('id', event.id)
+        .eq('pending_delete', true);
+      if (deleteError) throw deleteError;
+      removed++;
+    } catch (memberError) {
+      console.error(`Failed to remove calendar event for user ${event.user_id}:`, memberError);
+    }
+  }
+  return removed;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!hasFunctionSecret(req)) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const payload = await req.json() as SyncRequest;
+
+    let synced = 0;
+    if (payload.table === 'ride_members' && payload.id) {
+      synced = await syncMembership(supabase, payload.id);
+    } else if (payload.table === 'ride_groups' && payload.id) {
+      synced = await syncRide(supabase, payload.id);
+    } else {
+      return new Response(
+        JSON.stringify({ error: 'Unsupported sync request' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const removed = await removeEndedEvents(supabase);
+
+    console.log(`Synced ${synced} and removed ${removed} Google Calendar events for ${payload.table} ${payload.type}`);
+
+    return new Response(
+      JSON.stringify({ success: true, synced, removed }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in sync-google-calendar function:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
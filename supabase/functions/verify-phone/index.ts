@@ -0,0 +1,160 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getSmsProvider, normalizePhoneNumber } from '../_shared/sms.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const CODE_TTL_MINUTES = 10;
+const MAX_ATTEMPTS = 5;
+// Stops the button from being used to text someone over and over
+const RESEND_COOLDOWN_SECONDS = 60;
+
+type VerifyPhoneRequest =
+  | { action: 'send'; phoneNumber: string }
+  | { action: 'verify'; code: string }
+  | { action: 'remove' };
+
+const hashCode = async (userId: string, code: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${userId}:${code}`));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const randomCode = () => String(crypto.getRandomValues(new Uint32Array(1))[0] % 1_000_000).padStart(6, '0');
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Adds, confirms or removes the signed-in user's phone number for SMS
+// notifications. 'send' texts a six-digit code to the new number, 'verify'
+// checks it and saves the number to the profile, 'remove' clears it.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      throw new Error('Missing authorization header');
+    }
+
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+    if (userError || !user) {
+      return json({ error: 'Unauthorized' }, 401);
+    }
+
+    // Phone columns and pending codes are only writable with the service role
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const request = await req.json() as VerifyPhoneRequest;
+
+    switch (request.action) {
+      case 'send': {
+        const phoneNumber = normalizePhoneNumber(request.phoneNumber || '');
+        if (!phoneNumber) {
+          return json({ error: 'Enter a valid phone number, including the country code if outside the US' }, 400);
+        }
+
+        const { data: pending } = await supabase
+          .from('phone_verifications')
+          .select('created_at')
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        const secondsSinceLast = pending ? (Date.now() - new Date(pending.created_at).getTime()) / 1000 : Infinity;
+        if (secondsSinceLast < RESEND_COOLDOWN_SECONDS) {
+          return json({ error: `Please wait ${Math.ceil(RESEND_COOLDOWN_SECONDS - secondsSinceLast)} seconds before requesting another code` }, 429);
+        }
+
+        const code = randomCode();
+        const { error: saveError } = await supabase
+          .from('phone_verifications')
+          .upsert({
+            user_id: user.id,
+            phone_number: phoneNumber,
+            code_hash: await hashCode(user.id, code),
+            attempts: 0,
+            expires_at: new Date(Date.now() + CODE_TTL_MINUTES * 60 * 1000).toISOString(),
+            created_at: new Date().toISOString(),
+          });
+
+        if (saveError) throw saveError;
+
+        await getSmsProvider().send(
+          phoneNumber,
+          `Your Berkeley Rides verification code is ${code}. It expires in ${CODE_TTL_MINUTES} minutes.`
+        );
+
+        console.log(`Sent phone verification code to user ${user.id}`);
+        return json({ success: true, phoneNumber });
+      }
+
+      case 'verify': {
+        const { data: pending, error: pendingError } = await supabase
+          .from('phone_verifications')
+          .select('phone_number, code_hash, attempts, expires_at')
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        if (pendingError) throw pendingError;
+
+        if (!pending || new Date(pending.expires_at) < new Date() || pending.attempts >= MAX_ATTEMPTS) {
+          return json({ error: 'This code has expired. Request a new one.' }, 400);
+        }
+
+        if (await hashCode(user.id, (request.code || '').trim()) !== pending.code_hash) {
+          await supabase
+            .from('phone_verifications')
+            .update({ attempts: pending.attempts + 1 })
+            .eq('user_id', user.id);
+          return json({ error: 'That code is incorrect' }, 400);
+        }
+
+        const { error: profileError } = await supabase
+          .from('profiles')
+          .update({
+            phone_number: pending.phone_number,
+            phone_verified_at: new Date().toISOString(),
+          })
+          .eq('id', user.id);
+
+        if (profileError) throw profileError;
+
+        await supabase.from('phone_verifications').delete().eq('user_id', user.id);
+
+        console.log(`Verified phone number for user ${user.id}`);
+        return json({ success: true, phoneNumber: pending.phone_number });
+      }
+
+      case 'remove': {
+        const { error: profileError } = await supabase
+          .from('profiles')
+          .update({ phone_number: null, phone_verified_at: null })
+          .eq('id', user.id);
+
+        if (profileError) throw profileError;
+
+        await supabase.from('phone_verifications').delete().eq('user_id', user.id);
+        return json({ success: true });
+      }
+
+      default:
+        return json({ error: 'Unknown action' }, 400);
+    }
+  } catch (error) {
+    console.error('Error in verify-phone function:', error);
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
@@ -0,0 +1,151 @@
+-- Atomic join for ride groups.
+-- Locks the ride_groups row so concurrent joins are serialized, then checks
+-- capacity and the one-ride-per-event rule before adding the member and
+-- notifying the rest of the group in the same transaction.
+CREATE OR REPLACE FUNCTION public.join_ride(p_ride_id uuid)
+RETURNS public.ride_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_ride ride_groups%ROWTYPE;
+  v_profile profiles%ROWTYPE;
+  v_conflict_departure timestamp with time zone;
+  v_member_count integer;
+  v_member ride_members%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to join a ride';
+  END IF;
+
+  SELECT * INTO v_ride FROM ride_groups WHERE id = p_ride_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ride group not found';
+  END IF;
+
+  SELECT * INTO v_profile FROM profiles WHERE id = v_user_id;
+
+  -- Invited (non-Berkeley) users can only join the ride they were invited to
+  IF v_profile.is_invited_user AND v_profile.invited_via_ride_id IS DISTINCT FROM p_ride_id THEN
+    RAISE EXCEPTION 'You can only join the ride you were invited to';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM ride_members
+    WHERE ride_id = p_ride_id AND user_id = v_user_id AND status = 'joined'
+  ) THEN
+    RAISE EXCEPTION 'You are already a member of this ride';
+  END IF;
+
+  SELECT rg.departure_time INTO v_conflict_departure
+  FROM ride_members rm
+  JOIN ride_groups rg ON rg.id = rm.ride_id
+  WHERE rm.user_id = v_user_id
+    AND rm.status = 'joined'
+    AND rg.event_id = v_ride.event_id
+    AND rm.ride_id != p_ride_id
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'You''re already in a ride group for this event (departing at %). Leave that group first to join this one.',
+      to_char(v_conflict_departure AT TIME ZONE 'America/Los_Angeles', 'FMHH12:MI AM');
+  END IF;
+
+  SELECT count(*) INTO v_member_count
+  FROM ride_members
+  WHERE ride_id = p_ride_id AND status = 'joined';
+
+  IF v_ride.capacity IS NOT NULL AND v_member_count >= v_ride.capacity THEN
+    RAISE EXCEPTION 'This ride group is full';
+  END IF;
+
+  -- Promote an existing invitation, otherwise add a fresh membership
+  UPDATE ride_members
+  SET status = 'joined',
+      role = CASE WHEN v_ride.travel_mode = 'Carpool (Student Driver)' THEN 'rider' ELSE NULL END
+  WHERE ride_id = p_ride_id AND user_id = v_user_id
+  RETURNING * INTO v_member;
+
+  IF NOT FOUND THEN
+    INSERT INTO ride_members (ride_id, user_id, status, role)
+    VALUES (
+      p_ride_id,
+      v_user_id,
+      'joined',
+      CASE WHEN v_ride.travel_mode = 'Carpool (Student Driver)' THEN 'rider' ELSE NULL END
+    )
+    RETURNING * INTO v_member;
+  END IF;
+
+  INSERT INTO notifications (user_id, ride_id, type, title, message)
+  SELECT rm.user_id, p_ride_id, 'member_joined', 'New member joined',
+         COALESCE(v_profile.name, 'Someone') || ' joined your ride group'
+  FROM ride_members rm
+  WHERE rm.ride_id = p_ride_id
+    AND rm.status = 'joined'
+    AND rm.user_id != v_user_id;
+
+  -- Nudge the group once only one seat is left in a four-seat ride
+  IF v_member_count + 1 >= 3 AND v_ride.capacity = 4 THEN
+    INSERT INTO notifications (user_id, ride_id, type, title, message)
+    SELECT rm.user_id, p_ride_id, 'group_ready', 'Ride group almost full!',
+           'Your ride group is ' || (v_member_count + 1) || '/4 full'
+    FROM ride_members rm
+    WHERE rm.ride_id = p_ride_id
+      AND rm.status = 'joined';
+  END IF;
+
+  RETURN v_member;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.join_ride(uuid) TO authenticated;
+
+-- Members now join through join_ride(); direct inserts are limited to the
+-- ride creator adding themselves or inviting others when creating a ride.
+DROP POLICY IF EXISTS "Authed users can join rides" ON public.ride_members;
+DROP POLICY IF EXISTS "Authenticated users can join rides" ON public.ride_members;
+
+CREATE POLICY "Ride creators can add members"
+ON public.ride_members
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM ride_groups
+    WHERE ride_groups.id = ride_members.ride_id
+      AND ride_groups.created_by = auth.uid()
+  )
+  AND (auth.uid() = user_id OR status = 'invited')
+);
+
+-- Members can still update their own membership row, but it can't be moved
+-- to another ride or person, and only join_ride and the other membership
+-- RPCs (which lock the ride and check capacity and the one-ride-per-event
+-- rule) can turn it into a joined seat.
+CREATE OR REPLACE FUNCTION public.guard_ride_member_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.ride_id IS DISTINCT FROM OLD.ride_id OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'A ride membership can''t be moved to another ride or member';
+  END IF;
+
+  IF NEW.status = 'joined'
+    AND OLD.status IS DISTINCT FROM 'joined'
+    AND current_user IN ('authenticated', 'anon') THEN
+    RAISE EXCEPTION 'Use join_ride to join a ride';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_ride_member_update
+BEFORE UPDATE ON public.ride_members
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_ride_member_update();
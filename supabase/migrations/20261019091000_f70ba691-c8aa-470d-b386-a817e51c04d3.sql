@@ -0,0 +1,273 @@
+-- Waitlist for full ride groups
+CREATE TABLE public.ride_waitlist (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ride_id uuid NOT NULL REFERENCES public.ride_groups(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE(ride_id, user_id)
+);
+
+CREATE INDEX idx_ride_waitlist_ride_created ON public.ride_waitlist(ride_id, created_at);
+
+ALTER TABLE public.ride_waitlist ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view waitlists"
+ON public.ride_waitlist FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+-- Only full rides have a waitlist; anyone else should just join
+CREATE POLICY "Users can join waitlists"
+ON public.ride_waitlist FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND NOT EXISTS (
+    SELECT 1 FROM ride_members
+    WHERE ride_members.ride_id = ride_waitlist.ride_id
+      AND ride_members.user_id = auth.uid()
+      AND ride_members.status = 'joined'
+  )
+  AND EXISTS (
+    SELECT 1 FROM ride_groups
+    WHERE ride_groups.id = ride_waitlist.ride_id
+      AND ride_groups.capacity IS NOT NULL
+      AND (
+        SELECT count(*) FROM ride_members
+        WHERE ride_members.ride_id = ride_groups.id
+          AND ride_members.status = 'joined'
+      ) >= ride_groups.capacity
+  )
+);
+
+CREATE POLICY "Users can leave waitlists"
+ON public.ride_waitlist FOR DELETE
+USING (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ride_waitlist;
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'waitlist_promoted';
+
+-- Moves the first eligible person in line into the ride group if a seat is
+-- free. Entries for people who have since joined another ride for the same
+-- event (or can't join this one) are dropped along the way.
+-- Returns the promoted user's id, or NULL if nobody was promoted.
+CREATE OR REPLACE FUNCTION public.promote_from_waitlist(p_ride_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ride ride_groups%ROWTYPE;
+  v_entry ride_waitlist%ROWTYPE;
+  v_name text;
+  v_email text;
+BEGIN
+  SELECT * INTO v_ride FROM ride_groups WHERE id = p_ride_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_ride.capacity IS NOT NULL AND (
+    SELECT count(*) FROM ride_members
+    WHERE ride_id = p_ride_id AND status = 'joined'
+  ) >= v_ride.capacity THEN
+    RETURN NULL;
+  END IF;
+
+  FOR v_entry IN
+    SELECT * FROM ride_waitlist
+    WHERE ride_id = p_ride_id
+    ORDER BY created_at
+    FOR UPDATE
+  LOOP
+    DELETE FROM ride_waitlist WHERE id = v_entry.id;
+
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM ride_members rm
+      JOIN ride_groups rg ON rg.id = rm.ride_id
+      WHERE rm.user_id = v_entry.user_id
+        AND rm.status = 'joined'
+        AND rg.event_id = v_ride.event_id
+    );
+
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = v_entry.user_id
+        AND is_invited_user
+        AND invited_via_ride_id IS DISTINCT FROM p_ride_id
+    );
+
+    UPDATE ride_members
+    SET status = 'joined',
+        role = CASE WHEN v_ride.travel_mode = 'Carpool (Student Driver)' THEN 'rider' ELSE NULL END
+    WHERE ride_id = p_ride_id AND user_id = v_entry.user_id;
+
+    IF NOT FOUND THEN
+      INSERT INTO ride_members (ride_id, user_id, status, role)
+      VALUES (
+        p_ride_id,
+        v_entry.user_id,
+        'joined',
+        CASE WHEN v_ride.travel_mode = 'Carpool (Student Driver)' THEN 'rider' ELSE NULL END
+      );
+    END IF;
+
+    SELECT name, email INTO v_name, v_email FROM profiles WHERE id = v_entry.user_id;
+
+    INSERT INTO notifications (user_id, ride_id, type, title, message)
+    VALUES (
+      v_entry.user_id,
+      p_ride_id,
+      'waitlist_promoted',
+      'You''re in!',
+      'A seat opened up and you''ve been moved from the waitlist into the ride group'
+    );
+
+    INSERT INTO notifications (user_id, ride_id, type, title, message)
+    SELECT rm.user_id, p_ride_id, 'member_joined', 'New member joined',
+           COALESCE(v_name, 'Someone') || ' joined your ride group from the waitlist'
+    FROM ride_members rm
+    WHERE rm.ride_id = p_ride_id
+      AND rm.status = 'joined'
+      AND rm.user_id != v_entry.user_id;
+
+    -- Emailed from here so every promotion gets one, whatever freed the
+    -- seat. The request goes out once this transaction commits.
+    IF v_email IS NOT NULL THEN
+      PERFORM net.http_post(
+        url := 'https://rfiprbhinkofscupecgw.supabase.co/functions/v1/send-ride-notification',
+        body := jsonb_build_object(
+          'type', 'waitlist_promoted',
+          'rideId', p_ride_id,
+          'recipientEmails', jsonb_build_array(v_email),
+          'meetingPoint', v_ride.meeting_point
+        ),
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'x-function-secret', COALESCE(
+            (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'internal_function_secret'),
+            ''
+          )
+        ),
+        timeout_milliseconds := 5000
+      );
+    END IF;
+
+    RETURN v_entry.user_id;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.promote_from_waitlist(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Leaves a ride group. The freed seat goes to the next person on the
+-- waitlist in the same transaction (see promote_waitlist_on_leave); returns
+-- that person's id, if any.
+CREATE OR REPLACE FUNCTION public.leave_ride(p_ride_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_waitlisted uuid[];
+  v_promoted uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to leave a ride';
+  END IF;
+
+  PERFORM 1 FROM ride_groups WHERE id = p_ride_id FOR UPDATE;
+
+  SELECT array_agg(user_id) INTO v_waitlisted
+  FROM ride_waitlist
+  WHERE ride_id = p_ride_id;
+
+  DELETE FROM ride_members
+  WHERE ride_id = p_ride_id AND user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not a member of this ride';
+  END IF;
+
+  -- Nobody on the waitlist was in the ride before, so whoever of them is now
+  -- took the seat
+  SELECT user_id INTO v_promoted
+  FROM ride_members
+  WHERE ride_id = p_ride_id
+    AND status = 'joined'
+    AND user_id = ANY(COALESCE(v_waitlisted, '{}'));
+
+  RETURN v_promoted;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.leave_ride(uuid) TO authenticated;
+
+-- Joining a ride directly clears any waitlist entry for it
+CREATE OR REPLACE FUNCTION public.clear_waitlist_on_join()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'joined' THEN
+    DELETE FROM ride_waitlist
+    WHERE ride_id = NEW.ride_id AND user_id = NEW.user_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clear_waitlist_on_join
+  AFTER INSERT OR UPDATE OF status ON public.ride_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.clear_waitlist_on_join();
+
+-- Seats can also open up when a member is removed some other way or the
+-- creator raises the capacity, so the waitlist moves from triggers rather
+-- than only from leave_ride
+CREATE OR REPLACE FUNCTION public.promote_waitlist_on_leave()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'joined' AND (TG_OP = 'DELETE' OR NEW.status IS DISTINCT FROM 'joined') THEN
+    PERFORM public.promote_from_waitlist(OLD.ride_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER promote_waitlist_on_leave
+  AFTER DELETE OR UPDATE OF status ON public.ride_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.promote_waitlist_on_leave();
+
+CREATE OR REPLACE FUNCTION public.promote_waitlist_on_capacity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- One seat per call, until the ride is full or the waitlist is empty
+  LOOP
+    EXIT WHEN public.promote_from_waitlist(NEW.id) IS NULL;
+  END LOOP;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER promote_waitlist_on_capacity
+  AFTER UPDATE OF capacity ON public.ride_groups
+  FOR EACH ROW
+  WHEN (NEW.capacity IS DISTINCT FROM OLD.capacity AND (NEW.capacity IS NULL OR NEW.capacity > OLD.capacity))
+  EXECUTE FUNCTION public.promote_waitlist_on_capacity();
@@ -0,0 +1,151 @@
+-- Matching preferences collected when someone says they're going to an event
+ALTER TABLE public.event_interests
+  ADD COLUMN preferred_departure_time timestamp with time zone,
+  ADD COLUMN travel_mode_preference text,
+  ADD COLUMN origin_neighborhood text,
+  ADD COLUMN last_proposal_declined_at timestamp with time zone;
+
+CREATE POLICY "Users can update their interest"
+ON public.event_interests FOR UPDATE
+USING (auth.uid() = user_id);
+
+-- Ride groups proposed by the matching engine stay hidden from the public
+-- event listing until enough proposed members accept.
+ALTER TABLE public.ride_groups
+  ADD COLUMN status text NOT NULL DEFAULT 'active' CHECK (status IN ('proposed', 'active'));
+
+CREATE INDEX idx_ride_groups_event_status ON public.ride_groups(event_id, status);
+
+-- Matched groups have no owner, even once members accept: the matching
+-- engine isn't a person, and picking an attendee would hand them edit and
+-- delete rights over a ride they never created. Admins can still manage
+-- them.
+ALTER TABLE public.ride_groups ALTER COLUMN created_by DROP NOT NULL;
+
+ALTER TABLE public.ride_members DROP CONSTRAINT IF EXISTS ride_members_status_check;
+ALTER TABLE public.ride_members
+  ADD CONSTRAINT ride_members_status_check
+  CHECK (status IN ('joined', 'cancelled', 'invited', 'proposed'));
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'ride_proposed';
+
+-- Accept or decline a seat in a proposed ride group.
+-- Accepting once min_capacity members have accepted activates the group;
+-- declining dissolves it if it can no longer reach min_capacity.
+CREATE OR REPLACE FUNCTION public.respond_to_ride_proposal(p_ride_id uuid, p_accept boolean)
+RETURNS public.ride_groups
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_ride ride_groups%ROWTYPE;
+  v_min integer;
+  v_accepted integer;
+  v_remaining integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to respond to a ride proposal';
+  END IF;
+
+  SELECT * INTO v_ride FROM ride_groups WHERE id = p_ride_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This proposed ride group no longer exists';
+  END IF;
+
+  -- Members who already accepted can still back out while the group is proposed
+  IF NOT EXISTS (
+    SELECT 1 FROM ride_members
+    WHERE ride_id = p_ride_id
+      AND user_id = v_user_id
+      AND (status = 'proposed' OR (status = 'joined' AND v_ride.status = 'proposed'))
+  ) THEN
+    RAISE EXCEPTION 'You don''t have a pending proposal for this ride group';
+  END IF;
+
+  v_min := COALESCE(v_ride.min_capacity, 2);
+
+  IF p_accept THEN
+    IF EXISTS (
+      SELECT 1 FROM ride_members
+      WHERE ride_id = p_ride_id AND user_id = v_user_id AND status = 'joined'
+    ) THEN
+      RETURN v_ride;
+    END IF;
+
+    IF v_ride.capacity IS NOT NULL AND (
+      SELECT count(*) FROM ride_members
+      WHERE ride_id = p_ride_id AND status = 'joined'
+    ) >= v_ride.capacity THEN
+      RAISE EXCEPTION 'This ride group is full';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM ride_members rm
+      JOIN ride_groups rg ON rg.id = rm.ride_id
+      WHERE rm.user_id = v_user_id
+        AND rm.status = 'joined'
+        AND rg.event_id = v_ride.event_id
+        AND rm.ride_id != p_ride_id
+    ) THEN
+      RAISE EXCEPTION 'You''re already in a ride group for this event. Leave that group first to accept this one.';
+    END IF;
+
+    UPDATE ride_members
+    SET status = 'joined'
+    WHERE ride_id = p_ride_id AND user_id = v_user_id;
+
+    -- Any other proposals for the same event are now moot
+    DELETE FROM ride_members rm
+    USING ride_groups rg
+    WHERE rg.id = rm.ride_id
+      AND rm.user_id = v_user_id
+      AND rm.status = 'proposed'
+      AND rg.event_id = v_ride.event_id
+      AND rg.id != p_ride_id;
+
+    SELECT count(*) INTO v_accepted
+    FROM ride_members
+    WHERE ride_id = p_ride_id AND status = 'joined';
+
+    IF v_ride.status = 'proposed' AND v_accepted >= v_min THEN
+      UPDATE ride_groups SET status = 'active' WHERE id = p_ride_id
+      RETURNING * INTO v_ride;
+
+      INSERT INTO notifications (user_id, ride_id, type, title, message)
+      SELECT rm.user_id, p_ride_id, 'group_ready', 'Your ride group is confirmed!',
+             v_accepted || ' people accepted the proposed ride group'
+      FROM ride_members rm
+      WHERE rm.ride_id = p_ride_id AND rm.status = 'joined';
+    END IF;
+  ELSE
+    DELETE FROM ride_members
+    WHERE ride_id = p_ride_id AND user_id = v_user_id;
+
+    UPDATE event_interests
+    SET last_proposal_declined_at = now()
+    WHERE event_id = v_ride.event_id AND user_id = v_user_id;
+
+    SELECT count(*) INTO v_remaining
+    FROM ride_members
+    WHERE ride_id = p_ride_id AND status IN ('joined', 'proposed');
+
+    IF v_ride.status = 'proposed' AND v_remaining < v_min THEN
+      INSERT INTO notifications (user_id, ride_id, type, title, message)
+      SELECT rm.user_id, NULL, 'ride_proposed', 'Proposed ride group cancelled',
+             'Not enough people accepted the proposed ride group. We''ll keep looking for a match.'
+      FROM ride_members rm
+      WHERE rm.ride_id = p_ride_id;
+
+      DELETE FROM ride_groups WHERE id = p_ride_id;
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  RETURN v_ride;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.respond_to_ride_proposal(uuid, boolean) TO authenticated;
@@ -0,0 +1,154 @@
+-- Curated list of places ride groups can meet, managed by admins. Entries
+-- with a ride_id are free-text options members voted on before the
+-- catalogue existed; they have no coordinates and only count in that ride.
+CREATE TABLE public.meeting_points (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(btrim(name)) > 0),
+  latitude double precision CHECK (latitude BETWEEN -90 AND 90),
+  longitude double precision CHECK (longitude BETWEEN -180 AND 180),
+  accessibility_notes text,
+  is_active boolean NOT NULL DEFAULT true,
+  ride_id uuid REFERENCES public.ride_groups(id) ON DELETE CASCADE,
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (ride_id IS NOT NULL OR (latitude IS NOT NULL AND longitude IS NOT NULL))
+);
+
+-- "Haas Courtyard" and "haas courtyard " are the same place
+CREATE UNIQUE INDEX meeting_points_name_unique ON public.meeting_points (lower(btrim(name)))
+  WHERE ride_id IS NULL;
+CREATE UNIQUE INDEX meeting_points_ride_name_unique ON public.meeting_points (ride_id, lower(btrim(name)))
+  WHERE ride_id IS NOT NULL;
+
+ALTER TABLE public.meeting_points ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view meeting points"
+ON public.meeting_points FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can add meeting points"
+ON public.meeting_points FOR INSERT
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can update meeting points"
+ON public.meeting_points FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can delete meeting points"
+ON public.meeting_points FOR DELETE
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- The options that used to be hardcoded in the voting dialog
+INSERT INTO public.meeting_points (name, latitude, longitude, accessibility_notes) VALUES
+  ('Haas Courtyard', 37.87164, -122.25335, 'Step-free from Piedmont Ave; stairs from Gayley Rd'),
+  ('Downtown Berkeley BART', 37.87007, -122.26811, 'Elevator at Shattuck Ave & Center St'),
+  ('Clark Kerr Campus', 37.86330, -122.24966, 'Step-free pickup at the Dwight Way entrance');
+
+-- Votes point at a catalogue entry. vote_option is kept in sync with the
+-- entry's name so existing readers keep working. A meeting point with votes
+-- can't be deleted, since that would quietly change rides' tallies; admins
+-- hide it from voting instead. (NO ACTION rather than RESTRICT, so deleting
+-- a ride can still take its own options and their votes with it.)
+ALTER TABLE public.meeting_votes
+  ADD COLUMN meeting_point_id uuid REFERENCES public.meeting_points(id);
+
+UPDATE public.meeting_votes mv
+SET meeting_point_id = mp.id,
+    vote_option = mp.name
+FROM public.meeting_points mp
+WHERE lower(btrim(mv.vote_option)) = lower(btrim(mp.name));
+
+-- Free-text custom options become entries scoped to their ride
+INSERT INTO public.meeting_points (name, ride_id)
+SELECT DISTINCT ON (mv.ride_id, lower(btrim(mv.vote_option))) btrim(mv.vote_option), mv.ride_id
+FROM public.meeting_votes mv
+WHERE mv.meeting_point_id IS NULL
+  AND length(btrim(mv.vote_option)) > 0
+ORDER BY mv.ride_id, lower(btrim(mv.vote_option)), mv.created_at;
+
+UPDATE public.meeting_votes mv
+SET meeting_point_id = mp.id,
+    vote_option = mp.name
+FROM public.meeting_points mp
+WHERE mv.meeting_point_id IS NULL
+  AND mp.ride_id = mv.ride_id
+  AND lower(btrim(mv.vote_option)) = lower(btrim(mp.name));
+
+-- Collapse duplicates that only differed by case or whitespace
+DELETE FROM public.meeting_votes a
+USING public.meeting_votes b
+WHERE a.ride_id = b.ride_id
+  AND a.user_id = b.user_id
+  AND a.meeting_point_id = b.meeting_point_id
+  AND (a.created_at, a.id) > (b.created_at, b.id);
+
+-- Only blank votes are left, which never named a place
+DELETE FROM public.meeting_votes WHERE meeting_point_id IS NULL;
+
+ALTER TABLE public.meeting_votes ALTER COLUMN meeting_point_id SET NOT NULL;
+ALTER TABLE public.meeting_votes
+  ADD CONSTRAINT meeting_votes_ride_user_point_unique UNIQUE (ride_id, user_id, meeting_point_id);
+
+CREATE OR REPLACE FUNCTION public.sync_meeting_vote_option()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_point meeting_points%ROWTYPE;
+BEGIN
+  SELECT * INTO v_point FROM meeting_points WHERE id = NEW.meeting_point_id;
+
+  IF NOT FOUND
+    OR (NOT v_point.is_active AND TG_OP = 'INSERT')
+    OR v_point.ride_id <> NEW.ride_id THEN
+    RAISE EXCEPTION 'This meeting point is no longer available';
+  END IF;
+
+  NEW.vote_option := v_point.name;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_meeting_vote_option
+  BEFORE INSERT OR UPDATE OF meeting_point_id ON public.meeting_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_meeting_vote_option();
+
+-- Renaming a meeting point renames the votes that reference it
+CREATE OR REPLACE FUNCTION public.rename_meeting_point_votes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE meeting_votes SET vote_option = NEW.name WHERE meeting_point_id = NEW.id;
+  UPDATE ride_groups SET meeting_point = NEW.name WHERE meeting_point_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rename_meeting_point_votes
+  AFTER UPDATE OF name ON public.meeting_points
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION public.rename_meeting_point_votes();
+
+-- Which catalogue entry a ride group settled on, if any. meeting_point stays
+-- as the display name (matcher suggestions and older rides use free text).
+ALTER TABLE public.ride_groups
+  ADD COLUMN meeting_point_id uuid REFERENCES public.meeting_points(id) ON DELETE SET NULL;
+
+-- Only the catalogue and the ride's own options count, catalogue first
+UPDATE public.ride_groups rg
+SET meeting_point_id = (
+  SELECT mp.id
+  FROM public.meeting_points mp
+  WHERE lower(btrim(mp.name)) = lower(btrim(rg.meeting_point))
+    AND (mp.ride_id IS NULL OR mp.ride_id = rg.id)
+  ORDER BY mp.ride_id IS NOT NULL, mp.created_at, mp.id
+  LIMIT 1
+)
+WHERE rg.meeting_point IS NOT NULL;
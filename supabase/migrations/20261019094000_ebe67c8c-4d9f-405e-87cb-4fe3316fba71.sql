@@ -0,0 +1,320 @@
+-- Ranked-choice meeting point voting.
+--
+-- Each member submits an ordered ballot of meeting points (rank 1 = first
+-- choice). Ballots are tallied by instant runoff: each round counts every
+-- ballot toward its highest-ranked remaining option; an option with a
+-- majority of those ballots wins, otherwise the option with the fewest
+-- votes is eliminated and the next round begins.
+--
+-- Ties (for the win, or for elimination) are broken by:
+--   1. the ride creator's ballot: the option they ranked higher wins
+--   2. the earliest vote: the option that received its first vote earliest wins
+-- Every tally is stored with its rounds in meeting_point_tallies.
+
+ALTER TABLE public.meeting_votes ADD COLUMN rank integer NOT NULL DEFAULT 1 CHECK (rank >= 1);
+
+-- Existing approval votes become a ballot in the order they were cast
+UPDATE public.meeting_votes mv
+SET rank = ranked.rank
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY ride_id, user_id ORDER BY created_at, id) AS rank
+  FROM public.meeting_votes
+) ranked
+WHERE ranked.id = mv.id;
+
+ALTER TABLE public.meeting_votes
+  ADD CONSTRAINT meeting_votes_ride_user_rank_unique UNIQUE (ride_id, user_id, rank);
+
+CREATE TABLE public.meeting_point_tallies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ride_id uuid NOT NULL REFERENCES public.ride_groups(id) ON DELETE CASCADE,
+  winner_meeting_point_id uuid REFERENCES public.meeting_points(id) ON DELETE SET NULL,
+  previous_meeting_point_id uuid REFERENCES public.meeting_points(id) ON DELETE SET NULL,
+  ballot_count integer NOT NULL,
+  -- [{ round, counts: [{ meeting_point_id, name, votes }], eliminated, winner, tie_break }]
+  rounds jsonb NOT NULL DEFAULT '[]'::jsonb,
+  -- 'creator' or 'earliest_vote' when the final round was a tie; ties in
+  -- earlier rounds are recorded per round
+  tie_break text CHECK (tie_break IN ('creator', 'earliest_vote')),
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_meeting_point_tallies_ride_created ON public.meeting_point_tallies(ride_id, created_at DESC);
+
+ALTER TABLE public.meeting_point_tallies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Ride members and admins can view tallies"
+ON public.meeting_point_tallies FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM ride_members
+    WHERE ride_members.ride_id = meeting_point_tallies.ride_id
+      AND ride_members.user_id = auth.uid()
+  )
+  OR has_role(auth.uid(), 'admin'::app_role)
+);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.meeting_point_tallies;
+
+-- Ballots that count: votes from current members for options that are
+-- still in the catalogue
+CREATE OR REPLACE FUNCTION public.meeting_point_ballots(p_ride_id uuid)
+RETURNS TABLE (user_id uuid, meeting_point_id uuid, rank integer, created_at timestamp with time zone)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT mv.user_id, mv.meeting_point_id, mv.rank, mv.created_at
+  FROM meeting_votes mv
+  JOIN meeting_points mp ON mp.id = mv.meeting_point_id AND mp.is_active
+  JOIN ride_members rm ON rm.ride_id = mv.ride_id AND rm.user_id = mv.user_id AND rm.status = 'joined'
+  WHERE mv.ride_id = p_ride_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.meeting_point_ballots(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Orders tied options by the tie rule; the first row wins the tie and the
+-- last row loses it.
+CREATE OR REPLACE FUNCTION public.rank_tied_meeting_points(p_ride_id uuid, p_candidates uuid[])
+RETURNS TABLE (meeting_point_id uuid, creator_rank integer, first_vote_at timestamp with time zone)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    (
+      SELECT b.rank FROM meeting_point_ballots(p_ride_id) b
+      JOIN ride_groups rg ON rg.id = p_ride_id
+      WHERE b.user_id = rg.created_by AND b.meeting_point_id = c.id
+    ),
+    (
+      SELECT min(b.created_at) FROM meeting_point_ballots(p_ride_id) b
+      WHERE b.meeting_point_id = c.id
+    )
+  FROM unnest(p_candidates) AS c(id)
+  ORDER BY 2 NULLS LAST, 3 NULLS LAST, 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rank_tied_meeting_points(uuid, uuid[]) FROM PUBLIC, anon, authenticated;
+
+-- Runs the instant-runoff tally for a ride, records it and writes the winner
+-- to ride_groups. Returns NULL if nobody has voted.
+CREATE OR REPLACE FUNCTION public.tally_meeting_point_votes(p_ride_id uuid)
+RETURNS public.meeting_point_tallies
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_ride ride_groups%ROWTYPE;
+  v_remaining uuid[];
+  v_ballots integer;
+  v_round integer := 0;
+  v_counts jsonb;
+  v_total integer;
+  v_max integer;
+  v_min integer;
+  v_leaders uuid[];
+  v_trailers uuid[];
+  v_ordered record;
+  v_unranked integer;
+  v_tie_break text;
+  v_eliminated uuid;
+  v_winner uuid;
+  v_rounds jsonb := '[]'::jsonb;
+  v_winner_name text;
+  v_tied_names text;
+  v_tally meeting_point_tallies%ROWTYPE;
+BEGIN
+  SELECT * INTO v_ride FROM ride_groups WHERE id = p_ride_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This ride group no longer exists';
+  END IF;
+
+  -- Service-role callers (no auth.uid()) are trusted
+  IF v_user_id IS NOT NULL
+    AND NOT has_role(v_user_id, 'admin'::app_role)
+    AND NOT EXISTS (
+      SELECT 1 FROM ride_members
+      WHERE ride_id = p_ride_id AND user_id = v_user_id AND status = 'joined'
+    )
+  THEN
+    RAISE EXCEPTION 'Only ride members can tally meeting point votes';
+  END IF;
+
+  SELECT array_agg(DISTINCT meeting_point_id), count(DISTINCT user_id)
+  INTO v_remaining, v_ballots
+  FROM meeting_point_ballots(p_ride_id);
+
+  IF v_remaining IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  LOOP
+    v_round := v_round + 1;
+    v_tie_break := NULL;
+    v_eliminated := NULL;
+
+    -- Each ballot counts toward its highest-ranked remaining option
+    WITH firsts AS (
+      SELECT DISTINCT ON (b.user_id) b.user_id, b.meeting_point_id
+      FROM meeting_point_ballots(p_ride_id) b
+      WHERE b.meeting_point_id = ANY(v_remaining)
+      ORDER BY b.user_id, b.rank
+    ),
+    counts AS (
+      SELECT c.id, count(f.user_id)::integer AS votes
+      FROM unnest(v_remaining) AS c(id)
+      LEFT JOIN firsts f ON f.meeting_point_id = c.id
+      GROUP BY c.id
+    )
+    SELECT
+      jsonb_agg(
+        jsonb_build_object('meeting_point_id', counts.id, 'name', mp.name, 'votes', counts.votes)
+        ORDER BY counts.votes DESC, mp.name
+      ),
+      sum(counts.votes),
+      max(counts.votes),
+      min(counts.votes),
+      array_agg(counts.id) FILTER (WHERE counts.votes = (SELECT max(votes) FROM counts)),
+      array_agg(counts.id) FILTER (WHERE counts.votes = (SELECT min(votes) FROM counts))
+    INTO v_counts, v_total, v_max, v_min, v_leaders, v_trailers
+    FROM counts
+    JOIN meeting_points mp ON mp.id = counts.id;
+
+    IF v_max * 2 > v_total OR cardinality(v_remaining) = 1 THEN
+      v_winner := v_leaders[1];
+    ELSIF v_max = v_min THEN
+      -- Every remaining option is tied; nothing more to learn from eliminating
+      SELECT * INTO v_ordered FROM rank_tied_meeting_points(p_ride_id, v_leaders) LIMIT 1;
+      v_winner := v_ordered.meeting_point_id;
+      v_tie_break := CASE WHEN v_ordered.creator_rank IS NOT NULL THEN 'creator' ELSE 'earliest_vote' END;
+    ELSE
+      IF cardinality(v_trailers) = 1 THEN
+        v_eliminated := v_trailers[1];
+      ELSE
+        SELECT * INTO v_ordered
+        FROM rank_tied_meeting_points(p_ride_id, v_trailers) t
+        ORDER BY t.creator_rank DESC NULLS FIRST, t.first_vote_at DESC NULLS FIRST, t.meeting_point_id DESC
+        LIMIT 1;
+        v_eliminated := v_ordered.meeting_point_id;
+        -- The creator's ballot settles it unless it leaves two or more of
+        -- the tied options unranked
+        SELECT count(*) INTO v_unranked
+        FROM rank_tied_meeting_points(p_ride_id, v_trailers) t
+        WHERE t.creator_rank IS NULL;
+        v_tie_break := CASE WHEN v_unranked <= 1 THEN 'creator' ELSE 'earliest_vote' END;
+      END IF;
+      v_remaining := array_remove(v_remaining, v_eliminated);
+    END IF;
+
+    v_rounds := v_rounds || jsonb_build_array(jsonb_build_object(
+      'round', v_round,
+      'counts', v_counts,
+      'eliminated', v_eliminated,
+      'winner', v_winner,
+      'tie_break', v_tie_break
+    ));
+
+    EXIT WHEN v_winner IS NOT NULL;
+  END LOOP;
+
+  INSERT INTO meeting_point_tallies (
+    ride_id, winner_meeting_point_id, previous_meeting_point_id,
+    ballot_count, rounds, tie_break, created_by
+  )
+  VALUES (
+    p_ride_id, v_winner, v_ride.meeting_point_id,
+    v_ballots, v_rounds, v_tie_break, v_user_id
+  )
+  RETURNING * INTO v_tally;
+
+  IF v_winner IS DISTINCT FROM v_ride.meeting_point_id THEN
+    SELECT name INTO v_winner_name FROM meeting_points WHERE id = v_winner;
+
+    -- Lets triggers on ride_groups tell the vote's change from an
+    -- organizer's edit
+    PERFORM set_config('app.meeting_point_tally', 'on', true);
+
+    UPDATE ride_groups
+    SET meeting_point = v_winner_name, meeting_point_id = v_winner
+    WHERE id = p_ride_id;
+
+    PERFORM set_config('app.meeting_point_tally', '', true);
+
+    IF v_tie_break IS NOT NULL THEN
+      SELECT string_agg(mp.name, ', ' ORDER BY mp.name) INTO v_tied_names
+      FROM meeting_points mp WHERE mp.id = ANY(v_leaders);
+
+      INSERT INTO notifications (user_id, ride_id, type, title, message, metadata)
+      SELECT rm.user_id, p_ride_id, 'meeting_point_tie', 'Meeting point tie resolved',
+             v_tied_names || ' tied. ' || v_winner_name || ' was chosen because ' ||
+             CASE WHEN v_tie_break = 'creator'
+               THEN 'the ride creator ranked it higher.'
+               ELSE 'it received the earliest vote.'
+             END,
+             jsonb_build_object('tally_id', v_tally.id, 'meeting_point_id', v_winner)
+      FROM ride_members rm
+      WHERE rm.ride_id = p_ride_id AND rm.status = 'joined';
+    END IF;
+  END IF;
+
+  RETURN v_tally;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.tally_meeting_point_votes(uuid) TO authenticated;
+
+-- Replaces the caller's ballot (an ordered list of meeting point ids, first
+-- choice first) and re-runs the tally. An empty list withdraws the ballot.
+CREATE OR REPLACE FUNCTION public.submit_meeting_point_ballot(p_ride_id uuid, p_meeting_point_ids uuid[])
+RETURNS public.meeting_point_tallies
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_ids uuid[] := COALESCE(p_meeting_point_ids, '{}');
+  v_previous jsonb;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to vote';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM ride_members
+    WHERE ride_id = p_ride_id AND user_id = v_user_id AND status = 'joined'
+  ) THEN
+    RAISE EXCEPTION 'Only ride members can vote on the meeting point';
+  END IF;
+
+  IF cardinality(v_ids) <> (SELECT count(DISTINCT id) FROM unnest(v_ids) AS t(id)) THEN
+    RAISE EXCEPTION 'Each meeting point can only be ranked once';
+  END IF;
+
+  -- Re-ranking keeps the original vote time for options already on the
+  -- ballot, so it doesn't lose its place in the earliest-vote tie rule
+  SELECT jsonb_object_agg(meeting_point_id, created_at) INTO v_previous
+  FROM meeting_votes
+  WHERE ride_id = p_ride_id AND user_id = v_user_id;
+
+  DELETE FROM meeting_votes WHERE ride_id = p_ride_id AND user_id = v_user_id;
+
+  -- vote_option is filled in (and inactive points rejected) by sync_meeting_vote_option
+  INSERT INTO meeting_votes (ride_id, user_id, meeting_point_id, vote_option, rank, created_at)
+  SELECT p_ride_id, v_user_id, t.id, '', t.ord::integer,
+         COALESCE((v_previous ->> t.id::text)::timestamp with time zone, now())
+  FROM unnest(v_ids) WITH ORDINALITY AS t(id, ord);
+
+  RETURN public.tally_meeting_point_votes(p_ride_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_meeting_point_ballot(uuid, uuid[]) TO authenticated;
@@ -0,0 +1,171 @@
+-- Itemized ride costs. amount stays the total; the line items say what it
+-- was made of.
+ALTER TABLE public.uber_payments
+  ADD COLUMN fare numeric(10,2),
+  ADD COLUMN tip numeric(10,2) NOT NULL DEFAULT 0 CHECK (tip >= 0),
+  ADD COLUMN tolls numeric(10,2) NOT NULL DEFAULT 0 CHECK (tolls >= 0),
+  ADD COLUMN parking numeric(10,2) NOT NULL DEFAULT 0 CHECK (parking >= 0);
+
+UPDATE public.uber_payments SET fare = amount WHERE fare IS NULL;
+
+-- What each member owes for a payment. Shares are weighted (e.g. 0.5 for
+-- someone dropped off halfway, 0 for someone who didn't ride) and the
+-- amounts are stored so every reader agrees to the cent.
+CREATE TABLE public.uber_payment_shares (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  uber_payment_id uuid NOT NULL REFERENCES public.uber_payments(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  weight numeric(5,2) NOT NULL DEFAULT 1 CHECK (weight >= 0),
+  amount_owed numeric(10,2) NOT NULL CHECK (amount_owed >= 0),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE(uber_payment_id, user_id)
+);
+
+CREATE INDEX idx_uber_payment_shares_user ON public.uber_payment_shares(user_id);
+
+ALTER TABLE public.uber_payment_shares ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Ride members and admins can view payment shares"
+ON public.uber_payment_shares FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM uber_payments up
+    JOIN ride_members rm ON rm.ride_id = up.ride_id
+    WHERE up.id = uber_payment_shares.uber_payment_id
+      AND rm.user_id = auth.uid()
+  )
+  OR has_role(auth.uid(), 'admin'::app_role)
+);
+
+-- Existing payments were split evenly across the ride's members, in whole
+-- cents. As in splitByWeight, the cents left over go one each to the first
+-- members so the shares add up to the amount exactly.
+INSERT INTO public.uber_payment_shares (uber_payment_id, user_id, weight, amount_owed)
+SELECT even.id, even.user_id, 1,
+       (even.total_cents / even.members
+         + CASE WHEN even.position <= even.total_cents % even.members THEN 1 ELSE 0 END) / 100.0
+FROM (
+  SELECT up.id,
+         rm.user_id,
+         round(up.amount * 100)::bigint AS total_cents,
+         count(*) OVER (PARTITION BY up.id) AS members,
+         row_number() OVER (PARTITION BY up.id ORDER BY rm.created_at, rm.user_id) AS position
+  FROM public.uber_payments up
+  JOIN public.ride_members rm ON rm.ride_id = up.ride_id AND rm.status = 'joined'
+  WHERE up.amount IS NOT NULL
+) even
+ON CONFLICT (uber_payment_id, user_id) DO NOTHING;
+
+-- Records a payment with its line items and per-member shares, and sets up
+-- reminders for everyone else who owes something.
+-- p_shares: [{ "user_id": uuid, "weight": number, "amount_owed": number }]
+-- The shares must add up to the line item total exactly; the client does
+-- the rounding so the split it previews is the split that gets stored.
+CREATE OR REPLACE FUNCTION public.record_uber_payment(
+  p_ride_id uuid,
+  p_cost_type text,
+  p_fare numeric,
+  p_tip numeric,
+  p_tolls numeric,
+  p_parking numeric,
+  p_shares jsonb
+)
+RETURNS public.uber_payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_total numeric;
+  v_share_total numeric;
+  v_payment uber_payments%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to submit a payment';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM ride_members
+    WHERE ride_id = p_ride_id AND user_id = v_user_id AND status = 'joined'
+  ) THEN
+    RAISE EXCEPTION 'Only ride members can record a payment';
+  END IF;
+
+  IF COALESCE(p_fare, 0) < 0 OR COALESCE(p_tip, 0) < 0
+     OR COALESCE(p_tolls, 0) < 0 OR COALESCE(p_parking, 0) < 0 THEN
+    RAISE EXCEPTION 'Amounts cannot be negative';
+  END IF;
+
+  v_total := COALESCE(p_fare, 0) + COALESCE(p_tip, 0) + COALESCE(p_tolls, 0) + COALESCE(p_parking, 0);
+
+  IF v_total <= 0 THEN
+    RAISE EXCEPTION 'Please enter a valid amount';
+  END IF;
+
+  IF v_total > 10000 THEN
+    RAISE EXCEPTION 'Amount cannot exceed $10,000';
+  END IF;
+
+  IF jsonb_typeof(p_shares) IS DISTINCT FROM 'array' OR jsonb_array_length(p_shares) = 0 THEN
+    RAISE EXCEPTION 'At least one member must share the cost';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_shares) s
+    WHERE NOT EXISTS (
+      SELECT 1 FROM ride_members rm
+      WHERE rm.ride_id = p_ride_id
+        AND rm.user_id = (s ->> 'user_id')::uuid
+        AND rm.status = 'joined'
+    )
+  ) THEN
+    RAISE EXCEPTION 'Costs can only be split between members of this ride';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_shares) s
+    WHERE (s ->> 'weight')::numeric < 0
+       OR (s ->> 'amount_owed')::numeric < 0
+       OR (s ->> 'amount_owed')::numeric <> round((s ->> 'amount_owed')::numeric, 2)
+  ) THEN
+    RAISE EXCEPTION 'Shares must be non-negative amounts in whole cents';
+  END IF;
+
+  SELECT sum((s ->> 'amount_owed')::numeric) INTO v_share_total
+  FROM jsonb_array_elements(p_shares) s;
+
+  IF v_share_total IS DISTINCT FROM v_total THEN
+    RAISE EXCEPTION 'Shares add up to $% but the total is $%', v_share_total, v_total;
+  END IF;
+
+  INSERT INTO uber_payments (
+    ride_id, payer_user_id, amount, fare, tip, tolls, parking,
+    cost_type, payer_venmo_username
+  )
+  SELECT p_ride_id, v_user_id, v_total, COALESCE(p_fare, 0), COALESCE(p_tip, 0),
+         COALESCE(p_tolls, 0), COALESCE(p_parking, 0), COALESCE(p_cost_type, 'rideshare'),
+         p.venmo_username
+  FROM profiles p
+  WHERE p.id = v_user_id
+  RETURNING * INTO v_payment;
+
+  INSERT INTO uber_payment_shares (uber_payment_id, user_id, weight, amount_owed)
+  SELECT v_payment.id,
+         (s ->> 'user_id')::uuid,
+         COALESCE((s ->> 'weight')::numeric, 1),
+         (s ->> 'amount_owed')::numeric
+  FROM jsonb_array_elements(p_shares) s;
+
+  INSERT INTO payment_reminders (uber_payment_id, user_id)
+  SELECT v_payment.id, ups.user_id
+  FROM uber_payment_shares ups
+  WHERE ups.uber_payment_id = v_payment.id
+    AND ups.user_id != v_user_id
+    AND ups.amount_owed > 0;
+
+  RETURN v_payment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_uber_payment(uuid, text, numeric, numeric, numeric, numeric, jsonb) TO authenticated;
@@ -0,0 +1,125 @@
+-- Other ways to get paid back. PayPal.me takes a username; Zelle has no
+-- links, so the handle is the email or phone number riders send money to.
+ALTER TABLE public.profiles
+  ADD COLUMN paypal_username text,
+  ADD COLUMN zelle_handle text;
+
+-- Snapshot of the payer's handles when the payment was recorded, like
+-- payer_venmo_username
+ALTER TABLE public.uber_payments
+  ADD COLUMN payer_paypal_username text,
+  ADD COLUMN payer_zelle_handle text;
+
+-- Payment links are built from the payer's handles and the amount owed, so
+-- the placeholder link to the Venmo homepage carries no information
+UPDATE public.uber_payments SET venmo_link = NULL WHERE venmo_link IN ('https://venmo.com', 'https://venmo.com/');
+
+-- Unchanged apart from also snapshotting the payer's PayPal and Zelle handles
+CREATE OR REPLACE FUNCTION public.record_uber_payment(
+  p_ride_id uuid,
+  p_cost_type text,
+  p_fare numeric,
+  p_tip numeric,
+  p_tolls numeric,
+  p_parking numeric,
+  p_shares jsonb
+)
+RETURNS public.uber_payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_total numeric;
+  v_share_total numeric;
+  v_payment uber_payments%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to submit a payment';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM ride_members
+    WHERE ride_id = p_ride_id AND user_id = v_user_id AND status = 'joined'
+  ) THEN
+    RAISE EXCEPTION 'Only ride members can record a payment';
+  END IF;
+
+  IF COALESCE(p_fare, 0) < 0 OR COALESCE(p_tip, 0) < 0
+     OR COALESCE(p_tolls, 0) < 0 OR COALESCE(p_parking, 0) < 0 THEN
+    RAISE EXCEPTION 'Amounts cannot be negative';
+  END IF;
+
+  v_total := COALESCE(p_fare, 0) + COALESCE(p_tip, 0) + COALESCE(p_tolls, 0) + COALESCE(p_parking, 0);
+
+  IF v_total <= 0 THEN
+    RAISE EXCEPTION 'Please enter a valid amount';
+  END IF;
+
+  IF v_total > 10000 THEN
+    RAISE EXCEPTION 'Amount cannot exceed $10,000';
+  END IF;
+
+  IF jsonb_typeof(p_shares) IS DISTINCT FROM 'array' OR jsonb_array_length(p_shares) = 0 THEN
+    RAISE EXCEPTION 'At least one member must share the cost';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_shares) s
+    WHERE NOT EXISTS (
+      SELECT 1 FROM ride_members rm
+      WHERE rm.ride_id = p_ride_id
+        AND rm.user_id = (s ->> 'user_id')::uuid
+        AND rm.status = 'joined'
+    )
+  ) THEN
+    RAISE EXCEPTION 'Costs can only be split between members of this ride';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_shares) s
+    WHERE (s ->> 'weight')::numeric < 0
+       OR (s ->> 'amount_owed')::numeric < 0
+       OR (s ->> 'amount_owed')::numeric <> round((s ->> 'amount_owed')::numeric, 2)
+  ) THEN
+    RAISE EXCEPTION 'Shares must be non-negative amounts in whole cents';
+  END IF;
+
+  SELECT sum((s ->> 'amount_owed')::numeric) INTO v_share_total
+  FROM jsonb_array_elements(p_shares) s;
+
+  IF v_share_total IS DISTINCT FROM v_total THEN
+    RAISE EXCEPTION 'Shares add up to $% but the total is $%', v_share_total, v_total;
+  END IF;
+
+  INSERT INTO uber_payments (
+    ride_id, payer_user_id, amount, fare, tip, tolls, parking,
+    cost_type, payer_venmo_username, payer_paypal_username, payer_zelle_handle
+  )
+  SELECT p_ride_id, v_user_id, v_total, COALESCE(p_fare, 0), COALESCE(p_tip, 0),
+         COALESCE(p_tolls, 0), COALESCE(p_parking, 0), COALESCE(p_cost_type, 'rideshare'),
+         p.venmo_username, p.paypal_username, p.zelle_handle
+  FROM profiles p
+  WHERE p.id = v_user_id
+  RETURNING * INTO v_payment;
+
+  INSERT INTO uber_payment_shares (uber_payment_id, user_id, weight, amount_owed)
+  SELECT v_payment.id,
+         (s ->> 'user_id')::uuid,
+         COALESCE((s ->> 'weight')::numeric, 1),
+         (s ->> 'amount_owed')::numeric
+  FROM jsonb_array_elements(p_shares) s;
+
+  INSERT INTO payment_reminders (uber_payment_id, user_id)
+  SELECT v_payment.id, ups.user_id
+  FROM uber_payment_shares ups
+  WHERE ups.uber_payment_id = v_payment.id
+    AND ups.user_id != v_user_id
+    AND ups.amount_owed > 0;
+
+  RETURN v_payment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_uber_payment(uuid, text, numeric, numeric, numeric, numeric, jsonb) TO authenticated;
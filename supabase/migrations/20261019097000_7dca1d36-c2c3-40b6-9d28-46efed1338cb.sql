@@ -0,0 +1,390 @@
+-- Settle-ups clear open ride debts across all the rides people have shared.
+-- Balances are netted per person over everyone linked by open debts (their
+-- "circle"), so if A owes B and B owes C the same amount, A pays C once and
+-- B is left out of it. Each suggested transfer is recorded in settle_ups as
+-- it's paid, and as soon as someone's balance is zero their own debts are
+-- confirmed, without waiting for the rest of the circle.
+CREATE TABLE public.settle_ups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  from_user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  to_user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  amount numeric(10,2) NOT NULL CHECK (amount >= 0),
+  -- Debts confirmed because of this transfer
+  debt_count integer NOT NULL DEFAULT 0,
+  -- Neither party for transfers carried over when someone else settled (see
+  -- close_ledger_side)
+  created_by uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  -- Transfers count toward balances until one of the parties settles
+  cleared_at timestamp with time zone,
+  CHECK (from_user_id <> to_user_id)
+);
+
+CREATE INDEX idx_settle_ups_from_user ON public.settle_ups(from_user_id);
+CREATE INDEX idx_settle_ups_to_user ON public.settle_ups(to_user_id);
+CREATE INDEX idx_settle_ups_open ON public.settle_ups(from_user_id, to_user_id) WHERE cleared_at IS NULL;
+
+ALTER TABLE public.settle_ups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Both parties and admins can view settle-ups"
+ON public.settle_ups FOR SELECT
+USING (
+  auth.uid() IN (from_user_id, to_user_id)
+  OR has_role(auth.uid(), 'admin'::app_role)
+);
+
+-- Confirmations made by a settle-up rather than one at a time
+ALTER TABLE public.payment_confirmations
+  ADD COLUMN settle_up_id uuid REFERENCES public.settle_ups(id) ON DELETE SET NULL;
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'settle_up';
+
+-- Unconfirmed shares of payments made by someone else, where p_user_id is
+-- on either side (or everyone's, for NULL)
+CREATE OR REPLACE FUNCTION public.outstanding_ride_debts(p_user_id uuid)
+RETURNS TABLE (
+  uber_payment_id uuid,
+  ride_id uuid,
+  debtor_id uuid,
+  creditor_id uuid,
+  amount numeric,
+  recorded_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT up.id, up.ride_id, ups.user_id, up.payer_user_id, ups.amount_owed, up.created_at
+  FROM uber_payment_shares ups
+  JOIN uber_payments up ON up.id = ups.uber_payment_id
+  WHERE ups.user_id <> up.payer_user_id
+    AND ups.amount_owed > 0
+    AND (p_user_id IS NULL OR p_user_id IN (ups.user_id, up.payer_user_id))
+    AND NOT EXISTS (
+      SELECT 1 FROM payment_confirmations pc
+      WHERE pc.uber_payment_id = up.id AND pc.user_id = ups.user_id
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.outstanding_ride_debts(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Everyone linked to p_user_id through open debts or uncleared transfers,
+-- including p_user_id
+CREATE OR REPLACE FUNCTION public.ledger_circle(p_user_id uuid)
+RETURNS TABLE (user_id uuid)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH RECURSIVE edges AS (
+    SELECT debtor_id AS a, creditor_id AS b FROM outstanding_ride_debts(NULL)
+    UNION
+    SELECT from_user_id, to_user_id FROM settle_ups WHERE cleared_at IS NULL
+  ),
+  circle(user_id) AS (
+    SELECT p_user_id
+    UNION
+    SELECT CASE WHEN e.a = c.user_id THEN e.b ELSE e.a END
+    FROM circle c
+    JOIN edges e ON c.user_id IN (e.a, e.b)
+  )
+  SELECT user_id FROM circle;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.ledger_circle(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Each circle member's net balance: positive when they're owed money.
+-- Transfers already paid count as if the payer had lent that amount back.
+CREATE OR REPLACE FUNCTION public.ledger_circle_balances(p_user_id uuid)
+RETURNS TABLE (user_id uuid, net numeric)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH debts AS (
+    SELECT * FROM outstanding_ride_debts(NULL)
+  ),
+  transfers AS (
+    SELECT * FROM settle_ups WHERE cleared_at IS NULL
+  )
+  SELECT c.user_id,
+         COALESCE((SELECT sum(d.amount) FROM debts d WHERE d.creditor_id = c.user_id), 0)
+         - COALESCE((SELECT sum(d.amount) FROM debts d WHERE d.debtor_id = c.user_id), 0)
+         + COALESCE((SELECT sum(t.amount) FROM transfers t WHERE t.from_user_id = c.user_id), 0)
+         - COALESCE((SELECT sum(t.amount) FROM transfers t WHERE t.to_user_id = c.user_id), 0)
+  FROM ledger_circle(p_user_id) c;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.ledger_circle_balances(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Fewest transfers that zero every balance: whoever is owed the most is
+-- paid by whoever owes the most, for the smaller of the two amounts, until
+-- nobody is owed anything (ties go to the lower user id). That takes at most
+-- one transfer fewer than there are people, and anyone whose debts and
+-- credits cancel out (B when A owes B and B owes C) isn't in any of them.
+-- Positive nets are owed money.
+CREATE OR REPLACE FUNCTION public.match_ledger_balances(p_user_ids uuid[], p_nets numeric[])
+RETURNS TABLE (from_user_id uuid, to_user_id uuid, amount numeric)
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_cents bigint[];
+  v_creditor integer;
+  v_debtor integer;
+  v_amount bigint;
+BEGIN
+  v_cents := ARRAY(
+    SELECT round(n * 100)::bigint
+    FROM unnest(p_nets) WITH ORDINALITY AS t(n, i)
+    ORDER BY i
+  );
+
+  LOOP
+    SELECT i INTO v_creditor
+    FROM generate_subscripts(v_cents, 1) AS i
+    WHERE v_cents[i] > 0
+    ORDER BY v_cents[i] DESC, p_user_ids[i]
+    LIMIT 1;
+
+    SELECT i INTO v_debtor
+    FROM generate_subscripts(v_cents, 1) AS i
+    WHERE v_cents[i] < 0
+    ORDER BY v_cents[i], p_user_ids[i]
+    LIMIT 1;
+
+    EXIT WHEN v_creditor IS NULL OR v_debtor IS NULL;
+
+    v_amount := least(v_cents[v_creditor], -v_cents[v_debtor]);
+    from_user_id := p_user_ids[v_debtor];
+    to_user_id := p_user_ids[v_creditor];
+    amount := v_amount / 100.0;
+    RETURN NEXT;
+
+    v_cents[v_creditor] := v_cents[v_creditor] - v_amount;
+    v_cents[v_debtor] := v_cents[v_debtor] + v_amount;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.match_ledger_balances(uuid[], numeric[]) FROM PUBLIC, anon, authenticated;
+
+-- The suggested transfers the caller is part of. Balances of the rest of the
+-- circle, and the transfers between them, stay private.
+CREATE OR REPLACE FUNCTION public.get_my_settle_ups()
+RETURNS TABLE (from_user_id uuid, to_user_id uuid, amount numeric)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.from_user_id, t.to_user_id, t.amount
+  FROM (
+    SELECT array_agg(user_id ORDER BY user_id) AS ids,
+           array_agg(net ORDER BY user_id) AS nets
+    FROM ledger_circle_balances(auth.uid())
+  ) b
+  CROSS JOIN LATERAL match_ledger_balances(b.ids, b.nets) t
+  WHERE auth.uid() IN (t.from_user_id, t.to_user_id);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_my_settle_ups() TO authenticated;
+
+-- The caller's open debts, both owed and owing, with the ride they came from
+CREATE OR REPLACE FUNCTION public.get_my_ledger_entries()
+RETURNS TABLE (
+  uber_payment_id uuid,
+  ride_id uuid,
+  event_name text,
+  event_date timestamp with time zone,
+  debtor_id uuid,
+  creditor_id uuid,
+  amount numeric,
+  recorded_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d.uber_payment_id, d.ride_id, e.name, e.date_time,
+         d.debtor_id, d.creditor_id, d.amount, d.recorded_at
+  FROM outstanding_ride_debts(auth.uid()) d
+  JOIN ride_groups rg ON rg.id = d.ride_id
+  JOIN events e ON e.id = rg.event_id
+  ORDER BY e.date_time DESC, d.recorded_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_my_ledger_entries() TO authenticated;
+
+-- Closes p_user_id's side of the ledger once their balance is zero: their
+-- open debts in both directions are confirmed against p_settle_up_id, their
+-- reminders stop and their transfers stop counting. What those debts and
+-- transfers meant for everyone else is carried over as transfers between
+-- the others (if A owed B and paid C on B's behalf, B is recorded as having
+-- paid C), so nobody else's balance moves. Returns how many debts were
+-- confirmed.
+CREATE OR REPLACE FUNCTION public.close_ledger_side(p_user_id uuid, p_settle_up_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ids uuid[];
+  v_nets numeric[];
+  v_debt_count integer;
+BEGIN
+  -- What p_user_id's debts and transfers add to each other member's
+  -- balance, negated: that's what the carried-over transfers must restore
+  WITH shares AS (
+    SELECT creditor_id AS user_id, -amount AS net
+    FROM outstanding_ride_debts(p_user_id) WHERE debtor_id = p_user_id
+    UNION ALL
+    SELECT debtor_id, amount
+    FROM outstanding_ride_debts(p_user_id) WHERE creditor_id = p_user_id
+    UNION ALL
+    SELECT from_user_id, -amount
+    FROM settle_ups WHERE cleared_at IS NULL AND to_user_id = p_user_id
+    UNION ALL
+    SELECT to_user_id, amount
+    FROM settle_ups WHERE cleared_at IS NULL AND from_user_id = p_user_id
+  ),
+  per_user AS (
+    SELECT user_id, sum(net) AS net FROM shares GROUP BY user_id
+  )
+  SELECT array_agg(user_id ORDER BY user_id), array_agg(net ORDER BY user_id)
+  INTO v_ids, v_nets
+  FROM per_user;
+
+  INSERT INTO payment_confirmations (uber_payment_id, user_id, settle_up_id)
+  SELECT d.uber_payment_id, d.debtor_id, p_settle_up_id
+  FROM outstanding_ride_debts(p_user_id) d
+  ON CONFLICT (uber_payment_id, user_id) DO NOTHING;
+
+  GET DIAGNOSTICS v_debt_count = ROW_COUNT;
+
+  UPDATE payment_reminders pr
+  SET payment_confirmed = true
+  FROM payment_confirmations pc
+  WHERE pc.settle_up_id = p_settle_up_id
+    AND pr.uber_payment_id = pc.uber_payment_id
+    AND pr.user_id = pc.user_id;
+
+  UPDATE settle_ups
+  SET cleared_at = now()
+  WHERE cleared_at IS NULL
+    AND p_user_id IN (from_user_id, to_user_id);
+
+  INSERT INTO settle_ups (from_user_id, to_user_id, amount, created_by)
+  SELECT t.from_user_id, t.to_user_id, t.amount, p_user_id
+  FROM match_ledger_balances(v_ids, v_nets) t;
+
+  RETURN v_debt_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.close_ledger_side(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Records one settle-up transfer between the caller and p_counterparty_id,
+-- in whichever direction their balances call for. p_amount can't be more
+-- than either of them has outstanding; a stale suggestion is refused rather
+-- than overpaying. Whichever of the two this brings to a zero balance has
+-- their side closed straight away (see close_ledger_side). A p_amount of 0
+-- closes the caller's side when their debts already cancel out.
+CREATE OR REPLACE FUNCTION public.settle_up(p_counterparty_id uuid, p_amount numeric)
+RETURNS public.settle_ups
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user_name text;
+  v_my_net numeric;
+  v_their_net numeric;
+  v_debt_count integer := 0;
+  v_member uuid;
+  v_settle_up settle_ups%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to settle up';
+  END IF;
+
+  IF p_counterparty_id = v_user_id THEN
+    RAISE EXCEPTION 'You can''t settle up with yourself';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount < 0 OR p_amount <> round(p_amount, 2) THEN
+    RAISE EXCEPTION 'Settle-up amounts must be in whole cents';
+  END IF;
+
+  -- Circles can merge and split as debts come and go, so settle-ups are
+  -- simply taken one at a time
+  PERFORM pg_advisory_xact_lock(hashtext('settle_up'));
+
+  SELECT net INTO v_my_net FROM ledger_circle_balances(v_user_id) WHERE user_id = v_user_id;
+  SELECT net INTO v_their_net FROM ledger_circle_balances(v_user_id) WHERE user_id = p_counterparty_id;
+
+  IF v_their_net IS NULL THEN
+    RAISE EXCEPTION 'There is nothing left to settle with this member';
+  END IF;
+
+  IF p_amount = 0 THEN
+    IF v_my_net <> 0 THEN
+      RAISE EXCEPTION 'Your balances have changed. Refresh and try again.';
+    END IF;
+  ELSIF sign(v_my_net) = sign(v_their_net)
+    OR p_amount > least(abs(v_my_net), abs(v_their_net)) THEN
+    RAISE EXCEPTION 'Your balances have changed. Refresh and try again.';
+  END IF;
+
+  INSERT INTO settle_ups (from_user_id, to_user_id, amount, created_by)
+  VALUES (
+    CASE WHEN v_their_net < 0 THEN p_counterparty_id ELSE v_user_id END,
+    CASE WHEN v_their_net < 0 THEN v_user_id ELSE p_counterparty_id END,
+    p_amount,
+    v_user_id
+  )
+  RETURNING * INTO v_settle_up;
+
+  FOREACH v_member IN ARRAY ARRAY[v_user_id, p_counterparty_id] LOOP
+    IF (SELECT net FROM ledger_circle_balances(v_member) WHERE user_id = v_member) = 0 THEN
+      v_debt_count := v_debt_count + close_ledger_side(v_member, v_settle_up.id);
+    END IF;
+  END LOOP;
+
+  UPDATE settle_ups SET debt_count = v_debt_count WHERE id = v_settle_up.id
+  RETURNING * INTO v_settle_up;
+
+  SELECT name INTO v_user_name FROM profiles WHERE id = v_user_id;
+
+  INSERT INTO notifications (user_id, type, title, message, metadata)
+  VALUES (
+    p_counterparty_id,
+    'settle_up',
+    'Settled up',
+    CASE
+      WHEN v_settle_up.amount = 0 THEN
+        format('%s marked your ride payments as even', COALESCE(v_user_name, 'A member'))
+      WHEN v_settle_up.to_user_id = p_counterparty_id THEN
+        format('%s settled up and paid you $%s', COALESCE(v_user_name, 'A member'), to_char(v_settle_up.amount, 'FM999990.00'))
+      ELSE
+        format('%s marked the $%s you owed them as settled', COALESCE(v_user_name, 'A member'), to_char(v_settle_up.amount, 'FM999990.00'))
+    END,
+    jsonb_build_object(
+      'settle_up_id', v_settle_up.id,
+      'amount', v_settle_up.amount,
+      'debt_count', v_settle_up.debt_count
+    )
+  );
+
+  RETURN v_settle_up;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.settle_up(uuid, numeric) TO authenticated;
@@ -0,0 +1,93 @@
+-- Receipts payers attach to a payment so the rest of the ride can check the
+-- fare. Either an image/email file kept in the ride-receipts bucket, or the
+-- pasted text of the emailed receipt, or both. The parsed_* columns hold
+-- what was read out of the text when it was attached.
+CREATE TABLE public.uber_payment_receipts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  uber_payment_id uuid NOT NULL UNIQUE REFERENCES public.uber_payments(id) ON DELETE CASCADE,
+  storage_path text,
+  content_type text,
+  receipt_text text,
+  provider text CHECK (provider IN ('uber', 'lyft')),
+  parsed_total numeric(10,2),
+  parsed_tip numeric(10,2),
+  trip_at timestamp with time zone,
+  uploaded_by uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (storage_path IS NOT NULL OR receipt_text IS NOT NULL)
+);
+
+ALTER TABLE public.uber_payment_receipts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Ride members and admins can view receipts"
+ON public.uber_payment_receipts FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM uber_payments up
+    JOIN ride_members rm ON rm.ride_id = up.ride_id
+    WHERE up.id = uber_payment_receipts.uber_payment_id
+      AND rm.user_id = auth.uid()
+  )
+  OR has_role(auth.uid(), 'admin'::app_role)
+);
+
+CREATE POLICY "Payers can attach a receipt"
+ON public.uber_payment_receipts FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = uploaded_by
+  AND EXISTS (
+    SELECT 1 FROM uber_payments up
+    WHERE up.id = uber_payment_receipts.uber_payment_id
+      AND up.payer_user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Payers can replace their receipt"
+ON public.uber_payment_receipts FOR DELETE
+TO authenticated
+USING (auth.uid() = uploaded_by);
+
+-- Private bucket; files live under <ride_id>/ so access follows ride
+-- membership
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('ride-receipts', 'ride-receipts', false, 10485760)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Ride members can upload receipts"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'ride-receipts' AND
+  EXISTS (
+    SELECT 1 FROM public.ride_members rm
+    WHERE rm.ride_id::text = (storage.foldername(name))[1]
+      AND rm.user_id = auth.uid()
+      AND rm.status = 'joined'
+  )
+);
+
+CREATE POLICY "Ride members and admins can view receipts"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'ride-receipts' AND (
+    EXISTS (
+      SELECT 1 FROM public.ride_members rm
+      WHERE rm.ride_id::text = (storage.foldername(name))[1]
+        AND rm.user_id = auth.uid()
+    )
+    OR public.has_role(auth.uid(), 'admin'::app_role)
+  )
+);
+
+CREATE POLICY "Uploaders can delete their receipts"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'ride-receipts' AND
+  owner = auth.uid()
+);
@@ -0,0 +1,330 @@
+-- Riders can dispute a payment instead of ignoring it. A dispute pauses that
+-- rider's reminders, tells the payer, and posts to the ride chat; an admin
+-- then resolves it (amount stands), adjusts the rider's share, or waives it.
+CREATE TABLE public.payment_disputes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  uber_payment_id uuid NOT NULL REFERENCES public.uber_payments(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  reason text NOT NULL CHECK (reason IN ('not_in_ride', 'wrong_amount', 'other')),
+  details text,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'adjusted', 'waived')),
+  -- Share before an adjustment or waiver, for the record
+  original_amount numeric(10,2) NOT NULL,
+  resolution_note text,
+  resolved_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  resolved_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX payment_disputes_one_open
+ON public.payment_disputes(uber_payment_id, user_id)
+WHERE status = 'open';
+
+ALTER TABLE public.payment_disputes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Disputers, payers and admins can view disputes"
+ON public.payment_disputes FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR EXISTS (
+    SELECT 1 FROM uber_payments up
+    WHERE up.id = payment_disputes.uber_payment_id
+      AND up.payer_user_id = auth.uid()
+  )
+  OR has_role(auth.uid(), 'admin'::app_role)
+);
+
+ALTER TABLE public.payment_reminders
+  ADD COLUMN paused boolean NOT NULL DEFAULT false;
+
+-- Chat messages that open a dispute, so the chat can mark them
+ALTER TABLE public.ride_group_messages
+  ADD COLUMN payment_dispute_id uuid REFERENCES public.payment_disputes(id) ON DELETE SET NULL;
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'payment_disputed';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'payment_dispute_resolved';
+
+-- Disputed shares stay out of balances and settle-ups until resolved
+CREATE OR REPLACE FUNCTION public.outstanding_ride_debts(p_user_id uuid)
+RETURNS TABLE (
+  uber_payment_id uuid,
+  ride_id uuid,
+  debtor_id uuid,
+  creditor_id uuid,
+  amount numeric,
+  recorded_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT up.id, up.ride_id, ups.user_id, up.payer_user_id, ups.amount_owed, up.created_at
+  FROM uber_payment_shares ups
+  JOIN uber_payments up ON up.id = ups.uber_payment_id
+  WHERE ups.user_id <> up.payer_user_id
+    AND ups.amount_owed > 0
+    AND (p_user_id IS NULL OR p_user_id IN (ups.user_id, up.payer_user_id))
+    AND NOT EXISTS (
+      SELECT 1 FROM payment_confirmations pc
+      WHERE pc.uber_payment_id = up.id AND pc.user_id = ups.user_id
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM payment_disputes pd
+      WHERE pd.uber_payment_id = up.id AND pd.user_id = ups.user_id AND pd.status = 'open'
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.open_payment_dispute(
+  p_uber_payment_id uuid,
+  p_reason text,
+  p_details text
+)
+RETURNS public.payment_disputes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_payment uber_payments%ROWTYPE;
+  v_amount numeric;
+  v_user_name text;
+  v_dispute payment_disputes%ROWTYPE;
+  v_reason_label text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to dispute a payment';
+  END IF;
+
+  SELECT * INTO v_payment FROM uber_payments WHERE id = p_uber_payment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  SELECT amount_owed INTO v_amount
+  FROM uber_payment_shares
+  WHERE uber_payment_id = p_uber_payment_id AND user_id = v_user_id;
+
+  IF v_payment.payer_user_id = v_user_id OR COALESCE(v_amount, 0) <= 0 THEN
+    RAISE EXCEPTION 'You can only dispute payments you owe money on';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM payment_confirmations
+    WHERE uber_payment_id = p_uber_payment_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'You already confirmed this payment';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM payment_disputes
+    WHERE uber_payment_id = p_uber_payment_id AND user_id = v_user_id AND status = 'open'
+  ) THEN
+    RAISE EXCEPTION 'You already have an open dispute for this payment';
+  END IF;
+
+  INSERT INTO payment_disputes (uber_payment_id, user_id, reason, details, original_amount)
+  VALUES (p_uber_payment_id, v_user_id, p_reason, NULLIF(btrim(p_details), ''), v_amount)
+  RETURNING * INTO v_dispute;
+
+  UPDATE payment_reminders
+  SET paused = true
+  WHERE uber_payment_id = p_uber_payment_id AND user_id = v_user_id;
+
+  SELECT name INTO v_user_name FROM profiles WHERE id = v_user_id;
+
+  v_reason_label := CASE p_reason
+    WHEN 'not_in_ride' THEN 'I wasn''t on this ride'
+    WHEN 'wrong_amount' THEN 'The amount is wrong'
+    ELSE 'Something else is wrong'
+  END;
+
+  INSERT INTO ride_group_messages (ride_id, user_id, message, payment_dispute_id)
+  VALUES (
+    v_payment.ride_id,
+    v_user_id,
+    format('Disputed my $%s share of the ride cost: %s', to_char(v_amount, 'FM999990.00'), v_reason_label)
+      || COALESCE(E'\n' || v_dispute.details, ''),
+    v_dispute.id
+  );
+
+  INSERT INTO notifications (user_id, ride_id, type, title, message, metadata)
+  VALUES (
+    v_payment.payer_user_id,
+    v_payment.ride_id,
+    'payment_disputed',
+    'Payment Disputed',
+    format('%s disputed their $%s share: %s', COALESCE(v_user_name, 'A member'), to_char(v_amount, 'FM999990.00'), v_reason_label),
+    jsonb_build_object('payment_dispute_id', v_dispute.id, 'uber_payment_id', p_uber_payment_id)
+  );
+
+  RETURN v_dispute;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.open_payment_dispute(uuid, text, text) TO authenticated;
+
+-- Admin decision on a dispute:
+--   resolve - the share stands and reminders resume
+--   adjust  - the share drops to p_adjusted_amount and reminders resume
+--   waive   - the share drops to zero and the rider is marked as settled
+-- Whatever comes off the rider's share moves onto the payer's, so the shares
+-- still add up to what was paid.
+CREATE OR REPLACE FUNCTION public.resolve_payment_dispute(
+  p_dispute_id uuid,
+  p_action text,
+  p_adjusted_amount numeric,
+  p_note text
+)
+RETURNS public.payment_disputes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dispute payment_disputes%ROWTYPE;
+  v_payment uber_payments%ROWTYPE;
+  v_current numeric;
+  v_new_amount numeric;
+  v_message text;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can resolve payment disputes';
+  END IF;
+
+  IF p_action NOT IN ('resolve', 'adjust', 'waive') THEN
+    RAISE EXCEPTION 'Unknown action %', p_action;
+  END IF;
+
+  SELECT * INTO v_dispute FROM payment_disputes WHERE id = p_dispute_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute not found';
+  END IF;
+
+  IF v_dispute.status <> 'open' THEN
+    RAISE EXCEPTION 'This dispute has already been closed';
+  END IF;
+
+  SELECT * INTO v_payment FROM uber_payments WHERE id = v_dispute.uber_payment_id;
+
+  SELECT amount_owed INTO v_current
+  FROM uber_payment_shares
+  WHERE uber_payment_id = v_dispute.uber_payment_id AND user_id = v_dispute.user_id
+  FOR UPDATE;
+
+  v_new_amount := CASE p_action
+    WHEN 'resolve' THEN v_current
+    WHEN 'adjust' THEN p_adjusted_amount
+    WHEN 'waive' THEN 0
+  END;
+
+  IF p_action = 'adjust' AND (
+    p_adjusted_amount IS NULL
+    OR p_adjusted_amount <= 0
+    OR p_adjusted_amount >= v_current
+    OR p_adjusted_amount <> round(p_adjusted_amount, 2)
+  ) THEN
+    RAISE EXCEPTION 'The adjusted share must be in whole cents, more than $0 and less than $%', v_current;
+  END IF;
+
+  IF v_new_amount <> v_current THEN
+    UPDATE uber_payment_shares
+    SET amount_owed = v_new_amount
+    WHERE uber_payment_id = v_dispute.uber_payment_id AND user_id = v_dispute.user_id;
+
+    INSERT INTO uber_payment_shares (uber_payment_id, user_id, weight, amount_owed)
+    VALUES (v_dispute.uber_payment_id, v_payment.payer_user_id, 0, v_current - v_new_amount)
+    ON CONFLICT (uber_payment_id, user_id)
+    DO UPDATE SET amount_owed = uber_payment_shares.amount_owed + EXCLUDED.amount_owed;
+  END IF;
+
+  UPDATE payment_reminders
+  SET paused = false,
+      payment_confirmed = payment_confirmed OR p_action = 'waive'
+  WHERE uber_payment_id = v_dispute.uber_payment_id AND user_id = v_dispute.user_id;
+
+  UPDATE payment_disputes
+  SET status = CASE p_action WHEN 'resolve' THEN 'resolved' WHEN 'adjust' THEN 'adjusted' ELSE 'waived' END,
+      resolution_note = NULLIF(btrim(p_note), ''),
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  WHERE id = p_dispute_id
+  RETURNING * INTO v_dispute;
+
+  v_message := CASE p_action
+    WHEN 'resolve' THEN format('The $%s share stands after review.', to_char(v_current, 'FM999990.00'))
+    WHEN 'adjust' THEN format('The share was changed from $%s to $%s.', to_char(v_current, 'FM999990.00'), to_char(v_new_amount, 'FM999990.00'))
+    ELSE format('The $%s share was waived.', to_char(v_current, 'FM999990.00'))
+  END || COALESCE(' ' || v_dispute.resolution_note, '');
+
+  INSERT INTO notifications (user_id, ride_id, type, title, message, metadata)
+  SELECT recipient, v_payment.ride_id, 'payment_dispute_resolved', 'Payment Dispute Closed', v_message,
+         jsonb_build_object('payment_dispute_id', v_dispute.id, 'uber_payment_id', v_payment.id, 'status', v_dispute.status)
+  FROM unnest(ARRAY[v_dispute.user_id, v_payment.payer_user_id]) AS recipient;
+
+  RETURN v_dispute;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.resolve_payment_dispute(uuid, text, numeric, text) TO authenticated;
+
+-- Open disputes for the admin queue, with what the attendance survey said
+-- about the disputing rider
+CREATE OR REPLACE FUNCTION public.get_payment_dispute_queue()
+RETURNS TABLE (
+  id uuid,
+  uber_payment_id uuid,
+  ride_id uuid,
+  event_name text,
+  event_date timestamp with time zone,
+  payer_name text,
+  user_id uuid,
+  user_name text,
+  user_email text,
+  reason text,
+  details text,
+  payment_amount numeric,
+  amount_owed numeric,
+  attendance text,
+  vote_count integer,
+  total_voters integer,
+  created_at timestamp with time zone
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can view the dispute queue';
+  END IF;
+
+  RETURN QUERY
+  SELECT pd.id, pd.uber_payment_id, up.ride_id, e.name, e.date_time,
+         payer.name, pd.user_id, disputer.name, disputer.email,
+         pd.reason, pd.details, up.amount, ups.amount_owed,
+         -- 'confirmed' when consensus put them on the ride, 'not_confirmed'
+         -- when the survey closed without them, 'pending' before then
+         CASE
+           WHEN rc.id IS NOT NULL THEN 'confirmed'
+           WHEN ras.consensus_processed THEN 'not_confirmed'
+           ELSE 'pending'
+         END,
+         rc.vote_count, rc.total_voters, pd.created_at
+  FROM payment_disputes pd
+  JOIN uber_payments up ON up.id = pd.uber_payment_id
+  JOIN uber_payment_shares ups ON ups.uber_payment_id = pd.uber_payment_id AND ups.user_id = pd.user_id
+  JOIN ride_groups rg ON rg.id = up.ride_id
+  JOIN events e ON e.id = rg.event_id
+  JOIN profiles payer ON payer.id = up.payer_user_id
+  JOIN profiles disputer ON disputer.id = pd.user_id
+  LEFT JOIN ride_completions rc ON rc.ride_id = up.ride_id AND rc.user_id = pd.user_id
+  LEFT JOIN ride_attendance_surveys ras ON ras.ride_id = up.ride_id
+  WHERE pd.status = 'open'
+  ORDER BY pd.created_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_payment_dispute_queue() TO authenticated;
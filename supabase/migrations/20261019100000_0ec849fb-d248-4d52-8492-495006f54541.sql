@@ -0,0 +1,235 @@
+-- Ride status alerts: "starting soon", "group full" and "group ready".
+-- Each member gets each alert at most once per ride, and members can turn
+-- them off from their profile.
+ALTER TABLE public.profiles
+  ADD COLUMN ride_alerts_enabled boolean NOT NULL DEFAULT true;
+
+CREATE TABLE public.ride_notification_log (
+  ride_id uuid NOT NULL REFERENCES public.ride_groups(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  type notification_type NOT NULL,
+  sent_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (ride_id, user_id, type)
+);
+
+-- Only written by the trigger below
+ALTER TABLE public.ride_notification_log ENABLE ROW LEVEL SECURITY;
+
+-- Drops repeat and opted-out ride alerts whichever code path inserts them
+CREATE OR REPLACE FUNCTION public.dedupe_ride_alert()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = NEW.user_id AND NOT ride_alerts_enabled
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO ride_notification_log (ride_id, user_id, type)
+  VALUES (NEW.ride_id, NEW.user_id, NEW.type)
+  ON CONFLICT DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER dedupe_ride_alert
+BEFORE INSERT ON public.notifications
+FOR EACH ROW
+WHEN (NEW.ride_id IS NOT NULL AND NEW.type IN ('ride_starting_soon', 'group_full', 'group_ready'))
+EXECUTE FUNCTION public.dedupe_ride_alert();
+
+-- Members already told their proposed group was confirmed have had group_ready
+INSERT INTO public.ride_notification_log (ride_id, user_id, type, sent_at)
+SELECT DISTINCT ON (n.ride_id, n.user_id) n.ride_id, n.user_id, n.type, n.created_at
+FROM public.notifications n
+JOIN public.ride_groups rg ON rg.id = n.ride_id
+WHERE n.type = 'group_ready'
+  AND n.title = 'Your ride group is confirmed!'
+ORDER BY n.ride_id, n.user_id, n.created_at
+ON CONFLICT DO NOTHING;
+
+-- Upcoming rides that are already ready or full don't announce it again
+-- on the first scheduled run
+WITH counts AS (
+  SELECT rg.id, COALESCE(rg.min_capacity, 2) AS min_capacity, rg.capacity,
+         count(rm.user_id)::integer AS joined
+  FROM public.ride_groups rg
+  JOIN public.ride_members rm ON rm.ride_id = rg.id AND rm.status = 'joined'
+  WHERE rg.status = 'active'
+    AND rg.departure_time > now()
+  GROUP BY rg.id
+)
+INSERT INTO public.ride_notification_log (ride_id, user_id, type)
+SELECT c.id, rm.user_id, m.type
+FROM counts c
+JOIN public.ride_members rm ON rm.ride_id = c.id AND rm.status = 'joined'
+CROSS JOIN LATERAL (
+  SELECT 'group_ready'::notification_type AS type WHERE c.joined >= c.min_capacity
+  UNION ALL
+  SELECT 'group_full'::notification_type WHERE c.joined >= c.capacity
+) m
+ON CONFLICT DO NOTHING;
+
+-- Sends group_ready once min_capacity members have joined and group_full
+-- once every seat is taken. Pass NULL to check every upcoming ride.
+-- Returns how many notifications went out.
+CREATE OR REPLACE FUNCTION public.notify_ride_milestones(p_ride_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ready integer;
+  v_full integer;
+BEGIN
+  WITH counts AS (
+    SELECT rg.id, COALESCE(rg.min_capacity, 2) AS min_capacity, count(rm.user_id)::integer AS joined
+    FROM ride_groups rg
+    JOIN ride_members rm ON rm.ride_id = rg.id AND rm.status = 'joined'
+    WHERE (p_ride_id IS NULL OR rg.id = p_ride_id)
+      AND rg.status = 'active'
+      AND rg.departure_time > now()
+    GROUP BY rg.id
+  )
+  INSERT INTO notifications (user_id, ride_id, type, title, message, metadata)
+  SELECT rm.user_id, c.id, 'group_ready', 'Your ride is on!',
+         c.joined || ' people are in your ride group, so it''s happening',
+         jsonb_build_object('member_count', c.joined)
+  FROM counts c
+  JOIN ride_members rm ON rm.ride_id = c.id AND rm.status = 'joined'
+  WHERE c.joined >= c.min_capacity;
+
+  GET DIAGNOSTICS v_ready = ROW_COUNT;
+
+  WITH counts AS (
+    SELECT rg.id, rg.capacity, count(rm.user_id)::integer AS joined
+    FROM ride_groups rg
+    JOIN ride_members rm ON rm.ride_id = rg.id AND rm.status = 'joined'
+    WHERE (p_ride_id IS NULL OR rg.id = p_ride_id)
+      AND rg.status = 'active'
+      AND rg.departure_time > now()
+      AND rg.capacity IS NOT NULL
+    GROUP BY rg.id
+  )
+  INSERT INTO notifications (user_id, ride_id, type, title, message, metadata)
+  SELECT rm.user_id, c.id, 'group_full', 'Ride group full',
+         'All ' || c.capacity || ' seats in your ride group are taken',
+         jsonb_build_object('member_count', c.joined)
+  FROM counts c
+  JOIN ride_members rm ON rm.ride_id = c.id AND rm.status = 'joined'
+  WHERE c.joined >= c.capacity;
+
+  GET DIAGNOSTICS v_full = ROW_COUNT;
+
+  RETURN v_ready + v_full;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_ride_milestones(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.notify_ride_milestones(uuid) TO service_role;
+
+-- The "almost full" nudge is replaced by the milestone alerts above
+CREATE OR REPLACE FUNCTION public.join_ride(p_ride_id uuid)
+RETURNS public.ride_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_ride ride_groups%ROWTYPE;
+  v_profile profiles%ROWTYPE;
+  v_conflict_departure timestamp with time zone;
+  v_member_count integer;
+  v_member ride_members%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to join a ride';
+  END IF;
+
+  SELECT * INTO v_ride FROM ride_groups WHERE id = p_ride_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ride group not found';
+  END IF;
+
+  SELECT * INTO v_profile FROM profiles WHERE id = v_user_id;
+
+  -- Invited (non-Berkeley) users can only join the ride they were invited to
+  IF v_profile.is_invited_user AND v_profile.invited_via_ride_id IS DISTINCT FROM p_ride_id THEN
+    RAISE EXCEPTION 'You can only join the ride you were invited to';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM ride_members
+    WHERE ride_id = p_ride_id AND user_id = v_user_id AND status = 'joined'
+  ) THEN
+    RAISE EXCEPTION 'You are already a member of this ride';
+  END IF;
+
+  SELECT rg.departure_time INTO v_conflict_departure
+  FROM ride_members rm
+  JOIN ride_groups rg ON rg.id = rm.ride_id
+  WHERE rm.user_id = v_user_id
+    AND rm.status = 'joined'
+    AND rg.event_id = v_ride.event_id
+    AND rm.ride_id != p_ride_id
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'You''re already in a ride group for this event (departing at %). Leave that group first to join this one.',
+      to_char(v_conflict_departure AT TIME ZONE 'America/Los_Angeles', 'FMHH12:MI AM');
+  END IF;
+
+  SELECT count(*) INTO v_member_count
+  FROM ride_members
+  WHERE ride_id = p_ride_id AND status = 'joined';
+
+  IF v_ride.capacity IS NOT NULL AND v_member_count >= v_ride.capacity THEN
+    RAISE EXCEPTION 'This ride group is full';
+  END IF;
+
+  -- Promote an existing invitation, otherwise add a fresh membership
+  UPDATE ride_members
+  SET status = 'joined',
+      role = CASE WHEN v_ride.travel_mode = 'Carpool (Student Driver)' THEN 'rider' ELSE NULL END
+  WHERE ride_id = p_ride_id AND user_id = v_user_id
+  RETURNING * INTO v_member;
+
+  IF NOT FOUND THEN
+    INSERT INTO ride_members (ride_id, user_id, status, role)
+    VALUES (
+      p_ride_id,
+      v_user_id,
+      'joined',
+      CASE WHEN v_ride.travel_mode = 'Carpool (Student Driver)' THEN 'rider' ELSE NULL END
+    )
+    RETURNING * INTO v_member;
+  END IF;
+
+  INSERT INTO notifications (user_id, ride_id, type, title, message)
+  SELECT rm.user_id, p_ride_id, 'member_joined', 'New member joined',
+         COALESCE(v_profile.name, 'Someone') || ' joined your ride group'
+  FROM ride_members rm
+  WHERE rm.ride_id = p_ride_id
+    AND rm.status = 'joined'
+    AND rm.user_id != v_user_id;
+
+  PERFORM notify_ride_milestones(p_ride_id);
+
+  RETURN v_member;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.join_ride(uuid) TO authenticated;
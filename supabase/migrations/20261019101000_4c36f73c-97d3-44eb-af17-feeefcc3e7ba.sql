@@ -0,0 +1,154 @@
+-- Per-user notification preferences.
+-- One row per notification type and channel; no row means the notification
+-- is on. Quiet hours hold back email and push (never in-app rows) and are
+-- read in Pacific time.
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'ride_updated';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'ride_deleted';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'meeting_point_changed';
+
+CREATE TABLE public.notification_preferences (
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  type notification_type NOT NULL,
+  channel text NOT NULL CHECK (channel IN ('in_app', 'email', 'push')),
+  enabled boolean NOT NULL DEFAULT true,
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, type, channel)
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their notification preferences"
+ON public.notification_preferences FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add their notification preferences"
+ON public.notification_preferences FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can change their notification preferences"
+ON public.notification_preferences FOR UPDATE
+USING (auth.uid() = user_id);
+
+ALTER TABLE public.profiles
+  ADD COLUMN quiet_hours_start time,
+  ADD COLUMN quiet_hours_end time;
+
+-- Carry over the single ride alerts switch, then retire it
+INSERT INTO public.notification_preferences (user_id, type, channel, enabled)
+SELECT p.id, t.type::notification_type, c.channel, false
+FROM public.profiles p
+CROSS JOIN (VALUES ('ride_starting_soon'), ('group_full'), ('group_ready')) AS t(type)
+CROSS JOIN (VALUES ('in_app'), ('email'), ('push')) AS c(channel)
+WHERE NOT p.ride_alerts_enabled;
+
+CREATE OR REPLACE FUNCTION public.dedupe_ride_alert()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO ride_notification_log (ride_id, user_id, type)
+  VALUES (NEW.ride_id, NEW.user_id, NEW.type)
+  ON CONFLICT DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+ALTER TABLE public.profiles DROP COLUMN ride_alerts_enabled;
+
+-- Whether it's currently inside the user's quiet hours. A window whose
+-- start is after its end runs past midnight (e.g. 22:00 to 07:00).
+CREATE OR REPLACE FUNCTION public.in_quiet_hours(p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT CASE
+      WHEN quiet_hours_start IS NULL OR quiet_hours_end IS NULL OR quiet_hours_start = quiet_hours_end THEN false
+      WHEN quiet_hours_start < quiet_hours_end THEN
+        (now() AT TIME ZONE 'America/Los_Angeles')::time >= quiet_hours_start
+        AND (now() AT TIME ZONE 'America/Los_Angeles')::time < quiet_hours_end
+      ELSE
+        (now() AT TIME ZONE 'America/Los_Angeles')::time >= quiet_hours_start
+        OR (now() AT TIME ZONE 'America/Los_Angeles')::time < quiet_hours_end
+    END
+    FROM profiles
+    WHERE id = p_user_id
+  ), false);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.in_quiet_hours(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.in_quiet_hours(uuid) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.wants_notification(p_user_id uuid, p_type notification_type, p_channel text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT enabled FROM notification_preferences
+    WHERE user_id = p_user_id AND type = p_type AND channel = p_channel
+  ), true)
+  AND (p_channel = 'in_app' OR NOT in_quiet_hours(p_user_id));
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.wants_notification(uuid, notification_type, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.wants_notification(uuid, notification_type, text) TO service_role;
+
+-- Narrows a list of email addresses to the people who want this
+-- notification on this channel right now. Addresses that don't belong to a
+-- profile (e.g. invitees who haven't signed up) are kept.
+CREATE OR REPLACE FUNCTION public.filter_notification_recipients(
+  p_emails text[],
+  p_type notification_type,
+  p_channel text
+)
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(e.email), '{}')
+  FROM unnest(p_emails) AS e(email)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE lower(p.email) = lower(e.email)
+      AND NOT wants_notification(p.id, p_type, p_channel)
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.filter_notification_recipients(text[], notification_type, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.filter_notification_recipients(text[], notification_type, text) TO service_role;
+
+-- In-app rows are dropped for muted types no matter which code path inserts them
+CREATE OR REPLACE FUNCTION public.skip_muted_notification()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT wants_notification(NEW.user_id, NEW.type, 'in_app') THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER skip_muted_notification
+BEFORE INSERT ON public.notifications
+FOR EACH ROW
+EXECUTE FUNCTION public.skip_muted_notification();
@@ -0,0 +1,104 @@
+-- Web Push subscriptions, one per browser/device. The VAPID public key each
+-- was made with is kept so stale ones stand out after a key rotation.
+CREATE TABLE public.push_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  endpoint text NOT NULL UNIQUE,
+  p256dh text NOT NULL,
+  auth text NOT NULL,
+  vapid_public_key text NOT NULL,
+  user_agent text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  last_used_at timestamp with time zone
+);
+
+CREATE INDEX idx_push_subscriptions_user ON public.push_subscriptions(user_id);
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their push subscriptions"
+ON public.push_subscriptions FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove their push subscriptions"
+ON public.push_subscriptions FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Saves this device's subscription for the signed-in user. A browser has one
+-- endpoint no matter who is signed in, so whoever subscribes last owns it.
+CREATE OR REPLACE FUNCTION public.save_push_subscription(
+  p_endpoint text,
+  p_p256dh text,
+  p_auth text,
+  p_vapid_public_key text,
+  p_user_agent text
+)
+RETURNS public.push_subscriptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_subscription push_subscriptions%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to turn on push notifications';
+  END IF;
+
+  INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth, vapid_public_key, user_agent)
+  VALUES (v_user_id, p_endpoint, p_p256dh, p_auth, p_vapid_public_key, p_user_agent)
+  ON CONFLICT (endpoint) DO UPDATE
+  SET user_id = EXCLUDED.user_id,
+      p256dh = EXCLUDED.p256dh,
+      auth = EXCLUDED.auth,
+      vapid_public_key = EXCLUDED.vapid_public_key,
+      user_agent = EXCLUDED.user_agent
+  RETURNING * INTO v_subscription;
+
+  RETURN v_subscription;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_push_subscription(text, text, text, text, text) TO authenticated;
+
+-- Set once a notification has been pushed so retried requests don't push twice
+ALTER TABLE public.notifications
+  ADD COLUMN push_sent_at timestamp with time zone;
+
+-- Hands every new notification to the push fan-out, with the internal
+-- function secret from the vault so send-push-notification can turn away
+-- requests that don't come from here. The function re-reads the row.
+CREATE OR REPLACE FUNCTION public.request_push_notification()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_secret text;
+BEGIN
+  SELECT decrypted_secret INTO v_secret
+  FROM vault.decrypted_secrets
+  WHERE name = 'internal_function_secret';
+
+  PERFORM net.http_post(
+    url := 'https://rfiprbhinkofscupecgw.supabase.co/functions/v1/send-push-notification',
+    body := jsonb_build_object('record', jsonb_build_object('id', NEW.id)),
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-function-secret', COALESCE(v_secret, '')
+    ),
+    timeout_milliseconds := 5000
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.request_push_notification() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER push_new_notification
+AFTER INSERT ON public.notifications
+FOR EACH ROW
+EXECUTE FUNCTION public.request_push_notification();
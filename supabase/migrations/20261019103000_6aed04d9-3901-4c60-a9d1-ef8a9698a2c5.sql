@@ -0,0 +1,78 @@
+-- Chat email digests. Instead of one email per chat message, members get a
+-- single summary per ride once the chat has been quiet for a while, covering
+-- only the messages they haven't read in the app.
+ALTER TABLE public.profiles
+  ADD COLUMN chat_email_digest boolean NOT NULL DEFAULT true;
+
+-- How far each member's digests have got, per ride
+CREATE TABLE public.chat_digest_log (
+  ride_id uuid NOT NULL REFERENCES public.ride_groups(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  last_message_at timestamp with time zone NOT NULL,
+  sent_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (ride_id, user_id)
+);
+
+-- Only written by send-chat-digests
+ALTER TABLE public.chat_digest_log ENABLE ROW LEVEL SECURITY;
+
+-- One row per member and ride with unread messages from others, for chats
+-- that have had no new message for p_idle_minutes. Messages older than two
+-- days are left out so a digest never dredges up an old conversation.
+CREATE OR REPLACE FUNCTION public.get_pending_chat_digests(p_idle_minutes integer)
+RETURNS TABLE (
+  ride_id uuid,
+  user_id uuid,
+  email text,
+  event_name text,
+  unread_count integer,
+  last_message_at timestamp with time zone,
+  messages jsonb
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH quiet_rides AS (
+    SELECT m.ride_id
+    FROM ride_group_messages m
+    WHERE m.created_at > now() - interval '2 days'
+    GROUP BY m.ride_id
+    HAVING max(m.created_at) <= now() - make_interval(mins => p_idle_minutes)
+  ),
+  unread AS (
+    SELECT rm.ride_id, rm.user_id, m.message, m.created_at, sender.name AS sender_name
+    FROM quiet_rides q
+    JOIN ride_members rm ON rm.ride_id = q.ride_id AND rm.status = 'joined'
+    JOIN profiles p ON p.id = rm.user_id
+    JOIN ride_group_messages m ON m.ride_id = q.ride_id
+    JOIN profiles sender ON sender.id = m.user_id
+    LEFT JOIN ride_message_reads r ON r.ride_id = rm.ride_id AND r.user_id = rm.user_id
+    LEFT JOIN chat_digest_log d ON d.ride_id = rm.ride_id AND d.user_id = rm.user_id
+    WHERE p.chat_email_digest
+      AND m.user_id <> rm.user_id
+      AND m.created_at > now() - interval '2 days'
+      AND m.created_at > COALESCE(r.last_read_at, '-infinity')
+      AND m.created_at > COALESCE(d.last_message_at, '-infinity')
+      AND wants_notification(rm.user_id, 'new_message', 'email')
+  )
+  SELECT u.ride_id,
+         u.user_id,
+         p.email,
+         e.name,
+         count(*)::integer,
+         max(u.created_at),
+         jsonb_agg(
+           jsonb_build_object('sender', u.sender_name, 'message', u.message, 'created_at', u.created_at)
+           ORDER BY u.created_at
+         )
+  FROM unread u
+  JOIN profiles p ON p.id = u.user_id
+  JOIN ride_groups rg ON rg.id = u.ride_id
+  JOIN events e ON e.id = rg.event_id
+  GROUP BY u.ride_id, u.user_id, p.email, e.name;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_pending_chat_digests(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_pending_chat_digests(integer) TO service_role;
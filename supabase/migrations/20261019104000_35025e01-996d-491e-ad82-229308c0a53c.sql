@@ -0,0 +1,31 @@
+-- Admin-edited email wording. The built-in templates in
+-- supabase/functions/_shared/emailTemplates.ts are version 1 of every type;
+-- each save from the System tab adds the next version and the newest one is
+-- what gets sent. Old versions are kept so a change can be traced or undone.
+CREATE TABLE public.email_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  type text NOT NULL,
+  version integer NOT NULL CHECK (version > 1),
+  subject text NOT NULL,
+  html text NOT NULL,
+  text text NOT NULL,
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (type, version)
+);
+
+ALTER TABLE public.email_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view email templates"
+ON public.email_templates
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can add email template versions"
+ON public.email_templates
+FOR INSERT
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role) AND created_by = auth.uid());
+
+-- Which template version each logged email was rendered from
+ALTER TABLE public.email_notification_logs
+  ADD COLUMN template_version integer;
@@ -0,0 +1,123 @@
+-- Durable email outbox. Edge functions render an email and enqueue one row
+-- per recipient; process-email-outbox sends them, retrying failures with
+-- exponential backoff until max_attempts, after which the row is dead and
+-- waits for an admin to retry or discard it from the System tab.
+CREATE TABLE public.email_outbox (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- The same email to the same recipient is only ever queued once
+  idempotency_key text NOT NULL UNIQUE,
+  recipient text NOT NULL,
+  subject text NOT NULL,
+  html text NOT NULL,
+  text text NOT NULL,
+  notification_type text NOT NULL,
+  ride_id uuid REFERENCES public.ride_groups(id) ON DELETE SET NULL,
+  message_id uuid,
+  template_version integer,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sending', 'sent', 'dead', 'discarded')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 5,
+  next_attempt_at timestamp with time zone NOT NULL DEFAULT now(),
+  locked_at timestamp with time zone,
+  last_error text,
+  provider_message_id text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  sent_at timestamp with time zone
+);
+
+CREATE INDEX idx_email_outbox_due
+  ON public.email_outbox (next_attempt_at)
+  WHERE status = 'pending';
+
+CREATE INDEX idx_email_outbox_failed
+  ON public.email_outbox (created_at DESC)
+  WHERE status = 'dead' OR (status = 'pending' AND attempts > 0);
+
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view the email outbox"
+ON public.email_outbox
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Hands the worker up to p_limit due emails and marks them as sending, so
+-- overlapping runs never send the same row twice. Rows stuck in sending for
+-- ten minutes (a worker that crashed mid-batch) are picked up again.
+CREATE OR REPLACE FUNCTION public.claim_email_outbox(p_limit integer)
+RETURNS SETOF public.email_outbox
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE email_outbox o
+  SET status = 'sending',
+      attempts = o.attempts + 1,
+      locked_at = now()
+  WHERE o.id IN (
+    SELECT id
+    FROM email_outbox
+    WHERE (status = 'pending' AND next_attempt_at <= now())
+       OR (status = 'sending' AND locked_at < now() - interval '10 minutes')
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_email_outbox(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_email_outbox(integer) TO service_role;
+
+-- Admin action: queue a failed email for another attempt straight away
+CREATE OR REPLACE FUNCTION public.retry_email_outbox(p_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can retry emails';
+  END IF;
+
+  UPDATE email_outbox
+  SET status = 'pending',
+      next_attempt_at = now(),
+      max_attempts = GREATEST(max_attempts, attempts + 1),
+      locked_at = NULL
+  WHERE id = p_id
+    AND status IN ('pending', 'dead', 'discarded');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Email not found or already sent';
+  END IF;
+END;
+$$;
+
+-- Admin action: give up on a failed email
+CREATE OR REPLACE FUNCTION public.discard_email_outbox(p_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can discard emails';
+  END IF;
+
+  UPDATE email_outbox
+  SET status = 'discarded',
+      locked_at = NULL
+  WHERE id = p_id
+    AND status IN ('pending', 'dead');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Email not found or no longer waiting to be sent';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.retry_email_outbox(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.discard_email_outbox(uuid) TO authenticated;
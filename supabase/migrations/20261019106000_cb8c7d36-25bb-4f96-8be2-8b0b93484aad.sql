@@ -0,0 +1,72 @@
+-- Per-user secret calendar feeds. Calendar apps subscribe to
+-- calendar-feed?token=..., which lists the user's rides as an ICS file.
+-- Anyone holding the link can read it, so users can reset or revoke it
+-- from their profile.
+CREATE TABLE public.calendar_feed_tokens (
+  user_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own calendar feed token"
+ON public.calendar_feed_tokens
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can revoke their own calendar feed token"
+ON public.calendar_feed_tokens
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Creates the caller's feed token, or replaces it so the old link stops
+-- working. Tokens are generated here so clients can't pick a guessable one.
+CREATE OR REPLACE FUNCTION public.reset_calendar_feed_token()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token text := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO calendar_feed_tokens (user_id, token)
+  VALUES (auth.uid(), v_token)
+  ON CONFLICT (user_id) DO UPDATE
+  SET token = EXCLUDED.token,
+      created_at = now();
+
+  RETURN v_token;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reset_calendar_feed_token() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.reset_calendar_feed_token() TO authenticated;
+
+-- The feed reports when each ride last changed so subscribed calendars
+-- replace their copy after an edit or a meeting point vote
+ALTER TABLE public.ride_groups
+ADD COLUMN updated_at timestamp with time zone NOT NULL DEFAULT now();
+
+UPDATE public.ride_groups SET updated_at = COALESCE(created_at, now());
+
+CREATE OR REPLACE FUNCTION public.update_ride_groups_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_ride_groups_updated_at
+BEFORE UPDATE ON public.ride_groups
+FOR EACH ROW
+EXECUTE FUNCTION public.update_ride_groups_updated_at();
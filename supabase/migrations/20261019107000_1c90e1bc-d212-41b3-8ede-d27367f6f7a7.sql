@@ -0,0 +1,99 @@
+-- Google Calendar write-back. Members who connected Google Calendar get an
+-- event for each ride they join; sync-google-calendar keeps it in step as
+-- the membership and the ride change, and removes it when they leave.
+
+-- Every event sync-google-calendar created, so it can be removed again
+-- once the membership is gone. Leaving marks the row instead of deleting
+-- it, and the function deletes the event from what's recorded here rather
+-- than from anything in the webhook body. ride_id has no foreign key so
+-- deleting a ride leaves the rows its members need cleaned up.
+CREATE TABLE public.google_calendar_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  ride_id uuid NOT NULL,
+  google_event_id text NOT NULL,
+  pending_delete boolean NOT NULL DEFAULT false,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (user_id, ride_id)
+);
+
+CREATE INDEX idx_google_calendar_events_pending
+  ON public.google_calendar_events (updated_at)
+  WHERE pending_delete;
+
+-- Only the edge function touches these
+ALTER TABLE public.google_calendar_events ENABLE ROW LEVEL SECURITY;
+
+-- Set when Google refuses a write because the connection only has the old
+-- read-only scope; cleared when the member connects again
+ALTER TABLE public.calendar_tokens
+  ADD COLUMN needs_reconnect boolean NOT NULL DEFAULT false;
+
+-- Posts to sync-google-calendar with the internal function secret from the
+-- vault, so the function can turn away requests that don't come from here.
+-- The body only says what changed; the function re-reads everything else.
+CREATE OR REPLACE FUNCTION public.request_google_calendar_sync()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_secret text;
+  v_id uuid;
+BEGIN
+  IF TG_TABLE_NAME = 'ride_members' THEN
+    v_id := COALESCE(NEW.id, OLD.id);
+
+    -- The membership row is gone (or no longer joined) by the time the
+    -- function runs, so mark its event for removal now
+    IF TG_OP = 'DELETE' OR (OLD.status = 'joined' AND NEW.status IS DISTINCT FROM 'joined') THEN
+      UPDATE public.google_calendar_events
+      SET pending_delete = true, updated_at = now()
+      WHERE user_id = OLD.user_id
+        AND ride_id = OLD.ride_id;
+    END IF;
+  ELSE
+    v_id := NEW.id;
+  END IF;
+
+  SELECT decrypted_secret INTO v_secret
+  FROM vault.decrypted_secrets
+  WHERE name = 'internal_function_secret';
+
+  PERFORM net.http_post(
+    url := 'https://rfiprbhinkofscupecgw.supabase.co/functions/v1/sync-google-calendar',
+    body := jsonb_build_object('type', TG_OP, 'table', TG_TABLE_NAME, 'id', v_id),
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-function-secret', COALESCE(v_secret, '')
+    ),
+    timeout_milliseconds := 5000
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.request_google_calendar_sync() FROM PUBLIC, anon, authenticated;
+
+-- Joining, leaving or being promoted changes membership rows, and a ride
+-- edit or meeting point vote changes the ride itself
+CREATE TRIGGER sync_google_calendar_membership
+AFTER INSERT OR DELETE ON public.ride_members
+FOR EACH ROW
+EXECUTE FUNCTION public.request_google_calendar_sync();
+
+CREATE TRIGGER sync_google_calendar_membership_status
+AFTER UPDATE OF status ON public.ride_members
+FOR EACH ROW
+WHEN (OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION public.request_google_calendar_sync();
+
+CREATE TRIGGER sync_google_calendar_ride
+AFTER UPDATE OF departure_time, meeting_point ON public.ride_groups
+FOR EACH ROW
+WHEN (OLD.departure_time IS DISTINCT FROM NEW.departure_time
+   OR OLD.meeting_point IS DISTINCT FROM NEW.meeting_point)
+EXECUTE FUNCTION public.request_google_calendar_sync();
@@ -0,0 +1,48 @@
+-- Optional SMS for urgent ride changes. A phone number only counts once
+-- it's been confirmed with a code texted to it by the verify-phone edge
+-- function, and only send-ride-notification's high-urgency types go out
+-- by text.
+ALTER TABLE public.profiles
+  ADD COLUMN phone_number text,
+  ADD COLUMN phone_verified_at timestamp with time zone;
+
+-- Users update their own profile directly, so keep them from setting a
+-- number (or marking it verified) without going through verify-phone
+CREATE OR REPLACE FUNCTION public.protect_profile_phone()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND (NEW.phone_number IS DISTINCT FROM OLD.phone_number
+      OR NEW.phone_verified_at IS DISTINCT FROM OLD.phone_verified_at) THEN
+    RAISE EXCEPTION 'Phone numbers can only be changed through verification';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profile_phone
+BEFORE UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_profile_phone();
+
+-- The code waiting to be entered for each user, hashed. Only verify-phone
+-- reads or writes it.
+CREATE TABLE public.phone_verifications (
+  user_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  phone_number text NOT NULL,
+  code_hash text NOT NULL,
+  attempts integer NOT NULL DEFAULT 0,
+  expires_at timestamp with time zone NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.phone_verifications ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.notification_preferences
+  DROP CONSTRAINT notification_preferences_channel_check,
+  ADD CONSTRAINT notification_preferences_channel_check
+    CHECK (channel IN ('in_app', 'email', 'push', 'sms'));
@@ -0,0 +1,224 @@
+-- Chat message editing, soft deletion, quote replies and emoji reactions.
+-- Everything goes through UPDATEs on ride_group_messages so the chat's
+-- existing ride-chat realtime subscription (filtered by ride_id) sees it;
+-- reaction changes touch their message for the same reason.
+ALTER TABLE public.ride_group_messages
+  ADD COLUMN edited_at timestamp with time zone,
+  ADD COLUMN deleted_at timestamp with time zone,
+  ADD COLUMN reply_to_id uuid REFERENCES public.ride_group_messages(id) ON DELETE SET NULL;
+
+CREATE POLICY "Members can edit their own messages"
+  ON public.ride_group_messages FOR UPDATE
+  USING (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM ride_members
+      WHERE ride_members.ride_id = ride_group_messages.ride_id
+      AND ride_members.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (auth.uid() = user_id);
+
+-- Edits may only change the text or delete the message. Deleting blanks the
+-- text so it can't be read back; deleted messages stay as a placeholder.
+-- reply_to_id and payment_dispute_id may still be cleared, which is what
+-- their ON DELETE SET NULL does.
+CREATE OR REPLACE FUNCTION public.guard_ride_message_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.ride_id IS DISTINCT FROM OLD.ride_id
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+    OR (NEW.reply_to_id IS DISTINCT FROM OLD.reply_to_id AND NEW.reply_to_id IS NOT NULL)
+    OR (NEW.payment_dispute_id IS DISTINCT FROM OLD.payment_dispute_id AND NEW.payment_dispute_id IS NOT NULL) THEN
+    RAISE EXCEPTION 'Only the message text can be changed';
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    IF NEW.deleted_at IS NULL OR NEW.message IS DISTINCT FROM OLD.message THEN
+      RAISE EXCEPTION 'This message has been deleted';
+    END IF;
+    NEW.deleted_at := OLD.deleted_at;
+    NEW.edited_at := OLD.edited_at;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    IF OLD.payment_dispute_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Messages that opened a payment dispute can''t be deleted';
+    END IF;
+    NEW.deleted_at := now();
+    NEW.message := '';
+    NEW.edited_at := OLD.edited_at;
+  ELSIF NEW.message IS DISTINCT FROM OLD.message THEN
+    IF OLD.payment_dispute_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Messages that opened a payment dispute can''t be edited';
+    END IF;
+    IF length(trim(NEW.message)) = 0 THEN
+      RAISE EXCEPTION 'Message can''t be empty';
+    END IF;
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_ride_message_update
+BEFORE UPDATE ON public.ride_group_messages
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_ride_message_update();
+
+-- A reply has to quote a message from the same ride
+CREATE OR REPLACE FUNCTION public.check_ride_message_reply()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.reply_to_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM ride_group_messages
+    WHERE id = NEW.reply_to_id AND ride_id = NEW.ride_id
+  ) THEN
+    RAISE EXCEPTION 'Replies must quote a message in the same ride chat';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_ride_message_reply
+BEFORE INSERT ON public.ride_group_messages
+FOR EACH ROW
+EXECUTE FUNCTION public.check_ride_message_reply();
+
+CREATE TABLE public.ride_message_reactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES public.ride_group_messages(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  emoji text NOT NULL CHECK (length(emoji) BETWEEN 1 AND 16),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (message_id, user_id, emoji)
+);
+
+CREATE INDEX idx_ride_message_reactions_message_id ON public.ride_message_reactions(message_id);
+
+ALTER TABLE public.ride_message_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view reactions"
+  ON public.ride_message_reactions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM ride_group_messages m
+      JOIN ride_members rm ON rm.ride_id = m.ride_id
+      WHERE m.id = ride_message_reactions.message_id
+      AND rm.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Members can react to messages"
+  ON public.ride_message_reactions FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM ride_group_messages m
+      JOIN ride_members rm ON rm.ride_id = m.ride_id
+      WHERE m.id = ride_message_reactions.message_id
+      AND m.deleted_at IS NULL
+      AND rm.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can remove their own reactions"
+  ON public.ride_message_reactions FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Realtime can't filter reaction deletes by ride, so bump the message
+-- instead and let its UPDATE reach the chat. Skips deleted messages, which
+-- the guard above won't let change.
+CREATE OR REPLACE FUNCTION public.touch_reacted_message()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE ride_group_messages
+  SET updated_at = now()
+  WHERE id = COALESCE(NEW.message_id, OLD.message_id)
+    AND deleted_at IS NULL;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER touch_reacted_message
+AFTER INSERT OR DELETE ON public.ride_message_reactions
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_reacted_message();
+
+-- Deleted messages stay out of chat digests
+CREATE OR REPLACE FUNCTION public.get_pending_chat_digests(p_idle_minutes integer)
+RETURNS TABLE (
+  ride_id uuid,
+  user_id uuid,
+  email text,
+  event_name text,
+  unread_count integer,
+  last_message_at timestamp with time zone,
+  messages jsonb
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH quiet_rides AS (
+    SELECT m.ride_id
+    FROM ride_group_messages m
+    WHERE m.created_at > now() - interval '2 days'
+    GROUP BY m.ride_id
+    HAVING max(m.created_at) <= now() - make_interval(mins => p_idle_minutes)
+  ),
+  unread AS (
+    SELECT rm.ride_id, rm.user_id, m.message, m.created_at, sender.name AS sender_name
+    FROM quiet_rides q
+    JOIN ride_members rm ON rm.ride_id = q.ride_id AND rm.status = 'joined'
+    JOIN profiles p ON p.id = rm.user_id
+    JOIN ride_group_messages m ON m.ride_id = q.ride_id
+    JOIN profiles sender ON sender.id = m.user_id
+    LEFT JOIN ride_message_reads r ON r.ride_id = rm.ride_id AND r.user_id = rm.user_id
+    LEFT JOIN chat_digest_log d ON d.ride_id = rm.ride_id AND d.user_id = rm.user_id
+    WHERE p.chat_email_digest
+      AND m.user_id <> rm.user_id
+      AND m.deleted_at IS NULL
+      AND m.created_at > now() - interval '2 days'
+      AND m.created_at > COALESCE(r.last_read_at, '-infinity')
+      AND m.created_at > COALESCE(d.last_message_at, '-infinity')
+      AND wants_notification(rm.user_id, 'new_message', 'email')
+  )
+  SELECT u.ride_id,
+         u.user_id,
+         p.email,
+         e.name,
+         count(*)::integer,
+         max(u.created_at),
+         jsonb_agg(
+           jsonb_build_object('sender', u.sender_name, 'message', u.message, 'created_at', u.created_at)
+           ORDER BY u.created_at
+         )
+  FROM unread u
+  JOIN profiles p ON p.id = u.user_id
+  JOIN ride_groups rg ON rg.id = u.ride_id
+  JOIN events e ON e.id = rg.event_id
+  GROUP BY u.ride_id, u.user_id, p.email, e.name;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_pending_chat_digests(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_pending_chat_digests(integer) TO service_role;
@@ -0,0 +1,310 @@
+-- Timeline events in the ride group chat. Joins, leaves, meeting point and
+-- ride edits and payment requests are posted as chat rows with a
+-- system_event set, so they sit in the conversation next to the messages
+-- they explain and reach open chats through the existing realtime channel.
+ALTER TABLE public.ride_group_messages
+  ADD COLUMN system_event text CHECK (system_event IN (
+    'member_joined',
+    'member_left',
+    'waitlist_promoted',
+    'meeting_point_changed',
+    'ride_updated',
+    'payment_request'
+  )),
+  ADD COLUMN metadata jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+-- Members can't post timeline events; only the triggers below write them
+CREATE OR REPLACE FUNCTION public.check_ride_message_system_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.system_event IS NOT NULL OR NEW.metadata <> '{}'::jsonb)
+    AND current_user IN ('authenticated', 'anon') THEN
+    RAISE EXCEPTION 'Timeline events can only be posted by the app';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_ride_message_system_event
+BEFORE INSERT ON public.ride_group_messages
+FOR EACH ROW
+EXECUTE FUNCTION public.check_ride_message_system_event();
+
+-- Same rules as before, plus timeline events are fixed once posted. Touching
+-- updated_at (for reactions) still goes through.
+CREATE OR REPLACE FUNCTION public.guard_ride_message_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.ride_id IS DISTINCT FROM OLD.ride_id
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+    OR NEW.system_event IS DISTINCT FROM OLD.system_event
+    OR NEW.metadata IS DISTINCT FROM OLD.metadata
+    OR (NEW.reply_to_id IS DISTINCT FROM OLD.reply_to_id AND NEW.reply_to_id IS NOT NULL)
+    OR (NEW.payment_dispute_id IS DISTINCT FROM OLD.payment_dispute_id AND NEW.payment_dispute_id IS NOT NULL) THEN
+    RAISE EXCEPTION 'Only the message text can be changed';
+  END IF;
+
+  IF OLD.system_event IS NOT NULL
+    AND (NEW.message IS DISTINCT FROM OLD.message OR NEW.deleted_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'Timeline events can''t be edited or deleted';
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    IF NEW.deleted_at IS NULL OR NEW.message IS DISTINCT FROM OLD.message THEN
+      RAISE EXCEPTION 'This message has been deleted';
+    END IF;
+    NEW.deleted_at := OLD.deleted_at;
+    NEW.edited_at := OLD.edited_at;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    IF OLD.payment_dispute_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Messages that opened a payment dispute can''t be deleted';
+    END IF;
+    NEW.deleted_at := now();
+    NEW.message := '';
+    NEW.edited_at := OLD.edited_at;
+  ELSIF NEW.message IS DISTINCT FROM OLD.message THEN
+    IF OLD.payment_dispute_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Messages that opened a payment dispute can''t be edited';
+    END IF;
+    IF length(trim(NEW.message)) = 0 THEN
+      RAISE EXCEPTION 'Message can''t be empty';
+    END IF;
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+-- Timeline events are written by the database as the change happens, never
+-- by members, so the chat only shows what actually changed
+CREATE OR REPLACE FUNCTION public.add_ride_timeline_event(
+  p_ride_id uuid,
+  p_user_id uuid,
+  p_event text,
+  p_metadata jsonb DEFAULT '{}'::jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Deleting a ride removes its members (and its chat) with it
+  IF p_user_id IS NULL OR NOT EXISTS (SELECT 1 FROM ride_groups WHERE id = p_ride_id) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO ride_group_messages (ride_id, user_id, message, system_event, metadata)
+  VALUES (p_ride_id, p_user_id, '', p_event, p_metadata);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.add_ride_timeline_event(uuid, uuid, text, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- Joins go through join_ride or an accepted proposal, both made by the
+-- member themselves; a seat filled on someone else's behalf is a waitlist
+-- promotion, whether from leave_ride or a capacity increase. Named to run
+-- before promote_waitlist_on_leave, so a leave is posted before the
+-- promotion it causes.
+CREATE OR REPLACE FUNCTION public.post_membership_timeline_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'DELETE' AND NEW.status = 'joined'
+    AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'joined') THEN
+    PERFORM add_ride_timeline_event(
+      NEW.ride_id,
+      NEW.user_id,
+      CASE WHEN auth.uid() = NEW.user_id THEN 'member_joined' ELSE 'waitlist_promoted' END
+    );
+  ELSIF TG_OP <> 'INSERT' AND OLD.status = 'joined'
+    AND (TG_OP = 'DELETE' OR NEW.status IS DISTINCT FROM 'joined') THEN
+    PERFORM add_ride_timeline_event(OLD.ride_id, OLD.user_id, 'member_left');
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER post_membership_timeline_event
+AFTER INSERT OR DELETE OR UPDATE OF status ON public.ride_members
+FOR EACH ROW
+EXECUTE FUNCTION public.post_membership_timeline_event();
+
+-- The organizer's edits are posted as ride_updated with what they changed
+-- (min capacity stays out of the chat); the meeting point tally flags its
+-- own change with app.meeting_point_tally and is posted as
+-- meeting_point_changed
+CREATE OR REPLACE FUNCTION public.post_ride_update_timeline_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_changes jsonb := '{}'::jsonb;
+BEGIN
+  IF current_setting('app.meeting_point_tally', true) IS DISTINCT FROM 'on' THEN
+    IF NEW.departure_time IS DISTINCT FROM OLD.departure_time THEN
+      v_changes := v_changes || jsonb_build_object('departure_time', NEW.departure_time);
+    END IF;
+    IF NEW.meeting_point IS DISTINCT FROM OLD.meeting_point THEN
+      v_changes := v_changes || jsonb_build_object('meeting_point', NEW.meeting_point);
+    END IF;
+    IF NEW.capacity IS DISTINCT FROM OLD.capacity THEN
+      v_changes := v_changes || jsonb_build_object('capacity', NEW.capacity);
+    END IF;
+
+    IF v_changes <> '{}'::jsonb THEN
+      PERFORM add_ride_timeline_event(NEW.id, auth.uid(), 'ride_updated', v_changes);
+    END IF;
+  ELSIF NEW.meeting_point IS DISTINCT FROM OLD.meeting_point THEN
+    PERFORM add_ride_timeline_event(
+      NEW.id,
+      COALESCE(auth.uid(), NEW.created_by),
+      'meeting_point_changed',
+      jsonb_build_object('meeting_point', NEW.meeting_point)
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER post_ride_update_timeline_event
+AFTER UPDATE OF departure_time, meeting_point, capacity ON public.ride_groups
+FOR EACH ROW
+EXECUTE FUNCTION public.post_ride_update_timeline_event();
+
+-- Posted as the payer once record_uber_payment has saved the payment
+CREATE OR REPLACE FUNCTION public.post_payment_timeline_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM add_ride_timeline_event(
+    NEW.ride_id,
+    NEW.payer_user_id,
+    'payment_request',
+    jsonb_build_object('amount', NEW.amount, 'payment_id', NEW.id)
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER post_payment_timeline_event
+AFTER INSERT ON public.uber_payments
+FOR EACH ROW
+EXECUTE FUNCTION public.post_payment_timeline_event();
+
+-- Timeline events already send their own notifications
+CREATE OR REPLACE FUNCTION notify_new_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.system_event IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO notifications (user_id, ride_id, type, title, message, metadata)
+  SELECT 
+    rm.user_id,
+    NEW.ride_id,
+    'new_message',
+    'New message in your ride group',
+    'You have a new message from ' || COALESCE((SELECT name FROM profiles WHERE id = NEW.user_id), 'a member'),
+    jsonb_build_object('message_id', NEW.id)
+  FROM ride_members rm
+  WHERE rm.ride_id = NEW.ride_id
+  AND rm.user_id != NEW.user_id;
+  
+  RETURN NEW;
+END;
+$$;
+
+-- Timeline events don't count as unread chat either, and don't keep a ride
+-- from looking quiet
+CREATE OR REPLACE FUNCTION public.get_pending_chat_digests(p_idle_minutes integer)
+RETURNS TABLE (
+  ride_id uuid,
+  user_id uuid,
+  email text,
+  event_name text,
+  unread_count integer,
+  last_message_at timestamp with time zone,
+  messages jsonb
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH quiet_rides AS (
+    SELECT m.ride_id
+    FROM ride_group_messages m
+    WHERE m.created_at > now() - interval '2 days'
+      AND m.system_event IS NULL
+    GROUP BY m.ride_id
+    HAVING max(m.created_at) <= now() - make_interval(mins => p_idle_minutes)
+  ),
+  unread AS (
+    SELECT rm.ride_id, rm.user_id, m.message, m.created_at, sender.name AS sender_name
+    FROM quiet_rides q
+    JOIN ride_members rm ON rm.ride_id = q.ride_id AND rm.status = 'joined'
+    JOIN profiles p ON p.id = rm.user_id
+    JOIN ride_group_messages m ON m.ride_id = q.ride_id
+    JOIN profiles sender ON sender.id = m.user_id
+    LEFT JOIN ride_message_reads r ON r.ride_id = rm.ride_id AND r.user_id = rm.user_id
+    LEFT JOIN chat_digest_log d ON d.ride_id = rm.ride_id AND d.user_id = rm.user_id
+    WHERE p.chat_email_digest
+      AND m.user_id <> rm.user_id
+      AND m.deleted_at IS NULL
+      AND m.system_event IS NULL
+      AND m.created_at > now() - interval '2 days'
+      AND m.created_at > COALESCE(r.last_read_at, '-infinity')
+      AND m.created_at > COALESCE(d.last_message_at, '-infinity')
+      AND wants_notification(rm.user_id, 'new_message', 'email')
+  )
+  SELECT u.ride_id,
+         u.user_id,
+         p.email,
+         e.name,
+         count(*)::integer,
+         max(u.created_at),
+         jsonb_agg(
+           jsonb_build_object('sender', u.sender_name, 'message', u.message, 'created_at', u.created_at)
+           ORDER BY u.created_at
+         )
+  FROM unread u
+  JOIN profiles p ON p.id = u.user_id
+  JOIN ride_groups rg ON rg.id = u.ride_id
+  JOIN events e ON e.id = rg.event_id
+  GROUP BY u.ride_id, u.user_id, p.email, e.name;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_pending_chat_digests(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_pending_chat_digests(integer) TO service_role;
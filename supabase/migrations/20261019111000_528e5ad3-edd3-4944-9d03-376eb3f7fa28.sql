@@ -0,0 +1,32 @@
+-- Read receipts in the ride group chat. Members can see how far everyone in
+-- their ride has read, and the chat listens for changes so a message's
+-- "seen by" avatars fill in as people catch up.
+CREATE POLICY "Members can view read status in their rides"
+  ON public.ride_message_reads FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM ride_members
+      WHERE ride_members.ride_id = ride_message_reads.ride_id
+      AND ride_members.user_id = auth.uid()
+    )
+  );
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ride_message_reads;
+
+-- Receipts compare last_read_at with messages' server-set created_at, so
+-- stamp it here rather than trusting the reader's clock
+CREATE OR REPLACE FUNCTION public.stamp_ride_message_read()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.last_read_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_ride_message_read
+BEFORE INSERT OR UPDATE ON public.ride_message_reads
+FOR EACH ROW
+EXECUTE FUNCTION public.stamp_ride_message_read();
@@ -0,0 +1,198 @@
+-- Location pins in the ride group chat and live location sharing around
+-- pickup, so members can find each other at the meeting point.
+
+-- A pin is a chat message with coordinates; its text is the caption
+ALTER TABLE public.ride_group_messages
+  ADD COLUMN pin_latitude double precision CHECK (pin_latitude BETWEEN -90 AND 90),
+  ADD COLUMN pin_longitude double precision CHECK (pin_longitude BETWEEN -180 AND 180),
+  ADD CONSTRAINT ride_group_messages_pin_complete
+    CHECK ((pin_latitude IS NULL) = (pin_longitude IS NULL));
+
+-- As before, plus a pin's coordinates are fixed once sent and are cleared
+-- along with the text when the message is deleted
+CREATE OR REPLACE FUNCTION public.guard_ride_message_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.ride_id IS DISTINCT FROM OLD.ride_id
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+    OR NEW.system_event IS DISTINCT FROM OLD.system_event
+    OR NEW.metadata IS DISTINCT FROM OLD.metadata
+    OR NEW.pin_latitude IS DISTINCT FROM OLD.pin_latitude
+    OR NEW.pin_longitude IS DISTINCT FROM OLD.pin_longitude
+    OR (NEW.reply_to_id IS DISTINCT FROM OLD.reply_to_id AND NEW.reply_to_id IS NOT NULL)
+    OR (NEW.payment_dispute_id IS DISTINCT FROM OLD.payment_dispute_id AND NEW.payment_dispute_id IS NOT NULL) THEN
+    RAISE EXCEPTION 'Only the message text can be changed';
+  END IF;
+
+  IF OLD.system_event IS NOT NULL
+    AND (NEW.message IS DISTINCT FROM OLD.message OR NEW.deleted_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'Timeline events can''t be edited or deleted';
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    IF NEW.deleted_at IS NULL OR NEW.message IS DISTINCT FROM OLD.message THEN
+      RAISE EXCEPTION 'This message has been deleted';
+    END IF;
+    NEW.deleted_at := OLD.deleted_at;
+    NEW.edited_at := OLD.edited_at;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    IF OLD.payment_dispute_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Messages that opened a payment dispute can''t be deleted';
+    END IF;
+    NEW.deleted_at := now();
+    NEW.message := '';
+    NEW.pin_latitude := NULL;
+    NEW.pin_longitude := NULL;
+    NEW.edited_at := OLD.edited_at;
+  ELSIF NEW.message IS DISTINCT FROM OLD.message THEN
+    IF OLD.payment_dispute_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Messages that opened a payment dispute can''t be edited';
+    END IF;
+    IF length(trim(NEW.message)) = 0 THEN
+      RAISE EXCEPTION 'Message can''t be empty';
+    END IF;
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+-- Each member's latest position while they're sharing. Sharing opens 15
+-- minutes before departure and closes 15 minutes after; rows are only
+-- visible until then and are purged once expired.
+CREATE TABLE public.ride_live_locations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ride_id uuid NOT NULL REFERENCES public.ride_groups(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  latitude double precision NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+  longitude double precision NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+  accuracy_meters double precision CHECK (accuracy_meters >= 0),
+  expires_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (ride_id, user_id)
+);
+
+CREATE INDEX idx_ride_live_locations_expires_at ON public.ride_live_locations(expires_at);
+
+ALTER TABLE public.ride_live_locations ENABLE ROW LEVEL SECURITY;
+
+-- Only joined members see the map, and members who have left the ride
+-- (or haven't accepted a proposal) drop off it straight away
+CREATE POLICY "Members can view live locations in their rides"
+  ON public.ride_live_locations FOR SELECT
+  USING (
+    expires_at > now() AND
+    EXISTS (
+      SELECT 1 FROM ride_members
+      WHERE ride_members.ride_id = ride_live_locations.ride_id
+      AND ride_members.user_id = auth.uid()
+      AND ride_members.status = 'joined'
+    ) AND
+    EXISTS (
+      SELECT 1 FROM ride_members
+      WHERE ride_members.ride_id = ride_live_locations.ride_id
+      AND ride_members.user_id = ride_live_locations.user_id
+      AND ride_members.status = 'joined'
+    )
+  );
+
+CREATE POLICY "Members can share their live location"
+  ON public.ride_live_locations FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM ride_members
+      WHERE ride_members.ride_id = ride_live_locations.ride_id
+      AND ride_members.user_id = auth.uid()
+      AND ride_members.status = 'joined'
+    )
+  );
+
+CREATE POLICY "Members can update their live location"
+  ON public.ride_live_locations FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Members can stop sharing their live location"
+  ON public.ride_live_locations FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- The sharing window comes from the ride, not the client
+CREATE OR REPLACE FUNCTION public.stamp_ride_live_location()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_departure timestamp with time zone;
+BEGIN
+  SELECT departure_time INTO v_departure FROM ride_groups WHERE id = NEW.ride_id;
+
+  IF v_departure IS NULL
+    OR now() < v_departure - interval '15 minutes'
+    OR now() > v_departure + interval '15 minutes' THEN
+    RAISE EXCEPTION 'Live location can only be shared from 15 minutes before departure until 15 minutes after';
+  END IF;
+
+  NEW.expires_at := v_departure + interval '15 minutes';
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_ride_live_location
+BEFORE INSERT OR UPDATE ON public.ride_live_locations
+FOR EACH ROW
+EXECUTE FUNCTION public.stamp_ride_live_location();
+
+-- Nothing else needs expired positions, so they're deleted whenever a
+-- position is written and on send-ride-reminders' schedule, which catches
+-- sharers who closed the app without stopping while nobody else shares.
+-- Returns how many were deleted.
+CREATE OR REPLACE FUNCTION public.delete_expired_live_locations()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deleted integer;
+BEGIN
+  DELETE FROM ride_live_locations WHERE expires_at <= now();
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.delete_expired_live_locations() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_expired_live_locations() TO service_role;
+
+CREATE OR REPLACE FUNCTION public.purge_expired_live_locations()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM delete_expired_live_locations();
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER purge_expired_live_locations
+AFTER INSERT OR UPDATE ON public.ride_live_locations
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.purge_expired_live_locations();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ride_live_locations;